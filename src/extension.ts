@@ -1,19 +1,53 @@
 import * as vscode from 'vscode';
 import { ApiMapPanel } from './ui/panels/ApiMapPanel';
+import { GuidePanel } from './ui/panels/GuidePanel';
 import { DatabaseManager } from './storage/database';
-import { ContentManager } from './guide/contentManager';
-import { MapApiManager } from './map/mapApiManager';
+import { ContentManager, GuideFocus } from './guide/contentManager';
+import { MapApiManager, Place } from './map/mapApiManager';
+import { toQuickPickItem } from './map/searchHistory';
+import { SearchRecord } from './storage/repositories/searchRepository';
+import { INDIAN_CITIES } from './map/indianCities';
+import { BoundingBox } from './map/tileMath';
+import { RegionDownloader } from './offline/regionDownloader';
+import { GazetteerImporter } from './offline/gazetteerImporter';
+import { RoadNetworkImporter } from './routing/roadNetworkImporter';
+import { ApiKeyStore } from './providers/apiKeyStore';
+import { SavedPlacesManager } from './places/savedPlacesManager';
+import { SavedPlacesNode, SavedPlacesTreeProvider } from './ui/views/SavedPlacesTreeProvider';
+import { DestinationCatalog } from './places/destinationCatalog';
+import { DestinationsNode, DestinationsTreeProvider } from './ui/views/DestinationsTreeProvider';
+import { RecentSearchNode, RecentSearchesTreeProvider } from './ui/views/RecentSearchesTreeProvider';
+import { ItineraryPlanner, ItineraryOverlay } from './itinerary/itineraryPlanner';
+import { ItineraryPanel } from './ui/panels/ItineraryPanel';
+import { OverlayManager } from './overlays/overlayManager';
+import { TripExporter } from './overlays/tripExporter';
+import { TripEditorProvider } from './ui/editors/TripEditorProvider';
+import { Itinerary } from './itinerary/itinerary';
 
 let statusBarItem: vscode.StatusBarItem;
 let apiManager: MapApiManager;
+let databaseManager: DatabaseManager;
 
 export function activate(context: vscode.ExtensionContext) {
     console.log('India Travel Guide extension is now active!');
 
     // Initialize core components with India focus
-    const databaseManager = new DatabaseManager(context);
+    databaseManager = new DatabaseManager(context);
     const contentManager = new ContentManager(context, databaseManager);
-    apiManager = new MapApiManager(context);
+    const apiKeys = new ApiKeyStore(context.secrets);
+    apiManager = new MapApiManager(context, databaseManager, apiKeys);
+    const regionDownloader = new RegionDownloader(databaseManager, apiManager);
+    const gazetteerImporter = new GazetteerImporter(databaseManager);
+    const roadNetworkImporter = new RoadNetworkImporter(databaseManager, apiManager);
+    const savedPlaces = new SavedPlacesManager(databaseManager);
+    const savedPlacesTree = new SavedPlacesTreeProvider(savedPlaces);
+    const destinationCatalog = new DestinationCatalog(databaseManager, contentManager);
+    const destinationsTree = new DestinationsTreeProvider(destinationCatalog);
+    const recentSearchesTree = new RecentSearchesTreeProvider(apiManager.searchHistory);
+    const itineraryPlanner = new ItineraryPlanner(databaseManager, apiManager);
+    const overlayManager = new OverlayManager(databaseManager);
+    const tripExporter = new TripExporter(databaseManager, itineraryPlanner);
+    const tripEditor = new TripEditorProvider(context, itineraryPlanner, apiManager);
 
     // Create optimized status bar item
     statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
@@ -24,89 +58,88 @@ export function activate(context: vscode.ExtensionContext) {
 
     // Register commands with India focus
     const showMapCommand = vscode.commands.registerCommand('offlineMap.showMap', () => {
-        ApiMapPanel.createOrShow(context, databaseManager, contentManager, apiManager);
+        ApiMapPanel.createOrShow(context, databaseManager, contentManager, apiManager, overlayManager);
     });
 
+    // Opens the map first when needed; a new panel takes a moment before it handles messages
+    const sendToMap = (message: any) => {
+        const wasOpen = !!ApiMapPanel.currentPanel;
+        ApiMapPanel.createOrShow(context, databaseManager, contentManager, apiManager, overlayManager);
+        if (wasOpen) {
+            ApiMapPanel.sendMessageToWebview(message);
+        } else {
+            setTimeout(() => ApiMapPanel.sendMessageToWebview(message), 1000);
+        }
+    };
+
+    // Suggested until the history has enough searches of its own
+    const suggestedSearches = [
+        { label: 'Delhi', description: 'Capital of India' },
+        { label: 'Mumbai', description: 'Financial capital' },
+        { label: 'Bangalore', description: 'Silicon Valley of India' },
+        { label: 'Chennai', description: 'Capital of Tamil Nadu' },
+        { label: 'Kolkata', description: 'Cultural capital' },
+        { label: 'Hyderabad', description: 'City of Pearls' },
+        { label: 'Pune', description: 'Oxford of the East' },
+        { label: 'Jaipur', description: 'Pink City' }
+    ];
+
     const searchLocationCommand = vscode.commands.registerCommand('offlineMap.searchLocation', async () => {
-        const quickPick = vscode.window.createQuickPick();
-        quickPick.placeholder = 'Search Indian locations...';
-        quickPick.items = [
-            { label: 'Delhi', description: 'Capital of India' },
-            { label: 'Mumbai', description: 'Financial capital' },
-            { label: 'Bangalore', description: 'Silicon Valley of India' },
-            { label: 'Chennai', description: 'Capital of Tamil Nadu' },
-            { label: 'Kolkata', description: 'Cultural capital' },
-            { label: 'Hyderabad', description: 'City of Pearls' },
-            { label: 'Pune', description: 'Oxford of the East' },
-            { label: 'Jaipur', description: 'Pink City' }
+        type SearchItem = vscode.QuickPickItem & { query: string; entry?: SearchRecord };
+        const history = await apiManager.searchHistory.getEntries().catch(() => []);
+        const searched = new Set(history.map(entry => entry.query.toLowerCase()));
+        const initialItems: SearchItem[] = [
+            ...history.map(entry => ({ ...toQuickPickItem(entry), query: entry.query, entry })),
+            ...suggestedSearches
+                .filter(suggestion => !searched.has(suggestion.label.toLowerCase()))
+                .slice(0, Math.max(0, suggestedSearches.length - history.length))
+                .map(suggestion => ({ ...suggestion, query: suggestion.label }))
         ];
 
+        const quickPick = vscode.window.createQuickPick<SearchItem>();
+        quickPick.placeholder = 'Search Indian locations...';
+        quickPick.items = initialItems;
+
+        // Rebuilt from the initial items each time, so there is only ever one search item for the typed text
         quickPick.onDidChangeValue(value => {
-            if (value.length > 2) {
-                // Show custom search option
-                quickPick.items = [
-                    ...quickPick.items,
-                    { label: `Search: "${value}"`, description: 'Search all locations', alwaysShow: true }
-                ];
-            }
+            const query = value.trim();
+            quickPick.items = query.length > 2
+                ? [...initialItems, { label: `$(search) Search: "${query}"`, description: 'Search all locations', alwaysShow: true, query }]
+                : initialItems;
         });
 
         quickPick.onDidAccept(async () => {
             const selection = quickPick.selectedItems[0];
-            if (selection) {
-                let query: string;
-                if (selection.label.startsWith('Search:')) {
-                    query = quickPick.value;
-                } else {
-                    query = selection.label;
-                }
+            quickPick.hide();
+            if (!selection) {
+                return;
+            }
 
-                if (query) {
-                    // Use apiManager directly instead of ApiMapPanel.searchLocation
-                    const results = await apiManager.searchLocation(query);
-                    
-                    if (results.length > 0) {
-                        // If map panel is already open, send the location to it
-                        ApiMapPanel.sendMessageToWebview({
-                            command: 'searchResults',
-                            results: results
-                        });
-                        
-                        if (!ApiMapPanel.currentPanel) {
-                            // If no panel is open, create one
-                            ApiMapPanel.createOrShow(context, databaseManager, contentManager, apiManager);
-                            // Wait for panel to initialize then send results again
-                            setTimeout(() => {
-                                ApiMapPanel.sendMessageToWebview({
-                                    command: 'searchResults',
-                                    results: results
-                                });
-                            }, 1000);
-                        }
-                    } else {
-                        vscode.window.showWarningMessage('No locations found for: ' + query);
-                    }
-                }
+            // A search picked before goes straight to the place chosen from it
+            const entry = selection.entry;
+            if (entry?.place) {
+                await apiManager.searchHistory.record(entry.query, entry.resultCount, entry.place);
+                vscode.commands.executeCommand('offlineMap.showPlaceOnMap', entry.place);
+                return;
+            }
+
+            const results = await apiManager.searchLocation(selection.query);
+            if (results.length > 0) {
+                // Recorded once a result is picked on the map
+                sendToMap({ command: 'searchResults', results, query: selection.query });
+            } else {
+                vscode.window.showWarningMessage('No locations found for: ' + selection.query);
             }
-            quickPick.hide();
         });
 
         quickPick.show();
     });
 
     const quickIndianCitiesCommand = vscode.commands.registerCommand('offlineMap.quickIndianCities', async () => {
-        const cities = [
-            { label: 'Delhi', description: '28.6139° N, 77.2090° E' },
-            { label: 'Mumbai', description: '19.0760° N, 72.8777° E' },
-            { label: 'Bangalore', description: '12.9716° N, 77.5946° E' },
-            { label: 'Chennai', description: '13.0827° N, 80.2707° E' },
-            { label: 'Kolkata', description: '22.5726° N, 88.3639° E' },
-            { label: 'Hyderabad', description: '17.3850° N, 78.4867° E' },
-            { label: 'Pune', description: '18.5204° N, 73.8567° E' },
-            { label: 'Ahmedabad', description: '23.0225° N, 72.5714° E' },
-            { label: 'Jaipur', description: '26.9124° N, 75.7873° E' },
-            { label: 'Lucknow', description: '26.8467° N, 80.9462° E' }
-        ];
+        const cities = INDIAN_CITIES.map(city => ({
+            label: city.name,
+            description: `${city.lat.toFixed(4)}° N, ${city.lng.toFixed(4)}° E`
+        }));
 
         const selected = await vscode.window.showQuickPick(cities, {
             placeHolder: 'Select an Indian city to view on map...'
@@ -123,7 +156,7 @@ export function activate(context: vscode.ExtensionContext) {
                 
                 if (!ApiMapPanel.currentPanel) {
                     // If no panel is open, create one
-                    ApiMapPanel.createOrShow(context, databaseManager, contentManager, apiManager);
+                    ApiMapPanel.createOrShow(context, databaseManager, contentManager, apiManager, overlayManager);
                     // Wait for panel to initialize then send results again
                     setTimeout(() => {
                         ApiMapPanel.sendMessageToWebview({
@@ -147,8 +180,234 @@ export function activate(context: vscode.ExtensionContext) {
         });
     });
 
-    const clearCacheCommand = vscode.commands.registerCommand('offlineMap.clearCache', () => {
-        apiManager.clearCache();
+    const downloadRegionCommand = vscode.commands.registerCommand('offlineMap.downloadRegion', (bounds?: BoundingBox) => {
+        return regionDownloader.promptAndDownload(bounds);
+    });
+
+    const resumeRegionDownloadCommand = vscode.commands.registerCommand('offlineMap.resumeRegionDownload', () => {
+        return regionDownloader.pickAndResume();
+    });
+
+    const importGazetteerCommand = vscode.commands.registerCommand('offlineMap.importGazetteer', () => {
+        return gazetteerImporter.promptAndImport();
+    });
+
+    const importRoadNetworkCommand = vscode.commands.registerCommand('offlineMap.importRoadNetwork', () => {
+        return roadNetworkImporter.promptAndImport();
+    });
+
+    const setApiKeyCommand = vscode.commands.registerCommand('offlineMap.setApiKey', () => {
+        return apiKeys.promptAndSet();
+    });
+
+    const rotateApiKeyCommand = vscode.commands.registerCommand('offlineMap.rotateApiKey', () => {
+        return apiKeys.promptAndRotate();
+    });
+
+    const clearApiKeyCommand = vscode.commands.registerCommand('offlineMap.clearApiKey', () => {
+        return apiKeys.promptAndClear();
+    });
+
+    const openGuideCommand = vscode.commands.registerCommand('offlineMap.openGuide', (guideId?: string) => {
+        GuidePanel.createOrShow(contentManager, guideId);
+    });
+
+    const addGuidePacksCommand = vscode.commands.registerCommand('offlineMap.addGuidePacks', () => {
+        return contentManager.promptAndAddPacks();
+    });
+
+    const exportGuidesCommand = vscode.commands.registerCommand('offlineMap.exportGuides', () => {
+        return contentManager.promptAndExport();
+    });
+
+    const importGuidesCommand = vscode.commands.registerCommand('offlineMap.importGuides', () => {
+        return contentManager.promptAndImport();
+    });
+
+    const searchGuidesCommand = vscode.commands.registerCommand('offlineMap.searchGuides', () => {
+        return contentManager.promptAndSearch();
+    });
+
+    // Used by the guide panel and guide search; selects the place on the map as if it had been searched for,
+    // with the part of its guide that led there expanded in the popup
+    const showPlaceOnMapCommand = vscode.commands.registerCommand('offlineMap.showPlaceOnMap', (place: Place, guideFocus?: GuideFocus) => {
+        sendToMap({ command: 'showPlace', place, guideFocus });
+    });
+
+    const planRouteCommand = vscode.commands.registerCommand('offlineMap.planRoute', async () => {
+        const itineraryId = await itineraryPlanner.promptAndOpen();
+        if (itineraryId !== undefined) {
+            ItineraryPanel.createOrShow(itineraryPlanner, itineraryId);
+        }
+    });
+
+    // Used by the itinerary planner; draws every day's stops and legs on the map
+    const showItineraryOnMapCommand = vscode.commands.registerCommand('offlineMap.showItineraryOnMap', (itinerary: ItineraryOverlay) => {
+        sendToMap({ command: 'showItinerary', itinerary });
+    });
+
+    const importOverlayCommand = vscode.commands.registerCommand('offlineMap.importOverlay', async () => {
+        const ids = await overlayManager.promptAndImport();
+        if (ids.length === 0) {
+            return;
+        }
+        sendToMap({ command: 'focusOverlay', id: ids[0] });
+    });
+
+    const exportCommands = [
+        vscode.commands.registerCommand('offlineMap.exportRoute', () => {
+            return tripExporter.promptAndExportRoute(ApiMapPanel.getCurrentRoute());
+        }),
+        // Invoked from the palette, or from the Saved Places tree with the list it was used on
+        vscode.commands.registerCommand('offlineMap.exportSavedPlaces', (node?: SavedPlacesNode) => {
+            return tripExporter.promptAndExportSavedPlaces(node?.kind === 'list' ? node.list : undefined);
+        }),
+        vscode.commands.registerCommand('offlineMap.exportItinerary', (itinerary?: Itinerary) => {
+            return tripExporter.promptAndExportItinerary(itinerary);
+        })
+    ];
+
+    const newTripCommand = vscode.commands.registerCommand('offlineMap.newTrip', () => {
+        return tripEditor.promptAndCreateTrip();
+    });
+
+    // Called from the Save Place action in map popups
+    const savePlaceCommand = vscode.commands.registerCommand('offlineMap.savePlace', (place: Place) => {
+        return savedPlaces.promptAndSave(place);
+    });
+
+    const newSavedListCommand = vscode.commands.registerCommand('offlineMap.newSavedList', () => {
+        return savedPlaces.promptAndCreateList();
+    });
+
+    const revealSavedPlaceCommand = vscode.commands.registerCommand('offlineMap.revealSavedPlace', (node: SavedPlacesNode) => {
+        if (node?.kind === 'place') {
+            vscode.commands.executeCommand('offlineMap.showPlaceOnMap', node.place);
+        }
+    });
+
+    // Tree context menu actions; each receives the node it was invoked on
+    const savedPlaceCommands = [
+        vscode.commands.registerCommand('offlineMap.editSavedPlaceNotes', (node: SavedPlacesNode) => {
+            return node?.kind === 'place' ? savedPlaces.promptAndEditNotes(node.place) : undefined;
+        }),
+        vscode.commands.registerCommand('offlineMap.editSavedPlaceTags', (node: SavedPlacesNode) => {
+            return node?.kind === 'place' ? savedPlaces.promptAndEditTags(node.place) : undefined;
+        }),
+        vscode.commands.registerCommand('offlineMap.moveSavedPlace', (node: SavedPlacesNode) => {
+            return node?.kind === 'place' ? savedPlaces.promptAndMove(node.place) : undefined;
+        }),
+        vscode.commands.registerCommand('offlineMap.removeSavedPlace', (node: SavedPlacesNode) => {
+            return node?.kind === 'place' ? savedPlaces.promptAndRemove(node.place) : undefined;
+        }),
+        vscode.commands.registerCommand('offlineMap.renameSavedList', (node: SavedPlacesNode) => {
+            return node?.kind === 'list' ? savedPlaces.promptAndRenameList(node.list) : undefined;
+        }),
+        vscode.commands.registerCommand('offlineMap.deleteSavedList', (node: SavedPlacesNode) => {
+            return node?.kind === 'list' ? savedPlaces.promptAndDeleteList(node.list) : undefined;
+        }),
+        vscode.commands.registerCommand('offlineMap.optimizeSavedList', async (node: SavedPlacesNode) => {
+            if (node?.kind !== 'list') {
+                return;
+            }
+            const itineraryId = await itineraryPlanner.promptAndOptimizeList(node.list);
+            if (itineraryId !== undefined) {
+                ItineraryPanel.createOrShow(itineraryPlanner, itineraryId);
+            }
+        })
+    ];
+
+    // Sidebar actions; the place actions take a place, or any tree node that carries one
+    const explorerCommands = [
+        vscode.commands.registerCommand('offlineMap.revealDestination', (node: DestinationsNode) => {
+            if (node?.kind === 'destination' && node.guideId && node.sightIndex !== undefined) {
+                const guideFocus: GuideFocus = { guideId: node.guideId, section: 'sights', sightIndex: node.sightIndex };
+                vscode.commands.executeCommand('offlineMap.showPlaceOnMap', node.place, guideFocus);
+            } else if (node?.kind === 'city' || node?.kind === 'destination') {
+                vscode.commands.executeCommand('offlineMap.showPlaceOnMap', node.place);
+            }
+        }),
+        vscode.commands.registerCommand('offlineMap.getDirectionsTo', (target: Place | { place: Place }) => {
+            const place = target && 'place' in target ? target.place : target;
+            if (place) {
+                sendToMap({ command: 'directionsTo', place });
+            }
+        }),
+        vscode.commands.registerCommand('offlineMap.exploreNearby', async (target: Place | { place: Place }) => {
+            const place = target && 'place' in target ? target.place : target;
+            if (!place) {
+                return;
+            }
+            const category = await vscode.window.showQuickPick(
+                apiManager.getPlaceCategories().map(item => ({ label: `${item.icon} ${item.name}`, id: item.id })),
+                { placeHolder: `What to look for near ${place.name}?` }
+            );
+            if (category) {
+                sendToMap({ command: 'exploreNearby', place, category: category.id });
+            }
+        }),
+        vscode.commands.registerCommand('offlineMap.openDestinationGuide', (node: DestinationsNode) => {
+            if ((node?.kind === 'city' || node?.kind === 'destination') && node.guideId) {
+                GuidePanel.createOrShow(contentManager, node.guideId);
+            }
+        }),
+        vscode.commands.registerCommand('offlineMap.refreshDestinations', () => {
+            destinationCatalog.refresh();
+        }),
+        vscode.commands.registerCommand('offlineMap.searchAgain', async (node: RecentSearchNode) => {
+            if (node?.kind !== 'search') {
+                return;
+            }
+            const search = node.search;
+            if (search.place) {
+                await apiManager.searchHistory.record(search.query, search.resultCount, search.place);
+                vscode.commands.executeCommand('offlineMap.showPlaceOnMap', search.place);
+                return;
+            }
+            const results = await apiManager.searchLocation(search.query);
+            if (results.length === 0) {
+                vscode.window.showWarningMessage('No locations found for: ' + search.query);
+                return;
+            }
+            sendToMap({ command: 'searchResults', results, query: search.query });
+        })
+    ];
+
+    // From the Recent Searches view with the entry clicked, or from the palette with a picker
+    const searchHistoryCommands = [
+        vscode.commands.registerCommand('offlineMap.pinSearch', async (node?: RecentSearchNode) => {
+            const entry = node?.search ?? await apiManager.searchHistory.promptForEntry('Choose a search to pin', item => !item.pinned);
+            return entry ? apiManager.searchHistory.setPinned(entry, true) : undefined;
+        }),
+        vscode.commands.registerCommand('offlineMap.unpinSearch', async (node?: RecentSearchNode) => {
+            const entry = node?.search ?? await apiManager.searchHistory.promptForEntry('Choose a search to unpin', item => item.pinned);
+            return entry ? apiManager.searchHistory.setPinned(entry, false) : undefined;
+        }),
+        vscode.commands.registerCommand('offlineMap.removeSearch', async (node?: RecentSearchNode) => {
+            const entry = node?.search ?? await apiManager.searchHistory.promptForEntry('Choose a search to remove from the history');
+            return entry ? apiManager.searchHistory.remove(entry) : undefined;
+        }),
+        vscode.commands.registerCommand('offlineMap.clearSearchHistory', () => {
+            return apiManager.searchHistory.promptAndClear();
+        })
+    ];
+
+    const clearCacheCommand = vscode.commands.registerCommand('offlineMap.clearCache', async () => {
+        const regions = await databaseManager.regionDownloads.findCompleted();
+        const confirmation = await vscode.window.showWarningMessage(
+            'Clear the map cache?',
+            {
+                modal: true,
+                detail: regions.length > 0
+                    ? `This also removes the areas downloaded for offline use: ${regions.map(region => region.name).join(', ')}.`
+                    : 'Map tiles and search results will be downloaded again when needed.'
+            },
+            'Clear Cache'
+        );
+        if (confirmation !== 'Clear Cache') {
+            return;
+        }
+        await apiManager.clearCache();
         vscode.window.showInformationMessage('India map cache cleared successfully');
     });
 
@@ -160,7 +419,7 @@ export function activate(context: vscode.ExtensionContext) {
         );
         
         // Open map and center on approximate location
-        ApiMapPanel.createOrShow(context, databaseManager, contentManager, apiManager);
+        ApiMapPanel.createOrShow(context, databaseManager, contentManager, apiManager, overlayManager);
         
         // Send location to map panel
         setTimeout(() => {
@@ -201,7 +460,7 @@ export function activate(context: vscode.ExtensionContext) {
                 
                 if (!ApiMapPanel.currentPanel) {
                     // If no panel is open, create one
-                    ApiMapPanel.createOrShow(context, databaseManager, contentManager, apiManager);
+                    ApiMapPanel.createOrShow(context, databaseManager, contentManager, apiManager, overlayManager);
                     // Wait for panel to initialize then send results again
                     setTimeout(() => {
                         ApiMapPanel.sendMessageToWebview({
@@ -221,12 +480,55 @@ export function activate(context: vscode.ExtensionContext) {
         searchLocationCommand,
         quickIndianCitiesCommand,
         toggleOfflineCommand,
+        downloadRegionCommand,
+        resumeRegionDownloadCommand,
+        importGazetteerCommand,
+        importRoadNetworkCommand,
+        setApiKeyCommand,
+        rotateApiKeyCommand,
+        clearApiKeyCommand,
+        openGuideCommand,
+        addGuidePacksCommand,
+        exportGuidesCommand,
+        importGuidesCommand,
+        searchGuidesCommand,
+        showPlaceOnMapCommand,
+        planRouteCommand,
+        showItineraryOnMapCommand,
+        itineraryPlanner,
+        importOverlayCommand,
+        overlayManager,
+        ...exportCommands,
+        newTripCommand,
+        // The map keeps its tiles and view while the editor tab is in the background
+        vscode.window.registerCustomEditorProvider(TripEditorProvider.viewType, tripEditor, {
+            webviewOptions: { retainContextWhenHidden: true }
+        }),
+        savePlaceCommand,
+        newSavedListCommand,
+        revealSavedPlaceCommand,
+        ...savedPlaceCommands,
+        vscode.window.registerTreeDataProvider('offlineMap.savedPlaces', savedPlacesTree),
+        savedPlacesTree,
+        savedPlaces,
+        ...explorerCommands,
+        vscode.window.registerTreeDataProvider('offlineMap.destinations', destinationsTree),
+        destinationsTree,
+        destinationCatalog,
+        vscode.window.registerTreeDataProvider('offlineMap.recentSearches', recentSearchesTree),
+        recentSearchesTree,
+        ...searchHistoryCommands,
         clearCacheCommand,
         showCurrentLocationCommand,
         popularDestinationsCommand,
-        statusBarItem
+        statusBarItem,
+        apiKeys,
+        contentManager
     );
 
+    // Independent of the database, so keys are ready by the time the map asks for tiles
+    apiKeys.initialize().catch(error => console.error('Failed to load API keys:', error));
+
     // Initialize components with progress indication
     vscode.window.withProgress({
         location: vscode.ProgressLocation.Notification,
@@ -235,11 +537,19 @@ export function activate(context: vscode.ExtensionContext) {
     }, async (progress) => {
         progress.report({ increment: 0 });
         
-        await databaseManager.initialize();
+        try {
+            await databaseManager.initialize();
+        } catch (error) {
+            vscode.window.showErrorMessage(`India Travel Guide could not open its database: ${error instanceof Error ? error.message : error}`);
+            return;
+        }
         progress.report({ increment: 50 });
         
-        contentManager.initialize();
+        await contentManager.initialize().catch(error => console.error('Failed to install guide packs:', error));
         progress.report({ increment: 100 });
+
+        // Offer to pick up downloads interrupted by the last shutdown
+        regionDownloader.offerResume();
         
         // Pre-load common Indian locations
         setTimeout(() => {
@@ -310,9 +620,13 @@ export function deactivate() {
         statusBarItem.dispose();
     }
     
-    // Clear any ongoing API requests
+    // Flush pending cache writes so searches survive the reload
     if (apiManager) {
-        apiManager.clearCache();
+        apiManager.dispose();
+    }
+
+    if (databaseManager) {
+        databaseManager.close();
     }
     
     console.log('India Travel Guide extension has been deactivated');
@@ -1,12 +1,465 @@
 import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DatabaseManager } from '../storage/database';
+import { GuideNote, GuideSearchMatch, GuideSearchSection, StoredGuidePack } from '../storage/repositories/guideRepository';
+import { GuidePack, GuideSight, isGuidePackFile, parseGuidePack } from './guidePack';
+import { GUIDE_ARCHIVE_EXTENSION, GuideArchive, readGuideArchive, writeGuideArchive } from './guideArchive';
+import { distanceMeters } from '../routing/geometry';
+
+// Packs shipped with the extension, one destination per file
+const BUNDLED_GUIDES_DIR = 'guides';
+// A sight this close to a looked-up point is taken as the place itself
+const SIGHT_MATCH_METERS = 500;
+const SEARCH_RESULT_LIMIT = 30;
+const SEARCH_DEBOUNCE_MS = 150;
+
+export interface GuideMatch {
+    pack: StoredGuidePack;
+    sight?: GuideSight;
+    // The part of the guide to show expanded, when the guide was reached from a search
+    section?: GuideSearchSection;
+}
+
+// Identifies the guide text a search result came from, so the map can open on it
+export interface GuideFocus {
+    guideId: string;
+    section: GuideSearchSection;
+    sightIndex?: number;
+}
+
+// What importing one pack or note would do to the local copy
+type ImportAction = 'added' | 'updated' | 'unchanged' | 'conflict';
+
+interface ImportItem {
+    label: string;
+    action: ImportAction;
+    apply: () => Promise<void>;
+    // Why the archive copy cannot simply replace the local one
+    conflict?: string;
+}
 
 export class ContentManager {
+    private changeEmitter = new vscode.EventEmitter<void>();
+
+    public readonly onDidChange = this.changeEmitter.event;
+
     constructor(
         private context: vscode.ExtensionContext,
-        private databaseManager: any
+        private databaseManager: DatabaseManager
     ) {}
 
-    public initialize(): void {
-        console.log('Content manager initialized');
+    public async initialize(): Promise<void> {
+        const updated = await this.installBundledPacks();
+        console.log(`Content manager initialized, ${updated} guide pack(s) installed or updated`);
+    }
+
+    public getGuides(): Promise<StoredGuidePack[]> {
+        return this.databaseManager.guides.findAll();
+    }
+
+    public getGuide(id: string): Promise<StoredGuidePack | undefined> {
+        return this.databaseManager.guides.findById(id);
+    }
+
+    // The guide for whatever is at a point: a sight it describes, or else the destination around it
+    public async findGuideFor(lat: number, lng: number): Promise<GuideMatch | undefined> {
+        const packs = await this.databaseManager.guides.findCovering(lat, lng);
+        let best: (GuideMatch & { distance: number }) | undefined;
+        for (const pack of packs) {
+            for (const sight of pack.sights) {
+                if (sight.lat === undefined || sight.lng === undefined) {
+                    continue;
+                }
+                const distance = distanceMeters(lat, lng, sight.lat, sight.lng);
+                if (distance <= SIGHT_MATCH_METERS && (!best || distance < best.distance)) {
+                    best = { pack, sight, distance };
+                }
+            }
+        }
+        if (best) {
+            return { pack: best.pack, sight: best.sight };
+        }
+        return packs.length > 0 ? { pack: packs[0] } : undefined;
+    }
+
+    public async getFocusedGuide(focus: GuideFocus): Promise<GuideMatch | undefined> {
+        const pack = await this.getGuide(focus.guideId);
+        if (!pack) {
+            return undefined;
+        }
+        const sight = focus.section === 'sights' && focus.sightIndex !== undefined ? pack.sights[focus.sightIndex] : undefined;
+        return { pack, sight, section: focus.section };
+    }
+
+    // Every word must appear, the last as a prefix so results update while typing
+    public searchGuides(query: string, limit: number = SEARCH_RESULT_LIMIT): Promise<GuideSearchMatch[]> {
+        const tokens = query
+            .normalize('NFD')
+            .replace(/[\u0300-\u036f]/g, '')
+            .toLowerCase()
+            .replace(/[^\p{L}\p{M}\p{N}]+/gu, ' ')
+            .trim()
+            .split(' ')
+            .filter(Boolean);
+        if (tokens.length === 0) {
+            return Promise.resolve([]);
+        }
+        return this.databaseManager.guides.search(tokens.map(token => `"${token}"*`).join(' '), limit);
+    }
+
+    public promptAndSearch(): Promise<void> {
+        type SearchItem = vscode.QuickPickItem & { match?: GuideSearchMatch };
+        const quickPick = vscode.window.createQuickPick<SearchItem>();
+        quickPick.placeholder = 'Search guides for sights, food, history, tips...';
+        quickPick.matchOnDescription = true;
+        quickPick.matchOnDetail = true;
+
+        let searchTimer: NodeJS.Timeout | undefined;
+        let latestQuery = '';
+        quickPick.onDidChangeValue(value => {
+            latestQuery = value;
+            if (searchTimer) {
+                clearTimeout(searchTimer);
+            }
+            searchTimer = setTimeout(async () => {
+                quickPick.busy = true;
+                const matches = await this.searchGuides(value).catch(error => {
+                    console.error('Guide search failed:', error);
+                    return [];
+                });
+                // A later keystroke has started its own search
+                if (value !== latestQuery) {
+                    return;
+                }
+                quickPick.busy = false;
+                quickPick.items = matches.length > 0
+                    ? matches.map(match => ({
+                        label: match.section === 'sights' ? `$(location) ${match.heading}` : `$(book) ${match.heading}`,
+                        description: [match.guideName, match.region].filter(Boolean).join(', '),
+                        detail: match.snippet.replace(/\s+/g, ' '),
+                        // Results are already ranked by the index; the QuickPick's own filter must not hide them
+                        alwaysShow: true,
+                        match
+                    }))
+                    : value.trim() ? [{ label: `No guide text matches "${value.trim()}"`, alwaysShow: true }] : [];
+            }, SEARCH_DEBOUNCE_MS);
+        });
+
+        return new Promise(resolve => {
+            quickPick.onDidAccept(async () => {
+                const match = quickPick.selectedItems[0]?.match;
+                quickPick.hide();
+                if (match) {
+                    await this.showSearchMatch(match);
+                }
+            });
+            quickPick.onDidHide(() => {
+                if (searchTimer) {
+                    clearTimeout(searchTimer);
+                }
+                quickPick.dispose();
+                resolve();
+            });
+            quickPick.show();
+        });
+    }
+
+    public async getNote(guideId: string): Promise<string> {
+        return (await this.databaseManager.guides.findNote(guideId))?.text ?? '';
+    }
+
+    public async saveNote(guideId: string, text: string): Promise<void> {
+        await this.databaseManager.guides.saveNote(guideId, text);
+        this.changeEmitter.fire();
+    }
+
+    public async promptAndExport(): Promise<void> {
+        const guides = await this.getGuides();
+        if (guides.length === 0) {
+            vscode.window.showInformationMessage('No guide packs are installed to export.');
+            return;
+        }
+        const notes = new Map((await this.databaseManager.guides.findNotes()).map(note => [note.guideId, note]));
+
+        const picked = await vscode.window.showQuickPick(
+            guides.map(guide => ({
+                label: guide.name,
+                description: `v${guide.version}${notes.has(guide.id) ? ' • has notes' : ''}`,
+                detail: guide.region,
+                picked: true,
+                guide
+            })),
+            { canPickMany: true, placeHolder: 'Choose the guide packs to export' }
+        );
+        if (!picked || picked.length === 0) {
+            return;
+        }
+
+        const packs = picked.map(item => item.guide);
+        let exportedNotes = packs.map(pack => notes.get(pack.id)).filter((note): note is GuideNote => !!note);
+        if (exportedNotes.length > 0) {
+            const choice = await vscode.window.showQuickPick(
+                [
+                    { label: 'Include my notes', include: true },
+                    { label: 'Guide packs only', include: false }
+                ],
+                { placeHolder: `${exportedNotes.length} of the chosen guides have your notes` }
+            );
+            if (!choice) {
+                return;
+            }
+            if (!choice.include) {
+                exportedNotes = [];
+            }
+        }
+
+        const defaultName = packs.length === 1 ? packs[0].id : 'guides';
+        const target = await vscode.window.showSaveDialog({
+            defaultUri: vscode.Uri.file(path.join(this.defaultArchiveFolder(), `${defaultName}.${GUIDE_ARCHIVE_EXTENSION}`)),
+            saveLabel: 'Export Guides',
+            filters: { 'Guide archives': [GUIDE_ARCHIVE_EXTENSION] }
+        });
+        if (!target) {
+            return;
+        }
+
+        try {
+            await fs.promises.writeFile(target.fsPath, writeGuideArchive(packs, exportedNotes));
+            vscode.window.showInformationMessage(
+                `Exported ${packs.length} guide pack(s)${exportedNotes.length > 0 ? ` and ${exportedNotes.length} note(s)` : ''} to ${path.basename(target.fsPath)}.`
+            );
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to export guides: ${error instanceof Error ? error.message : error}`);
+        }
     }
-}
\ No newline at end of file
+
+    public async promptAndImport(): Promise<void> {
+        const files = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            openLabel: 'Import Guides',
+            filters: { 'Guide archives': [GUIDE_ARCHIVE_EXTENSION, 'json', 'gz'] }
+        });
+        if (!files || files.length === 0) {
+            return;
+        }
+
+        const fileName = path.basename(files[0].fsPath);
+        let archive: GuideArchive;
+        try {
+            archive = readGuideArchive(await fs.promises.readFile(files[0].fsPath), fileName);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Could not import guides: ${error instanceof Error ? error.message : error}`);
+            return;
+        }
+
+        const items = [
+            ...await Promise.all(archive.packs.map(pack => this.classifyPack(pack))),
+            ...await Promise.all(archive.notes.map(note => this.classifyNote(note, archive.packs)))
+        ];
+
+        const conflicts = items.filter(item => item.action === 'conflict');
+        let replaced = new Set<ImportItem>();
+        if (conflicts.length > 0) {
+            const picked = await vscode.window.showQuickPick(
+                conflicts.map(item => ({ label: item.label, detail: item.conflict, item })),
+                {
+                    canPickMany: true,
+                    placeHolder: `${conflicts.length} item(s) differ from your copy. Check the ones to replace with the archive's version; the rest are kept.`
+                }
+            );
+            if (!picked) {
+                return;
+            }
+            replaced = new Set(picked.map(entry => entry.item));
+        }
+
+        const applied = items.filter(item => item.action === 'added' || item.action === 'updated' || replaced.has(item));
+        const failed: string[] = [];
+        for (const item of applied) {
+            try {
+                await item.apply();
+            } catch (error) {
+                failed.push(`${item.label}: ${error instanceof Error ? error.message : error}`);
+            }
+        }
+        if (applied.length > failed.length) {
+            this.changeEmitter.fire();
+        }
+
+        const count = (action: ImportAction) => items.filter(item => item.action === action).length;
+        const summary = [
+            `${count('added')} added`,
+            `${count('updated')} updated`,
+            `${replaced.size} replaced`,
+            `${conflicts.length - replaced.size} kept`,
+            `${count('unchanged')} unchanged`
+        ];
+        const lines = [
+            ...items.filter(item => item.action !== 'unchanged').map(item => {
+                const outcome = item.action === 'conflict' ? (replaced.has(item) ? 'replaced' : 'kept local copy') : item.action;
+                return `${item.label}: ${outcome}`;
+            }),
+            ...archive.invalid.map(message => `Skipped invalid ${message}`),
+            ...failed.map(message => `Failed ${message}`)
+        ];
+        const message = `Imported ${fileName}: ${summary.join(', ')}.`;
+        const detail = lines.length > 0 ? lines.join('\n') : 'Everything in the archive is already installed.';
+        if (failed.length > 0 || archive.invalid.length > 0) {
+            vscode.window.showWarningMessage(message, { modal: true, detail });
+        } else {
+            vscode.window.showInformationMessage(message, { modal: true, detail });
+        }
+    }
+
+    public async promptAndAddPacks(): Promise<void> {
+        const files = await vscode.window.showOpenDialog({
+            canSelectMany: true,
+            openLabel: 'Add Guide Packs',
+            filters: { 'Guide packs': ['json', 'md', 'markdown'] }
+        });
+        if (!files || files.length === 0) {
+            return;
+        }
+
+        const added: StoredGuidePack[] = [];
+        const skipped: string[] = [];
+        const failed: string[] = [];
+        for (const file of files) {
+            try {
+                const pack = parseGuidePack(await fs.promises.readFile(file.fsPath, 'utf8'), path.basename(file.fsPath));
+                const installed = await this.databaseManager.guides.findById(pack.id);
+                if (installed && installed.version >= pack.version) {
+                    skipped.push(`${pack.name} (version ${installed.version} is already installed)`);
+                    continue;
+                }
+                await this.databaseManager.guides.save(pack, 'file');
+                added.push((await this.databaseManager.guides.findById(pack.id))!);
+            } catch (error) {
+                failed.push(error instanceof Error ? error.message : String(error));
+            }
+        }
+
+        if (added.length > 0) {
+            this.changeEmitter.fire();
+        }
+        if (failed.length > 0) {
+            vscode.window.showErrorMessage(`Could not add ${failed.length} guide pack(s): ${failed.join('; ')}`);
+        }
+        if (added.length === 0) {
+            if (skipped.length > 0) {
+                vscode.window.showInformationMessage(`No guide packs added; ${skipped.join(', ')}.`);
+            }
+            return;
+        }
+
+        const summary = added.map(pack => `${pack.name} v${pack.version}`).join(', ');
+        const choice = await vscode.window.showInformationMessage(
+            `Added ${summary}.${skipped.length > 0 ? ` Skipped ${skipped.join(', ')}.` : ''}`,
+            'Open Guide'
+        );
+        if (choice === 'Open Guide') {
+            vscode.commands.executeCommand('offlineMap.openGuide', added[0].id);
+        }
+    }
+
+    public dispose(): void {
+        this.changeEmitter.dispose();
+    }
+
+    private async showSearchMatch(match: GuideSearchMatch): Promise<void> {
+        const focus: GuideFocus = { guideId: match.guideId, section: match.section, sightIndex: match.sightIndex };
+        const found = await this.getFocusedGuide(focus);
+        if (!found) {
+            return;
+        }
+        const { pack, sight } = found;
+        // Sights without a location open on the destination instead
+        const place = sight && sight.lat !== undefined && sight.lng !== undefined
+            ? { name: `${sight.name}, ${pack.name}`, lat: sight.lat, lng: sight.lng, type: 'attraction', description: `Sight • ${pack.name}` }
+            : { name: pack.name, lat: pack.lat, lng: pack.lng, type: 'city', description: pack.region || '' };
+        await vscode.commands.executeCommand('offlineMap.showPlaceOnMap', place, focus);
+    }
+
+    private async classifyPack(pack: GuidePack): Promise<ImportItem> {
+        const label = `${pack.name} v${pack.version}`;
+        const apply = () => this.databaseManager.guides.save(pack, 'archive');
+        const installed = await this.databaseManager.guides.findById(pack.id);
+        if (!installed) {
+            return { label, action: 'added', apply };
+        }
+        if (pack.version > installed.version) {
+            return { label, action: 'updated', apply };
+        }
+        if (pack.version === installed.version && packContent(pack) === packContent(installed)) {
+            return { label, action: 'unchanged', apply };
+        }
+        return {
+            label,
+            action: 'conflict',
+            apply,
+            conflict: pack.version < installed.version
+                ? `Older than your installed version ${installed.version}`
+                : 'Same version as yours but with different content'
+        };
+    }
+
+    private async classifyNote(note: GuideNote, packs: GuidePack[]): Promise<ImportItem> {
+        const guideName = packs.find(pack => pack.id === note.guideId)?.name
+            ?? (await this.getGuide(note.guideId))?.name
+            ?? note.guideId;
+        const label = `Notes for ${guideName}`;
+        const apply = () => this.databaseManager.guides.saveNote(note.guideId, note.text, note.updatedAt);
+        const local = await this.databaseManager.guides.findNote(note.guideId);
+        if (!local) {
+            return { label, action: 'added', apply };
+        }
+        if (local.text.trim() === note.text.trim()) {
+            return { label, action: 'unchanged', apply };
+        }
+        return {
+            label,
+            action: 'conflict',
+            apply,
+            conflict: `Yours were edited ${new Date(local.updatedAt).toLocaleString()}, the archive's ${new Date(note.updatedAt).toLocaleString()}`
+        };
+    }
+
+    private defaultArchiveFolder(): string {
+        return vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? os.homedir();
+    }
+
+    // Installs shipped packs that are new or newer than the installed copy; never downgrades a pack the user added
+    private async installBundledPacks(): Promise<number> {
+        const guidesDir = path.join(this.context.extensionUri.fsPath, BUNDLED_GUIDES_DIR);
+        if (!fs.existsSync(guidesDir)) {
+            return 0;
+        }
+
+        const installedVersions = await this.databaseManager.guides.versions();
+        let updated = 0;
+        for (const fileName of fs.readdirSync(guidesDir).filter(isGuidePackFile)) {
+            try {
+                const pack = parseGuidePack(await fs.promises.readFile(path.join(guidesDir, fileName), 'utf8'), fileName);
+                if ((installedVersions.get(pack.id) ?? 0) >= pack.version) {
+                    continue;
+                }
+                await this.databaseManager.guides.save(pack, 'bundled');
+                updated++;
+            } catch (error) {
+                console.error('Skipping bundled guide pack:', error);
+            }
+        }
+
+        if (updated > 0) {
+            this.changeEmitter.fire();
+        }
+        return updated;
+    }
+}
+
+// Everything an import compares; installedAt and source differ between machines and are ignored
+function packContent(pack: GuidePack): string {
+    return JSON.stringify([pack.name, pack.region, pack.lat, pack.lng, pack.radiusKm, pack.sections, pack.sights]);
+}
@@ -0,0 +1,103 @@
+import * as zlib from 'zlib';
+import { GuidePack, GuidePackError, validateGuidePack } from './guidePack';
+import { GuideNote } from '../storage/repositories/guideRepository';
+
+export const GUIDE_ARCHIVE_EXTENSION = 'travelguide';
+
+const ARCHIVE_FORMAT = 'offline-map-guide-archive';
+// Bump when the layout changes in a way older versions cannot read
+const ARCHIVE_FORMAT_VERSION = 1;
+const GZIP_MAGIC = [0x1f, 0x8b];
+
+export interface GuideArchive {
+    exportedAt: number;
+    packs: GuidePack[];
+    notes: GuideNote[];
+    // Packs that failed validation, described for the import report
+    invalid: string[];
+}
+
+// A gzipped JSON document so archives stay small and can still be inspected with standard tools
+export function writeGuideArchive(packs: GuidePack[], notes: GuideNote[]): Buffer {
+    const document = {
+        format: ARCHIVE_FORMAT,
+        formatVersion: ARCHIVE_FORMAT_VERSION,
+        exportedAt: Date.now(),
+        packs: packs.map(pack => ({
+            id: pack.id,
+            version: pack.version,
+            name: pack.name,
+            region: pack.region,
+            lat: pack.lat,
+            lng: pack.lng,
+            radiusKm: pack.radiusKm,
+            ...pack.sections,
+            sights: pack.sights
+        })),
+        notes: notes.map(note => ({ guideId: note.guideId, text: note.text, updatedAt: note.updatedAt }))
+    };
+    return zlib.gzipSync(Buffer.from(JSON.stringify(document, null, 2), 'utf8'));
+}
+
+// Rejects the whole file if it is not an archive this version understands; individual bad packs are skipped
+export function readGuideArchive(data: Buffer, fileName: string): GuideArchive {
+    let document: any;
+    try {
+        const isGzip = data.length > 2 && data[0] === GZIP_MAGIC[0] && data[1] === GZIP_MAGIC[1];
+        document = JSON.parse((isGzip ? zlib.gunzipSync(data) : data).toString('utf8'));
+    } catch (error) {
+        throw new GuidePackError(fileName, `not a guide archive (${error instanceof Error ? error.message : error})`);
+    }
+
+    if (!document || typeof document !== 'object' || document.format !== ARCHIVE_FORMAT) {
+        throw new GuidePackError(fileName, 'not a guide archive');
+    }
+    if (!Number.isInteger(document.formatVersion) || document.formatVersion < 1) {
+        throw new GuidePackError(fileName, 'archive has no valid formatVersion');
+    }
+    if (document.formatVersion > ARCHIVE_FORMAT_VERSION) {
+        throw new GuidePackError(fileName, `archive format ${document.formatVersion} is newer than this extension supports; update the extension`);
+    }
+    if (!Array.isArray(document.packs)) {
+        throw new GuidePackError(fileName, '"packs" must be a list');
+    }
+    if (document.notes !== undefined && !Array.isArray(document.notes)) {
+        throw new GuidePackError(fileName, '"notes" must be a list');
+    }
+
+    const packs: GuidePack[] = [];
+    const invalid: string[] = [];
+    const seen = new Set<string>();
+    document.packs.forEach((raw: unknown, index: number) => {
+        try {
+            const pack = validateGuidePack(raw, `pack ${index + 1}`);
+            if (seen.has(pack.id)) {
+                throw new GuidePackError(`pack ${index + 1}`, `duplicate id "${pack.id}"`);
+            }
+            seen.add(pack.id);
+            packs.push(pack);
+        } catch (error) {
+            invalid.push(error instanceof Error ? error.message : String(error));
+        }
+    });
+
+    const notes: GuideNote[] = [];
+    ((document.notes || []) as any[]).forEach((raw, index) => {
+        if (!raw || typeof raw.guideId !== 'string' || typeof raw.text !== 'string' || !raw.text.trim()) {
+            invalid.push(`note ${index + 1}: needs a "guideId" and non-empty "text"`);
+            return;
+        }
+        notes.push({
+            guideId: raw.guideId,
+            text: raw.text,
+            updatedAt: Number.isFinite(raw.updatedAt) ? raw.updatedAt : Date.now()
+        });
+    });
+
+    return {
+        exportedAt: Number.isFinite(document.exportedAt) ? document.exportedAt : 0,
+        packs,
+        notes,
+        invalid
+    };
+}
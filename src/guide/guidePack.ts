@@ -0,0 +1,264 @@
+import * as path from 'path';
+
+export interface GuideSight {
+    name: string;
+    description?: string;
+    lat?: number;
+    lng?: number;
+    entryFee?: string;
+    timings?: string;
+}
+
+// Free text; a blank line separates paragraphs and lines starting with "- " form lists
+export interface GuideSections {
+    overview?: string;
+    history?: string;
+    bestSeason?: string;
+    food?: string;
+    etiquette?: string;
+    tips?: string;
+}
+
+export interface GuidePack {
+    // Stable across versions; a pack with the same id and a higher version replaces the installed one
+    id: string;
+    version: number;
+    name: string;
+    region?: string;
+    lat: number;
+    lng: number;
+    // Places within this distance of the centre show this guide
+    radiusKm: number;
+    sections: GuideSections;
+    sights: GuideSight[];
+}
+
+export class GuidePackError extends Error {
+    constructor(public readonly fileName: string, message: string) {
+        super(`${fileName}: ${message}`);
+    }
+}
+
+export const GUIDE_SECTION_TITLES: { [key in keyof GuideSections]-?: string } = {
+    overview: 'Overview',
+    history: 'History',
+    bestSeason: 'Best season',
+    food: 'Local food',
+    etiquette: 'Etiquette',
+    tips: 'Tips'
+};
+
+const DEFAULT_RADIUS_KM = 20;
+const MAX_RADIUS_KM = 200;
+const PACK_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,63}$/;
+
+// Markdown headings accepted for each section, compared lowercase
+const SECTION_HEADINGS: { [heading: string]: keyof GuideSections | 'sights' } = {
+    'overview': 'overview', 'about': 'overview',
+    'history': 'history',
+    'best season': 'bestSeason', 'best time to visit': 'bestSeason', 'when to go': 'bestSeason',
+    'local food': 'food', 'food': 'food', 'food and drink': 'food',
+    'etiquette': 'etiquette', 'local etiquette': 'etiquette', 'customs': 'etiquette',
+    'tips': 'tips', 'practical tips': 'tips',
+    'sights': 'sights', 'top sights': 'sights', 'what to see': 'sights'
+};
+
+// "- Entry fee: ..." style lines inside a Markdown sight
+const SIGHT_FIELDS: { [label: string]: 'location' | 'entryFee' | 'timings' } = {
+    'location': 'location', 'coordinates': 'location',
+    'entry fee': 'entryFee', 'entry fees': 'entryFee', 'fee': 'entryFee', 'fees': 'entryFee', 'tickets': 'entryFee',
+    'timings': 'timings', 'hours': 'timings', 'opening hours': 'timings'
+};
+
+export function isGuidePackFile(fileName: string): boolean {
+    return ['.json', '.md', '.markdown'].includes(path.extname(fileName).toLowerCase());
+}
+
+// Reads a pack from either format and checks it, so nothing half-valid reaches the database
+export function parseGuidePack(text: string, fileName: string): GuidePack {
+    const extension = path.extname(fileName).toLowerCase();
+    let raw: any;
+    if (extension === '.json') {
+        try {
+            raw = JSON.parse(text);
+        } catch (error) {
+            throw new GuidePackError(fileName, `not valid JSON (${error instanceof Error ? error.message : error})`);
+        }
+    } else if (extension === '.md' || extension === '.markdown') {
+        raw = parseMarkdownPack(text, fileName);
+    } else {
+        throw new GuidePackError(fileName, 'guide packs must be .json or .md files');
+    }
+    return validateGuidePack(raw, fileName);
+}
+
+export function validateGuidePack(raw: any, fileName: string): GuidePack {
+    const fail = (message: string): never => {
+        throw new GuidePackError(fileName, message);
+    };
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        fail('expected an object describing one destination');
+    }
+
+    const id = String(raw.id ?? '').trim();
+    if (!PACK_ID_PATTERN.test(id)) {
+        fail('"id" must be lowercase letters, digits and dashes, like "jaipur" or "goa-north"');
+    }
+    const version = Number(raw.version);
+    if (!Number.isInteger(version) || version < 1) {
+        fail('"version" must be a whole number of at least 1');
+    }
+    const name = String(raw.name ?? '').trim();
+    if (!name) {
+        fail('"name" is required');
+    }
+    const lat = Number(raw.lat);
+    const lng = Number(raw.lng);
+    if (!isLatitude(lat) || !isLongitude(lng)) {
+        fail('"lat" and "lng" must give the centre of the destination');
+    }
+    const radiusKm = raw.radiusKm === undefined ? DEFAULT_RADIUS_KM : Number(raw.radiusKm);
+    if (!(radiusKm > 0 && radiusKm <= MAX_RADIUS_KM)) {
+        fail(`"radiusKm" must be between 0 and ${MAX_RADIUS_KM}`);
+    }
+
+    const sections: GuideSections = {};
+    for (const key of Object.keys(GUIDE_SECTION_TITLES) as (keyof GuideSections)[]) {
+        // JSON packs may also write a section as a list of strings
+        const value = Array.isArray(raw[key]) ? raw[key].map((item: unknown) => `- ${item}`).join('\n') : raw[key];
+        if (value !== undefined && typeof value !== 'string') {
+            fail(`"${key}" must be text`);
+        }
+        if (value && value.trim()) {
+            sections[key] = value.trim();
+        }
+    }
+
+    if (raw.sights !== undefined && !Array.isArray(raw.sights)) {
+        fail('"sights" must be a list');
+    }
+    const sights = (raw.sights || []).map((sight: any, index: number) => validateSight(sight, index, fail));
+
+    return {
+        id,
+        version,
+        name,
+        region: raw.region ? String(raw.region).trim() : undefined,
+        lat,
+        lng,
+        radiusKm,
+        sections,
+        sights
+    };
+}
+
+function validateSight(raw: any, index: number, fail: (message: string) => never): GuideSight {
+    const name = String(raw?.name ?? '').trim();
+    if (!name) {
+        fail(`sight ${index + 1} needs a "name"`);
+    }
+    const hasLocation = raw.lat !== undefined || raw.lng !== undefined;
+    if (hasLocation && (!isLatitude(Number(raw.lat)) || !isLongitude(Number(raw.lng)))) {
+        fail(`sight "${name}" has an invalid location`);
+    }
+    return {
+        name,
+        description: optionalText(raw.description),
+        lat: hasLocation ? Number(raw.lat) : undefined,
+        lng: hasLocation ? Number(raw.lng) : undefined,
+        entryFee: optionalText(raw.entryFee),
+        timings: optionalText(raw.timings)
+    };
+}
+
+// Frontmatter holds the pack fields; "## Heading" sections hold the text and "### Name" entries under Sights the sights
+function parseMarkdownPack(text: string, fileName: string): any {
+    const match = /^\uFEFF?---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/.exec(text);
+    if (!match) {
+        throw new GuidePackError(fileName, 'Markdown packs must start with a --- frontmatter block');
+    }
+
+    const raw: any = parseFrontmatter(match[1]);
+    let section: keyof GuideSections | 'sights' = 'overview';
+    let sight: any;
+    const lines: { [key: string]: string[] } = {};
+
+    for (const line of match[2].split(/\r?\n/)) {
+        const heading = /^(#{1,3})\s+(.*?)\s*#*\s*$/.exec(line);
+        if (heading && heading[1].length === 1) {
+            // The title; the name comes from the frontmatter
+            continue;
+        }
+        if (heading && heading[1].length === 2) {
+            const key = SECTION_HEADINGS[heading[2].toLowerCase()];
+            if (!key) {
+                throw new GuidePackError(
+                    fileName,
+                    `unknown section "${heading[2]}"; use ${Object.values(GUIDE_SECTION_TITLES).join(', ')} or Sights`
+                );
+            }
+            section = key;
+            sight = undefined;
+            continue;
+        }
+
+        if (section === 'sights') {
+            if (heading) {
+                sight = { name: heading[2], description: [] };
+                raw.sights = [...(raw.sights || []), sight];
+            } else if (sight) {
+                addSightLine(sight, line);
+            }
+            continue;
+        }
+        (lines[section] = lines[section] || []).push(line);
+    }
+
+    for (const key of Object.keys(lines)) {
+        raw[key] = lines[key].join('\n');
+    }
+    for (const entry of raw.sights || []) {
+        entry.description = entry.description.join('\n').trim() || undefined;
+    }
+    return raw;
+}
+
+function parseFrontmatter(block: string): { [key: string]: string } {
+    const fields: { [key: string]: string } = {};
+    for (const line of block.split(/\r?\n/)) {
+        const field = /^\s*([A-Za-z][\w-]*)\s*:\s*(.*?)\s*$/.exec(line);
+        if (field) {
+            fields[field[1]] = field[2].replace(/^(["'])(.*)\1$/, '$2');
+        }
+    }
+    return fields;
+}
+
+function addSightLine(sight: any, line: string): void {
+    const field = /^\s*[-*]\s*([^:]+):\s*(.+)$/.exec(line);
+    const kind = field && SIGHT_FIELDS[field[1].trim().toLowerCase()];
+    if (!field || !kind) {
+        sight.description.push(line);
+        return;
+    }
+
+    if (kind === 'location') {
+        const [lat, lng] = field[2].split(',').map(part => part.trim());
+        sight.lat = lat;
+        sight.lng = lng;
+    } else {
+        sight[kind] = field[2].trim();
+    }
+}
+
+function optionalText(value: unknown): string | undefined {
+    return value === undefined || value === null || String(value).trim() === '' ? undefined : String(value).trim();
+}
+
+function isLatitude(value: number): boolean {
+    return Number.isFinite(value) && value >= -90 && value <= 90;
+}
+
+function isLongitude(value: number): boolean {
+    return Number.isFinite(value) && value >= -180 && value <= 180;
+}
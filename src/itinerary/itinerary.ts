@@ -0,0 +1,89 @@
+import { TravelMode } from '../routing/travelProfiles';
+import { LngLat } from '../routing/geometry';
+
+export interface ItineraryStop {
+    name: string;
+    lat: number;
+    lng: number;
+    // Time planned at the stop itself, not counting travel to it
+    visitMinutes: number;
+}
+
+export interface ItineraryDay {
+    stops: ItineraryStop[];
+}
+
+export interface ItineraryPlan {
+    mode: TravelMode;
+    // Local time the first stop of each day is reached, as HH:MM
+    dayStart: string;
+    // Travel and visits beyond this make a day overbooked
+    dayHours: number;
+    days: ItineraryDay[];
+}
+
+export interface Itinerary extends ItineraryPlan {
+    id: number;
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+}
+
+export interface ScheduledLeg {
+    distanceMeters: number;
+    durationSeconds: number;
+    // Straight-line estimate rather than a route along roads
+    approximate: boolean;
+    geometry?: { type: 'LineString'; coordinates: LngLat[] };
+}
+
+export interface ScheduledStop {
+    stop: ItineraryStop;
+    // Minutes after midnight
+    arrival: number;
+    departure: number;
+    // Travel from the previous stop of the same day; each day starts at its first stop
+    leg?: ScheduledLeg;
+}
+
+export interface ScheduledDay {
+    stops: ScheduledStop[];
+    travelMinutes: number;
+    visitMinutes: number;
+    distanceMeters: number;
+    // Minutes beyond the day's budget; zero when the day fits
+    overbookedMinutes: number;
+}
+
+export const DEFAULT_PLAN: ItineraryPlan = {
+    mode: 'driving',
+    dayStart: '09:00',
+    dayHours: 10,
+    days: [{ stops: [] }]
+};
+
+export const DEFAULT_VISIT_MINUTES = 60;
+
+export function parseClock(text: string): number | undefined {
+    const match = /^(\d{1,2}):(\d{2})$/.exec(text.trim());
+    if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) {
+        return undefined;
+    }
+    return Number(match[1]) * 60 + Number(match[2]);
+}
+
+// Times past midnight wrap onto the next day, which an overbooked day can reach
+export function formatClock(minutes: number): string {
+    const wrapped = ((Math.round(minutes) % 1440) + 1440) % 1440;
+    return `${String(Math.floor(wrapped / 60)).padStart(2, '0')}:${String(wrapped % 60).padStart(2, '0')}`;
+}
+
+export function formatDuration(minutes: number): string {
+    const rounded = Math.round(minutes);
+    if (rounded < 60) {
+        return `${rounded} min`;
+    }
+    const hours = Math.floor(rounded / 60);
+    const rest = rounded % 60;
+    return rest === 0 ? `${hours} h` : `${hours} h ${rest} min`;
+}
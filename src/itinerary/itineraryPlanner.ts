@@ -0,0 +1,452 @@
+import * as vscode from 'vscode';
+import { DatabaseManager } from '../storage/database';
+import { MapApiManager, Place } from '../map/mapApiManager';
+import { SavedList, SavedPlace } from '../storage/repositories/savedPlaceRepository';
+import { optimizeOrder, pathSeconds } from '../routing/tripOptimizer';
+import {
+    DEFAULT_PLAN, DEFAULT_VISIT_MINUTES, Itinerary, ItineraryPlan, ItineraryStop, ScheduledDay, ScheduledLeg, ScheduledStop, formatClock, formatDuration, parseClock
+} from './itinerary';
+
+// Day colours on the map, repeated for longer trips
+const DAY_COLORS = ['#1a73e8', '#e8710a', '#188038', '#a142f4', '#d93025', '#12b5cb', '#f9ab00'];
+const SEARCH_PREFIX = '$(search) Search for';
+
+export interface ItineraryOverlay {
+    name: string;
+    days: {
+        day: number;
+        color: string;
+        stops: { number: number; name: string; lat: number; lng: number; arrival: string; visit: string }[];
+        legs: ScheduledLeg[];
+    }[];
+}
+
+interface OrderComparison {
+    // Indices of the stops in the quicker order
+    order: number[];
+    originalSeconds: number;
+    bestSeconds: number;
+    approximate: boolean;
+}
+
+export class ItineraryPlanner {
+    private changeEmitter = new vscode.EventEmitter<number>();
+    // Legs are looked up again on every edit; most of them have not changed
+    private legCache = new Map<string, Promise<ScheduledLeg | undefined>>();
+
+    public readonly onDidChange = this.changeEmitter.event;
+
+    constructor(
+        private databaseManager: DatabaseManager,
+        private apiManager: MapApiManager
+    ) {}
+
+    public getItineraries(): Promise<Itinerary[]> {
+        return this.databaseManager.itineraries.findAll();
+    }
+
+    public getItinerary(id: number): Promise<Itinerary | undefined> {
+        return this.databaseManager.itineraries.findById(id);
+    }
+
+    public async save(itinerary: Itinerary): Promise<void> {
+        await this.databaseManager.itineraries.update(itinerary);
+        this.changeEmitter.fire(itinerary.id);
+    }
+
+    // Reads the itinerary afresh, so a change made after a prompt does not overwrite edits made meanwhile;
+    // resolves to false when it is gone or mutate returns false
+    public async update(id: number, mutate: (itinerary: Itinerary) => boolean | void): Promise<boolean> {
+        const itinerary = await this.getItinerary(id);
+        if (!itinerary || mutate(itinerary) === false) {
+            return false;
+        }
+        await this.save(itinerary);
+        return true;
+    }
+
+    public async delete(id: number): Promise<void> {
+        await this.databaseManager.itineraries.delete(id);
+        this.changeEmitter.fire(id);
+    }
+
+    // Each day starts at its first stop, so only stops within a day are joined by legs
+    public async schedule(itinerary: ItineraryPlan): Promise<ScheduledDay[]> {
+        const dayStart = parseClock(itinerary.dayStart) ?? parseClock(DEFAULT_PLAN.dayStart)!;
+        // One leg at a time: a long plan would otherwise fire dozens of requests at once, and the
+        // public OSRM server rate-limits bursts
+        const dayLegs: (ScheduledLeg | undefined)[][] = [];
+        for (const day of itinerary.days) {
+            const legs: (ScheduledLeg | undefined)[] = [];
+            for (let index = 0; index < day.stops.length; index++) {
+                legs.push(index === 0 ? undefined : await this.getLeg(day.stops[index - 1], day.stops[index], itinerary.mode));
+            }
+            dayLegs.push(legs);
+        }
+
+        return itinerary.days.map((day, dayIndex) => {
+            const legs = dayLegs[dayIndex];
+            const stops: ScheduledStop[] = [];
+            let clock = dayStart;
+            let travelMinutes = 0;
+            let visitMinutes = 0;
+            let distanceMeters = 0;
+            day.stops.forEach((stop, index) => {
+                const leg = legs[index];
+                if (leg) {
+                    clock += leg.durationSeconds / 60;
+                    travelMinutes += leg.durationSeconds / 60;
+                    distanceMeters += leg.distanceMeters;
+                }
+                const arrival = clock;
+                clock += stop.visitMinutes;
+                visitMinutes += stop.visitMinutes;
+                stops.push({ stop, arrival, departure: clock, leg });
+            });
+
+            return {
+                stops,
+                travelMinutes,
+                visitMinutes,
+                distanceMeters,
+                overbookedMinutes: Math.max(0, Math.round(travelMinutes + visitMinutes - itinerary.dayHours * 60))
+            };
+        });
+    }
+
+    public toOverlay(itinerary: Itinerary, schedule: ScheduledDay[]): ItineraryOverlay {
+        return {
+            name: itinerary.name,
+            days: schedule.map((day, index) => ({
+                day: index + 1,
+                color: this.dayColor(index),
+                stops: day.stops.map((scheduled, stopIndex) => ({
+                    number: stopIndex + 1,
+                    name: scheduled.stop.name,
+                    lat: scheduled.stop.lat,
+                    lng: scheduled.stop.lng,
+                    arrival: formatClock(scheduled.arrival),
+                    visit: formatDuration(scheduled.stop.visitMinutes)
+                })),
+                legs: day.stops.map(scheduled => scheduled.leg).filter((leg): leg is ScheduledLeg => !!leg)
+            }))
+        };
+    }
+
+    public dayColor(dayIndex: number): string {
+        return DAY_COLORS[dayIndex % DAY_COLORS.length];
+    }
+
+    // Offers saved itineraries, most recent first, and a new one; resolves to the chosen id
+    public async promptAndOpen(): Promise<number | undefined> {
+        const itineraries = await this.getItineraries();
+        if (itineraries.length === 0) {
+            return this.promptAndCreate();
+        }
+
+        const selected = await vscode.window.showQuickPick(
+            [
+                { label: '$(add) New Itinerary...', description: '', id: undefined as number | undefined },
+                ...itineraries.map(itinerary => ({
+                    label: itinerary.name,
+                    description: `${itinerary.days.length} day(s), ${itinerary.days.reduce((total, day) => total + day.stops.length, 0)} stop(s)`,
+                    detail: `Last edited ${new Date(itinerary.updatedAt).toLocaleString()}`,
+                    id: itinerary.id as number | undefined
+                }))
+            ],
+            { placeHolder: 'Open an itinerary' }
+        );
+        if (!selected) {
+            return undefined;
+        }
+        return selected.id ?? this.promptAndCreate();
+    }
+
+    public async promptAndCreate(): Promise<number | undefined> {
+        const name = await vscode.window.showInputBox({
+            prompt: 'Name the itinerary',
+            placeHolder: 'Rajasthan in 5 days',
+            ignoreFocusOut: true,
+            validateInput: input => input.trim() ? undefined : 'Enter a name'
+        });
+        if (!name) {
+            return undefined;
+        }
+        const id = await this.databaseManager.itineraries.create(name.trim(), { ...DEFAULT_PLAN, days: [{ stops: [] }] });
+        this.changeEmitter.fire(id);
+        return id;
+    }
+
+    public async promptAndRename(id: number): Promise<void> {
+        const itinerary = await this.getItinerary(id);
+        if (!itinerary) {
+            return;
+        }
+        const name = await vscode.window.showInputBox({
+            prompt: 'Rename the itinerary',
+            value: itinerary.name,
+            ignoreFocusOut: true,
+            validateInput: input => input.trim() ? undefined : 'Enter a name'
+        });
+        if (!name || name.trim() === itinerary.name) {
+            return;
+        }
+        await this.update(id, latest => {
+            latest.name = name.trim();
+        });
+    }
+
+    public async promptAndDelete(itinerary: Itinerary): Promise<boolean> {
+        const choice = await vscode.window.showWarningMessage(
+            `Delete the itinerary "${itinerary.name}"?`,
+            { modal: true },
+            'Delete'
+        );
+        if (choice !== 'Delete') {
+            return false;
+        }
+        await this.delete(itinerary.id);
+        return true;
+    }
+
+    // The day still starts at its first stop; the user decides whether its last stop stays last
+    public async promptAndOptimizeDay(id: number, dayIndex: number): Promise<boolean> {
+        const itinerary = await this.getItinerary(id);
+        if (!itinerary) {
+            return false;
+        }
+        const stops = itinerary.days[dayIndex]?.stops ?? [];
+        if (stops.length < 3) {
+            vscode.window.showInformationMessage('A day needs at least three stops before its order can be improved.');
+            return false;
+        }
+
+        const fixedEnd = await this.promptForFixedEnd(stops[stops.length - 1].name, stops.length);
+        if (fixedEnd === undefined) {
+            return false;
+        }
+        const comparison = await this.findBestOrder(stops, itinerary.mode, fixedEnd);
+        if (!comparison) {
+            return false;
+        }
+
+        const reordered = comparison.order.map(index => stops[index]);
+        const apply = await this.confirmOrder(`Day ${dayIndex + 1}`, reordered, comparison, 'Apply');
+        if (!apply) {
+            return false;
+        }
+        // The order only fits the stops it was worked out for; other changes made meanwhile are kept
+        const applied = await this.update(id, latest => {
+            const day = latest.days[dayIndex];
+            if (!day || JSON.stringify(day.stops) !== JSON.stringify(stops)) {
+                return false;
+            }
+            day.stops = reordered;
+        });
+        if (!applied) {
+            vscode.window.showWarningMessage(`Day ${dayIndex + 1} changed while its order was being worked out. Improve its order again.`);
+        }
+        return applied;
+    }
+
+    // Lists have no order of their own, so the saving is measured against the order they are shown in
+    public async promptAndOptimizeList(list: SavedList): Promise<number | undefined> {
+        const places = await this.databaseManager.savedPlaces.findPlaces(list.id);
+        if (places.length < 3) {
+            vscode.window.showInformationMessage(`"${list.name}" needs at least three places before a visiting order is worth planning.`);
+            return undefined;
+        }
+
+        const start = await vscode.window.showQuickPick(
+            places.map(place => ({ label: place.name, description: place.address || place.description, place })),
+            { placeHolder: 'Where does the trip start?' }
+        );
+        if (!start) {
+            return undefined;
+        }
+        const others = places.filter(place => place !== start.place);
+        const end = await vscode.window.showQuickPick(
+            [
+                { label: 'Finish at any place', description: 'The order decides where the trip ends', place: undefined as SavedPlace | undefined },
+                ...others.map(place => ({ label: place.name, description: place.address || place.description, place: place as SavedPlace | undefined }))
+            ],
+            { placeHolder: 'Where does the trip end?' }
+        );
+        if (!end) {
+            return undefined;
+        }
+
+        const ordered = [start.place, ...others.filter(place => place !== end.place), ...(end.place ? [end.place] : [])];
+        const stops: ItineraryStop[] = ordered.map(place => ({ name: place.name, lat: place.lat, lng: place.lng, visitMinutes: DEFAULT_VISIT_MINUTES }));
+        const comparison = await this.findBestOrder(stops, DEFAULT_PLAN.mode, !!end.place);
+        if (!comparison) {
+            return undefined;
+        }
+
+        const reordered = comparison.order.map(index => stops[index]);
+        const apply = await this.confirmOrder(`"${list.name}"`, reordered, comparison, 'Plan as Itinerary');
+        if (!apply) {
+            return undefined;
+        }
+        const id = await this.databaseManager.itineraries.create(list.name, { ...DEFAULT_PLAN, days: [{ stops: reordered }] });
+        this.changeEmitter.fire(id);
+        return id;
+    }
+
+    // Saved places are offered first since they are usually what a trip is planned around
+    public async promptForStop(): Promise<ItineraryStop | undefined> {
+        type StopItem = vscode.QuickPickItem & { place?: Place };
+        const savedPlaces = await this.databaseManager.savedPlaces.findAll().catch(() => []);
+        const savedItems: StopItem[] = savedPlaces.map(place => ({
+            label: `$(bookmark) ${place.name}`,
+            description: place.address || place.description,
+            place
+        }));
+
+        const quickPick = vscode.window.createQuickPick<StopItem>();
+        quickPick.placeholder = savedItems.length > 0 ? 'Pick a saved place or type to search' : 'Type a place to search for';
+        quickPick.items = savedItems;
+        quickPick.onDidChangeValue(value => {
+            const query = value.trim();
+            quickPick.items = query.length > 1
+                ? [...savedItems, { label: `${SEARCH_PREFIX} "${query}"`, alwaysShow: true }]
+                : savedItems;
+        });
+
+        const place = await new Promise<Place | undefined>(resolve => {
+            quickPick.onDidAccept(async () => {
+                const selection = quickPick.selectedItems[0];
+                if (!selection) {
+                    return;
+                }
+                if (selection.place) {
+                    resolve(selection.place);
+                    quickPick.hide();
+                    return;
+                }
+
+                quickPick.busy = true;
+                const results = await this.apiManager.searchLocation(quickPick.value.trim()).catch(() => []);
+                quickPick.busy = false;
+                if (results.length === 0) {
+                    vscode.window.showWarningMessage(`No places found for "${quickPick.value.trim()}".`);
+                    return;
+                }
+                quickPick.items = results.map(result => ({
+                    label: `$(location) ${result.name}`,
+                    description: result.description,
+                    alwaysShow: true,
+                    place: result
+                }));
+            });
+            quickPick.onDidHide(() => {
+                quickPick.dispose();
+                resolve(undefined);
+            });
+            quickPick.show();
+        });
+        if (!place) {
+            return undefined;
+        }
+
+        const visit = await vscode.window.showInputBox({
+            prompt: `Minutes to spend at ${place.name}`,
+            value: String(DEFAULT_VISIT_MINUTES),
+            ignoreFocusOut: true,
+            validateInput: input => parseVisitMinutes(input) === undefined ? 'Enter a number of minutes' : undefined
+        });
+        if (visit === undefined) {
+            return undefined;
+        }
+        return { name: place.name, lat: place.lat, lng: place.lng, visitMinutes: parseVisitMinutes(visit)! };
+    }
+
+    public dispose(): void {
+        this.changeEmitter.dispose();
+    }
+
+    private async promptForFixedEnd(lastStop: string, stopCount: number): Promise<boolean | undefined> {
+        // With three stops and both ends fixed there is nothing left to reorder
+        if (stopCount < 4) {
+            return false;
+        }
+        const choice = await vscode.window.showQuickPick(
+            [
+                { label: `End at ${lastStop}`, description: 'Keep the last stop last', fixedEnd: true },
+                { label: 'End anywhere', description: 'Any stop may come last', fixedEnd: false }
+            ],
+            { placeHolder: 'Where should the day end?' }
+        );
+        return choice?.fixedEnd;
+    }
+
+    // Resolves to undefined when the order cannot be improved, after telling the user why
+    private async findBestOrder(stops: ItineraryStop[], mode: string, fixedEnd: boolean): Promise<OrderComparison | undefined> {
+        const matrix = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: 'Comparing travel times between stops...',
+            cancellable: false
+        }, () => this.apiManager.getTravelMatrix(stops, mode).catch(error => {
+            console.error('Travel matrix failed:', error);
+            return undefined;
+        }));
+        if (!matrix) {
+            vscode.window.showErrorMessage('Travel times between the stops could not be worked out.');
+            return undefined;
+        }
+
+        const original = stops.map((_, index) => index);
+        const best = optimizeOrder(matrix.durationsSeconds, original, fixedEnd);
+        const originalSeconds = pathSeconds(matrix.durationsSeconds, original);
+        // Savings under a minute are noise in the travel times, not a better plan
+        if (originalSeconds - best.seconds < 60) {
+            vscode.window.showInformationMessage('The current order is already the quickest found.');
+            return undefined;
+        }
+        return { order: best.order, originalSeconds, bestSeconds: best.seconds, approximate: !!matrix.approximate };
+    }
+
+    private async confirmOrder(what: string, reordered: ItineraryStop[], comparison: OrderComparison, action: string): Promise<boolean> {
+        const { order, originalSeconds, bestSeconds } = comparison;
+        const lines = reordered.map((stop, index) => `${index + 1}. ${stop.name}${order[index] === index ? ' (unchanged)' : ''}`);
+        if (comparison.approximate) {
+            lines.push('', 'Some travel times are straight-line estimates because no road route was available.');
+        }
+        const choice = await vscode.window.showInformationMessage(
+            `Visiting ${what} in this order saves ${formatDuration((originalSeconds - bestSeconds) / 60)} of travel `
+                + `(${formatDuration(originalSeconds / 60)} down to ${formatDuration(bestSeconds / 60)}).`,
+            { modal: true, detail: lines.join('\n') },
+            action
+        );
+        return choice === action;
+    }
+
+    private getLeg(from: ItineraryStop, to: ItineraryStop, mode: string): Promise<ScheduledLeg | undefined> {
+        const key = `${mode}:${from.lat},${from.lng}:${to.lat},${to.lng}`;
+        let leg = this.legCache.get(key);
+        if (!leg) {
+            leg = this.apiManager.getDirections(from, to, mode).then(directions => directions ? {
+                distanceMeters: directions.distanceMeters,
+                durationSeconds: directions.durationSeconds,
+                approximate: !!directions.approximate,
+                geometry: directions.geometry
+            } : undefined, error => {
+                console.error('Itinerary leg failed:', error);
+                return undefined;
+            });
+            this.legCache.set(key, leg);
+            // Failed and estimated legs are retried next time, in case the network or road data is back
+            leg.then(result => {
+                if (!result || result.approximate) {
+                    this.legCache.delete(key);
+                }
+            });
+        }
+        return leg;
+    }
+}
+
+export function parseVisitMinutes(input: string): number | undefined {
+    const minutes = Number(input.trim());
+    return Number.isInteger(minutes) && minutes >= 0 && minutes <= 24 * 60 ? minutes : undefined;
+}
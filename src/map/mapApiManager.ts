@@ -1,6 +1,18 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
+import { DatabaseManager } from '../storage/database';
+import { SearchCache, SearchCacheOptions } from './searchCache';
+import { SearchHistory } from './searchHistory';
+import { CachedTile, TileCache } from './tileCache';
+import { OverpassClient } from './overpassClient';
+import { BoundingBox, splitBoundingBox } from './tileMath';
+import { RoadRouter } from '../routing/roadRouter';
+import { ApiKeyStore } from '../providers/apiKeyStore';
+import { createLocalProviders } from '../providers/localProviders';
+import { MAP_PROVIDER_NAMES, createOnlineProviders } from '../providers/providerFactory';
+import { createOsmProviders } from '../providers/osmProviders';
+import { LatLng, MapProviderId, OnlineProviderSet, ProviderRoute, ProviderSet, Router, TravelMatrix } from '../providers/types';
 
 export interface Place {
     name: string;
@@ -11,18 +23,111 @@ export interface Place {
     rating?: number;
     description?: string;
     category?: string;
+    source?: PlaceSource;
+    // Only set on nearby results, measured from the point that was searched around
+    distanceKm?: number;
+}
+
+export interface ReverseGeocodeResult {
+    name: string;
+    lat: number;
+    lng: number;
+    locality?: string;
+    district?: string;
+    state?: string;
+    postcode?: string;
+    source: PlaceSource;
+}
+
+// Where a result came from: the network, the search cache, or stored places and built-in data
+export type PlaceSource = 'online' | 'cache' | 'local';
+
+// Tag conditions that must all hold; a category matches any of its filters. '*' matches any value.
+export type OsmTagFilter = { [key: string]: string };
+
+export interface PlaceCategory {
+    id: string;
+    name: string;
+    icon: string;
+    osmTags: OsmTagFilter[];
+}
+
+// Overpass rejects or times out on large boxes, so area downloads are split into cells
+const OVERPASS_CELL_DEGREES = 0.25;
+// One Overpass query per cell; larger areas are downloaded as tiles only
+const MAX_AREA_DATA_CELLS = 64;
+const NEARBY_RADIUS_KM = 3;
+const NEARBY_LIMIT = 20;
+
+export interface AreaDownloadOptions {
+    token?: vscode.CancellationToken;
+    // Cells before this one were stored in an earlier session
+    startCell?: number;
+    // Called once each cell is stored, before the next one is fetched
+    onCell?(cellsDone: number, cellsTotal: number): Promise<void>;
 }
 
 export class MapApiManager {
     private cachePath: string;
-    private searchCache: Map<string, { data: Place[], timestamp: number }> = new Map();
-    private readonly indiaBounds = {
-        north: 37.6, south: 6.0, east: 97.4, west: 68.1
-    };
-
-    constructor(private context: vscode.ExtensionContext) {
+    private searchCache: SearchCache;
+    private tileCache: TileCache;
+    private overpass = new OverpassClient();
+    private roadRouter: RoadRouter;
+    private localProviders: ProviderSet;
+    private onlineProviders: OnlineProviderSet | undefined;
+    // Provider and key the online providers were built from; a change rebuilds them on next use
+    private onlineProvidersKey = '';
+    private providersChanged = new vscode.EventEmitter<void>();
+    private disposables: vscode.Disposable[] = [];
+
+    // Fires when the online provider or its API key changes, so open maps can reload their tiles
+    public readonly onDidChangeProviders = this.providersChanged.event;
+    public readonly searchHistory: SearchHistory;
+
+    constructor(
+        private context: vscode.ExtensionContext,
+        private databaseManager: DatabaseManager,
+        private apiKeys: ApiKeyStore
+    ) {
         this.cachePath = path.join(context.globalStorageUri.fsPath, 'map-cache');
         this.initializeCache();
+        this.roadRouter = new RoadRouter(databaseManager);
+        this.searchHistory = new SearchHistory(databaseManager);
+        this.localProviders = createLocalProviders(databaseManager, this.roadRouter);
+        this.searchCache = new SearchCache(
+            path.join(this.cachePath, 'search-cache.json'),
+            () => this.getSearchCacheOptions()
+        );
+        this.tileCache = new TileCache(this.cachePath, () => {
+            const config = vscode.workspace.getConfiguration('offlineMap');
+            return {
+                enabled: config.get('cacheEnabled', true),
+                offline: config.get('offlineMode', false)
+            };
+        }, () => this.getOnlineProviders().tileSource);
+
+        this.disposables.push(
+            vscode.workspace.onDidChangeConfiguration(e => {
+                if (e.affectsConfiguration('offlineMap.mapProvider')) {
+                    this.providersChanged.fire();
+                }
+            }),
+            apiKeys.onDidChange(provider => {
+                if (provider === vscode.workspace.getConfiguration('offlineMap').get('mapProvider')) {
+                    this.providersChanged.fire();
+                }
+            })
+        );
+    }
+
+    private getSearchCacheOptions(): SearchCacheOptions {
+        const config = vscode.workspace.getConfiguration('offlineMap');
+        return {
+            enabled: config.get('cacheEnabled', true),
+            ttlMs: config.get('searchCacheTtlMinutes', 1440) * 60 * 1000,
+            maxEntries: config.get('searchCacheMaxEntries', 500),
+            maxBytes: config.get('searchCacheMaxSizeMB', 5) * 1024 * 1024
+        };
     }
 
     private initializeCache(): void {
@@ -31,305 +136,361 @@ export class MapApiManager {
         }
     }
 
+    public isOfflineMode(): boolean {
+        return vscode.workspace.getConfiguration('offlineMap').get('offlineMode', false);
+    }
+
+    // Built lazily from offlineMap.mapProvider and the stored key, so a change applies to the next request
+    private getOnlineProviders(): OnlineProviderSet {
+        const provider = vscode.workspace.getConfiguration('offlineMap').get<MapProviderId>('mapProvider', 'openstreetmap');
+        const apiKey = this.apiKeys.get(provider);
+        const key = `${provider}:${apiKey}`;
+        if (this.onlineProviders && this.onlineProvidersKey === key) {
+            return this.onlineProviders;
+        }
+
+        try {
+            this.onlineProviders = createOnlineProviders(provider, apiKey);
+        } catch (error) {
+            if (!this.apiKeys.isLoaded()) {
+                // Requests made while the keychain is still being read; build again once it is
+                return createOsmProviders();
+            }
+            vscode.window.showWarningMessage(
+                `${error instanceof Error ? error.message : error}. Using OpenStreetMap until one is set.`,
+                'Set API Key'
+            ).then(choice => {
+                if (choice === 'Set API Key') {
+                    vscode.commands.executeCommand('offlineMap.setApiKey');
+                }
+            });
+            this.onlineProviders = createOsmProviders();
+        }
+        this.onlineProvidersKey = key;
+        return this.onlineProviders;
+    }
+
+    public getTileSourceInfo(): { id: string; name: string; attribution: string; maxZoom: number; cacheable: boolean; maxBulkZoom?: number } {
+        const providers = this.getOnlineProviders();
+        const { id, attribution, maxZoom, cacheable, maxBulkZoom } = providers.tileSource;
+        return { id, name: MAP_PROVIDER_NAMES[providers.id], attribution, maxZoom, cacheable, maxBulkZoom };
+    }
+
     public async searchLocation(query: string): Promise<Place[]> {
-        // Check cache first
         const cacheKey = query.toLowerCase().trim();
+        if (this.isOfflineMode()) {
+            return this.searchOffline(query);
+        }
+
+        // Check cache first
         const cached = this.searchCache.get(cacheKey);
-        if (cached && Date.now() - cached.timestamp < 300000) { // 5 minutes cache
-            return cached.data;
+        if (cached) {
+            return this.withSource(cached.data, 'cache');
         }
 
         try {
-            // Add India bias for better results
-            const indiaBiasedQuery = this.addIndiaBias(query);
-            const url = `https://nominatim.openstreetmap.org/search?format=json&q=${encodeURIComponent(indiaBiasedQuery)}&limit=10&addressdetails=1&accept-language=en&countrycodes=in`;
-            
-            // Fast timeout - 2 seconds for India-focused search
-            const controller = new AbortController();
-            const timeout = setTimeout(() => controller.abort(), 2000);
-
-            const response = await fetch(url, { signal: controller.signal });
-            clearTimeout(timeout);
-            
-            const data = await response.json();
-            
-            // Filter and prioritize Indian locations
-            let results = data.map((item: any) => ({
-                name: this.cleanName(item.display_name),
-                lat: parseFloat(item.lat),
-                lng: parseFloat(item.lon),
-                type: item.type || item.class || 'place',
-                category: item.class,
-                description: this.generateDescription(item),
-                isIndian: this.isLocationInIndia(parseFloat(item.lat), parseFloat(item.lon))
-            }));
-
-            // Prioritize Indian locations
-            results.sort((a: any, b: any) => {
-                if (a.isIndian && !b.isIndian) return -1;
-                if (!a.isIndian && b.isIndian) return 1;
-                return 0;
-            });
-
-            // Take top 8 results
-            const finalResults = results.slice(0, 8).map((item: any) => {
-                const { isIndian, ...rest } = item;
-                return rest;
-            });
+            const providers = this.getOnlineProviders();
+            const results = this.withSource(await providers.geocoder.search(query), 'online');
 
             // Cache the results
-            this.searchCache.set(cacheKey, { data: finalResults, timestamp: Date.now() });
-            return finalResults;
+            if (providers.cacheable) {
+                this.searchCache.set(cacheKey, results);
+                this.persist(this.databaseManager.places.upsertMany(results, providers.id), 'search results');
+            }
+            return results;
 
         } catch (error) {
-            console.error('Search API failed, using India fallback:', error);
-            return this.getIndiaFallbackLocations(query);
+            console.error('Search API failed, using local data:', error);
+            return this.searchOffline(query);
         }
     }
 
-    public async getNearbyPlaces(lat: number, lng: number, category: string): Promise<Place[]> {
-        // Return instantly with India-specific simulated data
-        return this.generateIndiaSpecificPlaces(lat, lng, category);
+    private async searchOffline(query: string): Promise<Place[]> {
+        // An expired answer is still better than none while the network is down
+        const staleResults = this.searchCache.get(query.toLowerCase().trim(), true);
+        if (staleResults) {
+            return this.withSource(staleResults.data, 'cache');
+        }
+
+        return this.withSource(await this.localProviders.geocoder.search(query), 'local');
     }
 
-    public async getDirections(start: { lat: number; lng: number }, end: { lat: number; lng: number }, mode: string = 'driving'): Promise<any> {
+    private withSource(places: Place[], source: PlaceSource): Place[] {
+        return places.map(place => ({ ...place, source }));
+    }
+
+    public async reverseGeocode(lat: number, lng: number): Promise<ReverseGeocodeResult> {
+        if (this.isOfflineMode()) {
+            return this.reverseGeocodeOffline(lat, lng);
+        }
+
         try {
-            const url = `https://router.project-osrm.org/route/v1/${mode}/${start.lng},${start.lat};${end.lng},${end.lat}?overview=full&geometries=geojson`;
-            
-            const controller = new AbortController();
-            const timeout = setTimeout(() => controller.abort(), 4000); // Faster timeout
-            
-            const response = await fetch(url, { signal: controller.signal });
-            clearTimeout(timeout);
-            
-            const data = await response.json();
-            
-            if (data.routes && data.routes.length > 0) {
-                return {
-                    distance: (data.routes[0].distance / 1000).toFixed(1) + ' km',
-                    duration: Math.round(data.routes[0].duration / 60) + ' min',
-                    geometry: data.routes[0].geometry,
-                    mode: mode
-                };
+            const address = await this.getOnlineProviders().geocoder.reverse(lat, lng);
+            if (!address) {
+                return this.reverseGeocodeOffline(lat, lng);
             }
-            return null;
+            return { ...address, source: 'online' };
         } catch (error) {
-            console.error('Directions API failed:', error);
-            return this.calculateOfflineDirections(start, end, mode);
+            console.error('Reverse geocoding failed, using local data:', error);
+            return this.reverseGeocodeOffline(lat, lng);
         }
     }
 
-    public getPlaceCategories(): { id: string; name: string; icon: string }[] {
-        return [
-            { id: 'restaurant', name: 'Restaurants', icon: '🍽️' },
-            { id: 'hotel', name: 'Hotels', icon: '🏨' },
-            { id: 'attraction', name: 'Attractions', icon: '🏛️' },
-            { id: 'shopping', name: 'Shopping', icon: '🛍️' },
-            { id: 'hospital', name: 'Medical', icon: '🏥' },
-            { id: 'transport', name: 'Transport', icon: '🚆' },
-            { id: 'park', name: 'Parks', icon: '🌳' },
-            { id: 'temple', name: 'Temples', icon: '🛕' },
-            { id: 'market', name: 'Markets', icon: '🏪' }
-        ];
+    private async reverseGeocodeOffline(lat: number, lng: number): Promise<ReverseGeocodeResult> {
+        const address = await this.localProviders.geocoder.reverse(lat, lng);
+        return { ...(address || { name: 'Dropped pin', lat, lng }), source: 'local' };
     }
 
-    private addIndiaBias(query: string): string {
-        const indianCities = ['delhi', 'mumbai', 'chennai', 'kolkata', 'bangalore', 'hyderabad', 
-                             'pune', 'ahmedabad', 'jaipur', 'lucknow', 'bengaluru', 'gurgaon', 
-                             'noida', 'kochi', 'goa', 'chandigarh', 'indore', 'bhopal'];
-        
-        const lowerQuery = query.toLowerCase();
-        const isIndianCity = indianCities.some(city => lowerQuery.includes(city));
-        
-        if (!isIndianCity && !lowerQuery.includes('india') && query.length > 2) {
-            return query + ', India';
+    public getTile(z: number, x: number, y: number): Promise<CachedTile | undefined> {
+        return this.tileCache.getTile(z, x, y);
+    }
+
+    public async cacheTile(z: number, x: number, y: number): Promise<boolean> {
+        if (await this.tileCache.hasTile(z, x, y)) {
+            return true;
+        }
+        if (this.isOfflineMode()) {
+            return false;
         }
-        return query;
+        return (await this.tileCache.downloadTile(z, x, y)) !== undefined;
     }
 
-    private isLocationInIndia(lat: number, lng: number): boolean {
-        return lat >= this.indiaBounds.south && lat <= this.indiaBounds.north && 
-               lng >= this.indiaBounds.west && lng <= this.indiaBounds.east;
+    public hasCachedTile(z: number, x: number, y: number): Promise<boolean> {
+        return this.tileCache.hasTile(z, x, y);
     }
 
-    private cleanName(displayName: string): string {
-        // Extract only the main name parts, optimized for Indian addresses
-        const parts = displayName.split(',');
-        
-        if (parts.length > 3) {
-            // For Indian addresses, typically take first part and last part (city/state)
-            return `${parts[0].trim()}, ${parts[parts.length - 2].trim()}`;
+    public getTileCacheStats(): { tiles: number; bytes: number } {
+        return this.tileCache.getStats();
+    }
+
+    public canDownloadAreaData(bbox: BoundingBox): boolean {
+        return splitBoundingBox(bbox, OVERPASS_CELL_DEGREES).length <= MAX_AREA_DATA_CELLS;
+    }
+
+    // Stores named settlements in the area so searches there can be answered without Nominatim
+    public downloadAreaPlaces(bbox: BoundingBox, options: AreaDownloadOptions = {}): Promise<number> {
+        return this.downloadAreaCells(bbox, options, cell => this.overpass.fetchNamedPlaces(cell));
+    }
+
+    public downloadAreaPois(bbox: BoundingBox, options: AreaDownloadOptions = {}): Promise<number> {
+        const categories = this.getPlaceCategories();
+        return this.downloadAreaCells(bbox, options, cell => this.overpass.fetchPois(cell, categories));
+    }
+
+    private async downloadAreaCells(
+        bbox: BoundingBox,
+        options: AreaDownloadOptions,
+        fetchCell: (cell: BoundingBox) => Promise<Place[]>
+    ): Promise<number> {
+        const cells = splitBoundingBox(bbox, OVERPASS_CELL_DEGREES);
+        if (cells.length > MAX_AREA_DATA_CELLS) {
+            throw new Error(`the area is too large to download places for (${cells.length} cells, at most ${MAX_AREA_DATA_CELLS})`);
         }
-        
-        return displayName;
+        let stored = 0;
+        for (let index = options.startCell ?? 0; index < cells.length; index++) {
+            if (options.token?.isCancellationRequested) {
+                break;
+            }
+            this.assertOnline();
+            const places = await fetchCell(cells[index]);
+            await this.databaseManager.places.upsertMany(places, 'overpass');
+            stored += places.length;
+            await options.onCell?.(index + 1, cells.length);
+        }
+        return stored;
     }
 
-    private generateDescription(item: any): string {
-        const type = item.type || item.class || 'location';
-        const address = item.address;
-        
-        if (address) {
-            // Generate Indian-style description
-            if (address.city && address.state) {
-                return `${this.capitalize(type)} • ${address.city}, ${address.state}`;
-            } else if (address.state) {
-                return `${this.capitalize(type)} • ${address.state}`;
+    // Area downloads have no local answer to fall back to, so they fail instead of going to the network
+    private assertOnline(): void {
+        if (this.isOfflineMode()) {
+            throw new Error('offline mode is on');
+        }
+    }
+
+    public async getNearbyPlaces(lat: number, lng: number, category: string): Promise<Place[]> {
+        const placeCategory = this.getPlaceCategories().find(candidate => candidate.id === category);
+        if (!placeCategory) {
+            return [];
+        }
+
+        // Three decimals is roughly 100 m, so small pans reuse the previous answer
+        const cacheKey = `nearby:${category}@${lat.toFixed(3)},${lng.toFixed(3)}`;
+        if (this.isOfflineMode()) {
+            return this.getStoredNearbyPlaces(lat, lng, placeCategory, cacheKey);
+        }
+
+        const cached = this.searchCache.get(cacheKey);
+        if (cached) {
+            return this.withSource(cached.data, 'cache');
+        }
+
+        try {
+            const providers = this.getOnlineProviders();
+            const pois = await providers.poiSource.findNearby(lat, lng, NEARBY_RADIUS_KM * 1000, placeCategory);
+            const nearest = this.withDistances(pois, lat, lng).slice(0, NEARBY_LIMIT);
+            if (providers.cacheable) {
+                this.persist(this.databaseManager.places.upsertMany(pois, providers.id), 'nearby places');
+                this.searchCache.set(cacheKey, nearest);
             }
+            return this.withSource(nearest, 'online');
+        } catch (error) {
+            console.error('Nearby places lookup failed, using stored places:', error);
+            return this.getStoredNearbyPlaces(lat, lng, placeCategory, cacheKey);
         }
-        
-        const parts = item.display_name.split(',');
-        if (parts.length >= 2) {
-            return `${this.capitalize(type)} • ${parts[parts.length - 2].trim()}`;
+    }
+
+    private async getStoredNearbyPlaces(lat: number, lng: number, category: PlaceCategory, cacheKey: string): Promise<Place[]> {
+        const staleResults = this.searchCache.get(cacheKey, true);
+        if (staleResults) {
+            return this.withSource(staleResults.data, 'cache');
         }
-        
-        return `${this.capitalize(type)} • Area`;
-    }
-
-    private generateIndiaSpecificPlaces(lat: number, lng: number, category: string): Place[] {
-        const indiaPlaces: { [key: string]: { names: string[], descriptions: string[] } } = {
-            restaurant: {
-                names: ['Saravana Bhavan', 'Bikanervala', 'Haldiram\'s', 'Local Dhaba', 'Udipi Restaurant', 'Paradise Biryani', 'KFC', 'McDonald\'s'],
-                descriptions: ['South Indian Restaurant', 'North Indian Cuisine', 'Sweet Shop & Restaurant', 'Highway Dhaba', 'Vegetarian Restaurant', 'Hyderabadi Restaurant', 'Fast Food Chain', 'American Fast Food']
-            },
-            hotel: {
-                names: ['Taj Hotel', 'ITC Grand', 'The Leela', 'Radisson Blu', 'Novotel', 'OYO Rooms', 'FabHotel', 'Treebo'],
-                descriptions: ['Luxury 5-Star Hotel', 'Business Hotel', 'Premium Hotel', 'International Chain', 'Modern Hotel', 'Budget Hotel', 'Value Hotel', 'Economy Stay']
-            },
-            attraction: {
-                names: ['Historical Fort', 'Ancient Temple', 'City Palace', 'Museum', 'Botanical Garden', 'Lake View', 'Heritage Site', 'Public Square'],
-                descriptions: ['Historical Monument', 'Religious Site', 'Royal Palace', 'Cultural Museum', 'Nature Park', 'Scenic Spot', 'UNESCO Heritage', 'Public Gathering Place']
-            },
-            shopping: {
-                names: ['DLF Mall', 'Phoenix Marketcity', 'Forum Mall', 'Local Bazaar', 'Supermarket', 'Brand Showroom', 'Shopping Complex', 'Department Store'],
-                descriptions: ['Premium Shopping Mall', 'Large Retail Complex', 'Modern Mall', 'Traditional Market', 'Grocery Store', 'Brand Outlet', 'Shopping Center', 'Retail Store']
-            },
-            hospital: {
-                names: ['Apollo Hospital', 'Fortis Hospital', 'Max Healthcare', 'AIIMS', 'Government Hospital', 'Private Clinic', 'Medical Center', 'Nursing Home'],
-                descriptions: ['Multi-specialty Hospital', 'Super-specialty Hospital', 'Healthcare Chain', 'Government Hospital', 'Public Hospital', 'Private Clinic', 'Medical Facility', 'Healthcare Center']
-            },
-            transport: {
-                names: ['Metro Station', 'Bus Stand', 'Railway Station', 'Auto Stand', 'Taxi Stand', 'Rickshaw Stand', 'Parking Lot', 'Transit Hub'],
-                descriptions: ['Metro Rail Station', 'Bus Terminal', 'Indian Railways Station', 'Auto Rickshaw Stand', 'Taxi Pickup', 'Rickshaw Stop', 'Vehicle Parking', 'Transport Center']
-            },
-            park: {
-                names: ['City Park', 'Children\'s Park', 'Garden', 'Public Ground', 'Recreation Area', 'Walking Track', 'Playground', 'Green Space'],
-                descriptions: ['Public Park', 'Kids Play Area', 'Botanical Garden', 'Open Ground', 'Sports Area', 'Jogging Track', 'Play Area', 'Green Zone']
-            },
-            temple: {
-                names: ['Shiva Temple', 'Hanuman Temple', 'Krishna Temple', 'Durga Temple', 'Ganesh Temple', 'Local Temple', 'Ancient Temple', 'ISKCON Temple'],
-                descriptions: ['Hindu Temple', 'Religious Shrine', 'Place of Worship', 'Goddess Temple', 'Elephant God Temple', 'Community Temple', 'Historical Temple', 'Spiritual Center']
-            },
-            market: {
-                names: ['Local Market', 'Vegetable Market', 'Street Market', 'Flea Market', 'Wholesale Market', 'Night Market', 'Shopping Street', 'Commercial Area'],
-                descriptions: ['Local Bazaar', 'Fresh Produce Market', 'Street Shopping', 'Flea Market', 'Wholesale Area', 'Evening Market', 'Shopping District', 'Commercial Zone']
+
+        const storedPlaces = await this.localProviders.poiSource.findNearby(lat, lng, NEARBY_RADIUS_KM * 1000, category)
+            .catch(() => []);
+        return this.withSource(this.withDistances(storedPlaces, lat, lng).slice(0, NEARBY_LIMIT), 'local');
+    }
+
+    private withDistances(places: Place[], lat: number, lng: number): Place[] {
+        return places
+            .map(place => ({ ...place, distanceKm: this.calculateHaversineDistance(lat, lng, place.lat, place.lng) }))
+            .sort((a, b) => a.distanceKm - b.distanceKm);
+    }
+
+    public async getDirections(start: LatLng, end: LatLng, mode: string = 'driving'): Promise<any> {
+        if (this.isOfflineMode()) {
+            return this.getOfflineDirections(start, end, mode);
+        }
+
+        try {
+            const route = await this.getOnlineProviders().router.route(start, end, mode);
+            if (!route) {
+                return this.getOfflineDirections(start, end, mode);
             }
-        };
 
-        const placeData = indiaPlaces[category] || { 
-            names: ['Local Place'], 
-            descriptions: ['Point of Interest'] 
-        };
+            this.storeRoute(start, end, mode, route);
+            return this.formatDirections(route, mode, 'online');
+        } catch (error) {
+            console.error('Directions API failed:', error);
+            return this.getOfflineDirections(start, end, mode);
+        }
+    }
 
-        const places: Place[] = [];
-
-        for (let i = 0; i < 8; i++) {
-            const offsetLat = (Math.random() - 0.5) * 0.01; // Smaller offset for denser Indian cities
-            const offsetLng = (Math.random() - 0.5) * 0.01;
-            
-            places.push({
-                name: placeData.names[i % placeData.names.length],
-                lat: lat + offsetLat,
-                lng: lng + offsetLng,
-                type: category,
-                address: this.generateIndianAddress(),
-                rating: parseFloat((Math.random() * 2 + 3).toFixed(1)), // 3-5 stars
-                description: placeData.descriptions[i % placeData.descriptions.length],
-                category: category
-            });
+    // The best route first, then alternatives to compare it with; only the best one is stored for offline use
+    public async getRouteAlternatives(start: LatLng, end: LatLng, mode: string = 'driving'): Promise<any[]> {
+        if (this.isOfflineMode()) {
+            return this.getOfflineRouteAlternatives(start, end, mode);
+        }
+
+        try {
+            const routes = await this.findRoutes(this.getOnlineProviders().router, start, end, mode);
+            // A provider that finds nothing may still be beaten by a stored route or the local road network
+            if (routes.length === 0) {
+                return this.getOfflineRouteAlternatives(start, end, mode);
+            }
+            this.storeRoute(start, end, mode, routes[0]);
+            return routes.map(route => this.formatDirections(route, mode, 'online'));
+        } catch (error) {
+            console.error('Directions API failed:', error);
+            return this.getOfflineRouteAlternatives(start, end, mode);
         }
-        
-        return places;
     }
 
-    private generateIndianAddress(): string {
-        const streets = ['MG Road', 'Brigade Road', 'Connaught Place', 'Park Street', 'Commercial Street', 'Juhu Beach', 'Marine Drive'];
-        const areas = ['City Center', 'Commercial Area', 'Residential Area', 'Market Area', 'Suburban Area'];
-        
-        return `${streets[Math.floor(Math.random() * streets.length)]}, ${areas[Math.floor(Math.random() * areas.length)]}`;
-    }
-
-    private getIndiaFallbackLocations(query: string): Place[] {
-        const majorIndianCities = [
-            { name: "Delhi, India", lat: 28.6139, lng: 77.2090, type: "city", description: "Capital of India" },
-            { name: "Mumbai, India", lat: 19.0760, lng: 72.8777, type: "city", description: "Financial capital of India" },
-            { name: "Bengaluru, India", lat: 12.9716, lng: 77.5946, type: "city", description: "Silicon Valley of India" },
-            { name: "Chennai, India", lat: 13.0827, lng: 80.2707, type: "city", description: "Capital of Tamil Nadu" },
-            { name: "Kolkata, India", lat: 22.5726, lng: 88.3639, type: "city", description: "Cultural capital of India" },
-            { name: "Hyderabad, India", lat: 17.3850, lng: 78.4867, type: "city", description: "City of Pearls" },
-            { name: "Pune, India", lat: 18.5204, lng: 73.8567, type: "city", description: "Oxford of the East" },
-            { name: "Ahmedabad, India", lat: 23.0225, lng: 72.5714, type: "city", description: "Manchester of India" },
-            { name: "Jaipur, India", lat: 26.9124, lng: 75.7873, type: "city", description: "Pink City of India" },
-            { name: "Lucknow, India", lat: 26.8467, lng: 80.9462, type: "city", description: "City of Nawabs" },
-            { name: "Kochi, India", lat: 9.9312, lng: 76.2673, type: "city", description: "Queen of Arabian Sea" },
-            { name: "Goa, India", lat: 15.2993, lng: 74.1240, type: "city", description: "Beach paradise" }
-        ];
+    private async getOfflineRouteAlternatives(start: LatLng, end: LatLng, mode: string): Promise<any[]> {
+        // A route stored while online is preferred, as in getOfflineDirections; it is kept without alternatives
+        const storedRoute = await this.databaseManager.routes.findSimilar(start, end, mode).catch(() => undefined);
+        if (storedRoute) {
+            return [this.formatDirections(storedRoute, mode, 'cache')];
+        }
 
-        const searchTerm = query.toLowerCase().trim();
-        
-        if (!searchTerm) {
-            return majorIndianCities.slice(0, 8);
+        const routes = await this.findRoutes(this.localProviders.router, start, end, mode);
+        return routes.map(route => this.formatDirections(route, mode, 'local'));
+    }
+
+    private async findRoutes(router: Router, start: LatLng, end: LatLng, mode: string): Promise<ProviderRoute[]> {
+        if (router.alternatives) {
+            return router.alternatives(start, end, mode);
         }
+        const route = await router.route(start, end, mode);
+        return route ? [route] : [];
+    }
 
-        // Exact matches first
-        const exactMatches = majorIndianCities.filter(location => 
-            location.name.toLowerCase().includes(searchTerm)
-        );
+    private storeRoute(start: LatLng, end: LatLng, mode: string, route: ProviderRoute): void {
+        if (!this.getOnlineProviders().cacheable) {
+            return;
+        }
+        this.persist(this.databaseManager.routes.save({
+            start,
+            end,
+            mode,
+            distanceMeters: route.distanceMeters,
+            durationSeconds: route.durationSeconds,
+            geometry: route.geometry,
+            steps: route.steps
+        }), 'route');
+    }
 
-        // Partial matches
-        const partialMatches = majorIndianCities.filter(location => 
-            location.description.toLowerCase().includes(searchTerm) &&
-            !exactMatches.includes(location)
-        );
+    private async getOfflineDirections(start: LatLng, end: LatLng, mode: string): Promise<any> {
+        const storedRoute = await this.databaseManager.routes.findSimilar(start, end, mode).catch(() => undefined);
+        if (storedRoute) {
+            return this.formatDirections(storedRoute, mode, 'cache');
+        }
 
-        // Combine and return
-        const allMatches = [...exactMatches, ...partialMatches];
-        return allMatches.length > 0 ? allMatches.slice(0, 8) : majorIndianCities.slice(0, 4);
+        // Falls back to a straight line, flagged approximate so the UI does not present it as a route
+        const route = await this.localProviders.router.route(start, end, mode);
+        return route ? this.formatDirections(route, mode, 'local') : null;
     }
 
-    private calculateOfflineDirections(start: { lat: number; lng: number }, end: { lat: number; lng: number }, mode: string): any {
-        const distance = this.calculateHaversineDistance(start.lat, start.lng, end.lat, end.lng);
-        const duration = this.calculateIndiaTravelTime(distance, mode);
-        
-        // Generate a more realistic route geometry for India
-        const midPoint = {
-            lat: (start.lat + end.lat) / 2 + (Math.random() - 0.5) * 0.01,
-            lng: (start.lng + end.lng) / 2 + (Math.random() - 0.5) * 0.01
-        };
-        
+    // Travel times between every pair of points, for ordering stops; offline it comes from the road graph or straight lines
+    public async getTravelMatrix(points: LatLng[], mode: string = 'driving'): Promise<TravelMatrix | undefined> {
+        if (!this.isOfflineMode()) {
+            try {
+                const matrix = await this.getOnlineProviders().router.table?.(points, mode);
+                if (matrix) {
+                    return matrix;
+                }
+            } catch (error) {
+                console.error('Travel matrix API failed:', error);
+            }
+        }
+        return this.localProviders.router.table?.(points, mode);
+    }
+
+    private formatDirections(route: ProviderRoute, mode: string, source: PlaceSource): any {
         return {
-            distance: distance.toFixed(1) + ' km',
-            duration: duration + ' min',
-            geometry: {
-                type: "LineString",
-                coordinates: [
-                    [start.lng, start.lat],
-                    [midPoint.lng, midPoint.lat],
-                    [end.lng, end.lat]
-                ]
-            },
-            mode: mode
+            distance: (route.distanceMeters / 1000).toFixed(1) + ' km',
+            duration: Math.round(route.durationSeconds / 60) + ' min',
+            distanceMeters: route.distanceMeters,
+            durationSeconds: route.durationSeconds,
+            geometry: route.geometry,
+            steps: route.steps,
+            mode: mode,
+            source: source,
+            ...(route.roadUse ? { roadUse: route.roadUse } : {}),
+            ...(route.approximate ? { approximate: true } : {})
         };
     }
 
-    private calculateIndiaTravelTime(distance: number, mode: string): number {
-        // Adjusted for typical Indian traffic conditions
-        const speeds = { 
-            driving: 40, // Slower due to traffic
-            walking: 4,  // Slower walking pace
-            cycling: 12  // Moderate cycling speed
-        };
-        const trafficFactor = mode === 'driving' ? 1.3 : 1; // Add traffic buffer for driving
-        return Math.round((distance / speeds[mode as keyof typeof speeds]) * 60 * trafficFactor);
+    public reloadRoadNetwork(): void {
+        this.roadRouter.invalidate();
+    }
+
+    public getPlaceCategories(): PlaceCategory[] {
+        return [
+            { id: 'restaurant', name: 'Restaurants', icon: '🍽️', osmTags: [{ amenity: 'restaurant' }, { amenity: 'fast_food' }, { amenity: 'cafe' }] },
+            { id: 'hotel', name: 'Hotels', icon: '🏨', osmTags: [{ tourism: 'hotel' }, { tourism: 'guest_house' }, { tourism: 'hostel' }] },
+            { id: 'attraction', name: 'Attractions', icon: '🏛️', osmTags: [{ tourism: 'attraction' }, { tourism: 'museum' }, { tourism: 'viewpoint' }, { historic: 'monument' }, { historic: 'fort' }] },
+            { id: 'shopping', name: 'Shopping', icon: '🛍️', osmTags: [{ shop: 'mall' }, { shop: 'department_store' }, { shop: 'supermarket' }] },
+            { id: 'hospital', name: 'Medical', icon: '🏥', osmTags: [{ amenity: 'hospital' }, { amenity: 'clinic' }, { amenity: 'pharmacy' }] },
+            { id: 'transport', name: 'Transport', icon: '🚆', osmTags: [{ railway: 'station' }, { amenity: 'bus_station' }, { public_transport: 'station' }] },
+            { id: 'park', name: 'Parks', icon: '🌳', osmTags: [{ leisure: 'park' }, { leisure: 'garden' }] },
+            { id: 'temple', name: 'Temples', icon: '🛕', osmTags: [{ amenity: 'place_of_worship', religion: 'hindu' }, { amenity: 'place_of_worship', religion: 'jain' }, { amenity: 'place_of_worship', religion: 'buddhist' }, { amenity: 'place_of_worship', religion: 'sikh' }] },
+            { id: 'market', name: 'Markets', icon: '🏪', osmTags: [{ amenity: 'marketplace' }, { shop: 'greengrocer' }] }
+        ];
+    }
+
+    private persist(task: Promise<unknown>, what: string): void {
+        // Storage is best effort: a failed write must never fail the lookup that produced the data
+        task.catch(error => console.error(`Failed to store ${what}:`, error));
     }
 
     private calculateHaversineDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
@@ -347,18 +508,19 @@ export class MapApiManager {
         return degrees * (Math.PI / 180);
     }
 
-    private capitalize(str: string): string {
-        return str.charAt(0).toUpperCase() + str.slice(1);
+    // Downloaded regions keep their tiles in the same cache, so they are forgotten along with it
+    public async clearCache(): Promise<void> {
+        this.searchCache.clear();
+        const files = await fs.promises.readdir(this.cachePath).catch(() => [] as string[]);
+        await Promise.all(files.map(file => fs.promises.rm(path.join(this.cachePath, file), { recursive: true, force: true })));
+        await this.databaseManager.regionDownloads.deleteAll();
     }
 
-    public clearCache(): void {
-        this.searchCache.clear();
-        if (fs.existsSync(this.cachePath)) {
-            const files = fs.readdirSync(this.cachePath);
-            for (const file of files) {
-                fs.unlinkSync(path.join(this.cachePath, file));
-            }
-        }
+    public dispose(): void {
+        this.searchCache.flush();
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.providersChanged.dispose();
+        this.searchHistory.dispose();
     }
 
     // New method to get approximate current location for India
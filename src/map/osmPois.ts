@@ -0,0 +1,42 @@
+import { Place, PlaceCategory, OsmTagFilter } from './mapApiManager';
+import { capitalize } from '../util/text';
+
+export type OsmTags = { [key: string]: string };
+
+// Turns a tagged OSM element into a place when it belongs to one of the categories; shared by Overpass and extract imports
+export function categorizePoi(tags: OsmTags, lat: number, lng: number, categories: PlaceCategory[]): Place | undefined {
+    const name = tags['name:en'] || tags.name;
+    const category = categories.find(candidate =>
+        candidate.osmTags.some(filter => matchesTagFilter(tags, filter))
+    );
+    if (!name || !category) {
+        return undefined;
+    }
+
+    const kind = tags.cuisine || tags.amenity || tags.tourism || tags.shop || tags.leisure || tags.historic || category.name;
+    return {
+        name,
+        lat,
+        lng,
+        type: category.id,
+        category: category.id,
+        address: formatAddress(tags),
+        description: capitalize(kind.replace(/_/g, ' ').replace(/;/g, ', '))
+    };
+}
+
+export function matchesTagFilter(tags: OsmTags, filter: OsmTagFilter): boolean {
+    return Object.entries(filter).every(([key, value]) =>
+        value === '*' ? tags[key] !== undefined : tags[key] === value
+    );
+}
+
+export function formatAddress(tags: OsmTags): string | undefined {
+    if (tags['addr:full']) {
+        return tags['addr:full'];
+    }
+
+    const street = [tags['addr:housenumber'], tags['addr:street']].filter(Boolean).join(' ');
+    const parts = [street, tags['addr:suburb'], tags['addr:city'], tags['addr:postcode']].filter(Boolean);
+    return parts.length > 0 ? parts.join(', ') : undefined;
+}
@@ -0,0 +1,81 @@
+import { Place, PlaceCategory, OsmTagFilter } from './mapApiManager';
+import { BoundingBox } from './tileMath';
+import { categorizePoi } from './osmPois';
+import { fetchJson } from '../providers/http';
+import { capitalize } from '../util/text';
+
+const OVERPASS_URL = 'https://overpass-api.de/api/interpreter';
+const PLACE_TYPES = 'city|town|village|hamlet|suburb|neighbourhood|locality';
+
+export class OverpassClient {
+    constructor(private timeoutMs: number = 60000) {}
+
+    // Named settlements, used as offline geocoder entries
+    public async fetchNamedPlaces(bbox: BoundingBox): Promise<Place[]> {
+        const elements = await this.query(
+            `node["place"~"^(${PLACE_TYPES})$"]["name"](${this.bboxFilter(bbox)});`
+        );
+
+        return elements.map(element => {
+            const tags = element.tags || {};
+            const region = tags['is_in:state'] || tags['addr:state'] || tags['is_in'];
+            return {
+                name: tags['name:en'] || tags.name,
+                lat: element.lat,
+                lng: element.lon,
+                type: tags.place,
+                category: 'place',
+                description: region ? `${capitalize(tags.place)} • ${region}` : capitalize(tags.place)
+            };
+        });
+    }
+
+    public async fetchPois(bbox: BoundingBox, categories: PlaceCategory[]): Promise<Place[]> {
+        return this.fetchPoisIn(`(${this.bboxFilter(bbox)})`, categories);
+    }
+
+    public async fetchPoisAround(lat: number, lng: number, radiusMeters: number, categories: PlaceCategory[]): Promise<Place[]> {
+        return this.fetchPoisIn(`(around:${Math.round(radiusMeters)},${lat},${lng})`, categories);
+    }
+
+    private async fetchPoisIn(areaFilter: string, categories: PlaceCategory[]): Promise<Place[]> {
+        const selectors = categories
+            .flatMap(category => category.osmTags)
+            .map(filter => this.tagSelector(filter))
+            .map(selector => `nwr${selector}["name"]${areaFilter};`)
+            .join('');
+
+        const elements = await this.query(selectors);
+        const places: Place[] = [];
+        for (const element of elements) {
+            const lat = element.lat ?? element.center?.lat;
+            const lng = element.lon ?? element.center?.lon;
+            const place = lat !== undefined && lng !== undefined ? categorizePoi(element.tags, lat, lng, categories) : undefined;
+            if (place) {
+                places.push(place);
+            }
+        }
+        return places;
+    }
+
+    private async query(body: string): Promise<any[]> {
+        const timeoutSeconds = Math.round(this.timeoutMs / 1000);
+        const query = `[out:json][timeout:${timeoutSeconds}];(${body});out center tags;`;
+
+        const data = await fetchJson(OVERPASS_URL, this.timeoutMs, {
+            method: 'POST',
+            body: new URLSearchParams({ data: query })
+        });
+        return (data.elements || []).filter((element: any) => element.tags && element.tags.name);
+    }
+
+    private tagSelector(filter: OsmTagFilter): string {
+        return Object.entries(filter)
+            .map(([key, value]) => value === '*' ? `["${key}"]` : `["${key}"="${value}"]`)
+            .join('');
+    }
+
+    private bboxFilter(bbox: BoundingBox): string {
+        return `${bbox.south},${bbox.west},${bbox.north},${bbox.east}`;
+    }
+}
@@ -0,0 +1,157 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Place } from './mapApiManager';
+
+export interface SearchCacheOptions {
+    enabled: boolean;
+    ttlMs: number;
+    maxEntries: number;
+    maxBytes: number;
+}
+
+export interface CachedSearch {
+    data: Place[];
+    storedAt: number;
+    stale: boolean;
+}
+
+interface CacheEntry {
+    data: Place[];
+    storedAt: number;
+    size: number;
+}
+
+const SAVE_DELAY_MS = 2000;
+
+// Search results persisted as one JSON file under map-cache. Map iteration order doubles as the
+// LRU order: a hit re-inserts its key, so the first key is always the least recently used.
+export class SearchCache {
+    private entries: Map<string, CacheEntry> = new Map();
+    private totalBytes = 0;
+    private saveTimer: NodeJS.Timeout | undefined;
+
+    constructor(
+        private filePath: string,
+        private getOptions: () => SearchCacheOptions
+    ) {
+        this.load();
+    }
+
+    public get(key: string, allowStale: boolean = false): CachedSearch | undefined {
+        const options = this.getOptions();
+        const entry = this.entries.get(key);
+        if (!options.enabled || !entry) {
+            return undefined;
+        }
+
+        const stale = Date.now() - entry.storedAt > options.ttlMs;
+        if (stale && !allowStale) {
+            return undefined;
+        }
+
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        this.scheduleSave();
+        return { data: entry.data, storedAt: entry.storedAt, stale };
+    }
+
+    public set(key: string, data: Place[]): void {
+        const options = this.getOptions();
+        if (!options.enabled) {
+            return;
+        }
+
+        this.remove(key);
+        const size = Buffer.byteLength(key) + Buffer.byteLength(JSON.stringify(data));
+        if (size > options.maxBytes) {
+            return;
+        }
+
+        this.entries.set(key, { data, storedAt: Date.now(), size });
+        this.totalBytes += size;
+        this.evict(options);
+        this.scheduleSave();
+    }
+
+    public clear(): void {
+        this.entries.clear();
+        this.totalBytes = 0;
+        if (this.saveTimer) {
+            clearTimeout(this.saveTimer);
+            this.saveTimer = undefined;
+        }
+        if (fs.existsSync(this.filePath)) {
+            fs.unlinkSync(this.filePath);
+        }
+    }
+
+    public flush(): void {
+        if (this.saveTimer) {
+            clearTimeout(this.saveTimer);
+            this.saveTimer = undefined;
+        }
+        this.save();
+    }
+
+    public get size(): number {
+        return this.entries.size;
+    }
+
+    private remove(key: string): void {
+        const existing = this.entries.get(key);
+        if (existing) {
+            this.totalBytes -= existing.size;
+            this.entries.delete(key);
+        }
+    }
+
+    private evict(options: SearchCacheOptions): void {
+        while (this.entries.size > options.maxEntries || this.totalBytes > options.maxBytes) {
+            const oldestKey = this.entries.keys().next().value;
+            if (oldestKey === undefined) {
+                break;
+            }
+            this.remove(oldestKey);
+        }
+    }
+
+    private load(): void {
+        if (!fs.existsSync(this.filePath)) {
+            return;
+        }
+
+        try {
+            const stored: [string, CacheEntry][] = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+            for (const [key, entry] of stored) {
+                this.entries.set(key, entry);
+                this.totalBytes += entry.size;
+            }
+            this.evict(this.getOptions());
+        } catch (error) {
+            console.error('Search cache is unreadable, starting empty:', error);
+            this.entries.clear();
+            this.totalBytes = 0;
+        }
+    }
+
+    private scheduleSave(): void {
+        if (!this.saveTimer) {
+            this.saveTimer = setTimeout(() => {
+                this.saveTimer = undefined;
+                this.save();
+            }, SAVE_DELAY_MS);
+        }
+    }
+
+    private save(): void {
+        try {
+            fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+            // Write then rename so a crash mid-write never leaves a truncated cache behind
+            const tempPath = this.filePath + '.tmp';
+            fs.writeFileSync(tempPath, JSON.stringify(Array.from(this.entries.entries())));
+            fs.renameSync(tempPath, this.filePath);
+        } catch (error) {
+            console.error('Failed to write search cache:', error);
+        }
+    }
+}
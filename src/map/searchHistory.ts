@@ -0,0 +1,85 @@
+import * as vscode from 'vscode';
+import { DatabaseManager } from '../storage/database';
+import { SearchRecord } from '../storage/repositories/searchRepository';
+import { Place } from './mapApiManager';
+
+const DEFAULT_HISTORY_LIMIT = 25;
+
+// Searches are recorded when a result is picked, not on every keystroke of a live search,
+// so the history holds what people actually looked for
+export class SearchHistory {
+    private changeEmitter = new vscode.EventEmitter<void>();
+
+    public readonly onDidChange = this.changeEmitter.event;
+
+    constructor(private databaseManager: DatabaseManager) {}
+
+    public getEntries(limit: number = DEFAULT_HISTORY_LIMIT): Promise<SearchRecord[]> {
+        return this.databaseManager.searches.recent(limit);
+    }
+
+    public async record(query: string, resultCount: number, place?: Place): Promise<void> {
+        if (!query.trim()) {
+            return;
+        }
+        await this.databaseManager.searches.record(query, resultCount, place);
+        this.changeEmitter.fire();
+    }
+
+    public async setPinned(entry: SearchRecord, pinned: boolean): Promise<void> {
+        await this.databaseManager.searches.setPinned(entry.id, pinned);
+        this.changeEmitter.fire();
+    }
+
+    public async remove(entry: SearchRecord): Promise<void> {
+        await this.databaseManager.searches.delete(entry.id);
+        this.changeEmitter.fire();
+    }
+
+    // Used from the palette, where no entry was clicked
+    public async promptForEntry(placeHolder: string, filter: (entry: SearchRecord) => boolean = () => true): Promise<SearchRecord | undefined> {
+        const entries = (await this.getEntries(Number.MAX_SAFE_INTEGER)).filter(filter);
+        if (entries.length === 0) {
+            vscode.window.showInformationMessage('No matching searches in the history.');
+            return undefined;
+        }
+        const picked = await vscode.window.showQuickPick(
+            entries.map(entry => ({ ...toQuickPickItem(entry), entry })),
+            { placeHolder }
+        );
+        return picked?.entry;
+    }
+
+    public async promptAndClear(): Promise<void> {
+        const entries = await this.getEntries(Number.MAX_SAFE_INTEGER);
+        if (entries.length === 0) {
+            vscode.window.showInformationMessage('The search history is already empty.');
+            return;
+        }
+        const pinned = entries.filter(entry => entry.pinned).length;
+        const choice = await vscode.window.showWarningMessage(
+            'Clear the search history?',
+            { modal: true, detail: pinned > 0 ? `${pinned} pinned search(es) are kept unless you clear everything.` : undefined },
+            ...(pinned > 0 ? ['Clear Unpinned', 'Clear Everything'] : ['Clear'])
+        );
+        if (!choice) {
+            return;
+        }
+        await this.databaseManager.searches.clear(choice === 'Clear Everything');
+        this.changeEmitter.fire();
+    }
+
+    public dispose(): void {
+        this.changeEmitter.dispose();
+    }
+}
+
+// Shared by the search QuickPick and the pickers above, so entries look the same everywhere
+export function toQuickPickItem(entry: SearchRecord): vscode.QuickPickItem {
+    return {
+        label: `${entry.pinned ? '$(pinned)' : '$(history)'} ${entry.query}`,
+        description: entry.place && entry.place.name.toLowerCase() !== entry.query.toLowerCase()
+            ? entry.place.name
+            : `${entry.resultCount} result(s)`
+    };
+}
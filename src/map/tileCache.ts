@@ -0,0 +1,134 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { TileSource } from '../providers/types';
+
+export interface TileCacheOptions {
+    enabled: boolean;
+    offline: boolean;
+}
+
+export interface CachedTile {
+    data: Buffer;
+    mimeType: string;
+}
+
+// OpenStreetMap tiles keep the original unprefixed layout so existing caches stay valid
+const LEGACY_TILE_SOURCE = 'openstreetmap';
+
+// The file extension records the image format; PNG first, as every tile cached before formats were kept is one
+const TILE_FORMATS: { extension: string; mimeType: string }[] = [
+    { extension: 'png', mimeType: 'image/png' },
+    { extension: 'jpg', mimeType: 'image/jpeg' },
+    { extension: 'webp', mimeType: 'image/webp' }
+];
+
+// Tiles live under map-cache/tiles/{z}/{x}/{y}.{png,jpg,webp}, the same layout as the tile server, so a
+// cached area can be inspected or copied between machines by hand. Other providers get their
+// own map-cache/tiles/{source}/ directory.
+export class TileCache {
+    private tileDir: string;
+    private inFlight: Map<string, Promise<CachedTile | undefined>> = new Map();
+
+    constructor(
+        cacheDir: string,
+        private getOptions: () => TileCacheOptions,
+        private getSource: () => TileSource
+    ) {
+        this.tileDir = path.join(cacheDir, 'tiles');
+    }
+
+    public async getTile(z: number, x: number, y: number): Promise<CachedTile | undefined> {
+        const cached = this.getSource().cacheable ? await this.readTile(z, x, y) : undefined;
+        if (cached) {
+            return cached;
+        }
+
+        if (this.getOptions().offline) {
+            return undefined;
+        }
+
+        // Leaflet often asks for the same tile twice while zooming; share one download
+        const key = `${this.getSource().id}/${z}/${x}/${y}`;
+        let request = this.inFlight.get(key);
+        if (!request) {
+            request = this.downloadTile(z, x, y).finally(() => this.inFlight.delete(key));
+            this.inFlight.set(key, request);
+        }
+        return request;
+    }
+
+    public async hasTile(z: number, x: number, y: number): Promise<boolean> {
+        if (!this.getSource().cacheable) {
+            return false;
+        }
+        for (const format of TILE_FORMATS) {
+            if (await fs.promises.access(this.tilePath(z, x, y, format.extension)).then(() => true, () => false)) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    public async downloadTile(z: number, x: number, y: number): Promise<CachedTile | undefined> {
+        const source = this.getSource();
+        try {
+            const tile = await source.fetchTile(z, x, y);
+            if (tile && source.cacheable && this.getOptions().enabled) {
+                await this.writeTile(this.tilePath(z, x, y, tileFormat(tile.mimeType).extension, source), tile.data);
+            }
+            return tile;
+        } catch (error) {
+            console.error(`Tile ${source.id}/${z}/${x}/${y} download failed:`, error);
+            return undefined;
+        }
+    }
+
+    public getStats(): { tiles: number; bytes: number } {
+        const stats = { tiles: 0, bytes: 0 };
+        const walk = (dir: string) => {
+            if (!fs.existsSync(dir)) {
+                return;
+            }
+            for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+                const entryPath = path.join(dir, entry.name);
+                if (entry.isDirectory()) {
+                    walk(entryPath);
+                } else {
+                    stats.tiles++;
+                    stats.bytes += fs.statSync(entryPath).size;
+                }
+            }
+        };
+        walk(this.tileDir);
+        return stats;
+    }
+
+    private async readTile(z: number, x: number, y: number): Promise<CachedTile | undefined> {
+        for (const format of TILE_FORMATS) {
+            try {
+                const data = await fs.promises.readFile(this.tilePath(z, x, y, format.extension));
+                return { data, mimeType: format.mimeType };
+            } catch {
+                // Not cached in this format
+            }
+        }
+        return undefined;
+    }
+
+    private async writeTile(tilePath: string, data: Buffer): Promise<void> {
+        await fs.promises.mkdir(path.dirname(tilePath), { recursive: true });
+        await fs.promises.writeFile(tilePath, data);
+    }
+
+    // The source is resolved by the caller when a download spans a provider switch
+    private tilePath(z: number, x: number, y: number, extension: string, source: TileSource = this.getSource()): string {
+        const sourceDir = source.id === LEGACY_TILE_SOURCE ? this.tileDir : path.join(this.tileDir, source.id);
+        return path.join(sourceDir, String(z), String(x), `${y}.${extension}`);
+    }
+}
+
+// Content types may carry parameters ("image/jpeg; charset=binary"); anything unknown is stored as PNG
+function tileFormat(contentType: string): { extension: string; mimeType: string } {
+    const mimeType = contentType.split(';')[0].trim().toLowerCase();
+    return TILE_FORMATS.find(format => format.mimeType === mimeType) || TILE_FORMATS[0];
+}
@@ -0,0 +1,90 @@
+export interface BoundingBox {
+    south: number;
+    west: number;
+    north: number;
+    east: number;
+}
+
+export interface TileCoord {
+    z: number;
+    x: number;
+    y: number;
+}
+
+// Web Mercator stops at roughly +/-85.0511 degrees
+const MAX_LATITUDE = 85.0511;
+
+export function lngToTileX(lng: number, z: number): number {
+    const n = Math.pow(2, z);
+    return Math.min(n - 1, Math.max(0, Math.floor((lng + 180) / 360 * n)));
+}
+
+export function latToTileY(lat: number, z: number): number {
+    const n = Math.pow(2, z);
+    const clamped = Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, lat));
+    const rad = clamped * Math.PI / 180;
+    const y = (1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2 * n;
+    return Math.min(n - 1, Math.max(0, Math.floor(y)));
+}
+
+export function tileRange(bbox: BoundingBox, z: number): { minX: number; maxX: number; minY: number; maxY: number } {
+    return {
+        minX: lngToTileX(bbox.west, z),
+        maxX: lngToTileX(bbox.east, z),
+        // Tile rows grow southwards
+        minY: latToTileY(bbox.north, z),
+        maxY: latToTileY(bbox.south, z)
+    };
+}
+
+export function countTiles(bbox: BoundingBox, minZoom: number, maxZoom: number): number {
+    let total = 0;
+    for (let z = minZoom; z <= maxZoom; z++) {
+        const range = tileRange(bbox, z);
+        total += (range.maxX - range.minX + 1) * (range.maxY - range.minY + 1);
+    }
+    return total;
+}
+
+// Always yields tiles in the same order, so a download can resume from a plain index
+export function* iterateTiles(bbox: BoundingBox, minZoom: number, maxZoom: number): Generator<TileCoord> {
+    for (let z = minZoom; z <= maxZoom; z++) {
+        const range = tileRange(bbox, z);
+        for (let x = range.minX; x <= range.maxX; x++) {
+            for (let y = range.minY; y <= range.maxY; y++) {
+                yield { z, x, y };
+            }
+        }
+    }
+}
+
+export function boundingBoxAround(lat: number, lng: number, radiusKm: number): BoundingBox {
+    const latDelta = radiusKm / 111;
+    const lngDelta = radiusKm / (111 * Math.max(Math.cos(lat * Math.PI / 180), 0.01));
+    return {
+        south: lat - latDelta,
+        west: lng - lngDelta,
+        north: lat + latDelta,
+        east: lng + lngDelta
+    };
+}
+
+export function splitBoundingBox(bbox: BoundingBox, maxSpanDegrees: number): BoundingBox[] {
+    const rows = Math.max(1, Math.ceil((bbox.north - bbox.south) / maxSpanDegrees));
+    const columns = Math.max(1, Math.ceil((bbox.east - bbox.west) / maxSpanDegrees));
+    const latStep = (bbox.north - bbox.south) / rows;
+    const lngStep = (bbox.east - bbox.west) / columns;
+
+    const cells: BoundingBox[] = [];
+    for (let row = 0; row < rows; row++) {
+        for (let column = 0; column < columns; column++) {
+            cells.push({
+                south: bbox.south + row * latStep,
+                west: bbox.west + column * lngStep,
+                north: bbox.south + (row + 1) * latStep,
+                east: bbox.west + (column + 1) * lngStep
+            });
+        }
+    }
+    return cells;
+}
@@ -0,0 +1,134 @@
+import { DatabaseManager } from '../storage/database';
+import { GazetteerMatch } from '../storage/repositories/gazetteerRepository';
+import { Place } from '../map/mapApiManager';
+import { capitalize } from '../util/text';
+
+const CANDIDATE_LIMIT = 50;
+const FUZZY_CANDIDATE_LIMIT = 200;
+
+// How much a place type lifts a result; a capital beats a same-named village
+const TYPE_WEIGHTS: { [type: string]: number } = {
+    capital: 5, state: 4.5, city: 4, district: 3.5, town: 3,
+    fort: 2.5, palace: 2.5, temple: 2.5, monument: 2.5, museum: 2.5, ruins: 2.5, beach: 2.5,
+    waterfall: 2.5, lake: 2, mountain: 2, island: 2, park: 2, landmark: 2, station: 2, airport: 2,
+    village: 1.5, neighbourhood: 1.5, locality: 1
+};
+
+interface RankedMatch {
+    match: GazetteerMatch;
+    score: number;
+}
+
+export class Gazetteer {
+    constructor(private databaseManager: DatabaseManager) {}
+
+    public async search(query: string, limit: number = 8): Promise<Place[]> {
+        const normalized = this.normalize(query);
+        const tokens = normalized.split(' ').filter(Boolean);
+        if (tokens.length === 0) {
+            return [];
+        }
+
+        // Every token must match, the last one (and any other) as a prefix: "hampi ru" finds "Hampi Ruins"
+        const ftsQuery = tokens.map(token => `"${token}"*`).join(' ');
+        const ranked = new Map<number, RankedMatch>();
+        for (const match of await this.databaseManager.gazetteer.searchText(ftsQuery, CANDIDATE_LIMIT)) {
+            ranked.set(match.id, { match, score: this.score(match, normalized) });
+        }
+
+        if (ranked.size < limit) {
+            for (const candidate of await this.fuzzyCandidates(normalized)) {
+                if (!ranked.has(candidate.match.id)) {
+                    ranked.set(candidate.match.id, candidate);
+                }
+            }
+        }
+
+        return Array.from(ranked.values())
+            .sort((a, b) => b.score - a.score)
+            .slice(0, limit)
+            .map(ranked => this.toPlace(ranked.match));
+    }
+
+    public async isEmpty(): Promise<boolean> {
+        return (await this.databaseManager.gazetteer.count()) === 0;
+    }
+
+    public toPlace(match: GazetteerMatch): Place {
+        const region = [match.admin2, match.admin1].filter(Boolean).join(', ');
+        return {
+            name: match.admin1 && match.admin1 !== match.name ? `${match.name}, ${match.admin1}` : match.name,
+            lat: match.lat,
+            lng: match.lng,
+            type: match.placeType,
+            category: 'place',
+            description: region ? `${capitalize(match.placeType)} • ${region}` : capitalize(match.placeType)
+        };
+    }
+
+    // Typos like "banglore" share most trigrams with the real name; candidates are then
+    // accepted only within a small edit distance of the query or of the name's prefix
+    private async fuzzyCandidates(normalized: string): Promise<RankedMatch[]> {
+        const compact = normalized.replace(/ /g, '');
+        if (compact.length < 4) {
+            return [];
+        }
+
+        const trigrams = new Set<string>();
+        for (let i = 0; i + 3 <= compact.length; i++) {
+            trigrams.add(compact.slice(i, i + 3));
+        }
+        const ftsQuery = Array.from(trigrams).map(trigram => `"${trigram}"`).join(' OR ');
+        const maxDistance = compact.length <= 5 ? 1 : 2;
+
+        const candidates: RankedMatch[] = [];
+        for (const match of await this.databaseManager.gazetteer.searchTrigrams(ftsQuery, FUZZY_CANDIDATE_LIMIT)) {
+            const names = [match.asciiName || match.name, ...(match.alternateNames || '').split(',')]
+                .map(name => this.normalize(name).replace(/ /g, ''))
+                .filter(Boolean);
+            const distance = Math.min(...names.map(name => Math.min(
+                this.editDistance(compact, name),
+                this.editDistance(compact, name.slice(0, compact.length))
+            )));
+            if (distance <= maxDistance) {
+                candidates.push({ match, score: this.score(match, normalized) - 3 * distance });
+            }
+        }
+        return candidates;
+    }
+
+    private score(match: GazetteerMatch, normalizedQuery: string): number {
+        const name = this.normalize(match.name);
+        let score = -match.textRank;
+        if (name === normalizedQuery) {
+            score += 10;
+        } else if (name.startsWith(normalizedQuery)) {
+            score += 4;
+        }
+        score += Math.log10(match.population + 1) * 1.5;
+        score += TYPE_WEIGHTS[match.placeType] ?? 0.5;
+        return score;
+    }
+
+    private normalize(text: string): string {
+        return text
+            .normalize('NFD')
+            .replace(/[\u0300-\u036f]/g, '')
+            .toLowerCase()
+            .replace(/[^\p{L}\p{M}\p{N}]+/gu, ' ')
+            .trim();
+    }
+
+    private editDistance(a: string, b: string): number {
+        let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+        for (let i = 1; i <= a.length; i++) {
+            const current = [i];
+            for (let j = 1; j <= b.length; j++) {
+                const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+                current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+            }
+            previous = current;
+        }
+        return previous[b.length];
+    }
+}
@@ -0,0 +1,326 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import { DatabaseManager } from '../storage/database';
+import { GazetteerEntry } from '../storage/repositories/gazetteerRepository';
+
+const BATCH_SIZE = 2000;
+
+// GeoNames feature classes that are not useful as search targets (roads, undersea, vegetation)
+const SKIPPED_FEATURE_CLASSES = new Set(['R', 'U', 'V']);
+// Most hydrographic features are streams and canals; only keep the ones people travel to
+const KEPT_WATER_CODES = new Set(['LK', 'LKS', 'RSV', 'FLLS', 'BAY', 'LGN']);
+
+const LANDMARK_CODES: { [code: string]: string } = {
+    TMPL: 'temple', MSQE: 'mosque', CH: 'church', MUS: 'museum', FT: 'fort', MNMT: 'monument',
+    PAL: 'palace', RUIN: 'ruins', HTL: 'hotel', RSTN: 'station', AIRP: 'airport', HSP: 'hospital',
+    UNIV: 'university', MKT: 'market', ZOO: 'zoo', CSTL: 'castle', TOMB: 'tomb', GDN: 'garden'
+};
+
+const OSM_PLACE_TYPES: { [value: string]: string } = {
+    city: 'city', town: 'town', village: 'village', hamlet: 'village',
+    suburb: 'neighbourhood', neighbourhood: 'neighbourhood', quarter: 'neighbourhood', locality: 'locality',
+    state: 'state', district: 'district', island: 'island'
+};
+
+// Loads GeoNames country dumps (IN.txt) or OSM place extracts (GeoJSON) into the gazetteer
+export class GazetteerImporter {
+    constructor(private databaseManager: DatabaseManager) {}
+
+    public async promptAndImport(): Promise<void> {
+        const files = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            openLabel: 'Import Gazetteer',
+            filters: {
+                'GeoNames dump or OSM place extract': ['txt', 'tsv', 'geojson', 'json', 'geojsonl', 'ndjson'],
+                'All files': ['*']
+            }
+        });
+        if (!files || files.length === 0) {
+            return;
+        }
+
+        const filePath = files[0].fsPath;
+        await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `Importing ${path.basename(filePath)}`,
+            cancellable: true
+        }, async (progress, token) => {
+            let reported = 0;
+            try {
+                const imported = await this.import(filePath, fraction => {
+                    const percent = Math.floor(fraction * 100);
+                    progress.report({ message: `${percent}%`, increment: percent - reported });
+                    reported = percent;
+                }, token);
+
+                const total = await this.databaseManager.gazetteer.count();
+                vscode.window.showInformationMessage(
+                    `${token.isCancellationRequested ? 'Import stopped after' : 'Imported'} ${imported.toLocaleString()} places. ` +
+                    `The offline gazetteer now has ${total.toLocaleString()} entries.`
+                );
+            } catch (error) {
+                vscode.window.showErrorMessage(`Gazetteer import failed: ${error}`);
+            }
+        });
+    }
+
+    public async import(
+        filePath: string,
+        onProgress: (fraction: number) => void = () => undefined,
+        token?: vscode.CancellationToken
+    ): Promise<number> {
+        const format = await this.detectFormat(filePath);
+        let imported: number;
+
+        if (format === 'geonames') {
+            const adminNames = this.loadGeoNamesAdminNames(path.dirname(filePath));
+            imported = await this.importLines(filePath, line => this.parseGeoNamesLine(line, adminNames), onProgress, token);
+        } else if (format === 'geojson-lines') {
+            imported = await this.importLines(filePath, line => this.parseGeoJsonLine(line), onProgress, token);
+        } else {
+            const collection = JSON.parse(await fs.promises.readFile(filePath, 'utf8'));
+            const entries = (collection.features || [])
+                .map((feature: any) => this.parseGeoJsonFeature(feature))
+                .filter((entry: GazetteerEntry | undefined) => entry !== undefined);
+            imported = 0;
+            for (let i = 0; i < entries.length && !token?.isCancellationRequested; i += BATCH_SIZE) {
+                const batch = entries.slice(i, i + BATCH_SIZE);
+                await this.databaseManager.gazetteer.insertMany(batch);
+                imported += batch.length;
+                onProgress(imported / entries.length);
+            }
+        }
+
+        // Whatever made it in stays searchable, even after a cancelled import
+        await this.databaseManager.gazetteer.rebuildIndexes();
+        return imported;
+    }
+
+    private async detectFormat(filePath: string): Promise<'geonames' | 'geojson' | 'geojson-lines'> {
+        const handle = await fs.promises.open(filePath, 'r');
+        try {
+            const buffer = Buffer.alloc(512);
+            const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0);
+            const head = buffer.toString('utf8', 0, bytesRead).trimStart();
+            if (!head.startsWith('{')) {
+                return 'geonames';
+            }
+            return /"FeatureCollection"/.test(head) ? 'geojson' : 'geojson-lines';
+        } finally {
+            await handle.close();
+        }
+    }
+
+    private async importLines(
+        filePath: string,
+        parse: (line: string) => GazetteerEntry | undefined,
+        onProgress: (fraction: number) => void,
+        token?: vscode.CancellationToken
+    ): Promise<number> {
+        const totalBytes = Math.max(fs.statSync(filePath).size, 1);
+        const stream = fs.createReadStream(filePath, { encoding: 'utf8' });
+        const lines = readline.createInterface({ input: stream, crlfDelay: Infinity });
+
+        let imported = 0;
+        let batch: GazetteerEntry[] = [];
+        try {
+            for await (const line of lines) {
+                if (token?.isCancellationRequested) {
+                    break;
+                }
+                if (!line.trim()) {
+                    continue;
+                }
+
+                const entry = parse(line);
+                if (entry) {
+                    batch.push(entry);
+                }
+                if (batch.length >= BATCH_SIZE) {
+                    await this.databaseManager.gazetteer.insertMany(batch);
+                    imported += batch.length;
+                    batch = [];
+                    onProgress(stream.bytesRead / totalBytes);
+                }
+            }
+
+            if (batch.length > 0 && !token?.isCancellationRequested) {
+                await this.databaseManager.gazetteer.insertMany(batch);
+                imported += batch.length;
+            }
+            onProgress(1);
+            return imported;
+        } finally {
+            lines.close();
+            stream.destroy();
+        }
+    }
+
+    private parseGeoNamesLine(line: string, adminNames: Map<string, string>): GazetteerEntry | undefined {
+        const columns = line.split('\t');
+        if (columns.length < 15) {
+            return undefined;
+        }
+
+        const [id, name, asciiName, alternateNames, lat, lng, featureClass, featureCode, countryCode] = columns;
+        const admin1Code = columns[10];
+        const admin2Code = columns[11];
+        if (SKIPPED_FEATURE_CLASSES.has(featureClass) || (featureClass === 'H' && !KEPT_WATER_CODES.has(featureCode))) {
+            return undefined;
+        }
+
+        const population = parseInt(columns[14], 10) || 0;
+        return {
+            source: 'geonames',
+            sourceId: id,
+            name,
+            asciiName: asciiName || undefined,
+            alternateNames: alternateNames || undefined,
+            lat: parseFloat(lat),
+            lng: parseFloat(lng),
+            placeType: this.geoNamesPlaceType(featureClass, featureCode, population),
+            featureCode: `${featureClass}.${featureCode}`,
+            countryCode,
+            admin1: adminNames.get(`${countryCode}.${admin1Code}`),
+            admin2: adminNames.get(`${countryCode}.${admin1Code}.${admin2Code}`),
+            population
+        };
+    }
+
+    private geoNamesPlaceType(featureClass: string, featureCode: string, population: number): string {
+        switch (featureClass) {
+            case 'P':
+                if (featureCode === 'PPLC') {
+                    return 'capital';
+                }
+                if (featureCode === 'PPLX') {
+                    return 'neighbourhood';
+                }
+                if (featureCode === 'PPLA' || population >= 100000) {
+                    return 'city';
+                }
+                return population >= 10000 ? 'town' : 'village';
+            case 'A':
+                return featureCode === 'ADM1' ? 'state' : featureCode === 'ADM2' ? 'district' : 'region';
+            case 'S':
+                return LANDMARK_CODES[featureCode] || 'landmark';
+            case 'L':
+                return featureCode === 'PRK' ? 'park' : featureCode === 'RESN' ? 'reserve' : 'area';
+            case 'T':
+                if (featureCode === 'MT' || featureCode === 'PK' || featureCode === 'HLL') {
+                    return 'mountain';
+                }
+                return featureCode === 'BCH' ? 'beach' : featureCode === 'ISL' ? 'island' : featureCode === 'PASS' ? 'pass' : 'terrain';
+            case 'H':
+                return featureCode === 'FLLS' ? 'waterfall' : 'lake';
+            default:
+                return 'place';
+        }
+    }
+
+    // admin1CodesASCII.txt and admin2Codes.txt sit next to the country dump on the GeoNames server;
+    // without them states and districts are simply left blank
+    private loadGeoNamesAdminNames(directory: string): Map<string, string> {
+        const names = new Map<string, string>();
+        for (const fileName of ['admin1CodesASCII.txt', 'admin2Codes.txt']) {
+            const filePath = path.join(directory, fileName);
+            if (!fs.existsSync(filePath)) {
+                continue;
+            }
+            for (const line of fs.readFileSync(filePath, 'utf8').split('\n')) {
+                const [code, name] = line.split('\t');
+                if (code && name) {
+                    names.set(code, name);
+                }
+            }
+        }
+        return names;
+    }
+
+    private parseGeoJsonLine(line: string): GazetteerEntry | undefined {
+        try {
+            // GeoJSON text sequences (RFC 8142) prefix every record with a record separator
+            return this.parseGeoJsonFeature(JSON.parse(line.replace(/^\x1e/, '')));
+        } catch {
+            return undefined;
+        }
+    }
+
+    private parseGeoJsonFeature(feature: any): GazetteerEntry | undefined {
+        const properties = feature?.properties || {};
+        const name = properties['name:en'] || properties.name;
+        const coordinates = this.representativePoint(feature?.geometry);
+        const placeType = this.osmPlaceType(properties);
+        if (!name || !coordinates || !placeType) {
+            return undefined;
+        }
+
+        const sourceId = String(properties['@id'] ?? properties.osm_id ?? properties.id ?? feature.id ?? `${name}@${coordinates[1]},${coordinates[0]}`);
+        const alternateNames = Object.keys(properties)
+            .filter(key => key.startsWith('name:') || key === 'alt_name' || key === 'old_name')
+            .map(key => properties[key])
+            .filter(value => value !== name)
+            .join(',');
+
+        return {
+            source: 'osm',
+            sourceId,
+            name,
+            asciiName: name.normalize('NFD').replace(/[\u0300-\u036f]/g, ''),
+            alternateNames: alternateNames || undefined,
+            lat: coordinates[1],
+            lng: coordinates[0],
+            placeType,
+            countryCode: properties['addr:country'] || properties['is_in:country_code'],
+            admin1: properties['is_in:state'] || properties['addr:state'],
+            admin2: properties['is_in:district'] || properties['addr:district'],
+            population: parseInt(properties.population, 10) || 0
+        };
+    }
+
+    private osmPlaceType(properties: any): string | undefined {
+        if (properties.place) {
+            return OSM_PLACE_TYPES[properties.place];
+        }
+        if (properties.historic) {
+            return properties.historic === 'fort' ? 'fort' : properties.historic === 'ruins' ? 'ruins' : 'monument';
+        }
+        if (properties.tourism) {
+            return properties.tourism === 'museum' ? 'museum' : 'landmark';
+        }
+        if (properties.amenity === 'place_of_worship') {
+            return 'temple';
+        }
+        if (properties.natural === 'peak') {
+            return 'mountain';
+        }
+        return undefined;
+    }
+
+    // Points are used as is; lines and polygons use the average of their (outer) ring
+    private representativePoint(geometry: any): [number, number] | undefined {
+        if (!geometry) {
+            return undefined;
+        }
+        if (geometry.type === 'Point') {
+            return geometry.coordinates;
+        }
+
+        let ring: [number, number][] | undefined;
+        if (geometry.type === 'LineString') {
+            ring = geometry.coordinates;
+        } else if (geometry.type === 'Polygon') {
+            ring = geometry.coordinates[0];
+        } else if (geometry.type === 'MultiPolygon') {
+            ring = geometry.coordinates[0]?.[0];
+        }
+        if (!ring || ring.length === 0) {
+            return undefined;
+        }
+
+        const sum = ring.reduce((total, point) => [total[0] + point[0], total[1] + point[1]], [0, 0]);
+        return [sum[0] / ring.length, sum[1] / ring.length];
+    }
+}
@@ -0,0 +1,434 @@
+import * as vscode from 'vscode';
+import { DatabaseManager } from '../storage/database';
+import { RegionDownload } from '../storage/repositories/regionDownloadRepository';
+import { AreaDownloadOptions, MapApiManager } from '../map/mapApiManager';
+import { BoundingBox, boundingBoxAround, countTiles, iterateTiles } from '../map/tileMath';
+import { INDIAN_CITIES } from '../map/indianCities';
+import { ApiMapPanel } from '../ui/panels/ApiMapPanel';
+
+// Typical OSM raster tile; real sizes range from ~1 KB (sea) to ~40 KB (dense city)
+const AVERAGE_TILE_BYTES = 15 * 1024;
+const TILE_BATCH_SIZE = 4;
+const PROGRESS_SAVE_EVERY = 5;
+// Cache lookups run this many at a time while estimating, so the extension host stays responsive
+const CACHE_CHECK_BATCH_SIZE = 256;
+const CITY_RADIUS_KM = 15;
+const MIN_DOWNLOAD_ZOOM = 3;
+const MAX_DOWNLOAD_ZOOM = 18;
+
+// Share of the progress bar for each phase; tiles dominate download time
+const TILE_PHASE_WEIGHT = 90;
+const PLACES_PHASE_WEIGHT = 5;
+const POIS_PHASE_WEIGHT = 5;
+
+interface ZoomPreset extends vscode.QuickPickItem {
+    minZoom?: number;
+    maxZoom?: number;
+}
+
+export class RegionDownloader {
+    private activeDownloads: Set<number> = new Set();
+
+    constructor(
+        private databaseManager: DatabaseManager,
+        private apiManager: MapApiManager
+    ) {}
+
+    public async promptAndDownload(presetBounds?: BoundingBox): Promise<void> {
+        if (!await this.canDownload()) {
+            return;
+        }
+
+        const region = presetBounds
+            ? { name: 'Map area', bbox: presetBounds }
+            : await this.pickRegion();
+        if (!region) {
+            return;
+        }
+
+        const zoomRange = await this.pickZoomRange();
+        if (!zoomRange) {
+            return;
+        }
+
+        // Counting is arithmetic; the cache is only looked at once the area is known to be within the limit
+        const tiles = countTiles(region.bbox, zoomRange.minZoom, zoomRange.maxZoom);
+        const maxTiles = vscode.workspace.getConfiguration('offlineMap').get('maxRegionTiles', 20000);
+        if (tiles > maxTiles) {
+            vscode.window.showErrorMessage(
+                `${region.name} needs ${tiles.toLocaleString()} tiles at zoom ${zoomRange.minZoom}-${zoomRange.maxZoom}, ` +
+                `more than the limit of ${maxTiles.toLocaleString()}. Choose a smaller area or a lower maximum zoom.`
+            );
+            return;
+        }
+
+        const estimate = await this.estimate(region.bbox, zoomRange.minZoom, zoomRange.maxZoom);
+        const confirmation = await vscode.window.showInformationMessage(
+            `Download ${region.name} for offline use?`,
+            {
+                modal: true,
+                detail: `${estimate.tiles.toLocaleString()} tiles at zoom ${zoomRange.minZoom}-${zoomRange.maxZoom} ` +
+                    `(${estimate.missingTiles.toLocaleString()} not cached yet, about ${this.formatBytes(estimate.bytes)}), ` +
+                    (this.apiManager.canDownloadAreaData(region.bbox)
+                        ? 'plus places and points of interest in the area.'
+                        : 'without places and points of interest, which are only downloaded for smaller areas.')
+            },
+            'Download'
+        );
+        if (confirmation !== 'Download') {
+            return;
+        }
+
+        const download = await this.databaseManager.regionDownloads.create(
+            region.name, region.bbox, zoomRange.minZoom, zoomRange.maxZoom, estimate.tiles
+        );
+        this.run(download);
+    }
+
+    // Checks every tile in the area against the cache, so callers check countTiles() against the limit first
+    public async estimate(bbox: BoundingBox, minZoom: number, maxZoom: number): Promise<{ tiles: number; missingTiles: number; bytes: number }> {
+        const tiles = countTiles(bbox, minZoom, maxZoom);
+        let missingTiles = 0;
+        let batch: Promise<boolean>[] = [];
+        const countBatch = async () => {
+            missingTiles += (await Promise.all(batch)).filter(cached => !cached).length;
+            batch = [];
+        };
+        for (const tile of iterateTiles(bbox, minZoom, maxZoom)) {
+            batch.push(this.apiManager.hasCachedTile(tile.z, tile.x, tile.y));
+            if (batch.length >= CACHE_CHECK_BATCH_SIZE) {
+                await countBatch();
+            }
+        }
+        await countBatch();
+        return { tiles, missingTiles, bytes: missingTiles * AVERAGE_TILE_BYTES };
+    }
+
+    // Downloads left 'running' were interrupted by a restart; 'paused' ones were cancelled by the user
+    public async offerResume(): Promise<void> {
+        const unfinished = await this.databaseManager.regionDownloads.findUnfinished();
+        for (const download of unfinished) {
+            const percent = Math.floor(download.tilesDone / Math.max(download.tilesTotal, 1) * 100);
+            vscode.window.showInformationMessage(
+                `Offline download of "${download.name}" stopped at ${percent}%.`,
+                'Resume',
+                'Discard'
+            ).then(async selection => {
+                if (selection === 'Resume' && await this.canDownload(download)) {
+                    this.run(download);
+                } else if (selection === 'Discard') {
+                    await this.databaseManager.regionDownloads.delete(download.id);
+                }
+            });
+        }
+    }
+
+    public async pickAndResume(): Promise<void> {
+        const unfinished = (await this.databaseManager.regionDownloads.findUnfinished())
+            .filter(download => !this.activeDownloads.has(download.id));
+        if (unfinished.length === 0) {
+            vscode.window.showInformationMessage('No unfinished offline downloads');
+            return;
+        }
+
+        const selected = await vscode.window.showQuickPick(
+            unfinished.map(download => ({
+                label: download.name,
+                description: `${download.tilesDone.toLocaleString()} of ${download.tilesTotal.toLocaleString()} tiles`,
+                detail: `Zoom ${download.minZoom}-${download.maxZoom} • ${download.status}`,
+                download
+            })),
+            { placeHolder: 'Select a download to resume...' }
+        );
+        if (selected && await this.canDownload(selected.download)) {
+            this.run(selected.download);
+        }
+    }
+
+    // Checked before any work is queued, whether the download is new or resumed
+    private async canDownload(resumed?: RegionDownload): Promise<boolean> {
+        const tileSource = this.apiManager.getTileSourceInfo();
+        if (!tileSource.cacheable) {
+            vscode.window.showErrorMessage(
+                `${tileSource.name} does not allow its map tiles to be stored. Switch the map provider in the settings to download an area.`
+            );
+            return false;
+        }
+        // A download started with another provider may go deeper than this one allows
+        if (resumed && resumed.maxZoom > this.maxDownloadZoom()) {
+            vscode.window.showErrorMessage(
+                `${tileSource.name} only allows downloading up to zoom ${this.maxDownloadZoom()}. ` +
+                `Discard "${resumed.name}" and download the area again with a lower maximum zoom.`
+            );
+            return false;
+        }
+
+        const config = vscode.workspace.getConfiguration('offlineMap');
+        if (this.apiManager.isOfflineMode()) {
+            const choice = await vscode.window.showWarningMessage(
+                'Offline mode is on. Downloading an area needs the network.',
+                'Go Online'
+            );
+            if (choice !== 'Go Online') {
+                return false;
+            }
+            await config.update('offlineMode', false, true);
+        }
+
+        // Tiles are only written while caching is on; without it a download would fetch the area and keep nothing
+        if (!config.get('cacheEnabled', true)) {
+            const choice = await vscode.window.showWarningMessage(
+                'Map caching is turned off, so downloaded tiles would not be kept.',
+                'Turn On Caching'
+            );
+            if (choice !== 'Turn On Caching') {
+                return false;
+            }
+            await config.update('cacheEnabled', true, true);
+        }
+        return true;
+    }
+
+    private async pickRegion(): Promise<{ name: string; bbox: BoundingBox } | undefined> {
+        const source = await vscode.window.showQuickPick(
+            [
+                { label: '$(screen-full) Current map view', id: 'view' },
+                { label: '$(primitive-square) Draw a rectangle on the map', id: 'draw' },
+                { label: '$(location) City', id: 'city' }
+            ],
+            { placeHolder: 'Which area do you want to download?' }
+        );
+        if (!source) {
+            return undefined;
+        }
+
+        if (source.id === 'city') {
+            const city = await vscode.window.showQuickPick(
+                INDIAN_CITIES.map(item => ({ label: item.name, description: `${CITY_RADIUS_KM} km around the centre`, city: item })),
+                { placeHolder: 'Select a city to download...' }
+            );
+            return city
+                ? { name: city.city.name, bbox: boundingBoxAround(city.city.lat, city.city.lng, CITY_RADIUS_KM) }
+                : undefined;
+        }
+
+        if (!ApiMapPanel.currentPanel) {
+            vscode.window.showWarningMessage('Open the map first to download the visible area or draw a rectangle');
+            return undefined;
+        }
+
+        const bbox = source.id === 'view'
+            ? await ApiMapPanel.requestFromWebview<BoundingBox>('getMapBounds')
+            : await ApiMapPanel.requestFromWebview<BoundingBox>('drawRectangle');
+        if (!bbox) {
+            return undefined;
+        }
+
+        const name = await vscode.window.showInputBox({
+            prompt: 'Name this offline area',
+            value: source.id === 'view' ? 'Map area' : 'Drawn area'
+        });
+        return name ? { name, bbox } : undefined;
+    }
+
+    private async pickZoomRange(): Promise<{ minZoom: number; maxZoom: number } | undefined> {
+        const maxZoom = this.maxDownloadZoom();
+        const presets: ZoomPreset[] = [
+            { label: 'City streets', description: 'zoom 10-15', minZoom: 10, maxZoom: 15 },
+            { label: 'Detailed streets', description: `zoom 10-${Math.min(17, maxZoom)}`, minZoom: 10, maxZoom: Math.min(17, maxZoom) },
+            { label: 'Region overview', description: 'zoom 6-12', minZoom: 6, maxZoom: 12 },
+            { label: 'Custom range...' }
+        ];
+        const preset = await vscode.window.showQuickPick(presets, { placeHolder: 'Select the zoom levels to download' });
+        if (!preset) {
+            return undefined;
+        }
+        if (preset.minZoom !== undefined && preset.maxZoom !== undefined) {
+            return { minZoom: preset.minZoom, maxZoom: preset.maxZoom };
+        }
+
+        const value = await vscode.window.showInputBox({
+            prompt: `Zoom range to download, between ${MIN_DOWNLOAD_ZOOM} and ${maxZoom}`,
+            placeHolder: '10-15',
+            validateInput: input => this.parseZoomRange(input) ? undefined : 'Enter two zoom levels like 10-15'
+        });
+        return value ? this.parseZoomRange(value) : undefined;
+    }
+
+    private parseZoomRange(input: string): { minZoom: number; maxZoom: number } | undefined {
+        const match = /^\s*(\d{1,2})\s*-\s*(\d{1,2})\s*$/.exec(input);
+        if (!match) {
+            return undefined;
+        }
+        const minZoom = parseInt(match[1], 10);
+        const maxZoom = parseInt(match[2], 10);
+        return minZoom >= MIN_DOWNLOAD_ZOOM && maxZoom <= this.maxDownloadZoom() && minZoom <= maxZoom ? { minZoom, maxZoom } : undefined;
+    }
+
+    private maxDownloadZoom(): number {
+        return Math.min(MAX_DOWNLOAD_ZOOM, this.apiManager.getTileSourceInfo().maxBulkZoom ?? MAX_DOWNLOAD_ZOOM);
+    }
+
+    private run(download: RegionDownload): void {
+        if (this.activeDownloads.has(download.id)) {
+            return;
+        }
+        this.activeDownloads.add(download.id);
+
+        vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `Downloading ${download.name}`,
+            cancellable: true
+        }, async (progress, token) => {
+            download.status = 'running';
+            await this.databaseManager.regionDownloads.updateProgress(download);
+
+            try {
+                if (download.phase === 'tiles') {
+                    await this.downloadTiles(download, progress, token);
+                } else {
+                    progress.report({ increment: TILE_PHASE_WEIGHT });
+                }
+
+                if (download.phase === 'places' && !token.isCancellationRequested) {
+                    await this.downloadAreaData(download, 'Places for offline search', PLACES_PHASE_WEIGHT, progress, token,
+                        options => this.apiManager.downloadAreaPlaces(download.bbox, options));
+                    if (!token.isCancellationRequested) {
+                        download.phase = 'pois';
+                        download.cellsDone = 0;
+                        await this.databaseManager.regionDownloads.updateProgress(download);
+                    }
+                } else {
+                    progress.report({ increment: PLACES_PHASE_WEIGHT });
+                }
+
+                if (download.phase === 'pois' && !token.isCancellationRequested) {
+                    await this.downloadAreaData(download, 'Points of interest', POIS_PHASE_WEIGHT, progress, token,
+                        options => this.apiManager.downloadAreaPois(download.bbox, options));
+                    if (!token.isCancellationRequested) {
+                        download.phase = 'done';
+                        download.cellsDone = 0;
+                    }
+                } else {
+                    progress.report({ increment: POIS_PHASE_WEIGHT });
+                }
+
+                download.status = token.isCancellationRequested ? 'paused' : 'completed';
+                await this.databaseManager.regionDownloads.updateProgress(download);
+
+                if (download.status === 'completed') {
+                    const failed = download.tilesFailed > 0 ? ` (${download.tilesFailed} tiles failed)` : '';
+                    vscode.window.showInformationMessage(`${download.name} is available offline${failed}`);
+                } else {
+                    vscode.window.showInformationMessage(
+                        `Paused download of ${download.name}. Resume it with "Offline Map: Resume Region Download".`
+                    );
+                }
+            } catch (error) {
+                download.status = 'failed';
+                await this.databaseManager.regionDownloads.updateProgress(download);
+                vscode.window.showErrorMessage(`Download of ${download.name} failed: ${error}. It can be resumed later.`);
+            } finally {
+                this.activeDownloads.delete(download.id);
+            }
+        });
+    }
+
+    private async downloadTiles(
+        download: RegionDownload,
+        progress: vscode.Progress<{ message?: string; increment?: number }>,
+        token: vscode.CancellationToken
+    ): Promise<void> {
+        const total = Math.max(download.tilesTotal, 1);
+        progress.report({ increment: download.tilesDone / total * TILE_PHASE_WEIGHT });
+
+        let index = 0;
+        let batch: Promise<boolean>[] = [];
+        let batchesSinceSave = 0;
+
+        for (const tile of iterateTiles(download.bbox, download.minZoom, download.maxZoom)) {
+            // Tiles before the saved index were finished in an earlier session
+            if (index++ < download.tilesDone) {
+                continue;
+            }
+            if (token.isCancellationRequested) {
+                break;
+            }
+            // Turning offline mode on mid-download stops it where it is, to be resumed once online
+            if (this.apiManager.isOfflineMode()) {
+                throw new Error('offline mode was turned on');
+            }
+
+            batch.push(this.apiManager.cacheTile(tile.z, tile.x, tile.y));
+            if (batch.length < TILE_BATCH_SIZE) {
+                continue;
+            }
+
+            await this.finishBatch(download, batch, progress, total);
+            batch = [];
+            if (++batchesSinceSave >= PROGRESS_SAVE_EVERY) {
+                batchesSinceSave = 0;
+                await this.databaseManager.regionDownloads.updateProgress(download);
+            }
+        }
+
+        if (batch.length > 0) {
+            await this.finishBatch(download, batch, progress, total);
+        }
+
+        if (!token.isCancellationRequested) {
+            download.phase = 'places';
+        }
+        await this.databaseManager.regionDownloads.updateProgress(download);
+    }
+
+    // The cell reached is saved after each one, so a failed or cancelled phase resumes where it stopped
+    private async downloadAreaData(
+        download: RegionDownload,
+        label: string,
+        weight: number,
+        progress: vscode.Progress<{ message?: string; increment?: number }>,
+        token: vscode.CancellationToken,
+        fetch: (options: AreaDownloadOptions) => Promise<number>
+    ): Promise<void> {
+        if (!this.apiManager.canDownloadAreaData(download.bbox)) {
+            progress.report({ increment: weight });
+            return;
+        }
+        progress.report({ message: `${label}...` });
+        let reported = 0;
+        await fetch({
+            token,
+            startCell: download.cellsDone,
+            onCell: async (cellsDone, cellsTotal) => {
+                download.cellsDone = cellsDone;
+                await this.databaseManager.regionDownloads.updateProgress(download);
+                const share = cellsDone / cellsTotal * weight;
+                progress.report({ message: `${label} (${cellsDone} of ${cellsTotal} parts)`, increment: share - reported });
+                reported = share;
+            }
+        });
+    }
+
+    private async finishBatch(
+        download: RegionDownload,
+        batch: Promise<boolean>[],
+        progress: vscode.Progress<{ message?: string; increment?: number }>,
+        total: number
+    ): Promise<void> {
+        const results = await Promise.all(batch);
+        download.tilesDone += results.length;
+        download.tilesFailed += results.filter(cached => !cached).length;
+        progress.report({
+            message: `Tiles ${download.tilesDone.toLocaleString()} of ${download.tilesTotal.toLocaleString()}`,
+            increment: results.length / total * TILE_PHASE_WEIGHT
+        });
+    }
+
+    private formatBytes(bytes: number): string {
+        if (bytes < 1024 * 1024) {
+            return `${Math.ceil(bytes / 1024)} KB`;
+        }
+        return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    }
+}
@@ -0,0 +1,440 @@
+import * as path from 'path';
+import { LngLat, lineLengthMeters } from '../routing/geometry';
+import { withoutEmpty } from '../util/objects';
+
+export type OverlayFormat = 'gpx' | 'kml' | 'geojson';
+
+// Style keys follow the simplestyle spec, so styled GeoJSON from other tools keeps its look
+export interface OverlayFeature {
+    type: 'Feature';
+    geometry: OverlayGeometry;
+    properties: {
+        name?: string;
+        description?: string;
+        stroke?: string;
+        'stroke-width'?: number;
+        fill?: string;
+        [key: string]: unknown;
+    };
+}
+
+export type OverlayGeometry =
+    | { type: 'Point'; coordinates: number[] }
+    | { type: 'MultiPoint'; coordinates: number[][] }
+    | { type: 'LineString'; coordinates: number[][] }
+    | { type: 'MultiLineString'; coordinates: number[][][] }
+    | { type: 'Polygon'; coordinates: number[][][] }
+    | { type: 'MultiPolygon'; coordinates: number[][][][] }
+    | { type: 'GeometryCollection'; geometries: OverlayGeometry[] };
+
+export interface ParsedOverlay {
+    name: string;
+    format: OverlayFormat;
+    description?: string;
+    features: OverlayFeature[];
+    // Length of every track, route and line; polygon outlines are not counted
+    lengthMeters: number;
+    waypointCount: number;
+    trackCount: number;
+}
+
+export class OverlayFormatError extends Error {
+    constructor(public readonly fileName: string, message: string) {
+        super(`${fileName}: ${message}`);
+    }
+}
+
+export const OVERLAY_FILE_EXTENSIONS = ['gpx', 'kml', 'geojson', 'json'];
+
+// What each format reader produces; the statistics are worked out once from the features
+type OverlayContent = Pick<ParsedOverlay, 'name' | 'format' | 'description' | 'features'>;
+
+interface XmlElement {
+    name: string;
+    attributes: { [name: string]: string };
+    children: XmlElement[];
+    text: string;
+}
+
+export function parseOverlay(text: string, fileName: string): ParsedOverlay {
+    const extension = path.extname(fileName).slice(1).toLowerCase();
+    const trimmed = text.replace(/^\uFEFF/, '').trimStart();
+    const fallbackName = path.basename(fileName, path.extname(fileName));
+
+    let parsed: OverlayContent;
+    if (extension === 'gpx' || (!trimmed.startsWith('{') && /<gpx[\s>]/.test(trimmed.slice(0, 2000)))) {
+        parsed = parseGpx(parseXml(trimmed, fileName), fileName, fallbackName);
+    } else if (extension === 'kml' || (!trimmed.startsWith('{') && /<kml[\s>]/.test(trimmed.slice(0, 2000)))) {
+        parsed = parseKml(parseXml(trimmed, fileName), fileName, fallbackName);
+    } else if (trimmed.startsWith('{')) {
+        parsed = parseGeoJson(trimmed, fileName, fallbackName);
+    } else {
+        throw new OverlayFormatError(fileName, 'not a GPX, KML or GeoJSON file');
+    }
+
+    if (parsed.features.length === 0) {
+        throw new OverlayFormatError(fileName, 'contains no waypoints, tracks or shapes');
+    }
+    return { ...parsed, ...measure(parsed.features) };
+}
+
+function parseGpx(root: XmlElement, fileName: string, fallbackName: string): OverlayContent {
+    if (root.name !== 'gpx') {
+        throw new OverlayFormatError(fileName, `expected a <gpx> document, found <${root.name}>`);
+    }
+    const features: OverlayFeature[] = [];
+
+    for (const waypoint of children(root, 'wpt')) {
+        const point = gpxPoint(waypoint);
+        if (point) {
+            features.push(feature({ type: 'Point', coordinates: point }, gpxProperties(waypoint, 'waypoint')));
+        }
+    }
+    for (const route of children(root, 'rte')) {
+        const points = children(route, 'rtept').map(gpxPoint).filter(isPosition);
+        if (points.length >= 2) {
+            features.push(feature({ type: 'LineString', coordinates: points }, gpxProperties(route, 'route')));
+        }
+    }
+    for (const track of children(root, 'trk')) {
+        const segments = children(track, 'trkseg')
+            .map(segment => children(segment, 'trkpt').map(gpxPoint).filter(isPosition))
+            .filter(segment => segment.length >= 2);
+        if (segments.length > 0) {
+            const geometry: OverlayGeometry = segments.length === 1
+                ? { type: 'LineString', coordinates: segments[0] }
+                : { type: 'MultiLineString', coordinates: segments };
+            features.push(feature(geometry, gpxProperties(track, 'track')));
+        }
+    }
+
+    const metadata = child(root, 'metadata');
+    const firstTrack = child(root, 'trk') ?? child(root, 'rte');
+    return {
+        name: textOf(metadata && child(metadata, 'name')) || textOf(firstTrack && child(firstTrack, 'name')) || fallbackName,
+        format: 'gpx',
+        description: textOf(metadata && child(metadata, 'desc')) || undefined,
+        features
+    };
+}
+
+function gpxPoint(element: XmlElement): number[] | undefined {
+    const lat = parseFloat(element.attributes.lat);
+    const lng = parseFloat(element.attributes.lon);
+    if (!isValidLatLng(lat, lng)) {
+        return undefined;
+    }
+    const elevation = parseFloat(textOf(child(element, 'ele')));
+    return Number.isFinite(elevation) ? [lng, lat, elevation] : [lng, lat];
+}
+
+function gpxProperties(element: XmlElement, kind: string): OverlayFeature['properties'] {
+    return withoutEmpty({
+        name: textOf(child(element, 'name')),
+        description: textOf(child(element, 'desc')) || textOf(child(element, 'cmt')),
+        kind
+    });
+}
+
+function parseKml(root: XmlElement, fileName: string, fallbackName: string): OverlayContent {
+    if (root.name !== 'kml') {
+        throw new OverlayFormatError(fileName, `expected a <kml> document, found <${root.name}>`);
+    }
+
+    // Shared styles are referenced by id from placemarks; style maps point at their normal style
+    const styles = new Map<string, XmlElement>();
+    const styleMaps = new Map<string, string>();
+    for (const element of descendants(root)) {
+        const id = element.attributes.id;
+        if (id && element.name === 'Style') {
+            styles.set(id, element);
+        } else if (id && element.name === 'StyleMap') {
+            const normal = children(element, 'Pair').find(pair => textOf(child(pair, 'key')) === 'normal');
+            styleMaps.set(id, textOf(normal && child(normal, 'styleUrl')).replace(/^#/, ''));
+        }
+    }
+    const resolveStyle = (placemark: XmlElement): XmlElement | undefined => {
+        const inline = child(placemark, 'Style');
+        if (inline) {
+            return inline;
+        }
+        const id = textOf(child(placemark, 'styleUrl')).replace(/^#/, '');
+        return styles.get(styleMaps.get(id) ?? id);
+    };
+
+    const features: OverlayFeature[] = [];
+    for (const placemark of descendants(root).filter(element => element.name === 'Placemark')) {
+        const geometries = kmlGeometries(placemark);
+        if (geometries.length === 0) {
+            continue;
+        }
+        const geometry: OverlayGeometry = geometries.length === 1 ? geometries[0] : { type: 'GeometryCollection', geometries };
+        features.push(feature(geometry, withoutEmpty({
+            name: textOf(child(placemark, 'name')),
+            description: textOf(child(placemark, 'description')),
+            ...kmlStyle(resolveStyle(placemark))
+        })));
+    }
+
+    const document = child(root, 'Document') ?? child(root, 'Folder');
+    return {
+        name: textOf(document && child(document, 'name')) || fallbackName,
+        format: 'kml',
+        description: textOf(document && child(document, 'description')) || undefined,
+        features
+    };
+}
+
+function kmlGeometries(element: XmlElement): OverlayGeometry[] {
+    const geometries: OverlayGeometry[] = [];
+    for (const node of element.children) {
+        switch (node.name) {
+            case 'Point': {
+                const point = kmlCoordinates(child(node, 'coordinates'))[0];
+                if (point) {
+                    geometries.push({ type: 'Point', coordinates: point });
+                }
+                break;
+            }
+            case 'LineString': {
+                const line = kmlCoordinates(child(node, 'coordinates'));
+                if (line.length >= 2) {
+                    geometries.push({ type: 'LineString', coordinates: line });
+                }
+                break;
+            }
+            case 'Polygon': {
+                const outer = child(node, 'outerBoundaryIs');
+                const rings = [outer, ...children(node, 'innerBoundaryIs')]
+                    .map(boundary => kmlCoordinates(boundary && child(child(boundary, 'LinearRing') ?? boundary, 'coordinates')))
+                    .filter(ring => ring.length >= 4);
+                if (outer && rings.length > 0) {
+                    geometries.push({ type: 'Polygon', coordinates: rings });
+                }
+                break;
+            }
+            // Google Earth tracks list one <gx:coord> per recorded position
+            case 'Track': {
+                const line = children(node, 'coord')
+                    .map(coord => textOf(coord).split(/\s+/).map(Number))
+                    .filter(position => position.length >= 2 && isValidLatLng(position[1], position[0]));
+                if (line.length >= 2) {
+                    geometries.push({ type: 'LineString', coordinates: line });
+                }
+                break;
+            }
+            case 'MultiGeometry':
+            case 'MultiTrack':
+                geometries.push(...kmlGeometries(node));
+                break;
+        }
+    }
+    return geometries;
+}
+
+// KML lists "lng,lat[,alt]" tuples separated by whitespace
+function kmlCoordinates(element: XmlElement | undefined): number[][] {
+    return textOf(element)
+        .split(/\s+/)
+        .filter(tuple => tuple)
+        .map(tuple => tuple.split(',').map(Number))
+        .filter(position => position.length >= 2 && isValidLatLng(position[1], position[0]));
+}
+
+function kmlStyle(style: XmlElement | undefined): OverlayFeature['properties'] {
+    const line = style && child(style, 'LineStyle');
+    const poly = style && child(style, 'PolyStyle');
+    const width = parseFloat(textOf(line && child(line, 'width')));
+    return {
+        stroke: kmlColor(textOf(line && child(line, 'color'))),
+        'stroke-width': Number.isFinite(width) && width > 0 ? width : undefined,
+        fill: kmlColor(textOf(poly && child(poly, 'color')))
+    };
+}
+
+// KML colours are aabbggrr; the map wants #rrggbb
+function kmlColor(value: string): string | undefined {
+    const match = /^[0-9a-f]{2}([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(value.trim());
+    return match ? `#${match[3]}${match[2]}${match[1]}`.toLowerCase() : undefined;
+}
+
+function parseGeoJson(text: string, fileName: string, fallbackName: string): OverlayContent {
+    let data: any;
+    try {
+        data = JSON.parse(text);
+    } catch (error) {
+        throw new OverlayFormatError(fileName, `invalid JSON (${error instanceof Error ? error.message : error})`);
+    }
+
+    let sources: any[];
+    if (data?.type === 'FeatureCollection' && Array.isArray(data.features)) {
+        sources = data.features;
+    } else if (data?.type === 'Feature') {
+        sources = [data];
+    } else if (typeof data?.type === 'string' && ('coordinates' in data || 'geometries' in data)) {
+        sources = [{ type: 'Feature', geometry: data, properties: {} }];
+    } else {
+        throw new OverlayFormatError(fileName, 'expected a GeoJSON FeatureCollection, Feature or geometry');
+    }
+
+    const features: OverlayFeature[] = [];
+    for (const source of sources) {
+        const geometry = source?.geometry;
+        if (geometry && isValidGeometry(geometry)) {
+            const properties = source.properties && typeof source.properties === 'object' ? source.properties : {};
+            features.push(feature(geometry, withoutEmpty({
+                ...properties,
+                name: stringProperty(properties.name ?? properties.title),
+                description: stringProperty(properties.description ?? properties.desc)
+            })));
+        }
+    }
+    return {
+        name: stringProperty(data.name) || stringProperty(data.properties?.name) || fallbackName,
+        format: 'geojson',
+        description: stringProperty(data.description) || undefined,
+        features
+    };
+}
+
+function isValidGeometry(geometry: any): geometry is OverlayGeometry {
+    const isPosition = (value: any) => Array.isArray(value) && value.length >= 2 && isValidLatLng(value[1], value[0]);
+    const isLine = (value: any) => Array.isArray(value) && value.length >= 2 && value.every(isPosition);
+    const isRings = (value: any) => Array.isArray(value) && value.length > 0 && value.every(isLine);
+    switch (geometry?.type) {
+        case 'Point':
+            return isPosition(geometry.coordinates);
+        case 'MultiPoint':
+            return Array.isArray(geometry.coordinates) && geometry.coordinates.every(isPosition);
+        case 'LineString':
+            return isLine(geometry.coordinates);
+        case 'MultiLineString':
+        case 'Polygon':
+            return isRings(geometry.coordinates);
+        case 'MultiPolygon':
+            return Array.isArray(geometry.coordinates) && geometry.coordinates.every(isRings);
+        case 'GeometryCollection':
+            return Array.isArray(geometry.geometries) && geometry.geometries.every(isValidGeometry);
+        default:
+            return false;
+    }
+}
+
+function measure(features: OverlayFeature[]): Pick<ParsedOverlay, 'lengthMeters' | 'waypointCount' | 'trackCount'> {
+    let lengthMeters = 0;
+    let waypointCount = 0;
+    let trackCount = 0;
+    const visit = (geometry: OverlayGeometry) => {
+        switch (geometry.type) {
+            case 'Point':
+                waypointCount++;
+                break;
+            case 'MultiPoint':
+                waypointCount += geometry.coordinates.length;
+                break;
+            case 'LineString':
+                lengthMeters += lineLengthMeters(geometry.coordinates as LngLat[]);
+                trackCount++;
+                break;
+            case 'MultiLineString':
+                geometry.coordinates.forEach(line => lengthMeters += lineLengthMeters(line as LngLat[]));
+                trackCount++;
+                break;
+            case 'GeometryCollection':
+                geometry.geometries.forEach(visit);
+                break;
+        }
+    };
+    features.forEach(item => visit(item.geometry));
+    return { lengthMeters: Math.round(lengthMeters), waypointCount, trackCount };
+}
+
+// Builds a small element tree; overlay files are a few megabytes at most, unlike OSM extracts
+function parseXml(text: string, fileName: string): XmlElement {
+    const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '' };
+    const stack: XmlElement[] = [root];
+    const pattern = /<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<[?!][^>]*>|<(\/?)([\w.:-]+)((?:\s+[\w.:-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+        const current = stack[stack.length - 1];
+        if (match[1] !== undefined) {
+            current.text += match[1];
+        } else if (match[6] !== undefined) {
+            current.text += decodeEntities(match[6]);
+        } else if (match[3] !== undefined) {
+            // Namespace prefixes (gx:, kml:) are dropped; the formats never reuse a local name
+            const name = match[3].replace(/^.*:/, '');
+            if (match[2]) {
+                if (stack.length > 1) {
+                    stack.pop();
+                }
+                continue;
+            }
+            const element: XmlElement = { name, attributes: parseAttributes(match[4]), children: [], text: '' };
+            current.children.push(element);
+            if (!match[5]) {
+                stack.push(element);
+            }
+        }
+    }
+    if (root.children.length === 0) {
+        throw new OverlayFormatError(fileName, 'not a valid XML document');
+    }
+    return root.children[0];
+}
+
+function parseAttributes(source: string): { [name: string]: string } {
+    const attributes: { [name: string]: string } = {};
+    const pattern = /([\w.:-]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(source)) !== null) {
+        attributes[match[1].replace(/^.*:/, '')] = decodeEntities(match[3] ?? match[4]);
+    }
+    return attributes;
+}
+
+function decodeEntities(value: string): string {
+    if (!value.includes('&')) {
+        return value;
+    }
+    return value
+        .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+        .replace(/&#(\d+);/g, (_, decimal) => String.fromCodePoint(parseInt(decimal, 10)))
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, '\'')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&amp;/g, '&');
+}
+
+function child(element: XmlElement, name: string): XmlElement | undefined {
+    return element.children.find(node => node.name === name);
+}
+
+function children(element: XmlElement, name: string): XmlElement[] {
+    return element.children.filter(node => node.name === name);
+}
+
+function descendants(element: XmlElement): XmlElement[] {
+    return element.children.flatMap(node => [node, ...descendants(node)]);
+}
+
+function textOf(element: XmlElement | undefined): string {
+    return element ? element.text.trim() : '';
+}
+
+function feature(geometry: OverlayGeometry, properties: OverlayFeature['properties']): OverlayFeature {
+    return { type: 'Feature', geometry, properties };
+}
+
+function stringProperty(value: unknown): string {
+    return typeof value === 'string' ? value.trim() : '';
+}
+
+function isPosition(value: number[] | undefined): value is number[] {
+    return value !== undefined;
+}
+
+function isValidLatLng(lat: number, lng: number): boolean {
+    return Number.isFinite(lat) && Number.isFinite(lng) && Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+}
@@ -0,0 +1,128 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { DatabaseManager } from '../storage/database';
+import { MapOverlay } from '../storage/repositories/mapOverlayRepository';
+import { OVERLAY_FILE_EXTENSIONS, OverlayFormatError, parseOverlay } from './overlayFormats';
+
+// Picked in turn for each new overlay; files that carry their own styles keep them
+const OVERLAY_COLORS = ['#d93025', '#7b1fa2', '#0b8043', '#e37400', '#1967d2', '#c2185b', '#00796b'];
+// Every overlay is sent to the map whole, so very large tracks are turned away at import
+const MAX_OVERLAY_BYTES = 20 * 1024 * 1024;
+
+export interface OverlayFile {
+    fileName: string;
+    text: string;
+}
+
+export class OverlayManager {
+    private changeEmitter = new vscode.EventEmitter<void>();
+
+    public readonly onDidChange = this.changeEmitter.event;
+
+    constructor(private databaseManager: DatabaseManager) {}
+
+    public getOverlays(): Promise<MapOverlay[]> {
+        return this.databaseManager.overlays.findAll();
+    }
+
+    // Resolves to the ids of the overlays that were added
+    public async promptAndImport(): Promise<number[]> {
+        const files = await vscode.window.showOpenDialog({
+            canSelectMany: true,
+            openLabel: 'Import Overlay',
+            filters: {
+                'GPX, KML or GeoJSON': OVERLAY_FILE_EXTENSIONS,
+                'All files': ['*']
+            }
+        });
+        if (!files || files.length === 0) {
+            return [];
+        }
+        return this.importUris(files);
+    }
+
+    // Files dropped on the map arrive either as URIs (from the Explorer) or as contents (from the OS)
+    public async importUris(uris: vscode.Uri[], dropped: OverlayFile[] = []): Promise<number[]> {
+        const files: OverlayFile[] = [...dropped];
+        const failed: string[] = [];
+        for (const uri of uris) {
+            const fileName = path.basename(uri.path);
+            try {
+                // Checked before reading, so a huge file is never loaded into memory
+                const size = uri.scheme === 'file'
+                    ? (await fs.promises.stat(uri.fsPath)).size
+                    : (await vscode.workspace.fs.stat(uri)).size;
+                if (size > MAX_OVERLAY_BYTES) {
+                    throw tooLarge(fileName);
+                }
+                const data = uri.scheme === 'file'
+                    ? await fs.promises.readFile(uri.fsPath)
+                    : Buffer.from(await vscode.workspace.fs.readFile(uri));
+                files.push({ fileName, text: data.toString('utf8') });
+            } catch (error) {
+                failed.push(error instanceof OverlayFormatError ? error.message
+                    : `${fileName}: ${error instanceof Error ? error.message : error}`);
+            }
+        }
+        return this.importFiles(files, failed);
+    }
+
+    public async importFiles(files: OverlayFile[], failed: string[] = []): Promise<number[]> {
+        const existing = await this.getOverlays();
+        const added: number[] = [];
+        const names: string[] = [];
+        for (const file of files) {
+            try {
+                if (Buffer.byteLength(file.text) > MAX_OVERLAY_BYTES) {
+                    throw tooLarge(file.fileName);
+                }
+                const overlay = parseOverlay(file.text, file.fileName);
+                const color = OVERLAY_COLORS[(existing.length + added.length) % OVERLAY_COLORS.length];
+                added.push(await this.databaseManager.overlays.add(overlay, file.fileName, color));
+                names.push(overlay.name);
+            } catch (error) {
+                failed.push(error instanceof Error ? error.message : String(error));
+            }
+        }
+
+        if (added.length > 0) {
+            this.changeEmitter.fire();
+            vscode.window.showInformationMessage(`Added ${names.join(', ')} to the map.`);
+        }
+        if (failed.length > 0) {
+            vscode.window.showErrorMessage(`Could not import ${failed.length} overlay file(s): ${failed.join('; ')}`);
+        }
+        return added;
+    }
+
+    public async setVisible(id: number, visible: boolean): Promise<void> {
+        await this.databaseManager.overlays.setVisible(id, visible);
+        this.changeEmitter.fire();
+    }
+
+    public async promptAndRemove(id: number): Promise<void> {
+        const overlay = await this.databaseManager.overlays.findById(id);
+        if (!overlay) {
+            return;
+        }
+        const choice = await vscode.window.showWarningMessage(
+            `Remove the overlay "${overlay.name}" from the map?`,
+            { modal: true, detail: `Import ${overlay.fileName} again to bring it back.` },
+            'Remove'
+        );
+        if (choice !== 'Remove') {
+            return;
+        }
+        await this.databaseManager.overlays.delete(id);
+        this.changeEmitter.fire();
+    }
+
+    public dispose(): void {
+        this.changeEmitter.dispose();
+    }
+}
+
+function tooLarge(fileName: string): OverlayFormatError {
+    return new OverlayFormatError(fileName, `larger than ${MAX_OVERLAY_BYTES / 1024 / 1024} MB`);
+}
@@ -0,0 +1,253 @@
+import { OverlayFeature, OverlayFormat, OverlayGeometry } from './overlayFormats';
+
+export interface OverlayDocument {
+    name: string;
+    description?: string;
+    features: OverlayFeature[];
+}
+
+export const EXPORT_FORMATS: { format: OverlayFormat; label: string; extension: string; detail: string }[] = [
+    { format: 'gpx', label: 'GPX', extension: 'gpx', detail: 'Tracks and waypoints for GPS units and phone navigation apps' },
+    { format: 'kml', label: 'KML', extension: 'kml', detail: 'Google Earth and Google My Maps, with every detail kept as extended data' },
+    { format: 'geojson', label: 'GeoJSON', extension: 'geojson', detail: 'Web maps and GIS tools; loads back into this map unchanged' }
+];
+
+const CREATOR = 'Offline Map & Travel Guide';
+
+// Metadata keys shown to people, in the order they read best; everything is kept in KML and GeoJSON
+const PROPERTY_LABELS: { [key: string]: string } = {
+    day: 'Day',
+    stop: 'Stop',
+    arrival: 'Arrive',
+    departure: 'Leave',
+    visitMinutes: 'Visit (min)',
+    mode: 'Travel mode',
+    distanceKm: 'Distance (km)',
+    durationMinutes: 'Duration (min)',
+    category: 'Category',
+    address: 'Address',
+    tags: 'Tags',
+    notes: 'Notes'
+};
+
+export function writeOverlay(format: OverlayFormat, document: OverlayDocument): string {
+    switch (format) {
+        case 'gpx':
+            return writeGpx(document);
+        case 'kml':
+            return writeKml(document);
+        case 'geojson':
+            return writeGeoJson(document);
+    }
+}
+
+export function writeGeoJson(document: OverlayDocument): string {
+    return JSON.stringify({
+        type: 'FeatureCollection',
+        name: document.name,
+        ...(document.description ? { description: document.description } : {}),
+        features: document.features
+    }, null, 2);
+}
+
+// Points become waypoints and every line a track; the metadata goes into <cmt> and <type>,
+// the fields navigation apps actually show
+export function writeGpx(document: OverlayDocument): string {
+    const waypoints: string[] = [];
+    const tracks: string[] = [];
+    for (const feature of document.features) {
+        for (const geometry of flatten(feature.geometry)) {
+            if (geometry.type === 'Point') {
+                waypoints.push(gpxPoint('wpt', geometry.coordinates, gpxDetails(feature, '    ')));
+            } else if (geometry.type === 'MultiPoint') {
+                geometry.coordinates.forEach(position => waypoints.push(gpxPoint('wpt', position, gpxDetails(feature, '    '))));
+            } else {
+                const segments = lines(geometry);
+                if (segments.length > 0) {
+                    tracks.push([
+                        '  <trk>',
+                        gpxDetails(feature, '    '),
+                        ...segments.map(segment => [
+                            '    <trkseg>',
+                            ...segment.map(position => gpxPoint('trkpt', position, '', '      ')),
+                            '    </trkseg>'
+                        ].join('\n')),
+                        '  </trk>'
+                    ].filter(line => line).join('\n'));
+                }
+            }
+        }
+    }
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<gpx version="1.1" creator="${escapeXml(CREATOR)}" xmlns="http://www.topografix.com/GPX/1/1">`,
+        '  <metadata>',
+        `    <name>${escapeXml(document.name)}</name>`,
+        document.description ? `    <desc>${escapeXml(document.description)}</desc>` : '',
+        `    <time>${new Date().toISOString()}</time>`,
+        '  </metadata>',
+        // GPX requires waypoints before tracks
+        ...waypoints,
+        ...tracks,
+        '</gpx>',
+        ''
+    ].filter(line => line !== '').join('\n') + '\n';
+}
+
+export function writeKml(document: OverlayDocument): string {
+    const styles = new Map<string, string>();
+    const placemarks = document.features.map(feature => {
+        const properties = feature.properties;
+        let styleUrl = '';
+        if (properties.stroke) {
+            const id = `style-${properties.stroke.replace(/[^0-9a-z]/gi, '')}`;
+            styles.set(id, [
+                `    <Style id="${id}">`,
+                `      <LineStyle><color>${kmlColor(properties.stroke)}</color><width>${properties['stroke-width'] ?? 4}</width></LineStyle>`,
+                `      <IconStyle><color>${kmlColor(properties.stroke)}</color></IconStyle>`,
+                '    </Style>'
+            ].join('\n'));
+            styleUrl = `      <styleUrl>#${id}</styleUrl>`;
+        }
+        const data = Object.entries(properties)
+            .filter(([key, value]) => !['name', 'description', 'stroke', 'stroke-width', 'fill'].includes(key) && value !== undefined && value !== null)
+            .map(([key, value]) => `        <Data name="${escapeXml(key)}"><value>${escapeXml(Array.isArray(value) ? value.join(', ') : String(value))}</value></Data>`);
+
+        return [
+            '    <Placemark>',
+            properties.name ? `      <name>${escapeXml(properties.name)}</name>` : '',
+            describe(feature) ? `      <description>${escapeXml(describe(feature))}</description>` : '',
+            styleUrl,
+            data.length > 0 ? ['      <ExtendedData>', ...data, '      </ExtendedData>'].join('\n') : '',
+            kmlGeometry(feature.geometry, '      '),
+            '    </Placemark>'
+        ].filter(line => line).join('\n');
+    });
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<kml xmlns="http://www.opengis.net/kml/2.2">',
+        '  <Document>',
+        `    <name>${escapeXml(document.name)}</name>`,
+        document.description ? `    <description>${escapeXml(document.description)}</description>` : '',
+        ...styles.values(),
+        ...placemarks,
+        '  </Document>',
+        '</kml>',
+        ''
+    ].filter(line => line !== '').join('\n') + '\n';
+}
+
+function gpxPoint(tag: string, position: number[], details: string, indent: string = '  '): string {
+    const [lng, lat, elevation] = position;
+    const children = [
+        elevation !== undefined ? `${indent}  <ele>${elevation}</ele>` : '',
+        details
+    ].filter(line => line);
+    return children.length === 0
+        ? `${indent}<${tag} lat="${lat}" lon="${lng}"/>`
+        : [`${indent}<${tag} lat="${lat}" lon="${lng}">`, ...children, `${indent}</${tag}>`].join('\n');
+}
+
+// Child elements in the order the GPX schema requires: name, cmt, desc, type
+function gpxDetails(feature: OverlayFeature, indent: string): string {
+    const properties = feature.properties;
+    const summary = metadataSummary(feature);
+    const type = properties.mode ?? properties.category ?? properties.kind;
+    return [
+        properties.name ? `${indent}<name>${escapeXml(properties.name)}</name>` : '',
+        summary ? `${indent}<cmt>${escapeXml(summary)}</cmt>` : '',
+        properties.description ? `${indent}<desc>${escapeXml(properties.description)}</desc>` : '',
+        typeof type === 'string' ? `${indent}<type>${escapeXml(type)}</type>` : ''
+    ].filter(line => line).join('\n');
+}
+
+function kmlGeometry(geometry: OverlayGeometry, indent: string): string {
+    const coordinates = (positions: number[][]) => positions.map(position => position.join(',')).join(' ');
+    switch (geometry.type) {
+        case 'Point':
+            return `${indent}<Point><coordinates>${coordinates([geometry.coordinates])}</coordinates></Point>`;
+        case 'LineString':
+            return `${indent}<LineString><tessellate>1</tessellate><coordinates>${coordinates(geometry.coordinates)}</coordinates></LineString>`;
+        case 'Polygon':
+            return [
+                `${indent}<Polygon>`,
+                ...geometry.coordinates.map((ring, index) => {
+                    const boundary = index === 0 ? 'outerBoundaryIs' : 'innerBoundaryIs';
+                    return `${indent}  <${boundary}><LinearRing><coordinates>${coordinates(ring)}</coordinates></LinearRing></${boundary}>`;
+                }),
+                `${indent}</Polygon>`
+            ].join('\n');
+        default:
+            return [
+                `${indent}<MultiGeometry>`,
+                ...explode(geometry).map(part => kmlGeometry(part, `${indent}  `)),
+                `${indent}</MultiGeometry>`
+            ].join('\n');
+    }
+}
+
+function describe(feature: OverlayFeature): string {
+    return [feature.properties.description, metadataSummary(feature)].filter(text => text).join('\n');
+}
+
+function metadataSummary(feature: OverlayFeature): string {
+    return Object.entries(PROPERTY_LABELS)
+        .filter(([key]) => feature.properties[key] !== undefined && feature.properties[key] !== '')
+        .map(([key, label]) => {
+            const value = feature.properties[key];
+            return `${label}: ${Array.isArray(value) ? value.join(', ') : value}`;
+        })
+        .join('; ');
+}
+
+// Splits multi-part geometries into their single parts
+function explode(geometry: OverlayGeometry): OverlayGeometry[] {
+    switch (geometry.type) {
+        case 'MultiPoint':
+            return geometry.coordinates.map(coordinates => ({ type: 'Point', coordinates }));
+        case 'MultiLineString':
+            return geometry.coordinates.map(coordinates => ({ type: 'LineString', coordinates }));
+        case 'MultiPolygon':
+            return geometry.coordinates.map(coordinates => ({ type: 'Polygon', coordinates }));
+        case 'GeometryCollection':
+            return geometry.geometries.flatMap(flatten);
+        default:
+            return [geometry];
+    }
+}
+
+function flatten(geometry: OverlayGeometry): OverlayGeometry[] {
+    return geometry.type === 'GeometryCollection' ? geometry.geometries.flatMap(flatten) : [geometry];
+}
+
+// GPX has no areas, so polygon outlines are written as tracks
+function lines(geometry: OverlayGeometry): number[][][] {
+    switch (geometry.type) {
+        case 'LineString':
+            return [geometry.coordinates];
+        case 'MultiLineString':
+        case 'Polygon':
+            return geometry.coordinates;
+        case 'MultiPolygon':
+            return geometry.coordinates.flat();
+        default:
+            return [];
+    }
+}
+
+// KML colours are aabbggrr
+function kmlColor(hex: string): string {
+    const match = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex);
+    return match ? `ff${match[3]}${match[2]}${match[1]}`.toLowerCase() : 'ffe8731a';
+}
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}
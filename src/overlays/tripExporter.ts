@@ -0,0 +1,258 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DatabaseManager } from '../storage/database';
+import { SavedList, SavedPlace } from '../storage/repositories/savedPlaceRepository';
+import { ItineraryPlanner } from '../itinerary/itineraryPlanner';
+import { Itinerary, formatClock } from '../itinerary/itinerary';
+import { LatLng } from '../providers/types';
+import { OverlayFeature } from './overlayFormats';
+import { EXPORT_FORMATS, OverlayDocument, writeOverlay } from './overlayWriters';
+import { withoutUndefined } from '../util/objects';
+
+const ROUTE_COLOR = '#4285f4';
+
+// A route as shown on the map or stored from an earlier lookup
+export interface ExportableRoute {
+    start: LatLng & { name?: string };
+    end: LatLng & { name?: string };
+    mode: string;
+    distanceMeters: number;
+    durationSeconds: number;
+    geometry?: { type: 'LineString'; coordinates: number[][] };
+    createdAt?: number;
+}
+
+// Writes routes, saved places and itineraries as GPX, KML or GeoJSON so a plan can go onto a phone
+export class TripExporter {
+    constructor(
+        private databaseManager: DatabaseManager,
+        private planner: ItineraryPlanner
+    ) {}
+
+    // The route on the map is offered first, then routes looked up earlier
+    public async promptAndExportRoute(current?: ExportableRoute): Promise<void> {
+        const stored = await this.databaseManager.routes.recent().catch(() => []);
+        const routes: ExportableRoute[] = [...(current ? [current] : []), ...stored];
+        if (routes.length === 0) {
+            vscode.window.showInformationMessage('No routes to export yet. Get directions on the map first.');
+            return;
+        }
+
+        const picked = routes.length === 1 ? { route: routes[0] } : await vscode.window.showQuickPick(
+            routes.map(route => ({
+                label: route === current ? `$(location) Route on the map: ${routeName(route)}` : routeName(route),
+                description: `${route.mode} • ${(route.distanceMeters / 1000).toFixed(1)} km • ${Math.round(route.durationSeconds / 60)} min`,
+                detail: route.createdAt ? `Looked up ${new Date(route.createdAt).toLocaleString()}` : undefined,
+                route
+            })),
+            { placeHolder: 'Choose the route to export' }
+        );
+        if (!picked) {
+            return;
+        }
+
+        const route = picked.route;
+        await this.promptAndWrite(
+            { name: routeName(route), features: this.routeFeatures(route) },
+            route.end.name ? `route to ${route.end.name}` : 'route'
+        );
+    }
+
+    public async promptAndExportSavedPlaces(list?: SavedList): Promise<void> {
+        const lists = await this.databaseManager.savedPlaces.findLists();
+        if (lists.every(item => item.placeCount === 0)) {
+            vscode.window.showInformationMessage('No saved places to export yet.');
+            return;
+        }
+
+        let chosen: SavedList[] | undefined = list ? [list] : undefined;
+        if (!chosen) {
+            const picked = await vscode.window.showQuickPick(
+                [
+                    { label: 'All lists', description: `${lists.reduce((total, item) => total + item.placeCount, 0)} place(s)`, lists },
+                    ...lists.filter(item => item.placeCount > 0).map(item => ({ label: item.name, description: `${item.placeCount} place(s)`, lists: [item] }))
+                ],
+                { placeHolder: 'Choose the saved places to export' }
+            );
+            chosen = picked?.lists;
+        }
+        if (!chosen) {
+            return;
+        }
+
+        const features: OverlayFeature[] = [];
+        for (const item of chosen) {
+            const places = await this.databaseManager.savedPlaces.findPlaces(item.id);
+            features.push(...places.map(place => this.savedPlaceFeature(place, item.name)));
+        }
+        if (features.length === 0) {
+            vscode.window.showInformationMessage(`"${chosen[0].name}" has no places to export.`);
+            return;
+        }
+        const name = chosen.length === 1 ? chosen[0].name : 'Saved places';
+        await this.promptAndWrite({ name, features }, name);
+    }
+
+    public async promptAndExportItinerary(itinerary?: Itinerary): Promise<void> {
+        if (!itinerary) {
+            const itineraries = await this.planner.getItineraries();
+            if (itineraries.length === 0) {
+                vscode.window.showInformationMessage('No itineraries to export yet.');
+                return;
+            }
+            const picked = await vscode.window.showQuickPick(
+                itineraries.map(item => ({
+                    label: item.name,
+                    description: `${item.days.length} day(s), ${item.days.reduce((total, day) => total + day.stops.length, 0)} stop(s)`,
+                    itinerary: item
+                })),
+                { placeHolder: 'Choose the itinerary to export' }
+            );
+            itinerary = picked?.itinerary;
+        }
+        if (!itinerary) {
+            return;
+        }
+        if (itinerary.days.every(day => day.stops.length === 0)) {
+            vscode.window.showInformationMessage(`"${itinerary.name}" has no stops to export.`);
+            return;
+        }
+
+        const schedule = await this.planner.schedule(itinerary);
+        const mode = itinerary.mode;
+        const features: OverlayFeature[] = [];
+        schedule.forEach((day, dayIndex) => {
+            const color = this.planner.dayColor(dayIndex);
+            day.stops.forEach((scheduled, stopIndex) => {
+                const { stop, leg } = scheduled;
+                // Each leg is a track of its own, so phone apps can navigate one stretch at a time
+                if (stopIndex > 0) {
+                    const previous = day.stops[stopIndex - 1].stop;
+                    features.push({
+                        type: 'Feature',
+                        geometry: leg?.geometry ?? { type: 'LineString', coordinates: [[previous.lng, previous.lat], [stop.lng, stop.lat]] },
+                        properties: withoutUndefined({
+                            name: `Day ${dayIndex + 1}: ${previous.name} → ${stop.name}`,
+                            day: dayIndex + 1,
+                            mode,
+                            distanceKm: leg ? roundKm(leg.distanceMeters) : undefined,
+                            durationMinutes: leg ? Math.round(leg.durationSeconds / 60) : undefined,
+                            approximate: leg?.approximate || !leg?.geometry ? true : undefined,
+                            stroke: color
+                        })
+                    });
+                }
+                features.push({
+                    type: 'Feature',
+                    geometry: { type: 'Point', coordinates: [stop.lng, stop.lat] },
+                    properties: {
+                        name: stop.name,
+                        day: dayIndex + 1,
+                        stop: stopIndex + 1,
+                        arrival: formatClock(scheduled.arrival),
+                        departure: formatClock(scheduled.departure),
+                        visitMinutes: stop.visitMinutes,
+                        stroke: color
+                    }
+                });
+            });
+        });
+
+        const description = `${itinerary.days.length} day(s) by ${itinerary.mode}, starting ${itinerary.dayStart} each day`;
+        await this.promptAndWrite({ name: itinerary.name, description, features }, itinerary.name);
+    }
+
+    private routeFeatures(route: ExportableRoute): OverlayFeature[] {
+        const startName = route.start.name || 'Start';
+        const endName = route.end.name || 'Destination';
+        return [
+            {
+                type: 'Feature',
+                geometry: { type: 'Point', coordinates: [route.start.lng, route.start.lat] },
+                properties: { name: startName, kind: 'start' }
+            },
+            {
+                type: 'Feature',
+                geometry: { type: 'Point', coordinates: [route.end.lng, route.end.lat] },
+                properties: { name: endName, kind: 'destination' }
+            },
+            {
+                type: 'Feature',
+                geometry: route.geometry ?? { type: 'LineString', coordinates: [[route.start.lng, route.start.lat], [route.end.lng, route.end.lat]] },
+                properties: {
+                    name: `${startName} → ${endName}`,
+                    mode: route.mode,
+                    distanceKm: roundKm(route.distanceMeters),
+                    durationMinutes: Math.round(route.durationSeconds / 60),
+                    stroke: ROUTE_COLOR
+                }
+            }
+        ];
+    }
+
+    private savedPlaceFeature(place: SavedPlace, listName: string): OverlayFeature {
+        return {
+            type: 'Feature',
+            geometry: { type: 'Point', coordinates: [place.lng, place.lat] },
+            properties: withoutUndefined({
+                name: place.name,
+                description: place.description,
+                list: listName,
+                category: place.category || place.type,
+                address: place.address,
+                notes: place.notes || undefined,
+                tags: place.tags.length > 0 ? place.tags : undefined
+            })
+        };
+    }
+
+    private async promptAndWrite(document: OverlayDocument, fileStem: string): Promise<void> {
+        const format = await vscode.window.showQuickPick(
+            EXPORT_FORMATS.map(item => ({ label: item.label, detail: item.detail, item })),
+            { placeHolder: `Export "${document.name}" as...` }
+        );
+        if (!format) {
+            return;
+        }
+
+        const fileName = `${safeFileName(fileStem)}.${format.item.extension}`;
+        const target = await vscode.window.showSaveDialog({
+            defaultUri: vscode.Uri.file(path.join(this.defaultExportFolder(), fileName)),
+            saveLabel: 'Export',
+            filters: { [format.item.label]: [format.item.extension] }
+        });
+        if (!target) {
+            return;
+        }
+
+        try {
+            await fs.promises.writeFile(target.fsPath, writeOverlay(format.item.format, document), 'utf8');
+            vscode.window.showInformationMessage(`Exported "${document.name}" to ${path.basename(target.fsPath)}.`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to export "${document.name}": ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    // Trip files are usually kept with the project they were planned in
+    private defaultExportFolder(): string {
+        return vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? os.homedir();
+    }
+}
+
+function routeName(route: ExportableRoute): string {
+    if (route.start.name || route.end.name) {
+        return `${route.start.name || 'Start'} → ${route.end.name || 'Destination'}`;
+    }
+    const point = (latLng: LatLng) => `${latLng.lat.toFixed(4)}, ${latLng.lng.toFixed(4)}`;
+    return `${point(route.start)} → ${point(route.end)}`;
+}
+
+function roundKm(meters: number): number {
+    return Math.round(meters / 100) / 10;
+}
+
+function safeFileName(name: string): string {
+    return name.replace(/[\\/:*?"<>|]+/g, '').replace(/\s+/g, '-').toLowerCase() || 'export';
+}
@@ -0,0 +1,156 @@
+import * as vscode from 'vscode';
+import { DatabaseManager } from '../storage/database';
+import { ContentManager } from '../guide/contentManager';
+import { Place } from '../map/mapApiManager';
+import { GazetteerMatch } from '../storage/repositories/gazetteerRepository';
+import { capitalize } from '../util/text';
+
+// Settlements listed under a state; villages and neighbourhoods would bury the cities
+const CITY_TYPES = ['capital', 'city', 'town'];
+const CITIES_PER_STATE = 100;
+const DESTINATIONS_PER_CITY = 50;
+// How far from a city without a guide its stored attractions are looked for
+const CITY_RADIUS_KM = 15;
+
+// Guides that name no region are grouped under this heading
+export const OTHER_REGION = 'Other destinations';
+
+export interface DestinationState {
+    name: string;
+    guideCount: number;
+    cityCount: number;
+}
+
+export interface DestinationCity {
+    place: Place;
+    state: string;
+    guideId?: string;
+    radiusKm: number;
+}
+
+export interface Destination {
+    place: Place;
+    // Set for sights described in a guide, so the map can open on their part of it
+    guideId?: string;
+    sightIndex?: number;
+}
+
+// States, their cities and what to see in them, from guide packs and the imported gazetteer.
+// Both are optional, so every level merges whatever is installed and leaves out duplicates.
+export class DestinationCatalog {
+    private changeEmitter = new vscode.EventEmitter<void>();
+    private subscription: vscode.Disposable;
+
+    public readonly onDidChange = this.changeEmitter.event;
+
+    constructor(
+        private databaseManager: DatabaseManager,
+        private contentManager: ContentManager
+    ) {
+        this.subscription = contentManager.onDidChange(() => this.changeEmitter.fire());
+    }
+
+    // The gazetteer is imported outside this class, so the view offers a manual refresh
+    public refresh(): void {
+        this.changeEmitter.fire();
+    }
+
+    public async getStates(): Promise<DestinationState[]> {
+        const [guides, gazetteerStates] = await Promise.all([
+            this.contentManager.getGuides(),
+            this.databaseManager.gazetteer.findStates(CITY_TYPES).catch(() => [])
+        ]);
+
+        const states = new Map<string, DestinationState>();
+        const stateFor = (name: string) => {
+            const key = name.toLowerCase();
+            let state = states.get(key);
+            if (!state) {
+                state = { name, guideCount: 0, cityCount: 0 };
+                states.set(key, state);
+            }
+            return state;
+        };
+        for (const state of gazetteerStates) {
+            stateFor(state.name).cityCount = state.placeCount;
+        }
+        for (const guide of guides) {
+            stateFor(guide.region || OTHER_REGION).guideCount++;
+        }
+
+        return [...states.values()].sort((a, b) =>
+            Number(a.name === OTHER_REGION) - Number(b.name === OTHER_REGION) || a.name.localeCompare(b.name)
+        );
+    }
+
+    // Cities with a guide come first, then the rest by population
+    public async getCities(state: string): Promise<DestinationCity[]> {
+        const [guides, settlements] = await Promise.all([
+            this.contentManager.getGuides(),
+            state === OTHER_REGION
+                ? Promise.resolve([])
+                : this.databaseManager.gazetteer.findInState(state, CITY_TYPES, CITIES_PER_STATE).catch(() => [])
+        ]);
+
+        const cities: DestinationCity[] = guides
+            .filter(guide => (guide.region || OTHER_REGION).toLowerCase() === state.toLowerCase())
+            .sort((a, b) => a.name.localeCompare(b.name))
+            .map(guide => ({
+                place: { name: guide.name, lat: guide.lat, lng: guide.lng, type: 'city', description: guide.region },
+                state,
+                guideId: guide.id,
+                radiusKm: guide.radiusKm
+            }));
+        const names = new Set(cities.map(city => city.place.name.toLowerCase()));
+        for (const settlement of settlements) {
+            if (!names.has(settlement.name.toLowerCase())) {
+                names.add(settlement.name.toLowerCase());
+                cities.push({ place: this.toPlace(settlement), state, radiusKm: CITY_RADIUS_KM });
+            }
+        }
+        return cities;
+    }
+
+    // Sights from the city's guide, then attractions stored from searches and region downloads
+    public async getDestinations(city: DestinationCity): Promise<Destination[]> {
+        const guide = city.guideId ? await this.contentManager.getGuide(city.guideId) : undefined;
+        const destinations: Destination[] = [];
+        guide?.sights.forEach((sight, sightIndex) => {
+            if (sight.lat !== undefined && sight.lng !== undefined) {
+                destinations.push({
+                    place: { name: sight.name, lat: sight.lat, lng: sight.lng, type: 'attraction', description: sight.description },
+                    guideId: guide.id,
+                    sightIndex
+                });
+            }
+        });
+
+        const names = new Set(destinations.map(destination => destination.place.name.toLowerCase()));
+        const stored = await this.databaseManager.places
+            .findNear(city.place.lat, city.place.lng, city.radiusKm, 'attraction', DESTINATIONS_PER_CITY)
+            .catch(() => []);
+        for (const place of stored) {
+            if (!names.has(place.name.toLowerCase())) {
+                names.add(place.name.toLowerCase());
+                destinations.push({ place });
+            }
+        }
+        return destinations;
+    }
+
+    public dispose(): void {
+        this.subscription.dispose();
+        this.changeEmitter.dispose();
+    }
+
+    private toPlace(match: GazetteerMatch): Place {
+        const type = capitalize(match.placeType);
+        return {
+            name: match.name,
+            lat: match.lat,
+            lng: match.lng,
+            type: match.placeType,
+            description: [type, match.admin2, match.admin1].filter(Boolean).join(' • ')
+        };
+    }
+}
@@ -0,0 +1,199 @@
+import * as vscode from 'vscode';
+import { DatabaseManager } from '../storage/database';
+import { SavedList, SavedPlace } from '../storage/repositories/savedPlaceRepository';
+import { Place } from '../map/mapApiManager';
+
+// Offered as the name of the first list, so saving a place never starts with an empty form
+const DEFAULT_LIST_NAME = 'Favorites';
+const NEW_LIST_LABEL = '$(add) New List...';
+
+export class SavedPlacesManager {
+    private changeEmitter = new vscode.EventEmitter<void>();
+
+    public readonly onDidChange = this.changeEmitter.event;
+
+    constructor(private databaseManager: DatabaseManager) {}
+
+    public getLists(): Promise<SavedList[]> {
+        return this.databaseManager.savedPlaces.findLists();
+    }
+
+    public getPlaces(listId: number): Promise<SavedPlace[]> {
+        return this.databaseManager.savedPlaces.findPlaces(listId);
+    }
+
+    public async promptAndSave(place: Place): Promise<void> {
+        const listId = await this.pickList(`Save ${place.name} to...`);
+        if (listId === undefined) {
+            return;
+        }
+
+        const existing = await this.databaseManager.savedPlaces.findInList(listId, place);
+        if (existing) {
+            vscode.window.showInformationMessage(`${place.name} is already saved in this list.`);
+            return;
+        }
+
+        const notes = await vscode.window.showInputBox({
+            prompt: `Notes for ${place.name} (optional)`,
+            placeHolder: 'Opening hours, what to order, who recommended it...',
+            ignoreFocusOut: true
+        });
+        if (notes === undefined) {
+            return;
+        }
+        const tags = await this.promptForTags([]);
+        if (tags === undefined) {
+            return;
+        }
+
+        await this.databaseManager.savedPlaces.add(listId, place, notes.trim(), tags);
+        this.changeEmitter.fire();
+        vscode.window.showInformationMessage(`Saved ${place.name}.`);
+    }
+
+    public async promptAndCreateList(): Promise<number | undefined> {
+        const lists = await this.getLists();
+        const name = await vscode.window.showInputBox({
+            prompt: 'Name the new list',
+            placeHolder: 'Bangalore cafes',
+            value: lists.length === 0 ? DEFAULT_LIST_NAME : undefined,
+            ignoreFocusOut: true,
+            validateInput: input => this.validateListName(input, lists)
+        });
+        if (!name) {
+            return undefined;
+        }
+        const id = await this.databaseManager.savedPlaces.createList(name.trim());
+        this.changeEmitter.fire();
+        return id;
+    }
+
+    public async promptAndRenameList(list: SavedList): Promise<void> {
+        const lists = (await this.getLists()).filter(other => other.id !== list.id);
+        const name = await vscode.window.showInputBox({
+            prompt: `Rename ${list.name}`,
+            value: list.name,
+            ignoreFocusOut: true,
+            validateInput: input => this.validateListName(input, lists)
+        });
+        if (!name || name.trim() === list.name) {
+            return;
+        }
+        await this.databaseManager.savedPlaces.renameList(list.id, name.trim());
+        this.changeEmitter.fire();
+    }
+
+    public async promptAndDeleteList(list: SavedList): Promise<void> {
+        const places = await this.getPlaces(list.id);
+        if (places.length > 0) {
+            const choice = await vscode.window.showWarningMessage(
+                `Delete the list "${list.name}" and its ${places.length} saved place(s)?`,
+                { modal: true },
+                'Delete'
+            );
+            if (choice !== 'Delete') {
+                return;
+            }
+        }
+        await this.databaseManager.savedPlaces.deleteList(list.id);
+        this.changeEmitter.fire();
+    }
+
+    public async promptAndEditNotes(place: SavedPlace): Promise<void> {
+        const notes = await vscode.window.showInputBox({
+            prompt: `Notes for ${place.name}`,
+            value: place.notes || '',
+            ignoreFocusOut: true
+        });
+        if (notes === undefined) {
+            return;
+        }
+        await this.databaseManager.savedPlaces.update(place.id, { notes: notes.trim() });
+        this.changeEmitter.fire();
+    }
+
+    public async promptAndEditTags(place: SavedPlace): Promise<void> {
+        const tags = await this.promptForTags(place.tags);
+        if (tags === undefined) {
+            return;
+        }
+        await this.databaseManager.savedPlaces.update(place.id, { tags });
+        this.changeEmitter.fire();
+    }
+
+    public async promptAndMove(place: SavedPlace): Promise<void> {
+        const listId = await this.pickList(`Move ${place.name} to...`, place.listId);
+        if (listId === undefined || listId === place.listId) {
+            return;
+        }
+        if (await this.databaseManager.savedPlaces.findInList(listId, place)) {
+            vscode.window.showInformationMessage(`${place.name} is already saved in that list.`);
+            return;
+        }
+        await this.databaseManager.savedPlaces.update(place.id, { listId });
+        this.changeEmitter.fire();
+    }
+
+    public async promptAndRemove(place: SavedPlace): Promise<void> {
+        const choice = await vscode.window.showWarningMessage(
+            `Remove ${place.name} from your saved places?`,
+            { modal: true },
+            'Remove'
+        );
+        if (choice !== 'Remove') {
+            return;
+        }
+        await this.databaseManager.savedPlaces.delete(place.id);
+        this.changeEmitter.fire();
+    }
+
+    public dispose(): void {
+        this.changeEmitter.dispose();
+    }
+
+    private async pickList(placeHolder: string, excludeId?: number): Promise<number | undefined> {
+        const lists = (await this.getLists()).filter(list => list.id !== excludeId);
+        if (lists.length === 0) {
+            return this.promptAndCreateList();
+        }
+
+        const selected = await vscode.window.showQuickPick(
+            [
+                ...lists.map(list => ({ label: list.name, description: `${list.placeCount} place(s)`, listId: list.id as number | undefined })),
+                { label: NEW_LIST_LABEL, description: '', listId: undefined }
+            ],
+            { placeHolder }
+        );
+        if (!selected) {
+            return undefined;
+        }
+        return selected.listId ?? this.promptAndCreateList();
+    }
+
+    // Comma-separated, so "coffee, wifi" becomes two tags; a leading # is dropped
+    private async promptForTags(current: string[]): Promise<string[] | undefined> {
+        const input = await vscode.window.showInputBox({
+            prompt: 'Tags, separated by commas (optional)',
+            placeHolder: 'coffee, wifi, breakfast',
+            value: current.join(', '),
+            ignoreFocusOut: true
+        });
+        if (input === undefined) {
+            return undefined;
+        }
+        const tags = input.split(',').map(tag => tag.trim().replace(/^#/, '').toLowerCase()).filter(Boolean);
+        return Array.from(new Set(tags));
+    }
+
+    private validateListName(input: string, lists: SavedList[]): string | undefined {
+        const name = input.trim();
+        if (!name) {
+            return 'Enter a name for the list';
+        }
+        if (lists.some(list => list.name.toLowerCase() === name.toLowerCase())) {
+            return `A list named "${name}" already exists`;
+        }
+        return undefined;
+    }
+}
@@ -0,0 +1,218 @@
+import * as vscode from 'vscode';
+import { MAP_PROVIDER_NAMES } from './providerFactory';
+import { MapProviderId } from './types';
+
+// OpenStreetMap services are keyless
+export type KeyedProviderId = Exclude<MapProviderId, 'openstreetmap'>;
+
+const KEYED_PROVIDERS: KeyedProviderId[] = ['mapbox', 'google'];
+const SECRET_PREFIX = 'offlineMap.apiKey.';
+
+// Recognisable key formats, used to file a migrated plaintext key under the right provider
+const KEY_PATTERNS: { [id in KeyedProviderId]: RegExp } = {
+    mapbox: /^[ps]k\.[\w-]+\.[\w-]+$/,
+    google: /^AIza[\w-]{35}$/
+};
+
+// Keys live in VS Code's secret storage (the OS keychain), never in settings.json. A copy is kept
+// in memory so tile requests can pick their provider without waiting on the keychain.
+export class ApiKeyStore {
+    private keys: Map<KeyedProviderId, string> = new Map();
+    private loaded = false;
+    private changeEmitter = new vscode.EventEmitter<KeyedProviderId>();
+    private subscription: vscode.Disposable;
+
+    public readonly onDidChange = this.changeEmitter.event;
+
+    constructor(private secrets: vscode.SecretStorage) {
+        // Fires for this window's own changes and for other windows of the same profile
+        this.subscription = secrets.onDidChange(async e => {
+            const provider = KEYED_PROVIDERS.find(id => e.key === SECRET_PREFIX + id);
+            if (provider) {
+                await this.load(provider);
+                this.changeEmitter.fire(provider);
+            }
+        });
+    }
+
+    public async initialize(): Promise<void> {
+        await Promise.all(KEYED_PROVIDERS.map(provider => this.load(provider)));
+        this.loaded = true;
+        // Anything built before now fell back to OpenStreetMap
+        this.keys.forEach((_, provider) => this.changeEmitter.fire(provider));
+        await this.migrateFromSettings();
+    }
+
+    // False until the keychain has been read, so a missing key then is not yet a configuration problem
+    public isLoaded(): boolean {
+        return this.loaded;
+    }
+
+    public get(provider: MapProviderId): string {
+        return provider === 'openstreetmap' ? '' : this.keys.get(provider) || '';
+    }
+
+    public async set(provider: KeyedProviderId, key: string): Promise<void> {
+        await this.secrets.store(SECRET_PREFIX + provider, key);
+        this.keys.set(provider, key);
+    }
+
+    public async delete(provider: KeyedProviderId): Promise<void> {
+        await this.secrets.delete(SECRET_PREFIX + provider);
+        this.keys.delete(provider);
+    }
+
+    public async promptAndSet(): Promise<void> {
+        const provider = await this.pickProvider(KEYED_PROVIDERS, 'Which provider is this API key for?');
+        if (!provider) {
+            return;
+        }
+
+        const key = await this.promptForKey(provider, `${MAP_PROVIDER_NAMES[provider]} API key`);
+        if (!key) {
+            return;
+        }
+        await this.set(provider, key);
+
+        const config = vscode.workspace.getConfiguration('offlineMap');
+        if (config.get('mapProvider') === provider) {
+            vscode.window.showInformationMessage(`${MAP_PROVIDER_NAMES[provider]} API key saved.`);
+            return;
+        }
+        const choice = await vscode.window.showInformationMessage(
+            `${MAP_PROVIDER_NAMES[provider]} API key saved. Switch the map to ${MAP_PROVIDER_NAMES[provider]} now?`,
+            'Switch'
+        );
+        if (choice === 'Switch') {
+            await config.update('mapProvider', provider, vscode.ConfigurationTarget.Global);
+        }
+    }
+
+    public async promptAndRotate(): Promise<void> {
+        const provider = await this.pickStoredProvider('Which provider\'s API key do you want to replace?');
+        if (!provider) {
+            return;
+        }
+
+        const key = await this.promptForKey(provider, `New ${MAP_PROVIDER_NAMES[provider]} API key`);
+        if (!key) {
+            return;
+        }
+        if (key === this.get(provider)) {
+            vscode.window.showWarningMessage('That is the key already stored; nothing was changed.');
+            return;
+        }
+        await this.set(provider, key);
+        vscode.window.showInformationMessage(
+            `${MAP_PROVIDER_NAMES[provider]} API key replaced. Revoke the old key in your ${MAP_PROVIDER_NAMES[provider]} account.`
+        );
+    }
+
+    public async promptAndClear(): Promise<void> {
+        const provider = await this.pickStoredProvider('Which provider\'s API key do you want to remove?');
+        if (!provider) {
+            return;
+        }
+
+        const inUse = vscode.workspace.getConfiguration('offlineMap').get('mapProvider') === provider;
+        const confirmation = await vscode.window.showWarningMessage(
+            `Remove the stored ${MAP_PROVIDER_NAMES[provider]} API key?`,
+            {
+                modal: true,
+                detail: inUse ? `The map will use OpenStreetMap until a new ${MAP_PROVIDER_NAMES[provider]} key is set.` : undefined
+            },
+            'Remove'
+        );
+        if (confirmation !== 'Remove') {
+            return;
+        }
+        await this.delete(provider);
+        vscode.window.showInformationMessage(`${MAP_PROVIDER_NAMES[provider]} API key removed.`);
+    }
+
+    public dispose(): void {
+        this.subscription.dispose();
+        this.changeEmitter.dispose();
+    }
+
+    // Moves a key out of the plaintext offlineMap.apiKey setting, which syncs and ends up in dotfile repos
+    private async migrateFromSettings(): Promise<void> {
+        const config = vscode.workspace.getConfiguration('offlineMap');
+        const setting = config.inspect<string>('apiKey');
+        const plaintext = (setting?.workspaceValue || setting?.globalValue || '').trim();
+        if (!plaintext) {
+            return;
+        }
+
+        const configured = config.get<MapProviderId>('mapProvider', 'openstreetmap');
+        const provider = KEYED_PROVIDERS.find(id => KEY_PATTERNS[id].test(plaintext))
+            || (configured !== 'openstreetmap' ? configured : undefined);
+        if (!provider) {
+            vscode.window.showWarningMessage(
+                'offlineMap.apiKey holds a key in plain text, but it is unclear which provider it belongs to. ' +
+                'Run "Offline Map: Set Map Provider API Key" and then clear the setting.'
+            );
+            return;
+        }
+
+        // A key already in secret storage was set deliberately and wins over the old setting
+        if (!this.keys.has(provider)) {
+            await this.set(provider, plaintext);
+        }
+        try {
+            if (setting?.globalValue !== undefined) {
+                await config.update('apiKey', undefined, vscode.ConfigurationTarget.Global);
+            }
+            if (setting?.workspaceValue !== undefined) {
+                await config.update('apiKey', undefined, vscode.ConfigurationTarget.Workspace);
+            }
+        } catch (error) {
+            console.error('Failed to clear offlineMap.apiKey:', error);
+        }
+        vscode.window.showInformationMessage(
+            `Your ${MAP_PROVIDER_NAMES[provider]} API key was moved from settings.json to secure storage. ` +
+            'If settings.json is shared or committed, revoke that key and set a new one.'
+        );
+    }
+
+    private async load(provider: KeyedProviderId): Promise<void> {
+        const key = await this.secrets.get(SECRET_PREFIX + provider);
+        if (key) {
+            this.keys.set(provider, key);
+        } else {
+            this.keys.delete(provider);
+        }
+    }
+
+    private async pickStoredProvider(placeHolder: string): Promise<KeyedProviderId | undefined> {
+        const stored = KEYED_PROVIDERS.filter(provider => this.keys.has(provider));
+        if (stored.length === 0) {
+            vscode.window.showInformationMessage('No map provider API keys are stored.');
+            return undefined;
+        }
+        return this.pickProvider(stored, placeHolder);
+    }
+
+    private async pickProvider(providers: KeyedProviderId[], placeHolder: string): Promise<KeyedProviderId | undefined> {
+        const selected = await vscode.window.showQuickPick(
+            providers.map(provider => ({
+                label: MAP_PROVIDER_NAMES[provider],
+                description: this.keys.has(provider) ? `Key stored (…${this.keys.get(provider)!.slice(-4)})` : 'No key stored',
+                provider
+            })),
+            { placeHolder }
+        );
+        return selected?.provider;
+    }
+
+    private async promptForKey(provider: KeyedProviderId, prompt: string): Promise<string | undefined> {
+        const key = await vscode.window.showInputBox({
+            prompt,
+            password: true,
+            ignoreFocusOut: true,
+            placeHolder: provider === 'mapbox' ? 'pk.…' : 'AIza…',
+            validateInput: input => input.trim() ? undefined : 'Enter an API key'
+        });
+        return key?.trim();
+    }
+}
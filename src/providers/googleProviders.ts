@@ -0,0 +1,274 @@
+import { Place, PlaceCategory } from '../map/mapApiManager';
+import { CachedTile } from '../map/tileCache';
+import { LngLat, bearingDegrees } from '../routing/geometry';
+import { ManeuverModifier, RouteStep, describeManeuver } from '../routing/routeSteps';
+import { isHighwayName, measureRoadUse } from '../routing/roadUse';
+import { fetchJson, fetchTileImage } from './http';
+import { Geocoder, LatLng, OnlineProviderSet, PoiSource, ProviderAddress, ProviderRoute, Router, TileSource } from './types';
+import { capitalize } from '../util/text';
+
+const API_ROOT = 'https://maps.googleapis.com/maps/api';
+const TILES_ROOT = 'https://tile.googleapis.com/v1';
+
+const TRAVEL_MODES: { [mode: string]: string } = { driving: 'driving', walking: 'walking', cycling: 'bicycling' };
+
+// Google has one place type per search, so each category uses its closest match
+const PLACE_TYPES: { [categoryId: string]: string } = {
+    restaurant: 'restaurant', hotel: 'lodging', attraction: 'tourist_attraction', shopping: 'shopping_mall',
+    hospital: 'hospital', transport: 'transit_station', park: 'park', temple: 'hindu_temple', market: 'supermarket'
+};
+
+export function createGoogleProviders(apiKey: string): OnlineProviderSet {
+    return {
+        id: 'google',
+        cacheable: false,
+        geocoder: new GoogleGeocoder(apiKey),
+        router: new GoogleRouter(apiKey),
+        poiSource: new GooglePoiSource(apiKey),
+        tileSource: new GoogleTileSource(apiKey)
+    };
+}
+
+// Google reports most failures (bad key, quota) as HTTP 200 with a status field
+function checkStatus(data: any): boolean {
+    if (data.status === 'OK') {
+        return true;
+    }
+    if (data.status === 'ZERO_RESULTS' || data.status === 'NOT_FOUND') {
+        return false;
+    }
+    throw new Error(`Google Maps returned ${data.status}${data.error_message ? `: ${data.error_message}` : ''}`);
+}
+
+function addressPart(components: any[], ...types: string[]): string | undefined {
+    for (const type of types) {
+        const component = components.find(candidate => candidate.types.includes(type));
+        if (component) {
+            return component.long_name;
+        }
+    }
+    return undefined;
+}
+
+export class GoogleGeocoder implements Geocoder {
+    constructor(private apiKey: string) {}
+
+    public async search(query: string): Promise<Place[]> {
+        const url = `${API_ROOT}/geocode/json?address=${encodeURIComponent(query)}&region=in&components=country:IN&language=en&key=${this.apiKey}`;
+        const data = await fetchJson(url, 3000);
+        if (!checkStatus(data)) {
+            return [];
+        }
+
+        return data.results.slice(0, 8).map((result: any) => {
+            const components = result.address_components || [];
+            const name = components[0]?.long_name || result.formatted_address;
+            const city = addressPart(components, 'locality', 'administrative_area_level_2');
+            const state = addressPart(components, 'administrative_area_level_1');
+            const type = (result.types && result.types[0]) || 'place';
+            return {
+                name: city && city !== name ? `${name}, ${city}` : name,
+                lat: result.geometry.location.lat,
+                lng: result.geometry.location.lng,
+                type,
+                category: type,
+                address: result.formatted_address,
+                description: `${capitalize(type.replace(/_/g, ' '))} • ${[city, state].filter(Boolean).join(', ') || 'India'}`
+            };
+        });
+    }
+
+    public async reverse(lat: number, lng: number): Promise<ProviderAddress | undefined> {
+        const url = `${API_ROOT}/geocode/json?latlng=${lat},${lng}&language=en&key=${this.apiKey}`;
+        const data = await fetchJson(url, 3000);
+        if (!checkStatus(data)) {
+            return undefined;
+        }
+
+        const result = data.results[0];
+        const components = result.address_components || [];
+        return {
+            name: addressPart(components, 'point_of_interest', 'premise', 'route', 'sublocality') || result.formatted_address,
+            lat,
+            lng,
+            locality: addressPart(components, 'sublocality', 'locality'),
+            district: addressPart(components, 'administrative_area_level_3', 'administrative_area_level_2'),
+            state: addressPart(components, 'administrative_area_level_1'),
+            postcode: addressPart(components, 'postal_code')
+        };
+    }
+}
+
+export class GoogleRouter implements Router {
+    constructor(private apiKey: string) {}
+
+    public async route(start: LatLng, end: LatLng, mode: string): Promise<ProviderRoute | undefined> {
+        const routes = await this.fetchRoutes(start, end, mode, false);
+        return routes[0];
+    }
+
+    public alternatives(start: LatLng, end: LatLng, mode: string): Promise<ProviderRoute[]> {
+        return this.fetchRoutes(start, end, mode, true);
+    }
+
+    private async fetchRoutes(start: LatLng, end: LatLng, mode: string, alternatives: boolean): Promise<ProviderRoute[]> {
+        const url = `${API_ROOT}/directions/json?origin=${start.lat},${start.lng}&destination=${end.lat},${end.lng}` +
+            `&mode=${TRAVEL_MODES[mode] || 'driving'}${alternatives ? '&alternatives=true' : ''}&language=en&key=${this.apiKey}`;
+        const data = await fetchJson(url, 5000);
+        if (!checkStatus(data)) {
+            return [];
+        }
+        return data.routes.map((route: any) => this.toRoute(route));
+    }
+
+    private toRoute(route: any): ProviderRoute {
+        const googleSteps: any[] = route.legs.flatMap((leg: any) => leg.steps);
+        const steps = googleSteps.map((step, index) => this.toStep(step, index === 0));
+        // Google names no road classes, but says "Toll road" in the instructions of steps on one
+        const roadUse = measureRoadUse(googleSteps.map((step, index) => ({
+            distanceMeters: step.distance.value,
+            highway: isHighwayName(steps[index].instruction),
+            toll: /toll road/i.test(step.html_instructions || '')
+        })));
+        const coordinates = googleSteps.flatMap((step, index) => {
+            const points = decodePolyline(step.polyline.points);
+            return index === 0 ? points : points.slice(1);
+        });
+        steps.push({
+            instruction: describeManeuver('arrive', undefined, undefined),
+            type: 'arrive',
+            distanceMeters: 0,
+            durationSeconds: 0,
+            location: coordinates[coordinates.length - 1],
+            geometry: { type: 'LineString', coordinates: coordinates.slice(-1).concat(coordinates.slice(-1)) }
+        });
+
+        return {
+            distanceMeters: route.legs.reduce((total: number, leg: any) => total + leg.distance.value, 0),
+            durationSeconds: route.legs.reduce((total: number, leg: any) => total + leg.duration.value, 0),
+            geometry: { type: 'LineString', coordinates },
+            steps,
+            roadUse
+        };
+    }
+
+    // Maneuvers look like "turn-slight-left", "roundabout-right" or "uturn-left"
+    private toStep(step: any, isFirst: boolean): RouteStep {
+        const coordinates = decodePolyline(step.polyline.points);
+        const maneuver: string = step.maneuver || '';
+        let type = isFirst ? 'depart' : 'turn';
+        let modifier: ManeuverModifier | undefined;
+        if (maneuver.startsWith('roundabout')) {
+            type = 'roundabout';
+        } else if (maneuver.startsWith('uturn')) {
+            modifier = 'uturn';
+        } else if (maneuver === 'straight' || (!maneuver && !isFirst)) {
+            modifier = 'straight';
+        } else if (maneuver) {
+            const side = maneuver.includes('left') ? 'left' : 'right';
+            modifier = maneuver.includes('slight') || maneuver.startsWith('keep') || maneuver.startsWith('fork') || maneuver.startsWith('ramp')
+                ? `slight ${side}`
+                : maneuver.includes('sharp') ? `sharp ${side}` : side;
+        }
+
+        const instruction = String(step.html_instructions || '')
+            .replace(/<div[^>]*>/g, '. ')
+            .replace(/<[^>]+>/g, '')
+            .replace(/&nbsp;/g, ' ')
+            .replace(/&amp;/g, '&');
+        return {
+            instruction: instruction || describeManeuver(type, modifier, undefined, {
+                bearing: coordinates.length > 1 ? bearingDegrees(coordinates[0], coordinates[1]) : undefined
+            }),
+            type,
+            modifier,
+            distanceMeters: step.distance.value,
+            durationSeconds: step.duration.value,
+            location: coordinates[0],
+            geometry: { type: 'LineString', coordinates }
+        };
+    }
+}
+
+export class GooglePoiSource implements PoiSource {
+    constructor(private apiKey: string) {}
+
+    public async findNearby(lat: number, lng: number, radiusMeters: number, category: PlaceCategory): Promise<Place[]> {
+        const url = `${API_ROOT}/place/nearbysearch/json?location=${lat},${lng}&radius=${Math.round(radiusMeters)}` +
+            `&type=${PLACE_TYPES[category.id] || 'point_of_interest'}&language=en&key=${this.apiKey}`;
+        const data = await fetchJson(url, 5000);
+        if (!checkStatus(data)) {
+            return [];
+        }
+
+        return data.results.map((result: any) => ({
+            name: result.name,
+            lat: result.geometry.location.lat,
+            lng: result.geometry.location.lng,
+            type: category.id,
+            category: category.id,
+            address: result.vicinity,
+            rating: result.rating,
+            description: capitalize(String(result.types?.[0] || category.name).replace(/_/g, ' '))
+        }));
+    }
+}
+
+// The Map Tiles API wants a session token, valid for about two weeks, on every tile request
+export class GoogleTileSource implements TileSource {
+    public readonly id = 'google-roadmap';
+    public readonly attribution = 'Map data © Google';
+    public readonly maxZoom = 20;
+    // Google Maps Platform terms forbid caching and prefetching tiles
+    public readonly cacheable = false;
+    private session: Promise<{ token: string; expiresAt: number }> | undefined;
+
+    constructor(private apiKey: string) {}
+
+    public async fetchTile(z: number, x: number, y: number): Promise<CachedTile | undefined> {
+        const session = await this.getSession();
+        return fetchTileImage(`${TILES_ROOT}/2dtiles/${z}/${x}/${y}?session=${session.token}&key=${this.apiKey}`, 8000);
+    }
+
+    private async getSession(): Promise<{ token: string; expiresAt: number }> {
+        const current = this.session && await this.session.catch(() => undefined);
+        if (current && current.expiresAt > Date.now() + 60000) {
+            return current;
+        }
+
+        this.session = fetchJson(`${TILES_ROOT}/createSession?key=${this.apiKey}`, 5000, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ mapType: 'roadmap', language: 'en-IN', region: 'IN' })
+        }).then(data => ({ token: data.session, expiresAt: Number(data.expiry) * 1000 }));
+        return this.session;
+    }
+}
+
+// Google's encoded polyline format, decoded to GeoJSON order
+function decodePolyline(encoded: string): LngLat[] {
+    const points: LngLat[] = [];
+    let index = 0;
+    let lat = 0;
+    let lng = 0;
+    while (index < encoded.length) {
+        for (const axis of [0, 1]) {
+            let shift = 0;
+            let result = 0;
+            let byte: number;
+            do {
+                byte = encoded.charCodeAt(index++) - 63;
+                result |= (byte & 0x1f) << shift;
+                shift += 5;
+            } while (byte >= 0x20);
+            const delta = result & 1 ? ~(result >> 1) : result >> 1;
+            if (axis === 0) {
+                lat += delta;
+            } else {
+                lng += delta;
+            }
+        }
+        points.push([lng / 1e5, lat / 1e5]);
+    }
+    return points;
+}
@@ -0,0 +1,38 @@
+import { CachedTile } from '../map/tileCache';
+
+// Sent with every request; the Nominatim, Overpass and OSM tile policies turn away generic clients
+const USER_AGENT = 'offline-map-travel-guide (VS Code extension)';
+
+export async function fetchJson(url: string, timeoutMs: number, init: RequestInit = {}): Promise<any> {
+    const response = await fetchWithTimeout(url, timeoutMs, init);
+    if (!response.ok) {
+        throw new Error(`${new URL(url).host} answered HTTP ${response.status}`);
+    }
+    return response.json();
+}
+
+// Missing tiles are normal (sea, edge of the world), so anything but a 2xx is just "no tile"
+export async function fetchTileImage(url: string, timeoutMs: number): Promise<CachedTile | undefined> {
+    const response = await fetchWithTimeout(url, timeoutMs, {});
+    if (!response.ok) {
+        return undefined;
+    }
+    return {
+        data: Buffer.from(await response.arrayBuffer()),
+        mimeType: response.headers.get('content-type') || 'image/png'
+    };
+}
+
+async function fetchWithTimeout(url: string, timeoutMs: number, init: RequestInit): Promise<Response> {
+    const headers = new Headers(init.headers);
+    if (!headers.has('User-Agent')) {
+        headers.set('User-Agent', USER_AGENT);
+    }
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+        return await fetch(url, { ...init, headers, signal: controller.signal });
+    } finally {
+        clearTimeout(timeout);
+    }
+}
@@ -0,0 +1,192 @@
+import { DatabaseManager } from '../storage/database';
+import { Place, PlaceCategory } from '../map/mapApiManager';
+import { Gazetteer } from '../offline/gazetteer';
+import { RoadRoute, RoadRouter } from '../routing/roadRouter';
+import { stepsFromRoadRoute, straightLineSteps } from '../routing/routeSteps';
+import { distanceMeters } from '../routing/geometry';
+import { isHighwayClass, measureRoadUse } from '../routing/roadUse';
+import { Geocoder, LatLng, PoiSource, ProviderAddress, ProviderRoute, ProviderSet, Router, TravelMatrix } from './types';
+
+const REVERSE_GEOCODE_RADIUS_KM = 10;
+// A gazetteer entry this close to the click is taken as the clicked place itself
+const REVERSE_GEOCODE_EXACT_METERS = 300;
+const SETTLEMENT_TYPES = ['capital', 'city', 'town', 'village', 'neighbourhood', 'locality'];
+
+const MAJOR_INDIAN_CITIES: Place[] = [
+    { name: "Delhi, India", lat: 28.6139, lng: 77.2090, type: "city", description: "Capital of India" },
+    { name: "Mumbai, India", lat: 19.0760, lng: 72.8777, type: "city", description: "Financial capital of India" },
+    { name: "Bengaluru, India", lat: 12.9716, lng: 77.5946, type: "city", description: "Silicon Valley of India" },
+    { name: "Chennai, India", lat: 13.0827, lng: 80.2707, type: "city", description: "Capital of Tamil Nadu" },
+    { name: "Kolkata, India", lat: 22.5726, lng: 88.3639, type: "city", description: "Cultural capital of India" },
+    { name: "Hyderabad, India", lat: 17.3850, lng: 78.4867, type: "city", description: "City of Pearls" },
+    { name: "Pune, India", lat: 18.5204, lng: 73.8567, type: "city", description: "Oxford of the East" },
+    { name: "Ahmedabad, India", lat: 23.0225, lng: 72.5714, type: "city", description: "Manchester of India" },
+    { name: "Jaipur, India", lat: 26.9124, lng: 75.7873, type: "city", description: "Pink City of India" },
+    { name: "Lucknow, India", lat: 26.8467, lng: 80.9462, type: "city", description: "City of Nawabs" },
+    { name: "Kochi, India", lat: 9.9312, lng: 76.2673, type: "city", description: "Queen of Arabian Sea" },
+    { name: "Goa, India", lat: 15.2993, lng: 74.1240, type: "city", description: "Beach paradise" }
+];
+
+// Average door-to-door speeds (km/h) for straight-line estimates, traffic included
+const ESTIMATE_SPEEDS: { [mode: string]: number } = { driving: 40 / 1.3, walking: 4, cycling: 12 };
+// Routes offered offline, the fastest included; more searches of the road graph for each
+const MAX_ALTERNATIVES = 3;
+
+// Everything answered from the database on this machine; used in offline mode and whenever the network fails
+export function createLocalProviders(databaseManager: DatabaseManager, roadRouter: RoadRouter): ProviderSet {
+    return {
+        geocoder: new LocalGeocoder(databaseManager, new Gazetteer(databaseManager)),
+        router: new LocalRouter(roadRouter),
+        poiSource: new LocalPoiSource(databaseManager)
+    };
+}
+
+export class LocalGeocoder implements Geocoder {
+    constructor(
+        private databaseManager: DatabaseManager,
+        private gazetteer: Gazetteer
+    ) {}
+
+    // Imported gazetteer first, then places stored from earlier searches and downloads, then a few well-known cities
+    public async search(query: string): Promise<Place[]> {
+        const gazetteerPlaces = await this.gazetteer.search(query).catch(error => {
+            console.error('Gazetteer search failed:', error);
+            return [];
+        });
+        if (gazetteerPlaces.length > 0) {
+            return gazetteerPlaces;
+        }
+
+        const storedPlaces = await this.databaseManager.places.search(query).catch(() => []);
+        return storedPlaces.length > 0 ? storedPlaces : this.searchMajorCities(query);
+    }
+
+    public async reverse(lat: number, lng: number): Promise<ProviderAddress> {
+        const nearby = await this.databaseManager.gazetteer.findNear(lat, lng, REVERSE_GEOCODE_RADIUS_KM, 50).catch(() => []);
+        const closest = nearby[0];
+        const settlement = nearby.find(entry => SETTLEMENT_TYPES.includes(entry.placeType));
+        const admin = nearby.find(entry => entry.admin1);
+
+        if (closest) {
+            const isExact = distanceMeters(lat, lng, closest.lat, closest.lng) <= REVERSE_GEOCODE_EXACT_METERS;
+            return {
+                name: isExact ? closest.name : settlement ? `Near ${settlement.name}` : `Near ${closest.name}`,
+                lat,
+                lng,
+                locality: settlement?.name,
+                district: admin?.admin2,
+                state: admin?.admin1
+            };
+        }
+
+        // Without a gazetteer, places stored from searches and downloads are the best we have
+        const storedPlaces = await this.databaseManager.places.findNear(lat, lng, REVERSE_GEOCODE_RADIUS_KM, undefined, 1).catch(() => []);
+        return {
+            name: storedPlaces.length > 0 ? `Near ${storedPlaces[0].name}` : 'Dropped pin',
+            lat,
+            lng
+        };
+    }
+
+    private searchMajorCities(query: string): Place[] {
+        const searchTerm = query.toLowerCase().trim();
+
+        if (!searchTerm) {
+            return MAJOR_INDIAN_CITIES.slice(0, 8);
+        }
+
+        // Exact matches first
+        const exactMatches = MAJOR_INDIAN_CITIES.filter(location =>
+            location.name.toLowerCase().includes(searchTerm)
+        );
+
+        // Partial matches
+        const partialMatches = MAJOR_INDIAN_CITIES.filter(location =>
+            (location.description || '').toLowerCase().includes(searchTerm) &&
+            !exactMatches.includes(location)
+        );
+
+        // Combine and return
+        const allMatches = [...exactMatches, ...partialMatches];
+        return allMatches.length > 0 ? allMatches.slice(0, 8) : MAJOR_INDIAN_CITIES.slice(0, 4);
+    }
+}
+
+export class LocalRouter implements Router {
+    constructor(private roadRouter: RoadRouter) {}
+
+    // Never gives up: without imported roads covering the trip it estimates a straight line
+    public async route(start: LatLng, end: LatLng, mode: string): Promise<ProviderRoute> {
+        const roadRoute = await this.roadRouter.route(start, end, mode).catch(error => {
+            console.error('Offline routing failed:', error);
+            return undefined;
+        });
+        return roadRoute ? this.toRoute(roadRoute, start, end) : this.estimate(start, end, mode);
+    }
+
+    // Alternatives along imported roads; the straight-line estimate is never offered next to them
+    public async alternatives(start: LatLng, end: LatLng, mode: string): Promise<ProviderRoute[]> {
+        const roadRoutes = await this.roadRouter.alternatives(start, end, mode, MAX_ALTERNATIVES).catch(error => {
+            console.error('Offline routing failed:', error);
+            return [];
+        });
+        return roadRoutes.length > 0
+            ? roadRoutes.map(roadRoute => this.toRoute(roadRoute, start, end))
+            : [this.estimate(start, end, mode)];
+    }
+
+    private toRoute(roadRoute: RoadRoute, start: LatLng, end: LatLng): ProviderRoute {
+        return {
+            distanceMeters: roadRoute.distanceMeters,
+            durationSeconds: roadRoute.durationSeconds,
+            geometry: roadRoute.geometry,
+            steps: stepsFromRoadRoute(roadRoute, start, end),
+            roadUse: measureRoadUse(roadRoute.segments.map(segment => ({
+                distanceMeters: segment.distanceMeters,
+                highway: isHighwayClass(segment.highway),
+                toll: segment.toll
+            })))
+        };
+    }
+
+    private estimate(start: LatLng, end: LatLng, mode: string): ProviderRoute {
+        const distance = distanceMeters(start.lat, start.lng, end.lat, end.lng);
+        const duration = distance / ((ESTIMATE_SPEEDS[mode] || ESTIMATE_SPEEDS.driving) / 3.6);
+        return {
+            distanceMeters: distance,
+            durationSeconds: duration,
+            geometry: { type: 'LineString', coordinates: [[start.lng, start.lat], [end.lng, end.lat]] },
+            steps: straightLineSteps(start, end, distance, duration),
+            approximate: true
+        };
+    }
+
+    // Routes each pair in turn; the road graph stays in memory, so this is quick for the stops of a trip
+    public async table(points: LatLng[], mode: string): Promise<TravelMatrix> {
+        const durationsSeconds: number[][] = [];
+        let approximate = false;
+        for (let i = 0; i < points.length; i++) {
+            const row: number[] = [];
+            for (let j = 0; j < points.length; j++) {
+                if (i === j) {
+                    row.push(0);
+                    continue;
+                }
+                const route = await this.route(points[i], points[j], mode);
+                row.push(route.durationSeconds);
+                approximate = approximate || !!route.approximate;
+            }
+            durationsSeconds.push(row);
+        }
+        return { durationsSeconds, approximate };
+    }
+}
+
+export class LocalPoiSource implements PoiSource {
+    constructor(private databaseManager: DatabaseManager) {}
+
+    // Only what earlier lookups, region downloads and OSM extracts stored; never invents places
+    public findNearby(lat: number, lng: number, radiusMeters: number, category: PlaceCategory): Promise<Place[]> {
+        return this.databaseManager.places.findNear(lat, lng, radiusMeters / 1000, category.id);
+    }
+}
@@ -0,0 +1,116 @@
+import { Place } from '../map/mapApiManager';
+import { CachedTile } from '../map/tileCache';
+import { fetchJson, fetchTileImage } from './http';
+import { OverpassPoiSource, matrixFromOsrmResponse, routeFromOsrmResponse, routesFromOsrmResponse } from './osmProviders';
+import { Geocoder, LatLng, OnlineProviderSet, ProviderAddress, ProviderRoute, Router, TileSource, TravelMatrix } from './types';
+import { capitalize } from '../util/text';
+
+const API_ROOT = 'https://api.mapbox.com';
+
+export function createMapboxProviders(accessToken: string): OnlineProviderSet {
+    return {
+        id: 'mapbox',
+        cacheable: true,
+        geocoder: new MapboxGeocoder(accessToken),
+        router: new MapboxRouter(accessToken),
+        // Mapbox data is OSM-based and its search has no category browsing, so POIs still come from Overpass
+        poiSource: new OverpassPoiSource(),
+        tileSource: new MapboxTileSource(accessToken)
+    };
+}
+
+export class MapboxGeocoder implements Geocoder {
+    constructor(private accessToken: string) {}
+
+    public async search(query: string): Promise<Place[]> {
+        const url = `${API_ROOT}/geocoding/v5/mapbox.places/${encodeURIComponent(query)}.json` +
+            `?country=in&limit=8&language=en&access_token=${this.accessToken}`;
+        const data = await fetchJson(url, 3000);
+
+        return (data.features || []).map((feature: any) => {
+            const context = this.readContext(feature);
+            const type = (feature.place_type && feature.place_type[0]) || 'place';
+            const region = [context.place, context.region].filter(Boolean).join(', ');
+            return {
+                name: context.place && context.place !== feature.text ? `${feature.text}, ${context.place}` : feature.text,
+                lat: feature.center[1],
+                lng: feature.center[0],
+                type,
+                category: type,
+                address: feature.properties?.address,
+                description: region ? `${capitalize(type)} • ${region}` : capitalize(type)
+            };
+        });
+    }
+
+    public async reverse(lat: number, lng: number): Promise<ProviderAddress | undefined> {
+        const url = `${API_ROOT}/geocoding/v5/mapbox.places/${lng},${lat}.json?limit=1&language=en&access_token=${this.accessToken}`;
+        const data = await fetchJson(url, 3000);
+        const feature = data.features && data.features[0];
+        if (!feature) {
+            return undefined;
+        }
+
+        const context = this.readContext(feature);
+        return {
+            name: feature.text,
+            lat,
+            lng,
+            locality: context.locality || context.neighborhood || context.place,
+            district: context.district,
+            state: context.region,
+            postcode: context.postcode
+        };
+    }
+
+    // Context entries have ids like "region.123"; the feature itself is not part of its context
+    private readContext(feature: any): { [layer: string]: string } {
+        const context: { [layer: string]: string } = {};
+        for (const entry of [feature, ...(feature.context || [])]) {
+            const layer = String(entry.id || '').split('.')[0];
+            if (layer && !context[layer]) {
+                context[layer] = entry.text;
+            }
+        }
+        return context;
+    }
+}
+
+export class MapboxRouter implements Router {
+    constructor(private accessToken: string) {}
+
+    public async route(start: LatLng, end: LatLng, mode: string): Promise<ProviderRoute | undefined> {
+        const url = `${API_ROOT}/directions/v5/mapbox/${mode}/${start.lng},${start.lat};${end.lng},${end.lat}` +
+            `?overview=full&geometries=geojson&steps=true&access_token=${this.accessToken}`;
+        return routeFromOsrmResponse(await fetchJson(url, 5000));
+    }
+
+    public async alternatives(start: LatLng, end: LatLng, mode: string): Promise<ProviderRoute[]> {
+        const url = `${API_ROOT}/directions/v5/mapbox/${mode}/${start.lng},${start.lat};${end.lng},${end.lat}` +
+            `?overview=full&geometries=geojson&steps=true&alternatives=true&access_token=${this.accessToken}`;
+        return routesFromOsrmResponse(await fetchJson(url, 5000));
+    }
+
+    // The Matrix API takes at most 25 points (10 for driving-traffic); longer trips use the local matrix
+    public async table(points: LatLng[], mode: string): Promise<TravelMatrix | undefined> {
+        if (points.length > 25) {
+            return undefined;
+        }
+        const coordinates = points.map(point => `${point.lng},${point.lat}`).join(';');
+        const url = `${API_ROOT}/directions-matrix/v1/mapbox/${mode}/${coordinates}?annotations=duration&access_token=${this.accessToken}`;
+        return matrixFromOsrmResponse(await fetchJson(url, 8000));
+    }
+}
+
+export class MapboxTileSource implements TileSource {
+    public readonly id = 'mapbox-streets';
+    public readonly attribution = '© Mapbox © OpenStreetMap contributors';
+    public readonly maxZoom = 20;
+    public readonly cacheable = true;
+
+    constructor(private accessToken: string) {}
+
+    public fetchTile(z: number, x: number, y: number): Promise<CachedTile | undefined> {
+        return fetchTileImage(`${API_ROOT}/styles/v1/mapbox/streets-v12/tiles/256/${z}/${x}/${y}?access_token=${this.accessToken}`, 8000);
+    }
+}
@@ -0,0 +1,182 @@
+import { Place, PlaceCategory } from '../map/mapApiManager';
+import { CachedTile } from '../map/tileCache';
+import { OverpassClient } from '../map/overpassClient';
+import { stepsFromOsrm } from '../routing/routeSteps';
+import { roadUseFromOsrm } from '../routing/roadUse';
+import { fetchJson, fetchTileImage } from './http';
+import { Geocoder, LatLng, OnlineProviderSet, PoiSource, ProviderAddress, ProviderRoute, Router, TileSource, TravelMatrix } from './types';
+import { capitalize } from '../util/text';
+
+const INDIA_BOUNDS = { north: 37.6, south: 6.0, east: 97.4, west: 68.1 };
+const INDIAN_CITIES = [
+    'delhi', 'mumbai', 'chennai', 'kolkata', 'bangalore', 'hyderabad', 'pune', 'ahmedabad', 'jaipur',
+    'lucknow', 'bengaluru', 'gurgaon', 'noida', 'kochi', 'goa', 'chandigarh', 'indore', 'bhopal'
+];
+
+export function createOsmProviders(): OnlineProviderSet {
+    return {
+        id: 'openstreetmap',
+        cacheable: true,
+        geocoder: new NominatimGeocoder(),
+        router: new OsrmRouter(),
+        poiSource: new OverpassPoiSource(),
+        tileSource: new OsmTileSource()
+    };
+}
+
+export class NominatimGeocoder implements Geocoder {
+    public async search(query: string): Promise<Place[]> {
+        // Add India bias for better results
+        const indiaBiasedQuery = this.addIndiaBias(query);
+        const url = `https://nominatim.openstreetmap.org/search?format=json&q=${encodeURIComponent(indiaBiasedQuery)}&limit=10&addressdetails=1&accept-language=en&countrycodes=in`;
+
+        // Fast timeout - 2 seconds for India-focused search
+        const data = await fetchJson(url, 2000);
+
+        const results = data.map((item: any) => ({
+            name: this.cleanName(item.display_name),
+            lat: parseFloat(item.lat),
+            lng: parseFloat(item.lon),
+            type: item.type || item.class || 'place',
+            category: item.class,
+            description: this.generateDescription(item)
+        }));
+
+        // Prioritize Indian locations; sort is stable, so Nominatim's ranking holds within each group
+        results.sort((a: Place, b: Place) => Number(isInIndia(b)) - Number(isInIndia(a)));
+        return results.slice(0, 8);
+    }
+
+    public async reverse(lat: number, lng: number): Promise<ProviderAddress | undefined> {
+        const url = `https://nominatim.openstreetmap.org/reverse?format=json&lat=${lat}&lon=${lng}&zoom=18&addressdetails=1&accept-language=en`;
+        const data = await fetchJson(url, 3000);
+        if (data.error || !data.address) {
+            return undefined;
+        }
+
+        const address = data.address;
+        return {
+            name: data.name || address.road || address.suburb || this.cleanName(data.display_name),
+            lat,
+            lng,
+            locality: address.suburb || address.neighbourhood || address.village || address.town || address.city,
+            district: address.state_district || address.county || address.city_district,
+            state: address.state,
+            postcode: address.postcode
+        };
+    }
+
+    private addIndiaBias(query: string): string {
+        const lowerQuery = query.toLowerCase();
+        const isIndianCity = INDIAN_CITIES.some(city => lowerQuery.includes(city));
+
+        if (!isIndianCity && !lowerQuery.includes('india') && query.length > 2) {
+            return query + ', India';
+        }
+        return query;
+    }
+
+    private cleanName(displayName: string): string {
+        // Extract only the main name parts, optimized for Indian addresses
+        const parts = displayName.split(',');
+
+        if (parts.length > 3) {
+            // For Indian addresses, typically take first part and last part (city/state)
+            return `${parts[0].trim()}, ${parts[parts.length - 2].trim()}`;
+        }
+
+        return displayName;
+    }
+
+    private generateDescription(item: any): string {
+        const type = item.type || item.class || 'location';
+        const address = item.address;
+
+        if (address) {
+            // Generate Indian-style description
+            if (address.city && address.state) {
+                return `${capitalize(type)} • ${address.city}, ${address.state}`;
+            } else if (address.state) {
+                return `${capitalize(type)} • ${address.state}`;
+            }
+        }
+
+        const parts = item.display_name.split(',');
+        if (parts.length >= 2) {
+            return `${capitalize(type)} • ${parts[parts.length - 2].trim()}`;
+        }
+
+        return `${capitalize(type)} • Area`;
+    }
+}
+
+export class OsrmRouter implements Router {
+    public async route(start: LatLng, end: LatLng, mode: string): Promise<ProviderRoute | undefined> {
+        const url = `https://router.project-osrm.org/route/v1/${mode}/${start.lng},${start.lat};${end.lng},${end.lat}?overview=full&geometries=geojson&steps=true`;
+        const data = await fetchJson(url, 4000);
+        return routeFromOsrmResponse(data);
+    }
+
+    public async alternatives(start: LatLng, end: LatLng, mode: string): Promise<ProviderRoute[]> {
+        const url = `https://router.project-osrm.org/route/v1/${mode}/${start.lng},${start.lat};${end.lng},${end.lat}?overview=full&geometries=geojson&steps=true&alternatives=true`;
+        const data = await fetchJson(url, 4000);
+        return routesFromOsrmResponse(data);
+    }
+
+    public async table(points: LatLng[], mode: string): Promise<TravelMatrix | undefined> {
+        const coordinates = points.map(point => `${point.lng},${point.lat}`).join(';');
+        const data = await fetchJson(`https://router.project-osrm.org/table/v1/${mode}/${coordinates}?annotations=duration`, 8000);
+        return matrixFromOsrmResponse(data);
+    }
+}
+
+// Mapbox Matrix answers in the same shape as the OSRM table service
+export function matrixFromOsrmResponse(data: any): TravelMatrix | undefined {
+    const durations: (number | null)[][] | undefined = data.durations;
+    if (!durations || durations.some(row => row.some(value => value === null))) {
+        return undefined;
+    }
+    return { durationsSeconds: durations as number[][] };
+}
+
+// Mapbox Directions answers in the same shape as OSRM
+export function routeFromOsrmResponse(data: any): ProviderRoute | undefined {
+    return routesFromOsrmResponse(data)[0];
+}
+
+export function routesFromOsrmResponse(data: any): ProviderRoute[] {
+    return (data.routes || []).map((route: any): ProviderRoute => ({
+        distanceMeters: route.distance,
+        durationSeconds: route.duration,
+        geometry: route.geometry,
+        steps: (route.legs || []).flatMap((leg: any) => stepsFromOsrm(leg)),
+        roadUse: roadUseFromOsrm(route.legs || [])
+    }));
+}
+
+export class OverpassPoiSource implements PoiSource {
+    // Nearby lookups are interactive, so they give up long before area downloads would
+    private overpass = new OverpassClient(15000);
+
+    public findNearby(lat: number, lng: number, radiusMeters: number, category: PlaceCategory): Promise<Place[]> {
+        return this.overpass.fetchPoisAround(lat, lng, radiusMeters, [category]);
+    }
+}
+
+export class OsmTileSource implements TileSource {
+    public readonly id = 'openstreetmap';
+    public readonly attribution = '© OpenStreetMap contributors';
+    public readonly maxZoom = 19;
+    public readonly cacheable = true;
+    // The OSM tile usage policy forbids bulk downloads at zoom 17 and above without permission
+    public readonly maxBulkZoom = 16;
+
+    public fetchTile(z: number, x: number, y: number): Promise<CachedTile | undefined> {
+        return fetchTileImage(`https://tile.openstreetmap.org/${z}/${x}/${y}.png`, 8000);
+    }
+}
+
+function isInIndia(place: { lat: number; lng: number }): boolean {
+    return place.lat >= INDIA_BOUNDS.south && place.lat <= INDIA_BOUNDS.north &&
+           place.lng >= INDIA_BOUNDS.west && place.lng <= INDIA_BOUNDS.east;
+}
@@ -0,0 +1,33 @@
+import { createGoogleProviders } from './googleProviders';
+import { createMapboxProviders } from './mapboxProviders';
+import { createOsmProviders } from './osmProviders';
+import { MapProviderId, OnlineProviderSet } from './types';
+
+export const MAP_PROVIDER_NAMES: { [id in MapProviderId]: string } = {
+    openstreetmap: 'OpenStreetMap',
+    mapbox: 'Mapbox',
+    google: 'Google Maps'
+};
+
+export class MissingApiKeyError extends Error {
+    constructor(public readonly provider: MapProviderId) {
+        super(`${MAP_PROVIDER_NAMES[provider]} needs an API key`);
+    }
+}
+
+export function createOnlineProviders(provider: MapProviderId, apiKey: string): OnlineProviderSet {
+    switch (provider) {
+        case 'mapbox':
+            if (!apiKey) {
+                throw new MissingApiKeyError(provider);
+            }
+            return createMapboxProviders(apiKey);
+        case 'google':
+            if (!apiKey) {
+                throw new MissingApiKeyError(provider);
+            }
+            return createGoogleProviders(apiKey);
+        default:
+            return createOsmProviders();
+    }
+}
@@ -0,0 +1,73 @@
+import { Place, PlaceCategory, ReverseGeocodeResult } from '../map/mapApiManager';
+import { CachedTile } from '../map/tileCache';
+import { RouteStep } from '../routing/routeSteps';
+import { LngLat } from '../routing/geometry';
+import { RoadUse } from '../routing/roadUse';
+
+export type MapProviderId = 'openstreetmap' | 'mapbox' | 'google';
+
+export type LatLng = { lat: number; lng: number };
+
+// Providers only report what they found; MapApiManager stamps where it came from
+export type ProviderAddress = Omit<ReverseGeocodeResult, 'source'>;
+
+export interface ProviderRoute {
+    distanceMeters: number;
+    durationSeconds: number;
+    geometry: { type: 'LineString'; coordinates: LngLat[] };
+    steps: RouteStep[];
+    // A straight-line guess rather than a path along roads
+    approximate?: boolean;
+    // Left out when the provider does not say what kind of roads the route takes
+    roadUse?: RoadUse;
+}
+
+// Travel times between every pair of points, in the order they were given
+export interface TravelMatrix {
+    durationsSeconds: number[][];
+    // Some times are straight-line estimates rather than routes along roads
+    approximate?: boolean;
+}
+
+export interface Geocoder {
+    search(query: string): Promise<Place[]>;
+    reverse(lat: number, lng: number): Promise<ProviderAddress | undefined>;
+}
+
+export interface Router {
+    // Resolves to undefined when the provider knows no route between the points
+    route(start: LatLng, end: LatLng, mode: string): Promise<ProviderRoute | undefined>;
+    // The best route first, then the others the provider suggests; empty when there is no route
+    alternatives?(start: LatLng, end: LatLng, mode: string): Promise<ProviderRoute[]>;
+    // One request for all pairs where the provider has a matrix service; undefined when any pair has no route
+    table?(points: LatLng[], mode: string): Promise<TravelMatrix | undefined>;
+}
+
+export interface PoiSource {
+    findNearby(lat: number, lng: number, radiusMeters: number, category: PlaceCategory): Promise<Place[]>;
+}
+
+export interface TileSource {
+    // Also names the tile cache directory, so tiles of different providers never mix
+    id: string;
+    attribution: string;
+    maxZoom: number;
+    // False where the provider's terms forbid storing or prefetching its tiles; they are then only shown
+    cacheable: boolean;
+    // Highest zoom that may be downloaded ahead of time; left out where the provider sets no such limit
+    maxBulkZoom?: number;
+    fetchTile(z: number, x: number, y: number): Promise<CachedTile | undefined>;
+}
+
+export interface ProviderSet {
+    geocoder: Geocoder;
+    router: Router;
+    poiSource: PoiSource;
+}
+
+export interface OnlineProviderSet extends ProviderSet {
+    id: MapProviderId;
+    // False where the provider's terms forbid keeping its search, place and route results; they are then only shown
+    cacheable: boolean;
+    tileSource: TileSource;
+}
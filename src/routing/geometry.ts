@@ -0,0 +1,35 @@
+// GeoJSON order: longitude first
+export type LngLat = [number, number];
+
+const EARTH_RADIUS_METERS = 6371000;
+
+export function distanceMeters(lat1: number, lng1: number, lat2: number, lng2: number): number {
+    const dLat = toRad(lat2 - lat1);
+    const dLng = toRad(lng2 - lng1);
+    const a = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+              Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) *
+              Math.sin(dLng / 2) * Math.sin(dLng / 2);
+    return EARTH_RADIUS_METERS * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+export function lineLengthMeters(coordinates: LngLat[]): number {
+    let total = 0;
+    for (let i = 1; i < coordinates.length; i++) {
+        total += distanceMeters(coordinates[i - 1][1], coordinates[i - 1][0], coordinates[i][1], coordinates[i][0]);
+    }
+    return total;
+}
+
+// Initial compass bearing from one point to the next, 0-360 clockwise from north
+export function bearingDegrees(from: LngLat, to: LngLat): number {
+    const lat1 = toRad(from[1]);
+    const lat2 = toRad(to[1]);
+    const dLng = toRad(to[0] - from[0]);
+    const y = Math.sin(dLng) * Math.cos(lat2);
+    const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLng);
+    return (Math.atan2(y, x) * 180 / Math.PI + 360) % 360;
+}
+
+function toRad(degrees: number): number {
+    return degrees * Math.PI / 180;
+}
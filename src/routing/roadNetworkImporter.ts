@@ -0,0 +1,383 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { DatabaseManager } from '../storage/database';
+import { RoadNode, RoadSegment } from '../storage/repositories/roadNetworkRepository';
+import { MapApiManager, Place, PlaceCategory } from '../map/mapApiManager';
+import { OsmTags, categorizePoi } from '../map/osmPois';
+import { TRAVEL_MODES, TravelMode, WayAccess, evaluateWay } from './travelProfiles';
+import { LngLat, lineLengthMeters } from './geometry';
+
+const BATCH_SIZE = 2000;
+
+type XmlTagKind = 'open' | 'close' | 'empty';
+
+interface RoadWay {
+    id: number;
+    refs: number[];
+    name?: string;
+    highway: string;
+    toll: boolean;
+    access: { mode: TravelMode; access: WayAccess }[];
+}
+
+// Mapped as an area or line; located at the average of its nodes once their coordinates are known
+interface PoiWay {
+    refs: number[];
+    place: Place;
+}
+
+export interface RoadNetworkImportResult {
+    segments: number;
+    nodes: number;
+    places: number;
+}
+
+// Builds the offline routing graph and the local POI table from OSM XML extracts (.osm),
+// e.g. from Geofabrik or an Overpass export
+export class RoadNetworkImporter {
+    constructor(
+        private databaseManager: DatabaseManager,
+        private apiManager: MapApiManager
+    ) {}
+
+    public async promptAndImport(): Promise<void> {
+        const files = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            openLabel: 'Import Road Network',
+            filters: {
+                'OSM XML extract': ['osm', 'xml'],
+                'All files': ['*']
+            }
+        });
+        if (!files || files.length === 0) {
+            return;
+        }
+
+        const filePath = files[0].fsPath;
+        if (/\.pbf$/i.test(filePath)) {
+            vscode.window.showErrorMessage(
+                'PBF extracts are not supported yet. Convert the file to OSM XML first, e.g. "osmium cat region.osm.pbf -o region.osm".'
+            );
+            return;
+        }
+
+        await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `Importing roads from ${path.basename(filePath)}`,
+            cancellable: true
+        }, async (progress, token) => {
+            let reported = 0;
+            try {
+                const result = await this.import(filePath, (fraction, message) => {
+                    const percent = Math.floor(fraction * 100);
+                    progress.report({ message, increment: percent - reported });
+                    reported = percent;
+                }, token);
+
+                if (token.isCancellationRequested) {
+                    vscode.window.showInformationMessage('Road network import cancelled; nothing was stored.');
+                    return;
+                }
+                const total = await this.databaseManager.roadNetwork.count();
+                vscode.window.showInformationMessage(
+                    `Imported ${result.segments.toLocaleString()} road segments between ${result.nodes.toLocaleString()} junctions ` +
+                    `and ${result.places.toLocaleString()} places. ` +
+                    `The offline road network now has ${total.toLocaleString()} segments.`
+                );
+            } catch (error) {
+                vscode.window.showErrorMessage(`Road network import failed: ${error}`);
+            }
+        });
+    }
+
+    public async import(
+        filePath: string,
+        onProgress: (fraction: number, message: string) => void = () => undefined,
+        token?: vscode.CancellationToken
+    ): Promise<RoadNetworkImportResult> {
+        // OSM XML lists all nodes before any way, but only ways say which nodes are roads,
+        // so the file is read twice: ways first, then just the coordinates they need
+        const categories = this.apiManager.getPlaceCategories();
+        const { ways, poiWays } = await this.readWays(filePath, categories, fraction => onProgress(fraction * 0.5, 'Reading roads'), token);
+        const useCounts = this.countNodeUses(ways);
+        const poiRefs = new Set(poiWays.flatMap(poiWay => poiWay.refs));
+        const { coordinates, pois } = await this.readNodes(
+            filePath,
+            id => useCounts.has(id) || poiRefs.has(id),
+            categories,
+            fraction => onProgress(0.5 + fraction * 0.4, 'Reading junctions and places'),
+            token
+        );
+        if (token?.isCancellationRequested) {
+            return { segments: 0, nodes: 0, places: 0 };
+        }
+        pois.push(...this.locatePoiWays(poiWays, coordinates));
+
+        const nodes = new Map<number, RoadNode>();
+        const segments: RoadSegment[] = [];
+        for (const way of ways) {
+            for (const segment of this.splitWay(way, useCounts, coordinates)) {
+                segments.push(segment);
+                for (const id of [segment.fromNode, segment.toNode]) {
+                    const [lng, lat] = coordinates.get(id)!;
+                    nodes.set(id, { id, lat, lng });
+                }
+            }
+        }
+
+        onProgress(0.9, 'Saving road network');
+        const nodeList = Array.from(nodes.values());
+        for (let i = 0; i < nodeList.length; i += BATCH_SIZE) {
+            await this.databaseManager.roadNetwork.insertNodes(nodeList.slice(i, i + BATCH_SIZE));
+        }
+        for (let i = 0; i < segments.length; i += BATCH_SIZE) {
+            await this.databaseManager.roadNetwork.insertSegments(segments.slice(i, i + BATCH_SIZE));
+            onProgress(0.9 + 0.1 * Math.min(i + BATCH_SIZE, segments.length) / segments.length, 'Saving road network');
+        }
+        for (let i = 0; i < pois.length; i += BATCH_SIZE) {
+            await this.databaseManager.places.upsertMany(pois.slice(i, i + BATCH_SIZE), 'osm-extract');
+        }
+
+        this.apiManager.reloadRoadNetwork();
+        return { segments: segments.length, nodes: nodes.size, places: pois.length };
+    }
+
+    private async readWays(
+        filePath: string,
+        categories: PlaceCategory[],
+        onProgress: (fraction: number) => void,
+        token?: vscode.CancellationToken
+    ): Promise<{ ways: RoadWay[]; poiWays: PoiWay[] }> {
+        const ways: RoadWay[] = [];
+        const poiWays: PoiWay[] = [];
+        let current: { id: number; refs: number[]; tags: OsmTags } | undefined;
+
+        await this.scanXml(filePath, (name, attributes, kind) => {
+            if (name === 'way' && kind !== 'close') {
+                current = { id: Number(attributes.id), refs: [], tags: {} };
+            } else if (current && name === 'nd') {
+                current.refs.push(Number(attributes.ref));
+            } else if (current && name === 'tag') {
+                current.tags[attributes.k] = attributes.v;
+            }
+
+            if (current && name === 'way' && kind !== 'open') {
+                const way = this.toRoadWay(current.id, current.refs, current.tags);
+                if (way) {
+                    ways.push(way);
+                }
+                // Coordinates are filled in once the nodes have been read
+                const place = categorizePoi(current.tags, 0, 0, categories);
+                if (place && current.refs.length > 0) {
+                    poiWays.push({ refs: current.refs, place });
+                }
+                current = undefined;
+            }
+            // Relations only follow the ways
+            return name !== 'relation';
+        }, onProgress, token);
+
+        return { ways, poiWays };
+    }
+
+    private toRoadWay(id: number, refs: number[], tags: OsmTags): RoadWay | undefined {
+        if (!tags.highway || refs.length < 2) {
+            return undefined;
+        }
+        const access = TRAVEL_MODES
+            .map(mode => ({ mode, access: evaluateWay(tags, mode) }))
+            .filter((entry): entry is { mode: TravelMode; access: WayAccess } => entry.access !== undefined);
+        if (access.length === 0) {
+            return undefined;
+        }
+        return { id, refs, name: tags.name || tags.ref, highway: tags.highway, toll: tags.toll === 'yes', access };
+    }
+
+    // Nodes shared by several ways (or used twice by one) are junctions; way ends always split too
+    private countNodeUses(ways: RoadWay[]): Map<number, number> {
+        const counts = new Map<number, number>();
+        for (const way of ways) {
+            way.refs.forEach((ref, index) => {
+                const isEnd = index === 0 || index === way.refs.length - 1;
+                counts.set(ref, (counts.get(ref) || 0) + (isEnd ? 2 : 1));
+            });
+        }
+        return counts;
+    }
+
+    private async readNodes(
+        filePath: string,
+        isWanted: (id: number) => boolean,
+        categories: PlaceCategory[],
+        onProgress: (fraction: number) => void,
+        token?: vscode.CancellationToken
+    ): Promise<{ coordinates: Map<number, LngLat>; pois: Place[] }> {
+        const coordinates = new Map<number, LngLat>();
+        const pois: Place[] = [];
+        let current: { lat: number; lng: number; tags: OsmTags } | undefined;
+
+        await this.scanXml(filePath, (name, attributes, kind) => {
+            if (name === 'node' && kind !== 'close') {
+                const id = Number(attributes.id);
+                const lat = parseFloat(attributes.lat);
+                const lng = parseFloat(attributes.lon);
+                if (isWanted(id)) {
+                    coordinates.set(id, [lng, lat]);
+                }
+                // Only nodes with child tags can be places
+                current = kind === 'open' ? { lat, lng, tags: {} } : undefined;
+            } else if (current && name === 'tag') {
+                current.tags[attributes.k] = attributes.v;
+            } else if (current && name === 'node' && kind === 'close') {
+                const place = categorizePoi(current.tags, current.lat, current.lng, categories);
+                if (place) {
+                    pois.push(place);
+                }
+                current = undefined;
+            }
+            return name !== 'way';
+        }, onProgress, token);
+        return { coordinates, pois };
+    }
+
+    private locatePoiWays(poiWays: PoiWay[], coordinates: Map<number, LngLat>): Place[] {
+        const places: Place[] = [];
+        for (const poiWay of poiWays) {
+            const points = poiWay.refs
+                .map(ref => coordinates.get(ref))
+                .filter((point): point is LngLat => point !== undefined);
+            if (points.length === 0) {
+                continue;
+            }
+            places.push({
+                ...poiWay.place,
+                lat: points.reduce((total, point) => total + point[1], 0) / points.length,
+                lng: points.reduce((total, point) => total + point[0], 0) / points.length
+            });
+        }
+        return places;
+    }
+
+    // Cuts a way at every junction. Nodes missing from the extract (ways crossing its border) end the current piece.
+    private splitWay(way: RoadWay, useCounts: Map<number, number>, coordinates: Map<number, LngLat>): RoadSegment[] {
+        const segments: RoadSegment[] = [];
+        let refs: number[] = [];
+
+        const emit = () => {
+            if (refs.length >= 2) {
+                segments.push(this.toSegment(way, refs, refs.map(ref => coordinates.get(ref)!)));
+            }
+        };
+
+        way.refs.forEach((ref, index) => {
+            if (!coordinates.has(ref)) {
+                emit();
+                refs = [];
+                return;
+            }
+            refs.push(ref);
+            const isJunction = (useCounts.get(ref) || 0) > 1;
+            if (refs.length >= 2 && (isJunction || index === way.refs.length - 1)) {
+                emit();
+                refs = [ref];
+            }
+        });
+        // The last point before a gap becomes a node of its own
+        emit();
+
+        return segments;
+    }
+
+    private toSegment(way: RoadWay, refs: number[], geometry: LngLat[]): RoadSegment {
+        const distanceMeters = lineLengthMeters(geometry);
+        const edges: RoadSegment['edges'] = [];
+        for (const { mode, access } of way.access) {
+            const durationSeconds = distanceMeters / (access.speedKmh / 3.6);
+            if (access.forward) {
+                edges.push({ mode, reversed: false, durationSeconds });
+            }
+            if (access.backward) {
+                edges.push({ mode, reversed: true, durationSeconds });
+            }
+        }
+
+        return {
+            wayId: way.id,
+            fromNode: refs[0],
+            toNode: refs[refs.length - 1],
+            name: way.name,
+            highway: way.highway,
+            toll: way.toll,
+            distanceMeters,
+            geometry,
+            edges
+        };
+    }
+
+    // Streams the file tag by tag without building a DOM, so country-sized extracts fit in memory.
+    // The handler returns false once it has seen everything it needs.
+    private async scanXml(
+        filePath: string,
+        onTag: (name: string, attributes: { [name: string]: string }, kind: XmlTagKind) => boolean,
+        onProgress: (fraction: number) => void,
+        token?: vscode.CancellationToken
+    ): Promise<void> {
+        const totalBytes = Math.max(fs.statSync(filePath).size, 1);
+        const stream = fs.createReadStream(filePath, { encoding: 'utf8', highWaterMark: 1024 * 1024 });
+        let remainder = '';
+        try {
+            for await (const chunk of stream) {
+                if (token?.isCancellationRequested) {
+                    return;
+                }
+
+                const pieces = (remainder + chunk).split('>');
+                remainder = pieces.pop() || '';
+                for (const piece of pieces) {
+                    const start = piece.indexOf('<');
+                    if (start < 0) {
+                        continue;
+                    }
+                    const tag = piece.slice(start + 1);
+                    if (tag.startsWith('?') || tag.startsWith('!')) {
+                        continue;
+                    }
+
+                    const kind: XmlTagKind = tag.startsWith('/') ? 'close' : tag.endsWith('/') ? 'empty' : 'open';
+                    const name = /^\/?([\w:-]+)/.exec(tag)?.[1];
+                    if (name && !onTag(name, kind === 'close' ? {} : this.parseAttributes(tag), kind)) {
+                        return;
+                    }
+                }
+                onProgress(stream.bytesRead / totalBytes);
+            }
+        } finally {
+            stream.destroy();
+        }
+    }
+
+    private parseAttributes(tag: string): { [name: string]: string } {
+        const attributes: { [name: string]: string } = {};
+        const pattern = /([\w:-]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+        let match: RegExpExecArray | null;
+        while ((match = pattern.exec(tag)) !== null) {
+            attributes[match[1]] = this.decodeEntities(match[3] ?? match[4]);
+        }
+        return attributes;
+    }
+
+    private decodeEntities(value: string): string {
+        if (!value.includes('&')) {
+            return value;
+        }
+        return value
+            .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+            .replace(/&#(\d+);/g, (_, decimal) => String.fromCodePoint(parseInt(decimal, 10)))
+            .replace(/&quot;/g, '"')
+            .replace(/&apos;/g, '\'')
+            .replace(/&lt;/g, '<')
+            .replace(/&gt;/g, '>')
+            .replace(/&amp;/g, '&');
+    }
+}
@@ -0,0 +1,328 @@
+import { DatabaseManager } from '../storage/database';
+import { GraphEdge } from '../storage/repositories/roadNetworkRepository';
+import { TravelMode, isTravelMode, maxSpeedKmh, connectorSpeedKmh } from './travelProfiles';
+import { LngLat, distanceMeters } from './geometry';
+
+// Points farther than this from any usable road are not routed; the caller falls back to an estimate
+const MAX_SNAP_METERS = 2000;
+// Alternatives: roads of each route found cost this much more in the next search; a route is kept when it is
+// at most this much slower than the best and shares no more than this fraction of its length with any kept route
+const ALTERNATIVE_PENALTY = 1.5;
+const MAX_ALTERNATIVE_DETOUR = 1.4;
+const MAX_ALTERNATIVE_SHARED = 0.7;
+// Searches per wanted route before giving up on finding more
+const ALTERNATIVE_ATTEMPTS = 3;
+
+export interface RoadRouteSegment {
+    name?: string;
+    highway: string;
+    toll: boolean;
+    distanceMeters: number;
+    durationSeconds: number;
+    coordinates: LngLat[];
+}
+
+export interface RoadRoute {
+    distanceMeters: number;
+    durationSeconds: number;
+    geometry: { type: 'LineString'; coordinates: LngLat[] };
+    segments: RoadRouteSegment[];
+}
+
+interface RoadGraph {
+    nodes: Map<number, { lat: number; lng: number }>;
+    outgoing: Map<number, GraphEdge[]>;
+    incoming: Set<number>;
+}
+
+// A* over the imported road network; each mode's graph is loaded once and kept in memory
+export class RoadRouter {
+    private graphs = new Map<TravelMode, Promise<RoadGraph>>();
+
+    constructor(private databaseManager: DatabaseManager) {}
+
+    // Called after an import so the next route sees the new roads
+    public invalidate(): void {
+        this.graphs.clear();
+    }
+
+    public async route(
+        start: { lat: number; lng: number },
+        end: { lat: number; lng: number },
+        mode: string
+    ): Promise<RoadRoute | undefined> {
+        const routes = await this.alternatives(start, end, mode, 1);
+        return routes[0];
+    }
+
+    // The fastest route first, then up to count - 1 noticeably different ones
+    public async alternatives(
+        start: { lat: number; lng: number },
+        end: { lat: number; lng: number },
+        mode: string,
+        count: number
+    ): Promise<RoadRoute[]> {
+        if (!isTravelMode(mode)) {
+            return [];
+        }
+
+        const graph = await this.loadGraph(mode);
+        const startNode = this.nearestNode(graph, start, id => graph.outgoing.has(id));
+        const endNode = this.nearestNode(graph, end, id => graph.incoming.has(id));
+        if (startNode === undefined || endNode === undefined) {
+            return [];
+        }
+
+        const best = this.findPath(graph, startNode, endNode, mode);
+        if (!best) {
+            return [];
+        }
+
+        const paths = [best];
+        const maxSeconds = pathSeconds(best) * MAX_ALTERNATIVE_DETOUR;
+        const penalties = new Map<number, number>();
+        let last = best;
+        for (let attempt = 0; attempt < count * ALTERNATIVE_ATTEMPTS && paths.length < count; attempt++) {
+            for (const edge of last) {
+                penalties.set(edge.segmentId, (penalties.get(edge.segmentId) ?? 1) * ALTERNATIVE_PENALTY);
+            }
+            const candidate = this.findPath(graph, startNode, endNode, mode, penalties);
+            if (!candidate) {
+                break;
+            }
+            if (pathSeconds(candidate) <= maxSeconds && paths.every(path => sharedShare(candidate, path) <= MAX_ALTERNATIVE_SHARED)) {
+                paths.push(candidate);
+            }
+            last = candidate;
+        }
+
+        return Promise.all(paths.map(path => this.buildRoute(graph, path, start, end, startNode, endNode, mode)));
+    }
+
+    private loadGraph(mode: TravelMode): Promise<RoadGraph> {
+        let graph = this.graphs.get(mode);
+        if (!graph) {
+            graph = this.readGraph(mode);
+            // A failed load is retried on the next request instead of being cached
+            graph.catch(() => this.graphs.delete(mode));
+            this.graphs.set(mode, graph);
+        }
+        return graph;
+    }
+
+    private async readGraph(mode: TravelMode): Promise<RoadGraph> {
+        const [nodes, edges] = await Promise.all([
+            this.databaseManager.roadNetwork.loadNodes(),
+            this.databaseManager.roadNetwork.loadEdges(mode)
+        ]);
+
+        const graph: RoadGraph = { nodes: new Map(), outgoing: new Map(), incoming: new Set() };
+        for (const node of nodes) {
+            graph.nodes.set(node.id, { lat: node.lat, lng: node.lng });
+        }
+        for (const edge of edges) {
+            const list = graph.outgoing.get(edge.from);
+            if (list) {
+                list.push(edge);
+            } else {
+                graph.outgoing.set(edge.from, [edge]);
+            }
+            graph.incoming.add(edge.to);
+        }
+        return graph;
+    }
+
+    private nearestNode(graph: RoadGraph, point: { lat: number; lng: number }, usable: (id: number) => boolean): number | undefined {
+        // Equirectangular distance is plenty to pick the closest node; only the winner is measured properly
+        const lngScale = Math.cos(point.lat * Math.PI / 180);
+        let nearest: number | undefined;
+        let nearestScore = Infinity;
+        for (const [id, node] of graph.nodes) {
+            const dLat = node.lat - point.lat;
+            const dLng = (node.lng - point.lng) * lngScale;
+            const score = dLat * dLat + dLng * dLng;
+            if (score < nearestScore && usable(id)) {
+                nearest = id;
+                nearestScore = score;
+            }
+        }
+
+        if (nearest === undefined) {
+            return undefined;
+        }
+        const node = graph.nodes.get(nearest)!;
+        return distanceMeters(point.lat, point.lng, node.lat, node.lng) <= MAX_SNAP_METERS ? nearest : undefined;
+    }
+
+    // Penalties multiply the travel time of segments, by id; they never lower it, so the estimate stays a lower bound
+    private findPath(
+        graph: RoadGraph,
+        startNode: number,
+        endNode: number,
+        mode: TravelMode,
+        penalties?: Map<number, number>
+    ): GraphEdge[] | undefined {
+        const target = graph.nodes.get(endNode)!;
+        const metersPerSecond = maxSpeedKmh(mode) / 3.6;
+        const estimate = (id: number) => {
+            const node = graph.nodes.get(id);
+            return node ? distanceMeters(node.lat, node.lng, target.lat, target.lng) / metersPerSecond : 0;
+        };
+
+        const costs = new Map<number, number>([[startNode, 0]]);
+        const cameBy = new Map<number, GraphEdge>();
+        const settled = new Set<number>();
+        const open = new MinHeap();
+        open.push(startNode, estimate(startNode));
+
+        let current: number | undefined;
+        while ((current = open.pop()) !== undefined) {
+            if (current === endNode) {
+                break;
+            }
+            if (settled.has(current)) {
+                continue;
+            }
+            settled.add(current);
+
+            const cost = costs.get(current)!;
+            for (const edge of graph.outgoing.get(current) || []) {
+                const nextCost = cost + edge.durationSeconds * (penalties?.get(edge.segmentId) ?? 1);
+                if (nextCost < (costs.get(edge.to) ?? Infinity)) {
+                    costs.set(edge.to, nextCost);
+                    cameBy.set(edge.to, edge);
+                    open.push(edge.to, nextCost + estimate(edge.to));
+                }
+            }
+        }
+        if (current !== endNode) {
+            return undefined;
+        }
+
+        const path: GraphEdge[] = [];
+        for (let node = endNode; node !== startNode;) {
+            const edge = cameBy.get(node)!;
+            path.unshift(edge);
+            node = edge.from;
+        }
+        return path;
+    }
+
+    private async buildRoute(
+        graph: RoadGraph,
+        path: GraphEdge[],
+        start: { lat: number; lng: number },
+        end: { lat: number; lng: number },
+        startNode: number,
+        endNode: number,
+        mode: TravelMode
+    ): Promise<RoadRoute> {
+        const geometries = await this.databaseManager.roadNetwork.segmentGeometries(path.map(edge => edge.segmentId));
+        const segments: RoadRouteSegment[] = path.map(edge => {
+            const geometry = geometries.get(edge.segmentId) || [];
+            return {
+                name: edge.name,
+                highway: edge.highway,
+                toll: edge.toll,
+                distanceMeters: edge.distanceMeters,
+                durationSeconds: edge.durationSeconds,
+                coordinates: edge.reversed ? geometry.slice().reverse() : geometry
+            };
+        });
+
+        // Short off-road legs from the requested points to the road network
+        const first = graph.nodes.get(startNode)!;
+        const last = graph.nodes.get(endNode)!;
+        const connectorSpeed = connectorSpeedKmh(mode) / 3.6;
+        const leadIn = distanceMeters(start.lat, start.lng, first.lat, first.lng);
+        const leadOut = distanceMeters(last.lat, last.lng, end.lat, end.lng);
+
+        const coordinates: LngLat[] = [[start.lng, start.lat]];
+        for (const segment of segments) {
+            // Consecutive segments share their junction point
+            coordinates.push(...(coordinates.length > 1 ? segment.coordinates.slice(1) : segment.coordinates));
+        }
+        coordinates.push([end.lng, end.lat]);
+
+        return {
+            distanceMeters: segments.reduce((total, segment) => total + segment.distanceMeters, leadIn + leadOut),
+            durationSeconds: segments.reduce((total, segment) => total + segment.durationSeconds, (leadIn + leadOut) / connectorSpeed),
+            geometry: { type: 'LineString', coordinates },
+            segments
+        };
+    }
+}
+
+function pathSeconds(path: GraphEdge[]): number {
+    return path.reduce((total, edge) => total + edge.durationSeconds, 0);
+}
+
+// The fraction of the candidate's length that runs over segments of the other path
+function sharedShare(candidate: GraphEdge[], other: GraphEdge[]): number {
+    const segments = new Set(other.map(edge => edge.segmentId));
+    let shared = 0;
+    let total = 0;
+    for (const edge of candidate) {
+        total += edge.distanceMeters;
+        if (segments.has(edge.segmentId)) {
+            shared += edge.distanceMeters;
+        }
+    }
+    return total > 0 ? shared / total : 1;
+}
+
+// Binary heap of node ids keyed by priority; stale entries are skipped by the caller
+class MinHeap {
+    private ids: number[] = [];
+    private priorities: number[] = [];
+
+    public push(id: number, priority: number): void {
+        this.ids.push(id);
+        this.priorities.push(priority);
+        let index = this.ids.length - 1;
+        while (index > 0) {
+            const parent = (index - 1) >> 1;
+            if (this.priorities[parent] <= priority) {
+                break;
+            }
+            this.swap(index, parent);
+            index = parent;
+        }
+    }
+
+    public pop(): number | undefined {
+        if (this.ids.length === 0) {
+            return undefined;
+        }
+        const top = this.ids[0];
+        const lastId = this.ids.pop()!;
+        const lastPriority = this.priorities.pop()!;
+        if (this.ids.length > 0) {
+            this.ids[0] = lastId;
+            this.priorities[0] = lastPriority;
+            let index = 0;
+            for (;;) {
+                const left = index * 2 + 1;
+                const right = left + 1;
+                let smallest = index;
+                if (left < this.ids.length && this.priorities[left] < this.priorities[smallest]) {
+                    smallest = left;
+                }
+                if (right < this.ids.length && this.priorities[right] < this.priorities[smallest]) {
+                    smallest = right;
+                }
+                if (smallest === index) {
+                    break;
+                }
+                this.swap(index, smallest);
+                index = smallest;
+            }
+        }
+        return top;
+    }
+
+    private swap(a: number, b: number): void {
+        [this.ids[a], this.ids[b]] = [this.ids[b], this.ids[a]];
+        [this.priorities[a], this.priorities[b]] = [this.priorities[b], this.priorities[a]];
+    }
+}
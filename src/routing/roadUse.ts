@@ -0,0 +1,39 @@
+// How much of a route runs on highways and toll roads, for comparing alternatives
+export interface RoadUse {
+    highwayMeters: number;
+    tollMeters: number;
+}
+
+// In India most national highways are tagged trunk rather than motorway
+const HIGHWAY_CLASSES = new Set(['motorway', 'motorway_link', 'trunk', 'trunk_link']);
+
+// National (NH), North-East (NE) and Asian (AH) highway numbers, or a road named as one
+const HIGHWAY_NAME = /\b(NH|NE|AH)[\s-]*\d+|\bexpressway\b|\bhighway\b/i;
+
+export function isHighwayClass(highway: string): boolean {
+    return HIGHWAY_CLASSES.has(highway);
+}
+
+export function isHighwayName(name: string | undefined): boolean {
+    return !!name && HIGHWAY_NAME.test(name);
+}
+
+export function measureRoadUse(parts: { distanceMeters: number; highway: boolean; toll: boolean }[]): RoadUse {
+    return parts.reduce((use, part) => ({
+        highwayMeters: use.highwayMeters + (part.highway ? part.distanceMeters : 0),
+        tollMeters: use.tollMeters + (part.toll ? part.distanceMeters : 0)
+    }), { highwayMeters: 0, tollMeters: 0 });
+}
+
+// OSRM and Mapbox mark the roads at each intersection with classes such as 'motorway' and 'toll'
+export function roadUseFromOsrm(legs: any[]): RoadUse {
+    const steps: any[] = legs.flatMap(leg => leg.steps || []);
+    return measureRoadUse(steps.map(step => {
+        const classes: string[] = (step.intersections || []).flatMap((intersection: any) => intersection.classes || []);
+        return {
+            distanceMeters: step.distance,
+            highway: classes.includes('motorway') || isHighwayName(step.ref) || isHighwayName(step.name),
+            toll: classes.includes('toll')
+        };
+    }));
+}
@@ -0,0 +1,240 @@
+import { LngLat, bearingDegrees, distanceMeters } from './geometry';
+import { RoadRoute, RoadRouteSegment } from './roadRouter';
+
+export type ManeuverModifier =
+    'uturn' | 'sharp right' | 'right' | 'slight right' | 'straight' | 'slight left' | 'left' | 'sharp left';
+
+// Maneuver types follow OSRM ('depart', 'turn', 'new name', 'roundabout', 'arrive', ...) so both sources render alike
+export interface RouteStep {
+    instruction: string;
+    type: string;
+    modifier?: ManeuverModifier;
+    name?: string;
+    distanceMeters: number;
+    durationSeconds: number;
+    location: LngLat;
+    geometry: { type: 'LineString'; coordinates: LngLat[] };
+}
+
+// Consecutive segments of the same road are merged unless the road itself bends this much at a junction
+const TURN_THRESHOLD_DEGREES = 40;
+
+const CARDINALS = ['north', 'northeast', 'east', 'southeast', 'south', 'southwest', 'west', 'northwest'];
+
+export function stepsFromOsrm(leg: any): RouteStep[] {
+    return (leg.steps || []).map((step: any) => {
+        const maneuver = step.maneuver || {};
+        const name = step.name || step.ref || undefined;
+        return {
+            instruction: describeManeuver(maneuver.type, maneuver.modifier, name, {
+                exit: maneuver.exit,
+                bearing: maneuver.bearing_after
+            }),
+            type: maneuver.type,
+            modifier: maneuver.modifier,
+            name,
+            distanceMeters: step.distance,
+            durationSeconds: step.duration,
+            location: maneuver.location,
+            geometry: step.geometry
+        };
+    });
+}
+
+export function stepsFromRoadRoute(
+    route: RoadRoute,
+    start: { lat: number; lng: number },
+    end: { lat: number; lng: number }
+): RouteStep[] {
+    const groups = groupSegments(route.segments);
+    const startPoint: LngLat = [start.lng, start.lat];
+    const endPoint: LngLat = [end.lng, end.lat];
+    if (groups.length === 0) {
+        return straightLineSteps(start, end, route.distanceMeters, route.durationSeconds);
+    }
+
+    // The legs between the requested points and the network count towards the first and last steps
+    const first = groups[0].coordinates[0];
+    const last = groups[groups.length - 1].coordinates[groups[groups.length - 1].coordinates.length - 1];
+    const leadIn = distanceMeters(start.lat, start.lng, first[1], first[0]);
+    const leadOut = distanceMeters(last[1], last[0], end.lat, end.lng);
+    const connectorSeconds = route.durationSeconds - route.segments.reduce((total, segment) => total + segment.durationSeconds, 0);
+    const leadInShare = leadIn + leadOut > 0 ? leadIn / (leadIn + leadOut) : 0;
+    // Head the way the first road runs, not along the short lead-in to it
+    const departBearing = initialBearing(groups[0].coordinates);
+    groups[0].coordinates.unshift(startPoint);
+    groups[0].distanceMeters += leadIn;
+    groups[0].durationSeconds += connectorSeconds * leadInShare;
+    groups[groups.length - 1].coordinates.push(endPoint);
+    groups[groups.length - 1].distanceMeters += leadOut;
+    groups[groups.length - 1].durationSeconds += connectorSeconds * (1 - leadInShare);
+
+    const steps = groups.map((group, index): RouteStep => {
+        const location = group.coordinates[0];
+        if (index === 0) {
+            return {
+                instruction: describeManeuver('depart', undefined, group.name, { bearing: departBearing }),
+                type: 'depart',
+                name: group.name,
+                distanceMeters: group.distanceMeters,
+                durationSeconds: group.durationSeconds,
+                location,
+                geometry: { type: 'LineString', coordinates: group.coordinates }
+            };
+        }
+
+        const modifier = turnModifier(turnAngle(groups[index - 1].coordinates, group.coordinates));
+        const type = modifier === 'straight' ? 'new name' : 'turn';
+        return {
+            instruction: describeManeuver(type, modifier, group.name),
+            type,
+            modifier,
+            name: group.name,
+            distanceMeters: group.distanceMeters,
+            durationSeconds: group.durationSeconds,
+            location,
+            geometry: { type: 'LineString', coordinates: group.coordinates }
+        };
+    });
+
+    steps.push(arrivalStep(endPoint));
+    return steps;
+}
+
+export function straightLineSteps(
+    start: { lat: number; lng: number },
+    end: { lat: number; lng: number },
+    totalMeters: number,
+    totalSeconds: number
+): RouteStep[] {
+    const coordinates: LngLat[] = [[start.lng, start.lat], [end.lng, end.lat]];
+    return [
+        {
+            instruction: describeManeuver('depart', undefined, undefined, { bearing: bearingDegrees(coordinates[0], coordinates[1]) }),
+            type: 'depart',
+            distanceMeters: totalMeters,
+            durationSeconds: totalSeconds,
+            location: coordinates[0],
+            geometry: { type: 'LineString', coordinates }
+        },
+        arrivalStep(coordinates[1])
+    ];
+}
+
+export function describeManeuver(
+    type: string,
+    modifier: string | undefined,
+    name: string | undefined,
+    options: { exit?: number; bearing?: number } = {}
+): string {
+    const onto = name ? ` onto ${name}` : '';
+    switch (type) {
+        case 'depart':
+            return `Head ${options.bearing !== undefined ? cardinal(options.bearing) : 'out'}${name ? ` on ${name}` : ''}`;
+        case 'arrive':
+            return modifier === 'left' || modifier === 'right'
+                ? `Arrive at your destination on the ${modifier}`
+                : 'Arrive at your destination';
+        case 'roundabout':
+        case 'rotary':
+            return options.exit ? `At the roundabout, take exit ${options.exit}${onto}` : `Enter the roundabout${onto}`;
+        case 'exit roundabout':
+        case 'exit rotary':
+            return `Exit the roundabout${onto}`;
+        case 'merge':
+            return `Merge${onto}`;
+        case 'on ramp':
+            return `Take the ramp${onto}`;
+        case 'off ramp':
+            return `Take the exit${onto}`;
+        case 'fork':
+            return `Keep ${modifier && modifier.includes('left') ? 'left' : 'right'} at the fork${onto}`;
+        case 'end of road':
+            return `At the end of the road, turn ${modifier && modifier.includes('left') ? 'left' : 'right'}${onto}`;
+        case 'new name':
+        case 'continue':
+            return `Continue${onto}`;
+        default:
+            if (!modifier || modifier === 'straight') {
+                return `Continue straight${onto}`;
+            }
+            return modifier === 'uturn' ? `Make a U-turn${onto}` : `Turn ${modifier}${onto}`;
+    }
+}
+
+interface SegmentGroup {
+    name?: string;
+    highway: string;
+    distanceMeters: number;
+    durationSeconds: number;
+    coordinates: LngLat[];
+}
+
+function groupSegments(segments: RoadRouteSegment[]): SegmentGroup[] {
+    const groups: SegmentGroup[] = [];
+    for (const segment of segments) {
+        if (segment.coordinates.length < 2) {
+            continue;
+        }
+        const previous = groups[groups.length - 1];
+        const sameRoad = previous && previous.name === segment.name && (segment.name || previous.highway === segment.highway);
+        if (sameRoad && Math.abs(turnAngle(previous.coordinates, segment.coordinates)) < TURN_THRESHOLD_DEGREES) {
+            previous.coordinates.push(...segment.coordinates.slice(1));
+            previous.distanceMeters += segment.distanceMeters;
+            previous.durationSeconds += segment.durationSeconds;
+        } else {
+            groups.push({
+                name: segment.name,
+                highway: segment.highway,
+                distanceMeters: segment.distanceMeters,
+                durationSeconds: segment.durationSeconds,
+                coordinates: segment.coordinates.slice()
+            });
+        }
+    }
+    return groups;
+}
+
+// Signed change of heading at the point where two lines meet; positive turns clockwise, i.e. to the right
+function turnAngle(before: LngLat[], after: LngLat[]): number {
+    const incoming = bearingDegrees(before[before.length - 2], before[before.length - 1]);
+    const outgoing = bearingDegrees(after[0], after[1]);
+    return ((outgoing - incoming + 540) % 360) - 180;
+}
+
+function turnModifier(angle: number): ManeuverModifier {
+    const magnitude = Math.abs(angle);
+    const side = angle > 0 ? 'right' : 'left';
+
+    if (magnitude < 20) {
+        return 'straight';
+    }
+    if (magnitude < 60) {
+        return `slight ${side}`;
+    }
+    if (magnitude < 135) {
+        return side;
+    }
+    return magnitude < 170 ? `sharp ${side}` : 'uturn';
+}
+
+function initialBearing(coordinates: LngLat[]): number {
+    // Skip repeated points at the start of a line
+    const next = coordinates.find(point => point[0] !== coordinates[0][0] || point[1] !== coordinates[0][1]);
+    return next ? bearingDegrees(coordinates[0], next) : 0;
+}
+
+function arrivalStep(location: LngLat): RouteStep {
+    return {
+        instruction: describeManeuver('arrive', undefined, undefined),
+        type: 'arrive',
+        distanceMeters: 0,
+        durationSeconds: 0,
+        location,
+        geometry: { type: 'LineString', coordinates: [location, location] }
+    };
+}
+
+function cardinal(bearing: number): string {
+    return CARDINALS[Math.round(bearing / 45) % 8];
+}
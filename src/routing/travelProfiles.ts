@@ -0,0 +1,146 @@
+import { OsmTags } from '../map/osmPois';
+
+export type TravelMode = 'driving' | 'walking' | 'cycling';
+
+export const TRAVEL_MODES: TravelMode[] = ['driving', 'walking', 'cycling'];
+
+export interface WayAccess {
+    forward: boolean;
+    backward: boolean;
+    speedKmh: number;
+}
+
+interface TravelProfile {
+    // Typical speeds on Indian roads, not posted limits; highways missing here are not usable
+    speeds: { [highway: string]: number };
+    // Most specific key last; the last one that is set decides
+    accessKeys: string[];
+    onewayKeys: string[];
+    // Speed between the requested point and the nearest road node
+    connectorKmh: number;
+    usesMaxSpeed: boolean;
+}
+
+const PROFILES: { [mode in TravelMode]: TravelProfile } = {
+    driving: {
+        speeds: {
+            motorway: 80, motorway_link: 45, trunk: 60, trunk_link: 40, primary: 45, primary_link: 35,
+            secondary: 40, secondary_link: 30, tertiary: 30, tertiary_link: 25, unclassified: 25,
+            residential: 20, road: 20, living_street: 10, service: 15, track: 10
+        },
+        accessKeys: ['access', 'vehicle', 'motor_vehicle', 'motorcar'],
+        onewayKeys: ['oneway'],
+        connectorKmh: 15,
+        usesMaxSpeed: true
+    },
+    walking: {
+        speeds: {
+            trunk: 4, trunk_link: 4, primary: 4, primary_link: 4, secondary: 4, secondary_link: 4,
+            tertiary: 4, tertiary_link: 4, unclassified: 4, residential: 4, road: 4, living_street: 4,
+            service: 4, track: 4, footway: 4, pedestrian: 4, path: 4, bridleway: 4, cycleway: 4, steps: 2
+        },
+        accessKeys: ['access', 'foot'],
+        onewayKeys: ['oneway:foot'],
+        connectorKmh: 4,
+        usesMaxSpeed: false
+    },
+    cycling: {
+        speeds: {
+            trunk: 12, trunk_link: 12, primary: 12, primary_link: 12, secondary: 12, secondary_link: 12,
+            tertiary: 12, tertiary_link: 12, unclassified: 12, residential: 12, road: 12, living_street: 10,
+            service: 10, track: 8, cycleway: 14, path: 8, bridleway: 8, footway: 5, pedestrian: 5
+        },
+        accessKeys: ['access', 'vehicle', 'bicycle'],
+        onewayKeys: ['oneway', 'oneway:bicycle'],
+        connectorKmh: 10,
+        usesMaxSpeed: false
+    }
+};
+
+const DENIED_ACCESS = new Set(['no', 'private', 'agricultural', 'forestry']);
+
+export function isTravelMode(mode: string): mode is TravelMode {
+    return (TRAVEL_MODES as string[]).includes(mode);
+}
+
+// Upper bound used by the router's heuristic; no way is ever faster than this
+export function maxSpeedKmh(mode: TravelMode): number {
+    return Math.max(...Object.values(PROFILES[mode].speeds));
+}
+
+export function connectorSpeedKmh(mode: TravelMode): number {
+    return PROFILES[mode].connectorKmh;
+}
+
+export function evaluateWay(tags: OsmTags, mode: TravelMode): WayAccess | undefined {
+    const profile = PROFILES[mode];
+    const highway = tags.highway;
+    if (!highway || tags.area === 'yes') {
+        return undefined;
+    }
+
+    let access: string | undefined;
+    for (const key of profile.accessKeys) {
+        access = tags[key] ?? access;
+    }
+    if (access && DENIED_ACCESS.has(access)) {
+        return undefined;
+    }
+
+    let speedKmh = profile.speeds[highway];
+    if (speedKmh === undefined) {
+        // A footway explicitly opened to bicycles and the like
+        if (access !== 'yes' && access !== 'designated' && access !== 'permissive') {
+            return undefined;
+        }
+        speedKmh = profile.connectorKmh;
+    }
+    if (profile.usesMaxSpeed) {
+        const posted = parseMaxSpeed(tags.maxspeed);
+        if (posted !== undefined) {
+            // Posted limits overstate what traffic allows
+            speedKmh = Math.min(posted * 0.8, maxSpeedKmh(mode));
+        }
+    }
+
+    const direction = onewayDirection(tags, profile);
+    return {
+        forward: direction !== 'backward',
+        backward: direction !== 'forward',
+        speedKmh
+    };
+}
+
+function onewayDirection(tags: OsmTags, profile: TravelProfile): 'forward' | 'backward' | 'both' {
+    let value: string | undefined;
+    for (const key of profile.onewayKeys) {
+        value = tags[key] ?? value;
+    }
+    // Roundabouts and motorways are one-way without saying so
+    if (value === undefined && profile.onewayKeys.includes('oneway') &&
+        (tags.junction === 'roundabout' || tags.highway === 'motorway')) {
+        value = 'yes';
+    }
+    // Contraflow cycle lanes
+    if (profile.onewayKeys.includes('oneway:bicycle') && tags['oneway:bicycle'] === undefined &&
+        /^opposite/.test(tags.cycleway || '')) {
+        value = 'no';
+    }
+
+    if (value === 'yes' || value === 'true' || value === '1') {
+        return 'forward';
+    }
+    if (value === '-1' || value === 'reverse') {
+        return 'backward';
+    }
+    return 'both';
+}
+
+function parseMaxSpeed(value: string | undefined): number | undefined {
+    const match = value && /^(\d+(?:\.\d+)?)\s*(mph)?$/.exec(value.trim());
+    if (!match) {
+        return undefined;
+    }
+    const speed = parseFloat(match[1]);
+    return match[2] ? speed * 1.609 : speed;
+}
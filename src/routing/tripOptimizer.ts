@@ -0,0 +1,109 @@
+// Orders the stops of a trip for the least total travel time. Trips are a handful of stops, so a
+// nearest-neighbour tour polished with 2-opt and or-opt moves is close to optimal and instant.
+// Matrices from a router are not symmetric (one-way streets), so every move is scored on the whole path.
+
+export interface OptimizedOrder {
+    // Indices into the matrix, in visiting order
+    order: number[];
+    seconds: number;
+}
+
+// Largest run of consecutive stops an or-opt move relocates
+const MAX_SEGMENT = 3;
+
+export function pathSeconds(durations: number[][], order: number[]): number {
+    let total = 0;
+    for (let i = 1; i < order.length; i++) {
+        total += durations[order[i - 1]][order[i]];
+    }
+    return total;
+}
+
+// The first stop of `order` always stays first; with `fixedEnd` the last one stays last as well.
+// The original order is polished too, so the result is never slower than what was given.
+export function optimizeOrder(durations: number[][], order: number[], fixedEnd: boolean): OptimizedOrder {
+    const original = { order: [...order], seconds: pathSeconds(durations, order) };
+    if (order.length < 3 || (fixedEnd && order.length < 4)) {
+        return original;
+    }
+
+    const candidates = [nearestNeighbour(durations, order, fixedEnd), order].map(start => improve(durations, start, fixedEnd));
+    return candidates.reduce((best, candidate) => candidate.seconds < best.seconds ? candidate : best, original);
+}
+
+function nearestNeighbour(durations: number[][], order: number[], fixedEnd: boolean): number[] {
+    const last = fixedEnd ? order[order.length - 1] : undefined;
+    const remaining = new Set(order.slice(1, fixedEnd ? -1 : undefined));
+    const tour = [order[0]];
+    while (remaining.size > 0) {
+        const from = tour[tour.length - 1];
+        let next = -1;
+        for (const candidate of remaining) {
+            if (next === -1 || durations[from][candidate] < durations[from][next]) {
+                next = candidate;
+            }
+        }
+        tour.push(next);
+        remaining.delete(next);
+    }
+    if (last !== undefined) {
+        tour.push(last);
+    }
+    return tour;
+}
+
+function improve(durations: number[][], start: number[], fixedEnd: boolean): OptimizedOrder {
+    let order = [...start];
+    let seconds = pathSeconds(durations, order);
+    // Positions that may move: everything but the first stop and, when fixed, the last
+    const first = 1;
+    const last = order.length - (fixedEnd ? 2 : 1);
+
+    let improved = true;
+    while (improved) {
+        improved = false;
+
+        // 2-opt: reverse a run of stops
+        for (let i = first; i < last; i++) {
+            for (let j = i + 1; j <= last; j++) {
+                const candidate = [...order.slice(0, i), ...order.slice(i, j + 1).reverse(), ...order.slice(j + 1)];
+                const candidateSeconds = pathSeconds(durations, candidate);
+                if (candidateSeconds < seconds - 1e-6) {
+                    order = candidate;
+                    seconds = candidateSeconds;
+                    improved = true;
+                }
+            }
+        }
+
+        // Or-opt: move a short run of stops elsewhere, keeping its direction
+        for (let length = 1; length <= MAX_SEGMENT; length++) {
+            for (let i = first; i + length - 1 <= last; i++) {
+                const segment = order.slice(i, i + length);
+                const rest = [...order.slice(0, i), ...order.slice(i + length)];
+                const restLast = last - length;
+                for (let k = first; k <= restLast + 1; k++) {
+                    if (k === i) {
+                        continue;
+                    }
+                    const candidate = [...rest.slice(0, k), ...segment, ...rest.slice(k)];
+                    const candidateSeconds = pathSeconds(durations, candidate);
+                    if (candidateSeconds < seconds - 1e-6) {
+                        order = candidate;
+                        seconds = candidateSeconds;
+                        improved = true;
+                        break;
+                    }
+                }
+                if (improved) {
+                    break;
+                }
+            }
+            if (improved) {
+                break;
+            }
+        }
+    }
+
+    return { order, seconds };
+}
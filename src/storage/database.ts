@@ -1,14 +1,227 @@
 import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as sqlite3 from 'sqlite3';
+import { AsyncLocalStorage } from 'async_hooks';
+import { migrations } from './migrations';
+import { PlaceRepository } from './repositories/placeRepository';
+import { SearchRepository } from './repositories/searchRepository';
+import { RouteRepository } from './repositories/routeRepository';
+import { UserDataRepository } from './repositories/userDataRepository';
+import { RegionDownloadRepository } from './repositories/regionDownloadRepository';
+import { GazetteerRepository } from './repositories/gazetteerRepository';
+import { RoadNetworkRepository } from './repositories/roadNetworkRepository';
+import { GuideRepository } from './repositories/guideRepository';
+import { SavedPlaceRepository } from './repositories/savedPlaceRepository';
+import { ItineraryRepository } from './repositories/itineraryRepository';
+import { MapOverlayRepository } from './repositories/mapOverlayRepository';
+
+export type SqlParams = (string | number | null)[] | { [name: string]: string | number | null };
+
+// For user text inside a LIKE pattern; the query must say ESCAPE '\' for the escapes to count
+export function escapeLike(text: string): string {
+    return text.replace(/[\\%_]/g, match => '\\' + match);
+}
 
 export class DatabaseManager {
-    constructor(private context: vscode.ExtensionContext) {}
+    private db: sqlite3.Database | undefined;
+    private ready: Promise<void> | undefined;
+    private transactionQueue: Promise<unknown> = Promise.resolve();
+    // Set while a transaction callback runs, including everything it awaits
+    private transactionScope = new AsyncLocalStorage<boolean>();
+
+    public readonly places: PlaceRepository;
+    public readonly searches: SearchRepository;
+    public readonly routes: RouteRepository;
+    public readonly userData: UserDataRepository;
+    public readonly regionDownloads: RegionDownloadRepository;
+    public readonly gazetteer: GazetteerRepository;
+    public readonly roadNetwork: RoadNetworkRepository;
+    public readonly guides: GuideRepository;
+    public readonly savedPlaces: SavedPlaceRepository;
+    public readonly itineraries: ItineraryRepository;
+    public readonly overlays: MapOverlayRepository;
+
+    constructor(private context: vscode.ExtensionContext) {
+        this.places = new PlaceRepository(this);
+        this.searches = new SearchRepository(this);
+        this.routes = new RouteRepository(this);
+        this.userData = new UserDataRepository(this);
+        this.regionDownloads = new RegionDownloadRepository(this);
+        this.gazetteer = new GazetteerRepository(this);
+        this.roadNetwork = new RoadNetworkRepository(this);
+        this.guides = new GuideRepository(this);
+        this.savedPlaces = new SavedPlaceRepository(this);
+        this.itineraries = new ItineraryRepository(this);
+        this.overlays = new MapOverlayRepository(this);
+    }
+
+    public initialize(): Promise<void> {
+        // Repositories may be used before activation finishes, so every query waits on the same open
+        // A failed open is forgotten, so the next query tries again rather than failing the same way
+        if (!this.ready) {
+            this.ready = this.open().catch(error => {
+                this.close();
+                this.ready = undefined;
+                throw error;
+            });
+        }
+        return this.ready;
+    }
+
+    private async open(): Promise<void> {
+        const storagePath = this.context.globalStorageUri.fsPath;
+        if (!fs.existsSync(storagePath)) {
+            fs.mkdirSync(storagePath, { recursive: true });
+        }
+
+        const dbPath = path.join(storagePath, 'travel-guide.db');
+        this.db = await new Promise<sqlite3.Database>((resolve, reject) => {
+            const db: sqlite3.Database = new sqlite3.Database(dbPath, error => error ? reject(error) : resolve(db));
+        });
+
+        await this.execRaw('PRAGMA journal_mode = WAL; PRAGMA foreign_keys = ON;');
+        await this.migrate();
+        console.log(`Database initialized at ${dbPath}`);
+    }
+
+    private async migrate(): Promise<void> {
+        const row = await this.getRaw<{ user_version: number }>('PRAGMA user_version');
+        const currentVersion = row ? row.user_version : 0;
+
+        for (const migration of migrations) {
+            if (migration.version <= currentVersion) {
+                continue;
+            }
+
+            await this.execRaw('BEGIN');
+            try {
+                await this.execRaw(migration.up);
+                // PRAGMA does not accept bound parameters
+                await this.execRaw(`PRAGMA user_version = ${migration.version}`);
+                await this.execRaw('COMMIT');
+                console.log(`Applied database migration ${migration.version}: ${migration.description}`);
+            } catch (error) {
+                await this.execRaw('ROLLBACK');
+                throw error;
+            }
+        }
+    }
+
+    public async run(sql: string, params: SqlParams = []): Promise<{ lastID: number; changes: number }> {
+        const db = await this.connection();
+        return new Promise((resolve, reject) => {
+            db.run(sql, params, function (error) {
+                if (error) {
+                    reject(error);
+                } else {
+                    resolve({ lastID: this.lastID, changes: this.changes });
+                }
+            });
+        });
+    }
+
+    public async get<T>(sql: string, params: SqlParams = []): Promise<T | undefined> {
+        await this.connection();
+        return this.getRaw<T>(sql, params);
+    }
+
+    public async all<T>(sql: string, params: SqlParams = []): Promise<T[]> {
+        const db = await this.connection();
+        return new Promise((resolve, reject) => {
+            db.all(sql, params, (error, rows) => error ? reject(error) : resolve(rows as T[]));
+        });
+    }
+
+    // Runs one prepared statement for many rows inside a single transaction; used by bulk imports
+    public async runBatch(sql: string, rows: SqlParams[]): Promise<void> {
+        if (rows.length === 0) {
+            return;
+        }
+
+        await this.transaction(async () => {
+            const db = await this.connection();
+            await new Promise<void>((resolve, reject) => {
+                let firstError: Error | null = null;
+                const statement = db.prepare(sql, error => {
+                    firstError = firstError || error;
+                });
+                for (const row of rows) {
+                    statement.run(row, (error: Error | null) => {
+                        firstError = firstError || error;
+                    });
+                }
+                statement.finalize(error => {
+                    const failure = firstError || error;
+                    if (failure) {
+                        reject(failure);
+                    } else {
+                        resolve();
+                    }
+                });
+            });
+        });
+    }
+
+    public async exec(sql: string): Promise<void> {
+        await this.connection();
+        return this.execRaw(sql);
+    }
+
+    // sqlite3 shares one connection, so transactions are serialized. A transaction started from inside
+    // another one (runBatch in a repository's transaction, say) joins the open one instead of waiting for it.
+    public transaction<T>(work: () => Promise<T>): Promise<T> {
+        if (this.transactionScope.getStore()) {
+            return work();
+        }
+
+        const result = this.transactionQueue.then(() => this.transactionScope.run(true, async () => {
+            await this.exec('BEGIN');
+            try {
+                const value = await work();
+                await this.exec('COMMIT');
+                return value;
+            } catch (error) {
+                await this.exec('ROLLBACK');
+                throw error;
+            }
+        }));
+        this.transactionQueue = result.catch(() => undefined);
+        return result;
+    }
+
+    private async connection(): Promise<sqlite3.Database> {
+        await this.initialize();
+        // Statements from outside wait for open transactions, so they are neither part of one nor rolled back with it
+        if (!this.transactionScope.getStore()) {
+            await this.transactionQueue;
+        }
+        if (!this.db) {
+            throw new Error('Database is closed');
+        }
+        return this.db;
+    }
+
+    private getRaw<T>(sql: string, params: SqlParams = []): Promise<T | undefined> {
+        return new Promise((resolve, reject) => {
+            this.db!.get(sql, params, (error, row) => error ? reject(error) : resolve(row as T | undefined));
+        });
+    }
 
-    public async initialize(): Promise<void> {
-        // Simple initialization for now
-        console.log('Database initialized');
+    private execRaw(sql: string): Promise<void> {
+        return new Promise((resolve, reject) => {
+            this.db!.exec(sql, error => error ? reject(error) : resolve());
+        });
     }
 
     public close(): void {
-        // Cleanup if needed
+        if (this.db) {
+            this.db.close(error => {
+                if (error) {
+                    console.error('Failed to close database:', error);
+                }
+            });
+            this.db = undefined;
+        }
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,356 @@
+export interface Migration {
+    version: number;
+    description: string;
+    up: string;
+}
+
+// Applied in order and tracked with PRAGMA user_version; never edit a migration that has shipped
+export const migrations: Migration[] = [
+    {
+        version: 1,
+        description: 'places, searches, routes and user data',
+        up: `
+            CREATE TABLE places (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                place_key TEXT NOT NULL UNIQUE,
+                name TEXT NOT NULL,
+                lat REAL NOT NULL,
+                lng REAL NOT NULL,
+                type TEXT NOT NULL,
+                category TEXT,
+                address TEXT,
+                description TEXT,
+                rating REAL,
+                source TEXT NOT NULL,
+                updated_at INTEGER NOT NULL
+            );
+            CREATE INDEX idx_places_lat_lng ON places (lat, lng);
+            CREATE INDEX idx_places_category ON places (category);
+
+            CREATE TABLE searches (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                query TEXT NOT NULL,
+                normalized_query TEXT NOT NULL,
+                result_count INTEGER NOT NULL,
+                searched_at INTEGER NOT NULL
+            );
+            CREATE INDEX idx_searches_normalized_query ON searches (normalized_query);
+
+            CREATE TABLE routes (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                start_lat REAL NOT NULL,
+                start_lng REAL NOT NULL,
+                end_lat REAL NOT NULL,
+                end_lng REAL NOT NULL,
+                mode TEXT NOT NULL,
+                distance_m REAL NOT NULL,
+                duration_s REAL NOT NULL,
+                geometry TEXT NOT NULL,
+                created_at INTEGER NOT NULL
+            );
+            CREATE INDEX idx_routes_endpoints ON routes (start_lat, start_lng, end_lat, end_lng, mode);
+
+            CREATE TABLE user_data (
+                key TEXT PRIMARY KEY,
+                value TEXT NOT NULL,
+                updated_at INTEGER NOT NULL
+            );
+        `
+    },
+    {
+        version: 2,
+        description: 'offline region downloads',
+        up: `
+            CREATE TABLE region_downloads (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                name TEXT NOT NULL,
+                south REAL NOT NULL,
+                west REAL NOT NULL,
+                north REAL NOT NULL,
+                east REAL NOT NULL,
+                min_zoom INTEGER NOT NULL,
+                max_zoom INTEGER NOT NULL,
+                phase TEXT NOT NULL,
+                status TEXT NOT NULL,
+                tiles_total INTEGER NOT NULL,
+                tiles_done INTEGER NOT NULL DEFAULT 0,
+                tiles_failed INTEGER NOT NULL DEFAULT 0,
+                created_at INTEGER NOT NULL,
+                updated_at INTEGER NOT NULL
+            );
+        `
+    },
+    {
+        version: 3,
+        description: 'gazetteer with full-text indexes',
+        up: `
+            CREATE TABLE gazetteer (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                source TEXT NOT NULL,
+                source_id TEXT NOT NULL,
+                name TEXT NOT NULL,
+                ascii_name TEXT,
+                alternate_names TEXT,
+                lat REAL NOT NULL,
+                lng REAL NOT NULL,
+                place_type TEXT NOT NULL,
+                feature_code TEXT,
+                country_code TEXT,
+                admin1 TEXT,
+                admin2 TEXT,
+                population INTEGER NOT NULL DEFAULT 0,
+                UNIQUE (source, source_id)
+            );
+            CREATE INDEX idx_gazetteer_lat_lng ON gazetteer (lat, lng);
+
+            -- External-content indexes, rebuilt after each import instead of kept in sync by triggers
+            CREATE VIRTUAL TABLE gazetteer_fts USING fts5 (
+                name, ascii_name, alternate_names,
+                content = 'gazetteer', content_rowid = 'id',
+                tokenize = 'unicode61 remove_diacritics 2'
+            );
+            CREATE VIRTUAL TABLE gazetteer_trigram USING fts5 (
+                ascii_name, alternate_names,
+                content = 'gazetteer', content_rowid = 'id',
+                tokenize = 'trigram'
+            );
+        `
+    },
+    {
+        version: 4,
+        description: 'road network for offline routing',
+        up: `
+            -- Only junctions and way ends become nodes; the points between them live in segment geometry
+            CREATE TABLE road_nodes (
+                id INTEGER PRIMARY KEY,
+                lat REAL NOT NULL,
+                lng REAL NOT NULL
+            );
+            CREATE TABLE road_segments (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                way_id INTEGER NOT NULL,
+                from_node INTEGER NOT NULL,
+                to_node INTEGER NOT NULL,
+                name TEXT,
+                highway TEXT NOT NULL,
+                distance_m REAL NOT NULL,
+                geometry TEXT NOT NULL,
+                UNIQUE (way_id, from_node, to_node)
+            );
+            -- One row per direction a travel mode may use a segment in
+            CREATE TABLE road_edges (
+                segment_id INTEGER NOT NULL REFERENCES road_segments (id) ON DELETE CASCADE,
+                mode TEXT NOT NULL,
+                reversed INTEGER NOT NULL,
+                duration_s REAL NOT NULL,
+                PRIMARY KEY (segment_id, mode, reversed)
+            ) WITHOUT ROWID;
+            CREATE INDEX idx_road_edges_mode ON road_edges (mode);
+        `
+    },
+    {
+        version: 5,
+        description: 'turn-by-turn steps on stored routes',
+        up: `
+            ALTER TABLE routes ADD COLUMN steps TEXT;
+        `
+    },
+    {
+        version: 6,
+        description: 'destination guide packs',
+        up: `
+            -- Sections and sights are stored as the validated JSON document; packs are few and read whole
+            CREATE TABLE guide_packs (
+                id TEXT PRIMARY KEY,
+                version INTEGER NOT NULL,
+                name TEXT NOT NULL,
+                region TEXT,
+                lat REAL NOT NULL,
+                lng REAL NOT NULL,
+                radius_km REAL NOT NULL,
+                content TEXT NOT NULL,
+                source TEXT NOT NULL,
+                installed_at INTEGER NOT NULL
+            );
+            CREATE INDEX idx_guide_packs_lat ON guide_packs (lat);
+        `
+    },
+    {
+        version: 7,
+        description: 'personal notes on guide packs',
+        up: `
+            -- Not tied to an installed pack, so notes survive removing or reinstalling a guide
+            CREATE TABLE guide_notes (
+                guide_id TEXT PRIMARY KEY,
+                text TEXT NOT NULL,
+                updated_at INTEGER NOT NULL
+            );
+        `
+    },
+    {
+        version: 8,
+        description: 'full-text index over guide packs',
+        up: `
+            -- One row per section or sight; GuideRepository.save keeps it in step with guide_packs
+            CREATE VIRTUAL TABLE guide_search USING fts5 (
+                guide_id UNINDEXED, section UNINDEXED, sight_index UNINDEXED,
+                guide_name, heading, body,
+                tokenize = 'unicode61 remove_diacritics 2'
+            );
+
+            INSERT INTO guide_search (guide_id, section, sight_index, guide_name, heading, body)
+            SELECT p.id, s.key, NULL, TRIM(p.name || ' ' || COALESCE(p.region, '')),
+                   CASE s.key
+                       WHEN 'overview' THEN 'Overview'
+                       WHEN 'history' THEN 'History'
+                       WHEN 'bestSeason' THEN 'Best season'
+                       WHEN 'food' THEN 'Local food'
+                       WHEN 'etiquette' THEN 'Etiquette'
+                       WHEN 'tips' THEN 'Tips'
+                       ELSE s.key
+                   END,
+                   s.value
+            FROM guide_packs p, json_each(p.content, '$.sections') s;
+
+            INSERT INTO guide_search (guide_id, section, sight_index, guide_name, heading, body)
+            SELECT p.id, 'sights', s.key, TRIM(p.name || ' ' || COALESCE(p.region, '')),
+                   json_extract(s.value, '$.name'),
+                   TRIM(COALESCE(json_extract(s.value, '$.description'), '') || char(10) ||
+                        COALESCE(json_extract(s.value, '$.entryFee'), '') || char(10) ||
+                        COALESCE(json_extract(s.value, '$.timings'), ''), char(10))
+            FROM guide_packs p, json_each(p.content, '$.sights') s;
+        `
+    },
+    {
+        version: 9,
+        description: 'saved places in user-named lists',
+        up: `
+            CREATE TABLE saved_lists (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+                created_at INTEGER NOT NULL
+            );
+
+            -- A copy of the place rather than a reference into places, which is a cache that may be cleared
+            CREATE TABLE saved_places (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                list_id INTEGER NOT NULL REFERENCES saved_lists (id) ON DELETE CASCADE,
+                name TEXT NOT NULL,
+                lat REAL NOT NULL,
+                lng REAL NOT NULL,
+                type TEXT NOT NULL,
+                category TEXT,
+                address TEXT,
+                description TEXT,
+                notes TEXT,
+                tags TEXT NOT NULL DEFAULT '[]',
+                created_at INTEGER NOT NULL,
+                updated_at INTEGER NOT NULL
+            );
+            CREATE INDEX idx_saved_places_list ON saved_places (list_id);
+        `
+    },
+    {
+        version: 10,
+        description: 'multi-day itineraries',
+        up: `
+            -- Days and stops are edited together and always loaded whole, so they are kept as one JSON document
+            CREATE TABLE itineraries (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                name TEXT NOT NULL,
+                plan TEXT NOT NULL,
+                created_at INTEGER NOT NULL,
+                updated_at INTEGER NOT NULL
+            );
+        `
+    },
+    {
+        version: 11,
+        description: 'imported map overlays',
+        up: `
+            -- Features are stored as parsed GeoJSON so the map redraws them without the original file
+            CREATE TABLE map_overlays (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                name TEXT NOT NULL,
+                format TEXT NOT NULL,
+                file_name TEXT NOT NULL,
+                description TEXT,
+                color TEXT NOT NULL,
+                visible INTEGER NOT NULL DEFAULT 1,
+                length_meters REAL NOT NULL DEFAULT 0,
+                waypoint_count INTEGER NOT NULL DEFAULT 0,
+                track_count INTEGER NOT NULL DEFAULT 0,
+                features TEXT NOT NULL,
+                created_at INTEGER NOT NULL
+            );
+        `
+    },
+    {
+        version: 12,
+        description: 'deduplicated search history with pins',
+        up: `
+            -- One row per distinct query; place is the result picked last time, as JSON
+            CREATE TABLE search_history (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                query TEXT NOT NULL,
+                normalized_query TEXT NOT NULL UNIQUE,
+                result_count INTEGER NOT NULL,
+                use_count INTEGER NOT NULL DEFAULT 1,
+                pinned INTEGER NOT NULL DEFAULT 0,
+                place TEXT,
+                first_searched_at INTEGER NOT NULL,
+                last_searched_at INTEGER NOT NULL
+            );
+
+            INSERT INTO search_history (query, normalized_query, result_count, use_count, first_searched_at, last_searched_at)
+                SELECT
+                    (SELECT latest.query FROM searches latest
+                     WHERE latest.normalized_query = searches.normalized_query
+                     ORDER BY latest.searched_at DESC LIMIT 1),
+                    normalized_query, MAX(result_count), COUNT(*), MIN(searched_at), MAX(searched_at)
+                FROM searches
+                GROUP BY normalized_query;
+
+            DROP TABLE searches;
+        `
+    },
+    {
+        version: 13,
+        description: 'toll roads in the offline road network',
+        up: `
+            -- Segments imported before this are taken as toll free until their extract is imported again
+            ALTER TABLE road_segments ADD COLUMN toll INTEGER NOT NULL DEFAULT 0;
+        `
+    },
+    {
+        version: 14,
+        description: 'resumable place downloads for offline regions',
+        up: `
+            -- Overpass cells of the places or POIs phase already stored
+            ALTER TABLE region_downloads ADD COLUMN cells_done INTEGER NOT NULL DEFAULT 0;
+        `
+    },
+    {
+        version: 15,
+        description: 'one stored route per trip',
+        up: `
+            -- Endpoints are kept to four decimals (about 10 m), and only the latest route between them
+            UPDATE routes SET
+                start_lat = ROUND(start_lat, 4), start_lng = ROUND(start_lng, 4),
+                end_lat = ROUND(end_lat, 4), end_lng = ROUND(end_lng, 4);
+            DELETE FROM routes WHERE id NOT IN (
+                SELECT MAX(id) FROM routes GROUP BY start_lat, start_lng, end_lat, end_lng, mode
+            );
+            DROP INDEX idx_routes_endpoints;
+            CREATE UNIQUE INDEX idx_routes_endpoints ON routes (start_lat, start_lng, end_lat, end_lng, mode);
+        `
+    },
+    {
+        version: 16,
+        description: 'no stored Google Maps results',
+        up: `
+            -- Google's terms do not allow keeping its results; routes record no provider, so only places can be told apart
+            DELETE FROM places WHERE source = 'google';
+        `
+    }
+];
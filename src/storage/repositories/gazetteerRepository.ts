@@ -0,0 +1,171 @@
+import { DatabaseManager } from '../database';
+
+export interface GazetteerEntry {
+    source: string;
+    sourceId: string;
+    name: string;
+    asciiName?: string;
+    alternateNames?: string;
+    lat: number;
+    lng: number;
+    placeType: string;
+    featureCode?: string;
+    countryCode?: string;
+    admin1?: string;
+    admin2?: string;
+    population: number;
+}
+
+export interface GazetteerMatch extends GazetteerEntry {
+    id: number;
+    textRank: number;
+}
+
+interface GazetteerRow {
+    id: number;
+    source: string;
+    source_id: string;
+    name: string;
+    ascii_name: string | null;
+    alternate_names: string | null;
+    lat: number;
+    lng: number;
+    place_type: string;
+    feature_code: string | null;
+    country_code: string | null;
+    admin1: string | null;
+    admin2: string | null;
+    population: number;
+    text_rank: number | null;
+}
+
+export class GazetteerRepository {
+    constructor(private db: DatabaseManager) {}
+
+    public async insertMany(entries: GazetteerEntry[]): Promise<void> {
+        await this.db.runBatch(
+            `INSERT INTO gazetteer (source, source_id, name, ascii_name, alternate_names, lat, lng, place_type,
+                                    feature_code, country_code, admin1, admin2, population)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+             ON CONFLICT (source, source_id) DO UPDATE SET
+                name = excluded.name,
+                ascii_name = excluded.ascii_name,
+                alternate_names = excluded.alternate_names,
+                lat = excluded.lat,
+                lng = excluded.lng,
+                place_type = excluded.place_type,
+                feature_code = excluded.feature_code,
+                country_code = excluded.country_code,
+                admin1 = excluded.admin1,
+                admin2 = excluded.admin2,
+                population = excluded.population`,
+            entries.map(entry => [
+                entry.source, entry.sourceId, entry.name, entry.asciiName ?? null, entry.alternateNames ?? null,
+                entry.lat, entry.lng, entry.placeType, entry.featureCode ?? null, entry.countryCode ?? null,
+                entry.admin1 ?? null, entry.admin2 ?? null, entry.population
+            ])
+        );
+    }
+
+    public async rebuildIndexes(): Promise<void> {
+        await this.db.exec(`
+            INSERT INTO gazetteer_fts (gazetteer_fts) VALUES ('rebuild');
+            INSERT INTO gazetteer_trigram (gazetteer_trigram) VALUES ('rebuild');
+        `);
+    }
+
+    // Name matches weigh most, then the ASCII spelling, then alternate names
+    public async searchText(ftsQuery: string, limit: number): Promise<GazetteerMatch[]> {
+        const rows = await this.db.all<GazetteerRow>(
+            `SELECT g.*, bm25(gazetteer_fts, 10.0, 5.0, 1.0) AS text_rank
+             FROM gazetteer_fts
+             JOIN gazetteer g ON g.id = gazetteer_fts.rowid
+             WHERE gazetteer_fts MATCH ?
+             ORDER BY text_rank
+             LIMIT ?`,
+            [ftsQuery, limit]
+        );
+        return rows.map(row => this.toMatch(row));
+    }
+
+    public async searchTrigrams(ftsQuery: string, limit: number): Promise<GazetteerMatch[]> {
+        const rows = await this.db.all<GazetteerRow>(
+            `SELECT g.*, bm25(gazetteer_trigram) AS text_rank
+             FROM gazetteer_trigram
+             JOIN gazetteer g ON g.id = gazetteer_trigram.rowid
+             WHERE gazetteer_trigram MATCH ?
+             ORDER BY text_rank
+             LIMIT ?`,
+            [ftsQuery, limit]
+        );
+        return rows.map(row => this.toMatch(row));
+    }
+
+    public async findNear(lat: number, lng: number, radiusKm: number, limit: number = 20): Promise<GazetteerMatch[]> {
+        const latDelta = radiusKm / 111;
+        const lngScale = Math.cos(lat * Math.PI / 180);
+        const lngDelta = radiusKm / (111 * Math.max(lngScale, 0.01));
+
+        const rows = await this.db.all<GazetteerRow>(
+            `SELECT *, NULL AS text_rank FROM gazetteer
+             WHERE lat BETWEEN ? AND ? AND lng BETWEEN ? AND ?
+             ORDER BY (lat - ?) * (lat - ?) + (lng - ?) * (lng - ?) * ?
+             LIMIT ?`,
+            [
+                lat - latDelta, lat + latDelta, lng - lngDelta, lng + lngDelta,
+                lat, lat, lng, lng, lngScale * lngScale,
+                limit
+            ]
+        );
+        return rows.map(row => this.toMatch(row));
+    }
+
+    // States (first-level divisions) that have at least one of the given kinds of place
+    public async findStates(placeTypes: string[]): Promise<{ name: string; placeCount: number }[]> {
+        const rows = await this.db.all<{ name: string; place_count: number }>(
+            `SELECT admin1 AS name, COUNT(*) AS place_count FROM gazetteer
+             WHERE admin1 IS NOT NULL AND place_type IN (${placeTypes.map(() => '?').join(', ')})
+             GROUP BY admin1
+             ORDER BY admin1`,
+            placeTypes
+        );
+        return rows.map(row => ({ name: row.name, placeCount: row.place_count }));
+    }
+
+    // Largest first, so the places people look for come before the long tail
+    public async findInState(state: string, placeTypes: string[], limit: number): Promise<GazetteerMatch[]> {
+        const rows = await this.db.all<GazetteerRow>(
+            `SELECT *, NULL AS text_rank FROM gazetteer
+             WHERE admin1 = ? AND place_type IN (${placeTypes.map(() => '?').join(', ')})
+             ORDER BY population DESC, name
+             LIMIT ?`,
+            [state, ...placeTypes, limit]
+        );
+        return rows.map(row => this.toMatch(row));
+    }
+
+    public async count(): Promise<number> {
+        const row = await this.db.get<{ total: number }>('SELECT COUNT(*) AS total FROM gazetteer');
+        return row ? row.total : 0;
+    }
+
+    private toMatch(row: GazetteerRow): GazetteerMatch {
+        return {
+            id: row.id,
+            source: row.source,
+            sourceId: row.source_id,
+            name: row.name,
+            asciiName: row.ascii_name ?? undefined,
+            alternateNames: row.alternate_names ?? undefined,
+            lat: row.lat,
+            lng: row.lng,
+            placeType: row.place_type,
+            featureCode: row.feature_code ?? undefined,
+            countryCode: row.country_code ?? undefined,
+            admin1: row.admin1 ?? undefined,
+            admin2: row.admin2 ?? undefined,
+            population: row.population,
+            textRank: row.text_rank ?? 0
+        };
+    }
+}
@@ -0,0 +1,208 @@
+import { DatabaseManager } from '../database';
+import { GUIDE_SECTION_TITLES, GuidePack, GuideSections, GuideSight } from '../../guide/guidePack';
+
+// Where an installed pack came from: shipped with the extension, added from a pack file or from a shared archive
+export type GuidePackSource = 'bundled' | 'file' | 'archive';
+
+export interface StoredGuidePack extends GuidePack {
+    source: GuidePackSource;
+    installedAt: number;
+}
+
+export interface GuideNote {
+    guideId: string;
+    text: string;
+    updatedAt: number;
+}
+
+// Which part of a guide a search hit is in: a section, or one sight by its position in the pack
+export type GuideSearchSection = keyof GuideSections | 'sights';
+
+export interface GuideSearchMatch {
+    guideId: string;
+    guideName: string;
+    region?: string;
+    section: GuideSearchSection;
+    sightIndex?: number;
+    heading: string;
+    snippet: string;
+    rank: number;
+}
+
+interface GuideSearchRow {
+    guide_id: string;
+    name: string;
+    region: string | null;
+    section: GuideSearchSection;
+    sight_index: number | null;
+    heading: string;
+    snippet: string;
+    rank: number;
+}
+
+interface GuidePackRow {
+    id: string;
+    version: number;
+    name: string;
+    region: string | null;
+    lat: number;
+    lng: number;
+    radius_km: number;
+    content: string;
+    source: GuidePackSource;
+    installed_at: number;
+}
+
+export class GuideRepository {
+    constructor(private db: DatabaseManager) {}
+
+    public async save(pack: GuidePack, source: GuidePackSource): Promise<void> {
+        await this.db.transaction(async () => {
+            await this.upsert(pack, source);
+            await this.index(pack);
+        });
+    }
+
+    public async findById(id: string): Promise<StoredGuidePack | undefined> {
+        const row = await this.db.get<GuidePackRow>('SELECT * FROM guide_packs WHERE id = ?', [id]);
+        return row ? this.toPack(row) : undefined;
+    }
+
+    public async findAll(): Promise<StoredGuidePack[]> {
+        const rows = await this.db.all<GuidePackRow>('SELECT * FROM guide_packs ORDER BY name COLLATE NOCASE');
+        return rows.map(row => this.toPack(row));
+    }
+
+    // Packs whose area contains the point, closest centre first
+    public async findCovering(lat: number, lng: number): Promise<StoredGuidePack[]> {
+        const lngScale = Math.cos(lat * Math.PI / 180);
+        const rows = await this.db.all<GuidePackRow>(
+            `SELECT * FROM guide_packs
+             WHERE ABS(lat - ?) * 111 <= radius_km AND ABS(lng - ?) * 111 * ? <= radius_km
+             ORDER BY (lat - ?) * (lat - ?) + (lng - ?) * (lng - ?) * ?`,
+            [lat, lng, lngScale, lat, lat, lng, lng, lngScale * lngScale]
+        );
+        return rows.map(row => this.toPack(row));
+    }
+
+    public async versions(): Promise<Map<string, number>> {
+        const rows = await this.db.all<{ id: string; version: number }>('SELECT id, version FROM guide_packs');
+        return new Map(rows.map(row => [row.id, row.version]));
+    }
+
+    public async delete(id: string): Promise<void> {
+        await this.db.transaction(async () => {
+            await this.db.run('DELETE FROM guide_search WHERE guide_id = ?', [id]);
+            await this.db.run('DELETE FROM guide_packs WHERE id = ?', [id]);
+        });
+    }
+
+    // Headings weigh most, then the destination name, then the text itself
+    public async search(ftsQuery: string, limit: number): Promise<GuideSearchMatch[]> {
+        const rows = await this.db.all<GuideSearchRow>(
+            `SELECT s.guide_id, p.name, p.region, s.section, s.sight_index, s.heading,
+                    snippet(guide_search, 5, '', '', '…', 16) AS snippet,
+                    bm25(guide_search, 0, 0, 0, 4.0, 8.0, 1.0) AS rank
+             FROM guide_search s
+             JOIN guide_packs p ON p.id = s.guide_id
+             WHERE guide_search MATCH ?
+             ORDER BY rank
+             LIMIT ?`,
+            [ftsQuery, limit]
+        );
+        return rows.map(row => ({
+            guideId: row.guide_id,
+            guideName: row.name,
+            region: row.region ?? undefined,
+            section: row.section,
+            sightIndex: row.sight_index ?? undefined,
+            heading: row.heading,
+            snippet: row.snippet,
+            rank: row.rank
+        }));
+    }
+
+    public async findNote(guideId: string): Promise<GuideNote | undefined> {
+        const row = await this.db.get<{ guide_id: string; text: string; updated_at: number }>(
+            'SELECT * FROM guide_notes WHERE guide_id = ?', [guideId]
+        );
+        return row ? { guideId: row.guide_id, text: row.text, updatedAt: row.updated_at } : undefined;
+    }
+
+    public async findNotes(): Promise<GuideNote[]> {
+        const rows = await this.db.all<{ guide_id: string; text: string; updated_at: number }>('SELECT * FROM guide_notes');
+        return rows.map(row => ({ guideId: row.guide_id, text: row.text, updatedAt: row.updated_at }));
+    }
+
+    // An empty note is removed rather than stored
+    public async saveNote(guideId: string, text: string, updatedAt: number = Date.now()): Promise<void> {
+        if (!text.trim()) {
+            await this.db.run('DELETE FROM guide_notes WHERE guide_id = ?', [guideId]);
+            return;
+        }
+        await this.db.run(
+            `INSERT INTO guide_notes (guide_id, text, updated_at) VALUES (?, ?, ?)
+             ON CONFLICT (guide_id) DO UPDATE SET text = excluded.text, updated_at = excluded.updated_at`,
+            [guideId, text, updatedAt]
+        );
+    }
+
+    private async upsert(pack: GuidePack, source: GuidePackSource): Promise<void> {
+        await this.db.run(
+            `INSERT INTO guide_packs (id, version, name, region, lat, lng, radius_km, content, source, installed_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+             ON CONFLICT (id) DO UPDATE SET
+                version = excluded.version,
+                name = excluded.name,
+                region = excluded.region,
+                lat = excluded.lat,
+                lng = excluded.lng,
+                radius_km = excluded.radius_km,
+                content = excluded.content,
+                source = excluded.source,
+                installed_at = excluded.installed_at`,
+            [
+                pack.id, pack.version, pack.name, pack.region ?? null, pack.lat, pack.lng, pack.radiusKm,
+                JSON.stringify({ sections: pack.sections, sights: pack.sights }), source, Date.now()
+            ]
+        );
+    }
+
+    // Mirrors the backfill in migration 8
+    private async index(pack: GuidePack): Promise<void> {
+        await this.db.run('DELETE FROM guide_search WHERE guide_id = ?', [pack.id]);
+        const guideName = [pack.name, pack.region].filter(Boolean).join(' ');
+        const rows: [GuideSearchSection, number | null, string, string][] = [
+            ...(Object.keys(pack.sections) as (keyof GuideSections)[])
+                .filter(key => pack.sections[key])
+                .map((key): [GuideSearchSection, null, string, string] => [key, null, GUIDE_SECTION_TITLES[key], pack.sections[key]!]),
+            ...pack.sights.map((sight, index): [GuideSearchSection, number, string, string] => [
+                'sights', index, sight.name, [sight.description, sight.entryFee, sight.timings].filter(Boolean).join('\n')
+            ])
+        ];
+        for (const [section, sightIndex, heading, body] of rows) {
+            await this.db.run(
+                `INSERT INTO guide_search (guide_id, section, sight_index, guide_name, heading, body)
+                 VALUES (?, ?, ?, ?, ?, ?)`,
+                [pack.id, section, sightIndex, guideName, heading, body]
+            );
+        }
+    }
+
+    private toPack(row: GuidePackRow): StoredGuidePack {
+        const content: { sections: GuideSections; sights: GuideSight[] } = JSON.parse(row.content);
+        return {
+            id: row.id,
+            version: row.version,
+            name: row.name,
+            region: row.region ?? undefined,
+            lat: row.lat,
+            lng: row.lng,
+            radiusKm: row.radius_km,
+            sections: content.sections,
+            sights: content.sights,
+            source: row.source,
+            installedAt: row.installed_at
+        };
+    }
+}
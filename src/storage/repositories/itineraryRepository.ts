@@ -0,0 +1,60 @@
+import { DatabaseManager } from '../database';
+import { Itinerary, ItineraryPlan } from '../../itinerary/itinerary';
+
+interface ItineraryRow {
+    id: number;
+    name: string;
+    plan: string;
+    created_at: number;
+    updated_at: number;
+}
+
+export class ItineraryRepository {
+    constructor(private db: DatabaseManager) {}
+
+    // Most recently edited first, which is usually the trip being planned
+    public async findAll(): Promise<Itinerary[]> {
+        const rows = await this.db.all<ItineraryRow>('SELECT * FROM itineraries ORDER BY updated_at DESC');
+        return rows.map(row => this.toItinerary(row));
+    }
+
+    public async findById(id: number): Promise<Itinerary | undefined> {
+        const row = await this.db.get<ItineraryRow>('SELECT * FROM itineraries WHERE id = ?', [id]);
+        return row ? this.toItinerary(row) : undefined;
+    }
+
+    public async create(name: string, plan: ItineraryPlan): Promise<number> {
+        const now = Date.now();
+        const result = await this.db.run(
+            'INSERT INTO itineraries (name, plan, created_at, updated_at) VALUES (?, ?, ?, ?)',
+            [name, JSON.stringify(this.toPlan(plan)), now, now]
+        );
+        return result.lastID;
+    }
+
+    public async update(itinerary: Itinerary): Promise<void> {
+        await this.db.run(
+            'UPDATE itineraries SET name = ?, plan = ?, updated_at = ? WHERE id = ?',
+            [itinerary.name, JSON.stringify(this.toPlan(itinerary)), Date.now(), itinerary.id]
+        );
+    }
+
+    public async delete(id: number): Promise<void> {
+        await this.db.run('DELETE FROM itineraries WHERE id = ?', [id]);
+    }
+
+    private toPlan(plan: ItineraryPlan): ItineraryPlan {
+        return { mode: plan.mode, dayStart: plan.dayStart, dayHours: plan.dayHours, days: plan.days };
+    }
+
+    private toItinerary(row: ItineraryRow): Itinerary {
+        const plan: ItineraryPlan = JSON.parse(row.plan);
+        return {
+            ...plan,
+            id: row.id,
+            name: row.name,
+            createdAt: row.created_at,
+            updatedAt: row.updated_at
+        };
+    }
+}
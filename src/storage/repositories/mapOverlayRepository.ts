@@ -0,0 +1,87 @@
+import { DatabaseManager } from '../database';
+import { OverlayFeature, OverlayFormat, ParsedOverlay } from '../../overlays/overlayFormats';
+
+export interface MapOverlay extends ParsedOverlay {
+    id: number;
+    fileName: string;
+    color: string;
+    visible: boolean;
+    createdAt: number;
+}
+
+interface MapOverlayRow {
+    id: number;
+    name: string;
+    format: OverlayFormat;
+    file_name: string;
+    description: string | null;
+    color: string;
+    visible: number;
+    length_meters: number;
+    waypoint_count: number;
+    track_count: number;
+    features: string;
+    created_at: number;
+}
+
+export class MapOverlayRepository {
+    constructor(private db: DatabaseManager) {}
+
+    // In import order, so later overlays draw on top of earlier ones
+    public async findAll(): Promise<MapOverlay[]> {
+        const rows = await this.db.all<MapOverlayRow>('SELECT * FROM map_overlays ORDER BY created_at, id');
+        return rows.map(row => this.toOverlay(row));
+    }
+
+    public async findById(id: number): Promise<MapOverlay | undefined> {
+        const row = await this.db.get<MapOverlayRow>('SELECT * FROM map_overlays WHERE id = ?', [id]);
+        return row ? this.toOverlay(row) : undefined;
+    }
+
+    public async add(overlay: ParsedOverlay, fileName: string, color: string): Promise<number> {
+        const result = await this.db.run(
+            `INSERT INTO map_overlays
+                (name, format, file_name, description, color, visible, length_meters, waypoint_count, track_count, features, created_at)
+             VALUES (?, ?, ?, ?, ?, 1, ?, ?, ?, ?, ?)`,
+            [
+                overlay.name,
+                overlay.format,
+                fileName,
+                overlay.description ?? null,
+                color,
+                overlay.lengthMeters,
+                overlay.waypointCount,
+                overlay.trackCount,
+                JSON.stringify(overlay.features),
+                Date.now()
+            ]
+        );
+        return result.lastID;
+    }
+
+    public async setVisible(id: number, visible: boolean): Promise<void> {
+        await this.db.run('UPDATE map_overlays SET visible = ? WHERE id = ?', [visible ? 1 : 0, id]);
+    }
+
+    public async delete(id: number): Promise<void> {
+        await this.db.run('DELETE FROM map_overlays WHERE id = ?', [id]);
+    }
+
+    private toOverlay(row: MapOverlayRow): MapOverlay {
+        const features: OverlayFeature[] = JSON.parse(row.features);
+        return {
+            id: row.id,
+            name: row.name,
+            format: row.format,
+            fileName: row.file_name,
+            description: row.description ?? undefined,
+            color: row.color,
+            visible: row.visible === 1,
+            lengthMeters: row.length_meters,
+            waypointCount: row.waypoint_count,
+            trackCount: row.track_count,
+            features,
+            createdAt: row.created_at
+        };
+    }
+}
@@ -0,0 +1,107 @@
+import { DatabaseManager, escapeLike } from '../database';
+import { Place } from '../../map/mapApiManager';
+
+interface PlaceRow {
+    id: number;
+    name: string;
+    lat: number;
+    lng: number;
+    type: string;
+    category: string | null;
+    address: string | null;
+    description: string | null;
+    rating: number | null;
+    source: string;
+}
+
+export class PlaceRepository {
+    constructor(private db: DatabaseManager) {}
+
+    public async upsertMany(places: Place[], source: string): Promise<void> {
+        if (places.length === 0) {
+            return;
+        }
+
+        const now = Date.now();
+        await this.db.transaction(async () => {
+            for (const place of places) {
+                await this.db.run(
+                    `INSERT INTO places (place_key, name, lat, lng, type, category, address, description, rating, source, updated_at)
+                     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+                     ON CONFLICT (place_key) DO UPDATE SET
+                        type = excluded.type,
+                        category = COALESCE(excluded.category, places.category),
+                        address = COALESCE(excluded.address, places.address),
+                        description = COALESCE(excluded.description, places.description),
+                        rating = COALESCE(excluded.rating, places.rating),
+                        source = excluded.source,
+                        updated_at = excluded.updated_at`,
+                    [
+                        this.placeKey(place), place.name, place.lat, place.lng, place.type,
+                        place.category ?? null, place.address ?? null, place.description ?? null,
+                        place.rating ?? null, source, now
+                    ]
+                );
+            }
+        });
+    }
+
+    public async search(query: string, limit: number = 8): Promise<Place[]> {
+        const term = escapeLike(query.toLowerCase().trim());
+        if (!term) {
+            return [];
+        }
+
+        const rows = await this.db.all<PlaceRow>(
+            `SELECT * FROM places
+             WHERE lower(name) LIKE ? ESCAPE '\\' OR lower(description) LIKE ? ESCAPE '\\'
+             ORDER BY CASE WHEN lower(name) LIKE ? ESCAPE '\\' THEN 0 ELSE 1 END, updated_at DESC
+             LIMIT ?`,
+            [`%${term}%`, `%${term}%`, `${term}%`, limit]
+        );
+        return rows.map(row => this.toPlace(row));
+    }
+
+    public async findNear(lat: number, lng: number, radiusKm: number, category?: string, limit: number = 50): Promise<Place[]> {
+        const latDelta = radiusKm / 111;
+        const lngScale = Math.cos(lat * Math.PI / 180);
+        const lngDelta = radiusKm / (111 * Math.max(lngScale, 0.01));
+
+        const rows = await this.db.all<PlaceRow>(
+            `SELECT * FROM places
+             WHERE lat BETWEEN ? AND ? AND lng BETWEEN ? AND ?
+               AND (? IS NULL OR category = ?)
+             ORDER BY (lat - ?) * (lat - ?) + (lng - ?) * (lng - ?) * ?
+             LIMIT ?`,
+            [
+                lat - latDelta, lat + latDelta, lng - lngDelta, lng + lngDelta,
+                category ?? null, category ?? null,
+                lat, lat, lng, lng, lngScale * lngScale,
+                limit
+            ]
+        );
+        return rows.map(row => this.toPlace(row));
+    }
+
+    public async count(): Promise<number> {
+        const row = await this.db.get<{ total: number }>('SELECT COUNT(*) AS total FROM places');
+        return row ? row.total : 0;
+    }
+
+    private placeKey(place: Place): string {
+        return `${place.name.toLowerCase()}@${place.lat.toFixed(4)},${place.lng.toFixed(4)}`;
+    }
+
+    private toPlace(row: PlaceRow): Place {
+        return {
+            name: row.name,
+            lat: row.lat,
+            lng: row.lng,
+            type: row.type,
+            category: row.category ?? undefined,
+            address: row.address ?? undefined,
+            description: row.description ?? undefined,
+            rating: row.rating ?? undefined
+        };
+    }
+}
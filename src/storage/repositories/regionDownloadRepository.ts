@@ -0,0 +1,109 @@
+import { DatabaseManager } from '../database';
+import { BoundingBox } from '../../map/tileMath';
+
+export type RegionDownloadPhase = 'tiles' | 'places' | 'pois' | 'done';
+export type RegionDownloadStatus = 'running' | 'paused' | 'completed' | 'failed';
+
+export interface RegionDownload {
+    id: number;
+    name: string;
+    bbox: BoundingBox;
+    minZoom: number;
+    maxZoom: number;
+    phase: RegionDownloadPhase;
+    status: RegionDownloadStatus;
+    tilesTotal: number;
+    tilesDone: number;
+    tilesFailed: number;
+    // Cells of the current places or POIs phase; starts again from 0 for each phase
+    cellsDone: number;
+    createdAt: number;
+    updatedAt: number;
+}
+
+interface RegionDownloadRow {
+    id: number;
+    name: string;
+    south: number;
+    west: number;
+    north: number;
+    east: number;
+    min_zoom: number;
+    max_zoom: number;
+    phase: RegionDownloadPhase;
+    status: RegionDownloadStatus;
+    tiles_total: number;
+    tiles_done: number;
+    tiles_failed: number;
+    cells_done: number;
+    created_at: number;
+    updated_at: number;
+}
+
+export class RegionDownloadRepository {
+    constructor(private db: DatabaseManager) {}
+
+    public async create(name: string, bbox: BoundingBox, minZoom: number, maxZoom: number, tilesTotal: number): Promise<RegionDownload> {
+        const now = Date.now();
+        const result = await this.db.run(
+            `INSERT INTO region_downloads (name, south, west, north, east, min_zoom, max_zoom, phase, status, tiles_total, created_at, updated_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, 'tiles', 'running', ?, ?, ?)`,
+            [name, bbox.south, bbox.west, bbox.north, bbox.east, minZoom, maxZoom, tilesTotal, now, now]
+        );
+        return (await this.findById(result.lastID))!;
+    }
+
+    public async findById(id: number): Promise<RegionDownload | undefined> {
+        const row = await this.db.get<RegionDownloadRow>('SELECT * FROM region_downloads WHERE id = ?', [id]);
+        return row ? this.toRegionDownload(row) : undefined;
+    }
+
+    public async findUnfinished(): Promise<RegionDownload[]> {
+        const rows = await this.db.all<RegionDownloadRow>(
+            `SELECT * FROM region_downloads WHERE status != 'completed' ORDER BY updated_at DESC`
+        );
+        return rows.map(row => this.toRegionDownload(row));
+    }
+
+    public async findCompleted(): Promise<RegionDownload[]> {
+        const rows = await this.db.all<RegionDownloadRow>(
+            `SELECT * FROM region_downloads WHERE status = 'completed' ORDER BY updated_at DESC`
+        );
+        return rows.map(row => this.toRegionDownload(row));
+    }
+
+    public async updateProgress(download: RegionDownload): Promise<void> {
+        await this.db.run(
+            `UPDATE region_downloads
+             SET phase = ?, status = ?, tiles_done = ?, tiles_failed = ?, cells_done = ?, updated_at = ?
+             WHERE id = ?`,
+            [download.phase, download.status, download.tilesDone, download.tilesFailed, download.cellsDone, Date.now(), download.id]
+        );
+    }
+
+    public async delete(id: number): Promise<void> {
+        await this.db.run('DELETE FROM region_downloads WHERE id = ?', [id]);
+    }
+
+    public async deleteAll(): Promise<void> {
+        await this.db.run('DELETE FROM region_downloads');
+    }
+
+    private toRegionDownload(row: RegionDownloadRow): RegionDownload {
+        return {
+            id: row.id,
+            name: row.name,
+            bbox: { south: row.south, west: row.west, north: row.north, east: row.east },
+            minZoom: row.min_zoom,
+            maxZoom: row.max_zoom,
+            phase: row.phase,
+            status: row.status,
+            tilesTotal: row.tiles_total,
+            tilesDone: row.tiles_done,
+            tilesFailed: row.tiles_failed,
+            cellsDone: row.cells_done,
+            createdAt: row.created_at,
+            updatedAt: row.updated_at
+        };
+    }
+}
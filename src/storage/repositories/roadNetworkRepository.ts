@@ -0,0 +1,142 @@
+import { DatabaseManager } from '../database';
+import { TravelMode } from '../../routing/travelProfiles';
+import { LngLat } from '../../routing/geometry';
+
+export interface RoadNode {
+    id: number;
+    lat: number;
+    lng: number;
+}
+
+export interface RoadSegment {
+    wayId: number;
+    fromNode: number;
+    toNode: number;
+    name?: string;
+    highway: string;
+    toll: boolean;
+    distanceMeters: number;
+    geometry: LngLat[];
+    edges: { mode: TravelMode; reversed: boolean; durationSeconds: number }[];
+}
+
+// A segment as one travel mode may traverse it, already pointing in the direction of travel
+export interface GraphEdge {
+    segmentId: number;
+    from: number;
+    to: number;
+    reversed: boolean;
+    name?: string;
+    highway: string;
+    toll: boolean;
+    distanceMeters: number;
+    durationSeconds: number;
+}
+
+interface GraphEdgeRow {
+    segment_id: number;
+    from_node: number;
+    to_node: number;
+    reversed: number;
+    name: string | null;
+    highway: string;
+    toll: number;
+    distance_m: number;
+    duration_s: number;
+}
+
+export class RoadNetworkRepository {
+    constructor(private db: DatabaseManager) {}
+
+    public async insertNodes(nodes: RoadNode[]): Promise<void> {
+        await this.db.runBatch(
+            'INSERT OR REPLACE INTO road_nodes (id, lat, lng) VALUES (?, ?, ?)',
+            nodes.map(node => [node.id, node.lat, node.lng])
+        );
+    }
+
+    // Re-importing an overlapping extract updates segments in place instead of duplicating them. Their edges
+    // are replaced, not merged, so a direction a way no longer allows (it became one-way, say) is dropped.
+    public async insertSegments(segments: RoadSegment[]): Promise<void> {
+        await this.db.transaction(() => this.writeSegments(segments));
+    }
+
+    private async writeSegments(segments: RoadSegment[]): Promise<void> {
+        await this.db.runBatch(
+            `INSERT INTO road_segments (way_id, from_node, to_node, name, highway, toll, distance_m, geometry)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+             ON CONFLICT (way_id, from_node, to_node) DO UPDATE SET
+                name = excluded.name,
+                highway = excluded.highway,
+                toll = excluded.toll,
+                distance_m = excluded.distance_m,
+                geometry = excluded.geometry`,
+            segments.map(segment => [
+                segment.wayId, segment.fromNode, segment.toNode, segment.name ?? null, segment.highway,
+                segment.toll ? 1 : 0, segment.distanceMeters, JSON.stringify(segment.geometry)
+            ])
+        );
+
+        await this.db.runBatch(
+            `DELETE FROM road_edges
+             WHERE segment_id = (SELECT id FROM road_segments WHERE way_id = ? AND from_node = ? AND to_node = ?)`,
+            segments.map(segment => [segment.wayId, segment.fromNode, segment.toNode])
+        );
+
+        const edgeRows = segments.flatMap(segment => segment.edges.map(edge => [
+            edge.mode, edge.reversed ? 1 : 0, edge.durationSeconds, segment.wayId, segment.fromNode, segment.toNode
+        ]));
+        await this.db.runBatch(
+            `INSERT OR REPLACE INTO road_edges (segment_id, mode, reversed, duration_s)
+             SELECT id, ?, ?, ? FROM road_segments WHERE way_id = ? AND from_node = ? AND to_node = ?`,
+            edgeRows
+        );
+    }
+
+    public async loadNodes(): Promise<RoadNode[]> {
+        return this.db.all<RoadNode>('SELECT id, lat, lng FROM road_nodes');
+    }
+
+    public async loadEdges(mode: TravelMode): Promise<GraphEdge[]> {
+        const rows = await this.db.all<GraphEdgeRow>(
+            `SELECT e.segment_id, e.reversed, e.duration_s, s.from_node, s.to_node, s.name, s.highway, s.toll, s.distance_m
+             FROM road_edges e
+             JOIN road_segments s ON s.id = e.segment_id
+             WHERE e.mode = ?`,
+            [mode]
+        );
+        return rows.map(row => ({
+            segmentId: row.segment_id,
+            from: row.reversed ? row.to_node : row.from_node,
+            to: row.reversed ? row.from_node : row.to_node,
+            reversed: row.reversed === 1,
+            name: row.name ?? undefined,
+            highway: row.highway,
+            toll: row.toll === 1,
+            distanceMeters: row.distance_m,
+            durationSeconds: row.duration_s
+        }));
+    }
+
+    // Geometry stays on disk until a route actually uses the segment
+    public async segmentGeometries(segmentIds: number[]): Promise<Map<number, LngLat[]>> {
+        const geometries = new Map<number, LngLat[]>();
+        // Stay well below SQLite's bound parameter limit
+        for (let i = 0; i < segmentIds.length; i += 500) {
+            const ids = segmentIds.slice(i, i + 500);
+            const rows = await this.db.all<{ id: number; geometry: string }>(
+                `SELECT id, geometry FROM road_segments WHERE id IN (${ids.map(() => '?').join(', ')})`,
+                ids
+            );
+            for (const row of rows) {
+                geometries.set(row.id, JSON.parse(row.geometry));
+            }
+        }
+        return geometries;
+    }
+
+    public async count(): Promise<number> {
+        const row = await this.db.get<{ total: number }>('SELECT COUNT(*) AS total FROM road_segments');
+        return row ? row.total : 0;
+    }
+}
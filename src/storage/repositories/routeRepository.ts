@@ -0,0 +1,97 @@
+import { DatabaseManager } from '../database';
+import { RouteStep } from '../../routing/routeSteps';
+
+export interface StoredRoute {
+    start: { lat: number; lng: number };
+    end: { lat: number; lng: number };
+    mode: string;
+    distanceMeters: number;
+    durationSeconds: number;
+    geometry: any;
+    steps: RouteStep[];
+    createdAt: number;
+}
+
+interface RouteRow {
+    start_lat: number;
+    start_lng: number;
+    end_lat: number;
+    end_lng: number;
+    mode: string;
+    distance_m: number;
+    duration_s: number;
+    geometry: string;
+    steps: string | null;
+    created_at: number;
+}
+
+// Four decimals is about 10 m; looking up the same trip again replaces its route rather than adding one
+const ENDPOINT_PRECISION = 1e4;
+
+export class RouteRepository {
+    constructor(private db: DatabaseManager) {}
+
+    public async save(route: Omit<StoredRoute, 'createdAt'>): Promise<void> {
+        await this.db.run(
+            `INSERT INTO routes (start_lat, start_lng, end_lat, end_lng, mode, distance_m, duration_s, geometry, steps, created_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+             ON CONFLICT (start_lat, start_lng, end_lat, end_lng, mode) DO UPDATE SET
+                distance_m = excluded.distance_m,
+                duration_s = excluded.duration_s,
+                geometry = excluded.geometry,
+                steps = excluded.steps,
+                created_at = excluded.created_at`,
+            [
+                roundCoordinate(route.start.lat), roundCoordinate(route.start.lng),
+                roundCoordinate(route.end.lat), roundCoordinate(route.end.lng), route.mode,
+                route.distanceMeters, route.durationSeconds, JSON.stringify(route.geometry), JSON.stringify(route.steps), Date.now()
+            ]
+        );
+    }
+
+    // Endpoints rarely match exactly, so anything within roughly 200 m counts as the same trip
+    public async findSimilar(
+        start: { lat: number; lng: number },
+        end: { lat: number; lng: number },
+        mode: string,
+        tolerance: number = 0.002
+    ): Promise<StoredRoute | undefined> {
+        const row = await this.db.get<RouteRow>(
+            `SELECT * FROM routes
+             WHERE mode = ?
+               AND start_lat BETWEEN ? AND ? AND start_lng BETWEEN ? AND ?
+               AND end_lat BETWEEN ? AND ? AND end_lng BETWEEN ? AND ?
+             ORDER BY created_at DESC
+             LIMIT 1`,
+            [
+                mode,
+                start.lat - tolerance, start.lat + tolerance, start.lng - tolerance, start.lng + tolerance,
+                end.lat - tolerance, end.lat + tolerance, end.lng - tolerance, end.lng + tolerance
+            ]
+        );
+        return row ? this.toRoute(row) : undefined;
+    }
+
+    public async recent(limit: number = 20): Promise<StoredRoute[]> {
+        const rows = await this.db.all<RouteRow>('SELECT * FROM routes ORDER BY created_at DESC LIMIT ?', [limit]);
+        return rows.map(row => this.toRoute(row));
+    }
+
+    private toRoute(row: RouteRow): StoredRoute {
+        return {
+            start: { lat: row.start_lat, lng: row.start_lng },
+            end: { lat: row.end_lat, lng: row.end_lng },
+            mode: row.mode,
+            distanceMeters: row.distance_m,
+            durationSeconds: row.duration_s,
+            geometry: JSON.parse(row.geometry),
+            // Routes stored before steps were recorded have none
+            steps: row.steps ? JSON.parse(row.steps) : [],
+            createdAt: row.created_at
+        };
+    }
+}
+
+function roundCoordinate(value: number): number {
+    return Math.round(value * ENDPOINT_PRECISION) / ENDPOINT_PRECISION;
+}
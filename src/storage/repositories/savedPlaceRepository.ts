@@ -0,0 +1,151 @@
+import { DatabaseManager } from '../database';
+import { Place } from '../../map/mapApiManager';
+
+export interface SavedList {
+    id: number;
+    name: string;
+    placeCount: number;
+}
+
+export interface SavedPlace extends Place {
+    id: number;
+    listId: number;
+    notes?: string;
+    tags: string[];
+    createdAt: number;
+}
+
+interface SavedPlaceRow {
+    id: number;
+    list_id: number;
+    name: string;
+    lat: number;
+    lng: number;
+    type: string;
+    category: string | null;
+    address: string | null;
+    description: string | null;
+    notes: string | null;
+    tags: string;
+    created_at: number;
+}
+
+// Places closer than this are taken as the same place when saving twice
+const SAME_PLACE_DEGREES = 0.0001;
+
+export class SavedPlaceRepository {
+    constructor(private db: DatabaseManager) {}
+
+    public async findLists(): Promise<SavedList[]> {
+        return this.db.all<SavedList>(
+            `SELECT l.id, l.name, COUNT(p.id) AS placeCount
+             FROM saved_lists l
+             LEFT JOIN saved_places p ON p.list_id = l.id
+             GROUP BY l.id
+             ORDER BY l.name COLLATE NOCASE`
+        );
+    }
+
+    public async findListByName(name: string): Promise<SavedList | undefined> {
+        return this.db.get<SavedList>(
+            `SELECT l.id, l.name, COUNT(p.id) AS placeCount
+             FROM saved_lists l
+             LEFT JOIN saved_places p ON p.list_id = l.id
+             WHERE l.name = ?
+             GROUP BY l.id`,
+            [name]
+        );
+    }
+
+    public async createList(name: string): Promise<number> {
+        const result = await this.db.run('INSERT INTO saved_lists (name, created_at) VALUES (?, ?)', [name, Date.now()]);
+        return result.lastID;
+    }
+
+    public async renameList(id: number, name: string): Promise<void> {
+        await this.db.run('UPDATE saved_lists SET name = ? WHERE id = ?', [name, id]);
+    }
+
+    // Removes the list's places as well
+    public async deleteList(id: number): Promise<void> {
+        await this.db.run('DELETE FROM saved_lists WHERE id = ?', [id]);
+    }
+
+    public async findPlaces(listId: number): Promise<SavedPlace[]> {
+        const rows = await this.db.all<SavedPlaceRow>(
+            'SELECT * FROM saved_places WHERE list_id = ? ORDER BY name COLLATE NOCASE',
+            [listId]
+        );
+        return rows.map(row => this.toSavedPlace(row));
+    }
+
+    public async findAll(): Promise<SavedPlace[]> {
+        const rows = await this.db.all<SavedPlaceRow>('SELECT * FROM saved_places ORDER BY name COLLATE NOCASE');
+        return rows.map(row => this.toSavedPlace(row));
+    }
+
+    public async findById(id: number): Promise<SavedPlace | undefined> {
+        const row = await this.db.get<SavedPlaceRow>('SELECT * FROM saved_places WHERE id = ?', [id]);
+        return row ? this.toSavedPlace(row) : undefined;
+    }
+
+    public async findInList(listId: number, place: Place): Promise<SavedPlace | undefined> {
+        const row = await this.db.get<SavedPlaceRow>(
+            `SELECT * FROM saved_places
+             WHERE list_id = ? AND name = ? COLLATE NOCASE AND ABS(lat - ?) < ? AND ABS(lng - ?) < ?`,
+            [listId, place.name, place.lat, SAME_PLACE_DEGREES, place.lng, SAME_PLACE_DEGREES]
+        );
+        return row ? this.toSavedPlace(row) : undefined;
+    }
+
+    public async add(listId: number, place: Place, notes: string | undefined, tags: string[]): Promise<number> {
+        const now = Date.now();
+        const result = await this.db.run(
+            `INSERT INTO saved_places (list_id, name, lat, lng, type, category, address, description, notes, tags, created_at, updated_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            [
+                listId, place.name, place.lat, place.lng, place.type, place.category ?? null, place.address ?? null,
+                place.description ?? null, notes || null, JSON.stringify(tags), now, now
+            ]
+        );
+        return result.lastID;
+    }
+
+    public async update(id: number, changes: { listId?: number; notes?: string; tags?: string[] }): Promise<void> {
+        const place = await this.findById(id);
+        if (!place) {
+            return;
+        }
+        await this.db.run(
+            'UPDATE saved_places SET list_id = ?, notes = ?, tags = ?, updated_at = ? WHERE id = ?',
+            [
+                changes.listId ?? place.listId,
+                (changes.notes !== undefined ? changes.notes : place.notes) || null,
+                JSON.stringify(changes.tags ?? place.tags),
+                Date.now(),
+                id
+            ]
+        );
+    }
+
+    public async delete(id: number): Promise<void> {
+        await this.db.run('DELETE FROM saved_places WHERE id = ?', [id]);
+    }
+
+    private toSavedPlace(row: SavedPlaceRow): SavedPlace {
+        return {
+            id: row.id,
+            listId: row.list_id,
+            name: row.name,
+            lat: row.lat,
+            lng: row.lng,
+            type: row.type,
+            category: row.category ?? undefined,
+            address: row.address ?? undefined,
+            description: row.description ?? undefined,
+            notes: row.notes ?? undefined,
+            tags: JSON.parse(row.tags),
+            createdAt: row.created_at
+        };
+    }
+}
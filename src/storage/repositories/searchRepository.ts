@@ -0,0 +1,95 @@
+import { DatabaseManager } from '../database';
+import { Place } from '../../map/mapApiManager';
+
+export interface SearchRecord {
+    id: number;
+    query: string;
+    resultCount: number;
+    useCount: number;
+    pinned: boolean;
+    // The result picked from this search last time, so it can be shown again without searching
+    place?: Place;
+    firstSearchedAt: number;
+    searchedAt: number;
+}
+
+interface SearchRow {
+    id: number;
+    query: string;
+    result_count: number;
+    use_count: number;
+    pinned: number;
+    place: string | null;
+    first_searched_at: number;
+    last_searched_at: number;
+}
+
+// Unpinned searches beyond this many are forgotten, oldest first
+const MAX_UNPINNED_SEARCHES = 200;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class SearchRepository {
+    constructor(private db: DatabaseManager) {}
+
+    // Searching again for the same text, in any case, updates its entry instead of adding one
+    public async record(query: string, resultCount: number, place?: Place): Promise<void> {
+        const now = Date.now();
+        await this.db.run(
+            `INSERT INTO search_history (query, normalized_query, result_count, place, first_searched_at, last_searched_at)
+             VALUES (?, ?, ?, ?, ?, ?)
+             ON CONFLICT (normalized_query) DO UPDATE SET
+                query = excluded.query,
+                result_count = excluded.result_count,
+                use_count = use_count + 1,
+                place = COALESCE(excluded.place, place),
+                last_searched_at = excluded.last_searched_at`,
+            [query.trim(), normalize(query), resultCount, place ? JSON.stringify(place) : null, now, now]
+        );
+        await this.db.run(
+            `DELETE FROM search_history WHERE pinned = 0 AND id NOT IN (
+                SELECT id FROM search_history WHERE pinned = 0 ORDER BY last_searched_at DESC LIMIT ?
+             )`,
+            [MAX_UNPINNED_SEARCHES]
+        );
+    }
+
+    // Pinned first, then by how often a search is used, discounted by the days since it was last used
+    public async recent(limit: number = 10): Promise<SearchRecord[]> {
+        const rows = await this.db.all<SearchRow>(
+            `SELECT * FROM search_history
+             ORDER BY pinned DESC, use_count / (1.0 + (? - last_searched_at) / ?) DESC, last_searched_at DESC
+             LIMIT ?`,
+            [Date.now(), DAY_MS, limit]
+        );
+        return rows.map(row => this.toRecord(row));
+    }
+
+    public async setPinned(id: number, pinned: boolean): Promise<void> {
+        await this.db.run('UPDATE search_history SET pinned = ? WHERE id = ?', [pinned ? 1 : 0, id]);
+    }
+
+    public async delete(id: number): Promise<void> {
+        await this.db.run('DELETE FROM search_history WHERE id = ?', [id]);
+    }
+
+    public async clear(includePinned: boolean = false): Promise<void> {
+        await this.db.run(includePinned ? 'DELETE FROM search_history' : 'DELETE FROM search_history WHERE pinned = 0');
+    }
+
+    private toRecord(row: SearchRow): SearchRecord {
+        return {
+            id: row.id,
+            query: row.query,
+            resultCount: row.result_count,
+            useCount: row.use_count,
+            pinned: row.pinned === 1,
+            place: row.place ? JSON.parse(row.place) : undefined,
+            firstSearchedAt: row.first_searched_at,
+            searchedAt: row.last_searched_at
+        };
+    }
+}
+
+function normalize(query: string): string {
+    return query.toLowerCase().trim().replace(/\s+/g, ' ');
+}
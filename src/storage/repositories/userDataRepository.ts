@@ -0,0 +1,23 @@
+import { DatabaseManager } from '../database';
+
+// Small JSON documents keyed by name, for settings-like state that outgrows globalState
+export class UserDataRepository {
+    constructor(private db: DatabaseManager) {}
+
+    public async get<T>(key: string, defaultValue: T): Promise<T> {
+        const row = await this.db.get<{ value: string }>('SELECT value FROM user_data WHERE key = ?', [key]);
+        return row ? JSON.parse(row.value) as T : defaultValue;
+    }
+
+    public async set<T>(key: string, value: T): Promise<void> {
+        await this.db.run(
+            `INSERT INTO user_data (key, value, updated_at) VALUES (?, ?, ?)
+             ON CONFLICT (key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at`,
+            [key, JSON.stringify(value), Date.now()]
+        );
+    }
+
+    public async delete(key: string): Promise<void> {
+        await this.db.run('DELETE FROM user_data WHERE key = ?', [key]);
+    }
+}
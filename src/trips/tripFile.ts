@@ -0,0 +1,408 @@
+import { DEFAULT_PLAN, DEFAULT_VISIT_MINUTES, Itinerary, ItineraryPlan, ScheduledDay, parseClock } from '../itinerary/itinerary';
+import { TRAVEL_MODES, TravelMode } from '../routing/travelProfiles';
+import { withoutUndefined } from '../util/objects';
+
+// Trips kept as files in a workspace, so they can be committed, diffed and reviewed like any other file.
+// Routes are stored with the trip, which keeps travel times readable offline and in review.
+
+export const TRIP_FILE_FORMAT = 'offline-map-trip';
+export const TRIP_FILE_VERSION = 1;
+export const TRIP_FILE_SUFFIX = '.trip.json';
+
+export interface TripStop {
+    name: string;
+    lat: number;
+    lng: number;
+    visitMinutes: number;
+    notes?: string;
+}
+
+export interface TripDay {
+    title?: string;
+    notes?: string;
+    stops: TripStop[];
+}
+
+// Travel between two consecutive stops of a day, as last looked up
+export interface TripRoute {
+    // 1-based, like the day headings people read
+    day: number;
+    from: string;
+    to: string;
+    // [lng, lat] of the two stops, rounded like coordinates, so a stop that moves loses its route
+    fromPosition: number[];
+    toPosition: number[];
+    mode: TravelMode;
+    distanceKm: number;
+    durationMinutes: number;
+    // Straight-line estimate rather than a route along roads
+    approximate?: boolean;
+    // [lng, lat] pairs, rounded so small re-routes do not rewrite the whole file
+    coordinates?: number[][];
+}
+
+export interface TripBudgetItem {
+    label: string;
+    amount: number;
+    day?: number;
+}
+
+export interface TripBudget {
+    currency: string;
+    limit?: number;
+    items: TripBudgetItem[];
+}
+
+export interface Trip {
+    format: typeof TRIP_FILE_FORMAT;
+    formatVersion: number;
+    name: string;
+    notes?: string;
+    mode: TravelMode;
+    dayStart: string;
+    dayHours: number;
+    budget: TripBudget;
+    days: TripDay[];
+    routes: TripRoute[];
+}
+
+export interface TripDaySchedule {
+    // Minutes after midnight, per stop
+    arrivals: number[];
+    departures: number[];
+    routes: (TripRoute | undefined)[];
+    travelMinutes: number;
+    visitMinutes: number;
+    distanceKm: number;
+    overbookedMinutes: number;
+    // Consecutive stops with no stored route between them
+    missingRoutes: number;
+}
+
+export class TripFileError extends Error {
+    constructor(public readonly fileName: string, message: string) {
+        super(`${fileName}: ${message}`);
+    }
+}
+
+const DEFAULT_CURRENCY = 'INR';
+// Five decimals is about a metre, plenty for a drawn route
+const COORDINATE_PRECISION = 1e5;
+
+export function createTrip(name: string): Trip {
+    return {
+        format: TRIP_FILE_FORMAT,
+        formatVersion: TRIP_FILE_VERSION,
+        name,
+        mode: DEFAULT_PLAN.mode,
+        dayStart: DEFAULT_PLAN.dayStart,
+        dayHours: DEFAULT_PLAN.dayHours,
+        budget: { currency: DEFAULT_CURRENCY, items: [] },
+        days: [{ stops: [] }],
+        routes: []
+    };
+}
+
+export function tripFromItinerary(itinerary: Itinerary): Trip {
+    return {
+        ...createTrip(itinerary.name),
+        mode: itinerary.mode,
+        dayStart: itinerary.dayStart,
+        dayHours: itinerary.dayHours,
+        days: itinerary.days.map(day => ({ stops: day.stops.map(stop => ({ ...stop })) }))
+    };
+}
+
+// The itinerary planner looks up routes; a trip file only needs its days and settings for that
+export function toItineraryPlan(trip: Trip): ItineraryPlan {
+    return {
+        mode: trip.mode,
+        dayStart: trip.dayStart,
+        dayHours: trip.dayHours,
+        days: trip.days.map(day => ({ stops: day.stops.map(({ name, lat, lng, visitMinutes }) => ({ name, lat, lng, visitMinutes })) }))
+    };
+}
+
+// Replaces the stored routes with the legs of a fresh schedule
+export function routesFromSchedule(trip: Trip, schedule: ScheduledDay[]): TripRoute[] {
+    const routes: TripRoute[] = [];
+    schedule.forEach((day, dayIndex) => {
+        day.stops.forEach((scheduled, stopIndex) => {
+            if (stopIndex === 0 || !scheduled.leg) {
+                return;
+            }
+            const leg = scheduled.leg;
+            const from = day.stops[stopIndex - 1].stop;
+            routes.push({
+                day: dayIndex + 1,
+                from: from.name,
+                to: scheduled.stop.name,
+                fromPosition: stopPosition(from),
+                toPosition: stopPosition(scheduled.stop),
+                mode: trip.mode,
+                distanceKm: Math.round(leg.distanceMeters / 100) / 10,
+                durationMinutes: Math.round(leg.durationSeconds / 60),
+                ...(leg.approximate ? { approximate: true } : {}),
+                ...(leg.geometry ? { coordinates: leg.geometry.coordinates.map(roundPosition) } : {})
+            });
+        });
+    });
+    return routes;
+}
+
+export function findRoute(trip: Trip, dayIndex: number, from: TripStop, to: TripStop): TripRoute | undefined {
+    return trip.routes.find(route =>
+        route.day === dayIndex + 1 && route.from === from.name && route.to === to.name && route.mode === trip.mode
+        && samePosition(route.fromPosition, stopPosition(from)) && samePosition(route.toPosition, stopPosition(to))
+    );
+}
+
+// Times come from the stored routes only, so opening a trip never waits on the network
+export function scheduleTrip(trip: Trip): TripDaySchedule[] {
+    const dayStart = parseClock(trip.dayStart) ?? parseClock(DEFAULT_PLAN.dayStart)!;
+    return trip.days.map((day, dayIndex) => {
+        const schedule: TripDaySchedule = {
+            arrivals: [],
+            departures: [],
+            routes: [],
+            travelMinutes: 0,
+            visitMinutes: 0,
+            distanceKm: 0,
+            overbookedMinutes: 0,
+            missingRoutes: 0
+        };
+        let clock = dayStart;
+        day.stops.forEach((stop, index) => {
+            const route = index > 0 ? findRoute(trip, dayIndex, day.stops[index - 1], stop) : undefined;
+            if (route) {
+                clock += route.durationMinutes;
+                schedule.travelMinutes += route.durationMinutes;
+                schedule.distanceKm += route.distanceKm;
+            } else if (index > 0) {
+                schedule.missingRoutes++;
+            }
+            schedule.routes.push(route);
+            schedule.arrivals.push(clock);
+            clock += stop.visitMinutes;
+            schedule.visitMinutes += stop.visitMinutes;
+            schedule.departures.push(clock);
+        });
+        schedule.overbookedMinutes = Math.max(0, Math.round(schedule.travelMinutes + schedule.visitMinutes - trip.dayHours * 60));
+        return schedule;
+    });
+}
+
+export function budgetTotal(budget: TripBudget): number {
+    return budget.items.reduce((total, item) => total + item.amount, 0);
+}
+
+export function parseTripFile(text: string, fileName: string): Trip {
+    let raw: any;
+    try {
+        raw = text.trim() ? JSON.parse(text) : {};
+    } catch (error) {
+        throw new TripFileError(fileName, `not valid JSON (${error instanceof Error ? error.message : error})`);
+    }
+    return validateTrip(raw, fileName);
+}
+
+// Missing settings fall back to defaults, so a hand-written file with just days and stops opens
+export function validateTrip(raw: any, fileName: string): Trip {
+    const fail = (message: string): never => {
+        throw new TripFileError(fileName, message);
+    };
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        fail('expected an object describing one trip');
+    }
+    if (raw.format !== undefined && raw.format !== TRIP_FILE_FORMAT) {
+        fail(`"format" must be "${TRIP_FILE_FORMAT}"`);
+    }
+    const formatVersion = raw.formatVersion === undefined ? TRIP_FILE_VERSION : Number(raw.formatVersion);
+    if (!Number.isInteger(formatVersion) || formatVersion < 1) {
+        fail('"formatVersion" must be a whole number');
+    }
+    if (formatVersion > TRIP_FILE_VERSION) {
+        fail(`written by a newer version of the extension (format ${formatVersion}); update the extension to open it`);
+    }
+
+    const trip = createTrip(optionalString(raw.name) || fileName.replace(/\.trip\.json$/i, ''));
+    trip.notes = optionalString(raw.notes);
+    if (raw.mode !== undefined) {
+        if (!(TRAVEL_MODES as unknown[]).includes(raw.mode)) {
+            fail(`"mode" must be one of ${TRAVEL_MODES.join(', ')}`);
+        }
+        trip.mode = raw.mode;
+    }
+    if (raw.dayStart !== undefined) {
+        if (typeof raw.dayStart !== 'string' || parseClock(raw.dayStart) === undefined) {
+            fail('"dayStart" must be a time like "09:00"');
+        }
+        trip.dayStart = raw.dayStart;
+    }
+    if (raw.dayHours !== undefined) {
+        const hours = Number(raw.dayHours);
+        if (!(hours > 0 && hours <= 24)) {
+            fail('"dayHours" must be between 0 and 24');
+        }
+        trip.dayHours = hours;
+    }
+
+    if (raw.days !== undefined) {
+        if (!Array.isArray(raw.days)) {
+            fail('"days" must be a list');
+        }
+        trip.days = raw.days.map((day: any, dayIndex: number) => {
+            const where = `day ${dayIndex + 1}`;
+            if (!day || typeof day !== 'object' || (day.stops !== undefined && !Array.isArray(day.stops))) {
+                fail(`${where} must be an object with a "stops" list`);
+            }
+            return withoutUndefined({
+                title: optionalString(day.title),
+                notes: optionalString(day.notes),
+                stops: (day.stops ?? []).map((stop: any, stopIndex: number) => validateStop(stop, `${where}, stop ${stopIndex + 1}`, fail))
+            });
+        });
+        if (trip.days.length === 0) {
+            trip.days = [{ stops: [] }];
+        }
+    }
+
+    if (raw.routes !== undefined) {
+        if (!Array.isArray(raw.routes)) {
+            fail('"routes" must be a list');
+        }
+        // Routes are derived data; one that no longer makes sense is dropped rather than refusing the file
+        trip.routes = raw.routes.filter(isValidRoute).map((route: any) => withoutUndefined({
+            day: route.day,
+            from: route.from,
+            to: route.to,
+            fromPosition: roundPosition(route.fromPosition),
+            toPosition: roundPosition(route.toPosition),
+            mode: route.mode,
+            distanceKm: Number(route.distanceKm),
+            durationMinutes: Number(route.durationMinutes),
+            approximate: route.approximate === true ? true : undefined,
+            coordinates: route.coordinates
+        }));
+    }
+
+    if (raw.budget !== undefined) {
+        const budget = raw.budget;
+        if (!budget || typeof budget !== 'object' || (budget.items !== undefined && !Array.isArray(budget.items))) {
+            fail('"budget" must be an object with an "items" list');
+        }
+        const limit = budget.limit === undefined ? undefined : Number(budget.limit);
+        if (limit !== undefined && !(limit >= 0)) {
+            fail('"budget.limit" must be a positive amount');
+        }
+        trip.budget = withoutUndefined({
+            currency: optionalString(budget.currency) || DEFAULT_CURRENCY,
+            limit,
+            items: (budget.items ?? []).map((item: any, index: number) => {
+                const amount = Number(item?.amount);
+                if (!optionalString(item?.label) || !Number.isFinite(amount)) {
+                    fail(`budget item ${index + 1} needs a "label" and an "amount"`);
+                }
+                const day = item.day === undefined ? undefined : Number(item.day);
+                if (day !== undefined && !(Number.isInteger(day) && day >= 1)) {
+                    fail(`budget item ${index + 1} has an invalid "day"`);
+                }
+                return withoutUndefined({ label: optionalString(item.label)!, amount, day });
+            })
+        });
+    }
+    return trip;
+}
+
+// Stable key order and one coordinate pair per line keep diffs of trip files small
+export function serializeTrip(trip: Trip): string {
+    const ordered = withoutUndefined({
+        format: TRIP_FILE_FORMAT,
+        formatVersion: TRIP_FILE_VERSION,
+        name: trip.name,
+        notes: trip.notes || undefined,
+        mode: trip.mode,
+        dayStart: trip.dayStart,
+        dayHours: trip.dayHours,
+        budget: withoutUndefined({
+            currency: trip.budget.currency,
+            limit: trip.budget.limit,
+            items: trip.budget.items.map(item => withoutUndefined({ label: item.label, amount: item.amount, day: item.day }))
+        }),
+        days: trip.days.map(day => withoutUndefined({
+            title: day.title || undefined,
+            notes: day.notes || undefined,
+            stops: day.stops.map(stop => withoutUndefined({
+                name: stop.name,
+                lat: stop.lat,
+                lng: stop.lng,
+                visitMinutes: stop.visitMinutes,
+                notes: stop.notes || undefined
+            }))
+        })),
+        routes: trip.routes.map(route => withoutUndefined({
+            day: route.day,
+            from: route.from,
+            to: route.to,
+            fromPosition: route.fromPosition,
+            toPosition: route.toPosition,
+            mode: route.mode,
+            distanceKm: route.distanceKm,
+            durationMinutes: route.durationMinutes,
+            approximate: route.approximate || undefined,
+            coordinates: route.coordinates
+        }))
+    });
+    return JSON.stringify(ordered, null, 2)
+        .replace(/\[\s+(-?[\d.e+-]+),\s+(-?[\d.e+-]+)(?:,\s+(-?[\d.e+-]+))?\s+\]/g, (_, a, b, c) => c !== undefined ? `[${a}, ${b}, ${c}]` : `[${a}, ${b}]`)
+        + '\n';
+}
+
+function validateStop(stop: any, where: string, fail: (message: string) => never): TripStop {
+    if (!stop || typeof stop !== 'object') {
+        fail(`${where} must be an object`);
+    }
+    const name = optionalString(stop.name);
+    const { lat, lng } = stop;
+    if (!name) {
+        fail(`${where} needs a "name"`);
+    }
+    if (typeof lat !== 'number' || typeof lng !== 'number' || !(Math.abs(lat) <= 90) || !(Math.abs(lng) <= 180)) {
+        fail(`${where} needs "lat" and "lng"`);
+    }
+    const visitMinutes = stop.visitMinutes === undefined ? DEFAULT_VISIT_MINUTES : Number(stop.visitMinutes);
+    if (!(Number.isInteger(visitMinutes) && visitMinutes >= 0 && visitMinutes <= 24 * 60)) {
+        fail(`${where} has an invalid "visitMinutes"`);
+    }
+    return withoutUndefined({ name: name!, lat, lng, visitMinutes, notes: optionalString(stop.notes) });
+}
+
+function isValidRoute(route: any): boolean {
+    return !!route && typeof route === 'object'
+        && Number.isInteger(route.day) && route.day >= 1
+        && typeof route.from === 'string' && typeof route.to === 'string'
+        && isPosition(route.fromPosition) && isPosition(route.toPosition)
+        && (route.coordinates === undefined || (Array.isArray(route.coordinates) && route.coordinates.every(isPosition)))
+        && (TRAVEL_MODES as unknown[]).includes(route.mode)
+        && Number.isFinite(Number(route.distanceKm)) && Number.isFinite(Number(route.durationMinutes));
+}
+
+function isPosition(value: unknown): value is number[] {
+    return Array.isArray(value) && value.length === 2 && value.every(Number.isFinite);
+}
+
+function stopPosition(stop: { lat: number; lng: number }): number[] {
+    return roundPosition([stop.lng, stop.lat]);
+}
+
+function samePosition(a: number[], b: number[]): boolean {
+    return a[0] === b[0] && a[1] === b[1];
+}
+
+function roundPosition(position: number[]): number[] {
+    return [Math.round(position[0] * COORDINATE_PRECISION) / COORDINATE_PRECISION, Math.round(position[1] * COORDINATE_PRECISION) / COORDINATE_PRECISION];
+}
+
+function optionalString(value: unknown): string | undefined {
+    return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
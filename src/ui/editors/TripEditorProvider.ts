@@ -0,0 +1,1083 @@
+import * as vscode from 'vscode';
+import * as os from 'os';
+import * as path from 'path';
+import { ItineraryPlanner, parseVisitMinutes } from '../../itinerary/itineraryPlanner';
+import { formatClock, formatDuration, parseClock } from '../../itinerary/itinerary';
+import { MapApiManager } from '../../map/mapApiManager';
+import { TRAVEL_MODES, TravelMode } from '../../routing/travelProfiles';
+import {
+    TRIP_FILE_SUFFIX, Trip, TripDaySchedule, TripFileError, budgetTotal, createTrip, parseTripFile, routesFromSchedule, scheduleTrip,
+    serializeTrip, toItineraryPlan, tripFromItinerary
+} from '../../trips/tripFile';
+import { escapeHtml, getAssetRoots, getContentSecurityPolicy, getMapAssets, getNonce } from '../webviewAssets';
+
+const MODE_LABELS: { [mode in TravelMode]: string } = {
+    driving: '🚗 Drive',
+    walking: '🚶 Walk',
+    cycling: '🚴 Bike'
+};
+
+interface TripMapDay {
+    day: number;
+    color: string;
+    stops: { number: number; name: string; lat: number; lng: number; arrival: string }[];
+    // Stored route lines; stops with no stored route between them are joined by a dashed straight line
+    legs: { coordinates: number[][]; approximate: boolean }[];
+}
+
+// Shows a .trip.json file as a map and a list. Every change is a text edit on the document,
+// so undo, redo, dirty state, save and source control all behave as they do for any text file.
+export class TripEditorProvider implements vscode.CustomTextEditorProvider {
+    public static readonly viewType = 'offlineMap.tripEditor';
+
+    constructor(
+        private readonly context: vscode.ExtensionContext,
+        private readonly planner: ItineraryPlanner,
+        private readonly apiManager: MapApiManager
+    ) {}
+
+    public async resolveCustomTextEditor(document: vscode.TextDocument, webviewPanel: vscode.WebviewPanel): Promise<void> {
+        const webview = webviewPanel.webview;
+        webview.options = {
+            enableScripts: true,
+            localResourceRoots: getAssetRoots(this.context.extensionUri)
+        };
+        webview.html = this._getHtmlForWebview(webview);
+
+        const disposables: vscode.Disposable[] = [];
+        // The map is fitted to the stops once; later updates keep the view where the user left it
+        let fitted = false;
+        const update = () => {
+            const message = this.render(document, !fitted);
+            fitted = fitted || message.map !== null;
+            webview.postMessage(message);
+        };
+
+        vscode.workspace.onDidChangeTextDocument(event => {
+            if (event.document.uri.toString() === document.uri.toString() && event.contentChanges.length > 0) {
+                update();
+            }
+        }, null, disposables);
+
+        webview.onDidReceiveMessage(
+            message => this.handleMessage(document, webview, message, update).catch(error => {
+                vscode.window.showErrorMessage(`Trip update failed: ${error instanceof Error ? error.message : error}`);
+            }),
+            null,
+            disposables
+        );
+
+        webviewPanel.onDidDispose(() => {
+            while (disposables.length) {
+                disposables.pop()?.dispose();
+            }
+        });
+    }
+
+    // Offers a blank trip or a copy of a saved itinerary, written next to the project's other files
+    public async promptAndCreateTrip(): Promise<void> {
+        const itineraries = await this.planner.getItineraries().catch(() => []);
+        let trip: Trip | undefined;
+        if (itineraries.length > 0) {
+            const picked = await vscode.window.showQuickPick(
+                [
+                    { label: '$(new-file) Empty trip', trip: undefined },
+                    ...itineraries.map(itinerary => ({
+                        label: `$(calendar) ${itinerary.name}`,
+                        description: `${itinerary.days.length} day(s), ${itinerary.days.reduce((total, day) => total + day.stops.length, 0)} stop(s)`,
+                        trip: tripFromItinerary(itinerary)
+                    }))
+                ],
+                { placeHolder: 'Start from an empty trip or copy a saved itinerary' }
+            );
+            if (!picked) {
+                return;
+            }
+            trip = picked.trip;
+        }
+        if (!trip) {
+            const name = await vscode.window.showInputBox({
+                prompt: 'Name of the trip',
+                placeHolder: 'e.g. Rajasthan in a week',
+                validateInput: value => value.trim() ? undefined : 'Enter a name'
+            });
+            if (!name) {
+                return;
+            }
+            trip = createTrip(name.trim());
+        }
+
+        const folder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? os.homedir();
+        const fileName = `${trip.name.replace(/[\\/:*?"<>|]+/g, '').replace(/\s+/g, '-').toLowerCase() || 'trip'}${TRIP_FILE_SUFFIX}`;
+        let target = await vscode.window.showSaveDialog({
+            defaultUri: vscode.Uri.file(path.join(folder, fileName)),
+            saveLabel: 'Create Trip',
+            filters: { 'Trip files': ['trip.json'] }
+        });
+        if (!target) {
+            return;
+        }
+        // The editor only opens files with the full suffix
+        if (!target.path.toLowerCase().endsWith(TRIP_FILE_SUFFIX)) {
+            target = target.with({ path: target.path.replace(/(\.trip)?(\.json)?$/i, TRIP_FILE_SUFFIX) });
+        }
+
+        await vscode.workspace.fs.writeFile(target, Buffer.from(serializeTrip(trip), 'utf8'));
+        await vscode.commands.executeCommand('vscode.openWith', target, TripEditorProvider.viewType);
+    }
+
+    private async handleMessage(
+        document: vscode.TextDocument,
+        webview: vscode.Webview,
+        message: any,
+        update: () => void
+    ): Promise<void> {
+        const day = message.day !== undefined ? parseInt(message.day, 10) : -1;
+        const index = message.index !== undefined ? parseInt(message.index, 10) : -1;
+
+        switch (message.command) {
+            case 'ready':
+                update();
+                break;
+            case 'getTile': {
+                const tile = await this.apiManager.getTile(message.z, message.x, message.y);
+                webview.postMessage({
+                    command: 'tileData',
+                    id: message.id,
+                    dataUrl: tile ? `data:${tile.mimeType};base64,${tile.data.toString('base64')}` : null
+                });
+                break;
+            }
+            case 'openAsText':
+                await vscode.commands.executeCommand('vscode.openWith', document.uri, 'default');
+                break;
+            case 'rename': {
+                const trip = this.read(document);
+                const name = trip && await vscode.window.showInputBox({
+                    prompt: 'Name of the trip',
+                    value: trip.name,
+                    validateInput: value => value.trim() ? undefined : 'Enter a name'
+                });
+                if (name) {
+                    await this.edit(document, latest => {
+                        latest.name = name.trim();
+                    });
+                }
+                break;
+            }
+            case 'setNotes':
+                await this.edit(document, trip => {
+                    trip.notes = message.value.trim() || undefined;
+                });
+                break;
+            case 'setMode':
+                if (TRAVEL_MODES.includes(message.value)) {
+                    await this.edit(document, trip => {
+                        trip.mode = message.value;
+                    });
+                }
+                break;
+            case 'setDayStart':
+                if (parseClock(message.value) !== undefined) {
+                    await this.edit(document, trip => {
+                        trip.dayStart = message.value;
+                    });
+                } else {
+                    update();
+                }
+                break;
+            case 'setDayHours': {
+                const hours = Number(message.value);
+                if (hours > 0 && hours <= 24) {
+                    await this.edit(document, trip => {
+                        trip.dayHours = hours;
+                    });
+                } else {
+                    update();
+                }
+                break;
+            }
+            case 'addDay':
+                await this.edit(document, trip => {
+                    trip.days.push({ stops: [] });
+                });
+                break;
+            case 'removeDay': {
+                const stops = this.read(document)?.days[day]?.stops;
+                if (stops && stops.length > 0) {
+                    const choice = await vscode.window.showWarningMessage(
+                        `Remove day ${day + 1} and its ${stops.length} stop(s)?`,
+                        { modal: true },
+                        'Remove'
+                    );
+                    if (choice !== 'Remove') {
+                        return;
+                    }
+                }
+                await this.edit(document, trip => {
+                    if (trip.days.length <= 1 || !trip.days[day]) {
+                        return false;
+                    }
+                    trip.days.splice(day, 1);
+                    // Later days move up, and so do the budget items planned for them
+                    trip.routes = trip.routes
+                        .filter(route => route.day !== day + 1)
+                        .map(route => route.day > day + 1 ? { ...route, day: route.day - 1 } : route);
+                    trip.budget.items = trip.budget.items.map(item =>
+                        item.day === undefined || item.day < day + 1 ? item
+                            : { ...item, day: item.day === day + 1 ? undefined : item.day - 1 }
+                    );
+                });
+                break;
+            }
+            case 'setDayTitle':
+                await this.edit(document, trip => {
+                    if (!trip.days[day]) {
+                        return false;
+                    }
+                    trip.days[day].title = message.value.trim() || undefined;
+                });
+                break;
+            case 'setDayNotes':
+                await this.edit(document, trip => {
+                    if (!trip.days[day]) {
+                        return false;
+                    }
+                    trip.days[day].notes = message.value.trim() || undefined;
+                });
+                break;
+            case 'addStop': {
+                const stop = await this.planner.promptForStop();
+                if (stop) {
+                    await this.edit(document, trip => {
+                        if (!trip.days[day]) {
+                            return false;
+                        }
+                        trip.days[day].stops.push(stop);
+                    });
+                }
+                break;
+            }
+            case 'addStopAt':
+                await this.promptAndAddStopAt(document, Number(message.lat), Number(message.lng));
+                break;
+            case 'removeStop':
+                await this.edit(document, trip => {
+                    const stops = trip.days[day]?.stops;
+                    if (!stops || !stops[index]) {
+                        return false;
+                    }
+                    stops.splice(index, 1);
+                });
+                break;
+            case 'moveStop':
+                await this.edit(document, trip => {
+                    const stops = trip.days[day]?.stops;
+                    const target = index + parseInt(message.delta, 10);
+                    if (!stops || !stops[index] || target < 0 || target >= stops.length) {
+                        return false;
+                    }
+                    [stops[index], stops[target]] = [stops[target], stops[index]];
+                });
+                break;
+            case 'moveStopToDay':
+                await this.edit(document, trip => {
+                    const stops = trip.days[day]?.stops;
+                    const targetDay = trip.days[parseInt(message.value, 10)];
+                    if (!stops || !stops[index] || !targetDay || targetDay === trip.days[day]) {
+                        return false;
+                    }
+                    targetDay.stops.push(...stops.splice(index, 1));
+                });
+                break;
+            case 'setVisitMinutes': {
+                const minutes = parseVisitMinutes(message.value);
+                if (minutes === undefined) {
+                    update();
+                    break;
+                }
+                await this.edit(document, trip => {
+                    const stop = trip.days[day]?.stops[index];
+                    if (!stop) {
+                        return false;
+                    }
+                    stop.visitMinutes = minutes;
+                });
+                break;
+            }
+            case 'editStopNotes': {
+                const stop = this.read(document)?.days[day]?.stops[index];
+                const notes = stop && await vscode.window.showInputBox({
+                    prompt: `Notes for ${stop.name}`,
+                    value: stop.notes ?? '',
+                    placeHolder: 'Tickets, opening hours, what to see...'
+                });
+                if (notes !== undefined) {
+                    await this.edit(document, trip => {
+                        const latest = trip.days[day]?.stops[index];
+                        if (!latest) {
+                            return false;
+                        }
+                        latest.notes = notes.trim() || undefined;
+                    });
+                }
+                break;
+            }
+            case 'updateRoutes':
+                await this.updateRoutes(document);
+                break;
+            case 'setCurrency':
+                await this.edit(document, trip => {
+                    trip.budget.currency = message.value.trim().toUpperCase() || trip.budget.currency;
+                });
+                break;
+            case 'setBudgetLimit': {
+                const limit = message.value.trim() === '' ? undefined : Number(message.value);
+                if (limit !== undefined && !(limit >= 0)) {
+                    update();
+                    break;
+                }
+                await this.edit(document, trip => {
+                    trip.budget.limit = limit;
+                });
+                break;
+            }
+            case 'addExpense':
+                await this.promptAndAddExpense(document);
+                break;
+            case 'setExpenseLabel':
+                await this.edit(document, trip => {
+                    const item = trip.budget.items[index];
+                    if (!item || !message.value.trim()) {
+                        return false;
+                    }
+                    item.label = message.value.trim();
+                });
+                break;
+            case 'setExpenseAmount': {
+                const amount = Number(message.value);
+                if (message.value.trim() === '' || !Number.isFinite(amount)) {
+                    update();
+                    break;
+                }
+                await this.edit(document, trip => {
+                    const item = trip.budget.items[index];
+                    if (!item) {
+                        return false;
+                    }
+                    item.amount = amount;
+                });
+                break;
+            }
+            case 'setExpenseDay':
+                await this.edit(document, trip => {
+                    const item = trip.budget.items[index];
+                    if (!item) {
+                        return false;
+                    }
+                    item.day = message.value ? parseInt(message.value, 10) : undefined;
+                });
+                break;
+            case 'removeExpense':
+                await this.edit(document, trip => {
+                    if (!trip.budget.items[index]) {
+                        return false;
+                    }
+                    trip.budget.items.splice(index, 1);
+                });
+                break;
+        }
+    }
+
+    // Looks up every leg again and stores the results, replacing routes that no longer match a pair of stops
+    private async updateRoutes(document: vscode.TextDocument): Promise<void> {
+        const trip = this.read(document);
+        if (!trip) {
+            return;
+        }
+        const schedule = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: `Looking up routes for "${trip.name}"...` },
+            () => this.planner.schedule(toItineraryPlan(trip))
+        );
+        const routes = routesFromSchedule(trip, schedule);
+        await this.edit(document, latest => {
+            latest.routes = routes;
+        });
+        if (routes.some(route => route.approximate)) {
+            vscode.window.showInformationMessage('Some legs are straight-line estimates. Import road data for offline routes.');
+        }
+    }
+
+    private async promptAndAddStopAt(document: vscode.TextDocument, lat: number, lng: number): Promise<void> {
+        const trip = this.read(document);
+        if (!trip || !Number.isFinite(lat) || !Number.isFinite(lng)) {
+            return;
+        }
+        const address = await this.apiManager.reverseGeocode(lat, lng).catch(() => undefined);
+        const name = await vscode.window.showInputBox({
+            prompt: 'Name of the stop',
+            value: address?.name ?? '',
+            validateInput: value => value.trim() ? undefined : 'Enter a name'
+        });
+        if (!name) {
+            return;
+        }
+        let dayIndex = trip.days.length - 1;
+        if (trip.days.length > 1) {
+            const picked = await vscode.window.showQuickPick(
+                trip.days.map((day, index) => ({
+                    label: `Day ${index + 1}${day.title ? `: ${day.title}` : ''}`,
+                    description: `${day.stops.length} stop(s)`,
+                    index
+                })),
+                { placeHolder: `Add ${name.trim()} to which day?` }
+            );
+            if (!picked) {
+                return;
+            }
+            dayIndex = picked.index;
+        }
+        const visit = await vscode.window.showInputBox({
+            prompt: `Minutes to spend at ${name.trim()}`,
+            value: '60',
+            validateInput: input => parseVisitMinutes(input) === undefined ? 'Enter a number of minutes' : undefined
+        });
+        if (visit === undefined) {
+            return;
+        }
+        await this.edit(document, latest => {
+            if (!latest.days[dayIndex]) {
+                return false;
+            }
+            latest.days[dayIndex].stops.push({ name: name.trim(), lat, lng, visitMinutes: parseVisitMinutes(visit)! });
+        });
+    }
+
+    private async promptAndAddExpense(document: vscode.TextDocument): Promise<void> {
+        const trip = this.read(document);
+        if (!trip) {
+            return;
+        }
+        const label = await vscode.window.showInputBox({
+            prompt: 'What is the expense for?',
+            placeHolder: 'e.g. Hotel in Jaipur, train tickets',
+            validateInput: value => value.trim() ? undefined : 'Enter a description'
+        });
+        if (!label) {
+            return;
+        }
+        const amount = await vscode.window.showInputBox({
+            prompt: `Amount in ${trip.budget.currency}`,
+            validateInput: value => value.trim() && Number.isFinite(Number(value)) ? undefined : 'Enter an amount'
+        });
+        if (amount === undefined) {
+            return;
+        }
+        await this.edit(document, latest => {
+            latest.budget.items.push({ label: label.trim(), amount: Number(amount) });
+        });
+    }
+
+    private read(document: vscode.TextDocument): Trip | undefined {
+        try {
+            return parseTripFile(document.getText(), path.basename(document.uri.path));
+        } catch {
+            return undefined;
+        }
+    }
+
+    // Changes are applied to the latest text, so edits made while a prompt was open are kept.
+    // The mutation returns false when there is nothing to change.
+    private async edit(document: vscode.TextDocument, mutate: (trip: Trip) => boolean | void): Promise<void> {
+        const trip = this.read(document);
+        if (!trip || mutate(trip) === false) {
+            return;
+        }
+        const text = serializeTrip(trip);
+        if (text === document.getText()) {
+            return;
+        }
+        const edit = new vscode.WorkspaceEdit();
+        edit.replace(document.uri, new vscode.Range(0, 0, document.lineCount, 0), text);
+        await vscode.workspace.applyEdit(edit);
+    }
+
+    private render(document: vscode.TextDocument, fit: boolean): { command: 'update'; html: string; map: TripMapDay[] | null; fit: boolean } {
+        let trip: Trip;
+        try {
+            trip = parseTripFile(document.getText(), path.basename(document.uri.path));
+        } catch (error) {
+            const reason = error instanceof TripFileError ? error.message : String(error);
+            return {
+                command: 'update',
+                html: `
+                    <h1>This trip file cannot be shown</h1>
+                    <div class="warning">${escapeHtml(reason)}</div>
+                    <p>Fix the file in the text editor; this view updates as soon as it is valid again.</p>
+                    <button class="action" data-action="openAsText">Open in Text Editor</button>
+                `,
+                map: null,
+                fit: false
+            };
+        }
+
+        const schedule = scheduleTrip(trip);
+        return { command: 'update', html: this.renderTrip(trip, schedule), map: this.toMapDays(trip, schedule), fit };
+    }
+
+    private toMapDays(trip: Trip, schedule: TripDaySchedule[]): TripMapDay[] {
+        return trip.days.map((day, dayIndex) => ({
+            day: dayIndex + 1,
+            color: this.planner.dayColor(dayIndex),
+            stops: day.stops.map((stop, index) => ({
+                number: index + 1,
+                name: stop.name,
+                lat: stop.lat,
+                lng: stop.lng,
+                arrival: formatClock(schedule[dayIndex].arrivals[index])
+            })),
+            legs: day.stops.slice(1).map((stop, index) => {
+                const route = schedule[dayIndex].routes[index + 1];
+                const previous = day.stops[index];
+                return route?.coordinates
+                    ? { coordinates: route.coordinates, approximate: !!route.approximate }
+                    : { coordinates: [[previous.lng, previous.lat], [stop.lng, stop.lat]], approximate: true };
+            })
+        }));
+    }
+
+    private renderTrip(trip: Trip, schedule: TripDaySchedule[]): string {
+        const missingRoutes = schedule.reduce((total, day) => total + day.missingRoutes, 0);
+        const stopCount = trip.days.reduce((total, day) => total + day.stops.length, 0);
+
+        return `
+            <header>
+                <h1>${escapeHtml(trip.name)}</h1>
+                <button class="action" data-action="updateRoutes"${stopCount < 2 ? ' disabled' : ''}>Update Routes</button>
+                <button class="action secondary" data-action="rename">Rename</button>
+                <button class="action secondary" data-action="openAsText">Open as Text</button>
+            </header>
+            <div class="settings">
+                <label>Travel
+                    <select data-change="setMode">
+                        ${TRAVEL_MODES.map(mode => `<option value="${mode}"${mode === trip.mode ? ' selected' : ''}>${MODE_LABELS[mode]}</option>`).join('')}
+                    </select>
+                </label>
+                <label>Days start at <input type="time" data-change="setDayStart" value="${escapeHtml(trip.dayStart)}"></label>
+                <label>Hours per day <input type="number" min="1" max="24" step="0.5" data-change="setDayHours" value="${trip.dayHours}"></label>
+            </div>
+            <textarea data-change="setNotes" rows="2" placeholder="Notes for the whole trip">${escapeHtml(trip.notes ?? '')}</textarea>
+            ${missingRoutes > 0 && stopCount > 1 ? `
+                <div class="warning">
+                    ${missingRoutes} leg(s) have no stored route, so their travel time is not counted.
+                    <button class="action secondary" data-action="updateRoutes">Update Routes</button>
+                </div>
+            ` : ''}
+            ${trip.days.map((_, index) => this.renderDay(trip, schedule[index], index)).join('')}
+            <button class="action secondary" data-action="addDay">Add Day</button>
+            ${this.renderBudget(trip)}
+        `;
+    }
+
+    private renderDay(trip: Trip, schedule: TripDaySchedule, dayIndex: number): string {
+        const day = trip.days[dayIndex];
+        const totals = day.stops.length === 0 ? 'No stops yet' : [
+            `${day.stops.length} stop(s)`,
+            `${formatDuration(schedule.travelMinutes)} travel (${schedule.distanceKm.toFixed(1)} km)`,
+            `${formatDuration(schedule.visitMinutes)} visiting`
+        ].join(' • ');
+
+        return `
+            <section class="day" style="--day-color: ${this.planner.dayColor(dayIndex)}">
+                <div class="day-header">
+                    <h2>Day ${dayIndex + 1}</h2>
+                    <input class="day-title" data-change="setDayTitle" data-day="${dayIndex}" value="${escapeHtml(day.title ?? '')}" placeholder="Title">
+                    <button class="icon" data-action="removeDay" data-day="${dayIndex}" title="Remove day"${trip.days.length === 1 ? ' disabled' : ''}>✕</button>
+                </div>
+                <div class="day-totals">${escapeHtml(totals)}</div>
+                ${schedule.overbookedMinutes > 0 ? `
+                    <div class="warning">
+                        Overbooked by ${formatDuration(schedule.overbookedMinutes)}: the plan ends at ${formatClock(schedule.departures[schedule.departures.length - 1])},
+                        beyond the ${trip.dayHours} hours set per day.
+                    </div>
+                ` : ''}
+                ${day.stops.length === 0 ? '<div class="empty">Add places to visit on this day, or click the map.</div>' : ''}
+                ${day.stops.map((stop, index) => {
+                    const route = schedule.routes[index];
+                    return `
+                        ${route ? `
+                            <div class="leg">↓ ${formatDuration(route.durationMinutes)} • ${route.distanceKm.toFixed(1)} km${route.approximate ? ' (straight-line estimate)' : ''}</div>
+                        ` : index > 0 ? '<div class="leg">↓ Route not looked up yet</div>' : ''}
+                        <div class="stop">
+                            <span class="stop-number">${index + 1}</span>
+                            <span class="stop-name" data-action="focusStop" data-day="${dayIndex}" data-index="${index}" title="Show on the map">
+                                ${escapeHtml(stop.name)}
+                                <small>${formatClock(schedule.arrivals[index])}–${formatClock(schedule.departures[index])}</small>
+                                ${stop.notes ? `<small class="notes">${escapeHtml(stop.notes)}</small>` : ''}
+                            </span>
+                            <label><input type="number" min="0" max="1440" step="15" data-change="setVisitMinutes" data-day="${dayIndex}" data-index="${index}"
+                                value="${stop.visitMinutes}" title="Minutes at this stop"> min</label>
+                            ${trip.days.length > 1 ? `
+                                <select data-change="moveStopToDay" data-day="${dayIndex}" data-index="${index}" title="Move to another day">
+                                    ${trip.days.map((_, target) => `<option value="${target}"${target === dayIndex ? ' selected' : ''}>Day ${target + 1}</option>`).join('')}
+                                </select>
+                            ` : ''}
+                            <button class="icon" data-action="editStopNotes" data-day="${dayIndex}" data-index="${index}" title="Edit notes">✎</button>
+                            <button class="icon" data-action="moveStop" data-day="${dayIndex}" data-index="${index}" data-delta="-1" title="Move up"${index === 0 ? ' disabled' : ''}>▲</button>
+                            <button class="icon" data-action="moveStop" data-day="${dayIndex}" data-index="${index}" data-delta="1" title="Move down"${index === day.stops.length - 1 ? ' disabled' : ''}>▼</button>
+                            <button class="icon" data-action="removeStop" data-day="${dayIndex}" data-index="${index}" title="Remove stop">✕</button>
+                        </div>
+                    `;
+                }).join('')}
+                <textarea data-change="setDayNotes" data-day="${dayIndex}" rows="1" placeholder="Notes for this day">${escapeHtml(day.notes ?? '')}</textarea>
+                <div class="day-actions">
+                    <button class="action secondary" data-action="addStop" data-day="${dayIndex}">Add Stop...</button>
+                </div>
+            </section>
+        `;
+    }
+
+    private renderBudget(trip: Trip): string {
+        const budget = trip.budget;
+        const total = budgetTotal(budget);
+        const money = (amount: number) => `${escapeHtml(budget.currency)} ${amount.toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+
+        return `
+            <section class="budget">
+                <div class="day-header">
+                    <h2>Budget</h2>
+                    <span class="day-totals">${money(total)}${budget.limit !== undefined ? ` of ${money(budget.limit)}` : ''}</span>
+                </div>
+                <div class="settings">
+                    <label>Currency <input class="currency" data-change="setCurrency" value="${escapeHtml(budget.currency)}" maxlength="3"></label>
+                    <label>Limit <input type="number" min="0" data-change="setBudgetLimit" value="${budget.limit ?? ''}" placeholder="None"></label>
+                </div>
+                ${budget.limit !== undefined && total > budget.limit ? `
+                    <div class="warning">Over budget by ${money(total - budget.limit)}.</div>
+                ` : ''}
+                ${budget.items.length === 0 ? '<div class="empty">No expenses yet.</div>' : ''}
+                ${budget.items.map((item, index) => `
+                    <div class="stop">
+                        <input class="expense-label" data-change="setExpenseLabel" data-index="${index}" value="${escapeHtml(item.label)}">
+                        <select data-change="setExpenseDay" data-index="${index}" title="Day of the expense">
+                            <option value=""${item.day === undefined ? ' selected' : ''}>Whole trip</option>
+                            ${trip.days.map((_, dayIndex) => `<option value="${dayIndex + 1}"${item.day === dayIndex + 1 ? ' selected' : ''}>Day ${dayIndex + 1}</option>`).join('')}
+                        </select>
+                        <input type="number" step="any" data-change="setExpenseAmount" data-index="${index}" value="${item.amount}" title="Amount in ${escapeHtml(budget.currency)}">
+                        <button class="icon" data-action="removeExpense" data-index="${index}" title="Remove expense">✕</button>
+                    </div>
+                `).join('')}
+                <div class="day-actions">
+                    <button class="action secondary" data-action="addExpense">Add Expense...</button>
+                </div>
+            </section>
+        `;
+    }
+
+    private _getHtmlForWebview(webview: vscode.Webview): string {
+        const assets = getMapAssets(webview, this.context.extensionUri);
+        const nonce = getNonce();
+
+        return `
+            <!DOCTYPE html>
+            <html>
+            <head>
+                <meta charset="UTF-8">
+                <meta http-equiv="Content-Security-Policy" content="${getContentSecurityPolicy(webview, nonce)}">
+                <meta name="viewport" content="width=device-width, initial-scale=1.0">
+                <title>Trip</title>
+                <link rel="stylesheet" href="${assets.leafletCss}" />
+                <script nonce="${nonce}" src="${assets.leafletJs}"></script>
+                <style>
+                    html, body {
+                        height: 100%;
+                    }
+
+                    body {
+                        display: flex;
+                        margin: 0;
+                        padding: 0;
+                        font-family: var(--vscode-font-family);
+                        color: var(--vscode-foreground);
+                        background: var(--vscode-editor-background);
+                    }
+
+                    #trip {
+                        width: 460px;
+                        max-width: 50%;
+                        box-sizing: border-box;
+                        padding: 16px 20px 48px;
+                        overflow-y: auto;
+                        border-right: 1px solid var(--vscode-panel-border);
+                    }
+
+                    #map {
+                        flex: 1;
+                    }
+
+                    header {
+                        display: flex;
+                        flex-wrap: wrap;
+                        align-items: center;
+                        gap: 8px;
+                    }
+
+                    header h1 {
+                        flex: 1 1 100%;
+                        margin: 0 0 4px;
+                    }
+
+                    .settings {
+                        display: flex;
+                        flex-wrap: wrap;
+                        gap: 12px;
+                        margin: 12px 0;
+                    }
+
+                    .settings label {
+                        display: flex;
+                        align-items: center;
+                        gap: 6px;
+                    }
+
+                    input, select, textarea {
+                        padding: 3px 6px;
+                        font: inherit;
+                        color: var(--vscode-input-foreground);
+                        background: var(--vscode-input-background);
+                        border: 1px solid var(--vscode-input-border, var(--vscode-panel-border));
+                    }
+
+                    textarea {
+                        display: block;
+                        width: 100%;
+                        box-sizing: border-box;
+                        margin-bottom: 12px;
+                        resize: vertical;
+                    }
+
+                    input[type="number"] {
+                        width: 64px;
+                    }
+
+                    input.currency {
+                        width: 48px;
+                    }
+
+                    .day, .budget {
+                        margin: 16px 0;
+                        border: 1px solid var(--vscode-panel-border);
+                        border-left: 4px solid var(--day-color, var(--vscode-panel-border));
+                        border-radius: 6px;
+                    }
+
+                    .day textarea, .budget .settings {
+                        width: calc(100% - 28px);
+                        margin: 8px 14px 0;
+                    }
+
+                    .day-header {
+                        display: flex;
+                        align-items: center;
+                        gap: 10px;
+                        padding: 10px 14px 4px;
+                    }
+
+                    .day-header h2 {
+                        margin: 0;
+                        font-size: 1.1em;
+                        white-space: nowrap;
+                    }
+
+                    .day-title, .expense-label {
+                        flex: 1;
+                        min-width: 0;
+                    }
+
+                    .day-totals {
+                        flex: 1;
+                        padding: 0 14px 6px;
+                        opacity: 0.8;
+                    }
+
+                    .day-header .day-totals {
+                        padding: 0;
+                        text-align: right;
+                    }
+
+                    .warning {
+                        margin: 8px 0;
+                        padding: 6px 10px;
+                        border-radius: 4px;
+                        color: var(--vscode-inputValidation-errorForeground, inherit);
+                        background: var(--vscode-inputValidation-errorBackground);
+                        border: 1px solid var(--vscode-inputValidation-errorBorder);
+                    }
+
+                    .day .warning, .budget .warning {
+                        margin: 4px 14px 8px;
+                    }
+
+                    .leg {
+                        padding: 2px 14px 2px 52px;
+                        font-size: 0.9em;
+                        opacity: 0.75;
+                    }
+
+                    .stop {
+                        display: flex;
+                        align-items: center;
+                        gap: 6px;
+                        padding: 6px 14px;
+                    }
+
+                    .stop-number {
+                        display: inline-flex;
+                        align-items: center;
+                        justify-content: center;
+                        width: 26px;
+                        height: 26px;
+                        border-radius: 50%;
+                        color: #fff;
+                        background: var(--day-color);
+                        font-weight: 600;
+                        flex-shrink: 0;
+                    }
+
+                    .stop-name {
+                        flex: 1;
+                        min-width: 0;
+                        cursor: pointer;
+                    }
+
+                    .stop-name small {
+                        display: block;
+                        opacity: 0.75;
+                    }
+
+                    .stop-name small.notes {
+                        font-style: italic;
+                    }
+
+                    .day-actions {
+                        padding: 8px 14px 12px;
+                    }
+
+                    button.action {
+                        padding: 4px 12px;
+                        border: none;
+                        border-radius: 2px;
+                        background: var(--vscode-button-background);
+                        color: var(--vscode-button-foreground);
+                        cursor: pointer;
+                    }
+
+                    button.action:hover {
+                        background: var(--vscode-button-hoverBackground);
+                    }
+
+                    button.action:disabled {
+                        opacity: 0.5;
+                        cursor: default;
+                    }
+
+                    button.secondary {
+                        background: var(--vscode-button-secondaryBackground);
+                        color: var(--vscode-button-secondaryForeground);
+                    }
+
+                    button.icon {
+                        padding: 2px 4px;
+                        border: none;
+                        background: none;
+                        color: inherit;
+                        cursor: pointer;
+                        opacity: 0.75;
+                    }
+
+                    button.icon:hover {
+                        opacity: 1;
+                    }
+
+                    button.icon:disabled {
+                        visibility: hidden;
+                    }
+
+                    .empty {
+                        padding: 8px 14px;
+                        opacity: 0.75;
+                    }
+
+                    .trip-marker span {
+                        display: flex;
+                        align-items: center;
+                        justify-content: center;
+                        width: 28px;
+                        height: 28px;
+                        border: 2px solid #fff;
+                        border-radius: 50%;
+                        box-sizing: border-box;
+                        color: #fff;
+                        font-weight: 700;
+                        font-size: 13px;
+                        box-shadow: 0 1px 4px rgba(0,0,0,0.4);
+                    }
+
+                    .leaflet-popup-content h3 {
+                        margin: 0 0 4px;
+                    }
+                </style>
+            </head>
+            <body>
+                <div id="trip"></div>
+                <div id="map"></div>
+
+                <script nonce="${nonce}">
+                    const vscode = acquireVsCodeApi();
+                    const tileSource = ${JSON.stringify(this.apiManager.getTileSourceInfo())};
+                    const pendingTiles = new Map();
+                    let nextTileId = 0;
+                    let markers = new Map();
+                    let tripLayer = null;
+
+                    // Tiles come from the extension's offline cache, as on the main map
+                    const CachedTileLayer = L.TileLayer.extend({
+                        createTile: function(coords, done) {
+                            const tile = document.createElement('img');
+                            const id = ++nextTileId;
+                            tile.alt = '';
+                            tile.dataset.tileId = String(id);
+                            pendingTiles.set(id, { tile, done });
+                            vscode.postMessage({ command: 'getTile', id, z: coords.z, x: coords.x, y: coords.y });
+                            return tile;
+                        }
+                    });
+
+                    const map = L.map('map').setView([20.5937, 78.9629], 5);
+                    const tileLayer = new CachedTileLayer('', {
+                        attribution: tileSource.attribution,
+                        maxZoom: tileSource.maxZoom,
+                        minZoom: 3
+                    }).addTo(map);
+                    tileLayer.on('tileunload', (e) => {
+                        pendingTiles.delete(Number(e.tile.dataset.tileId));
+                    });
+                    L.control.scale().addTo(map);
+
+                    // A click on the map offers to add a stop there
+                    map.on('click', (e) => {
+                        const lat = e.latlng.lat.toFixed(6);
+                        const lng = e.latlng.lng.toFixed(6);
+                        L.popup()
+                            .setLatLng(e.latlng)
+                            .setContent(\`<button class="action" data-action="addStopAt" data-lat="\${lat}" data-lng="\${lng}">Add Stop Here...</button>\`)
+                            .openOn(map);
+                    });
+
+                    function handleTileData(id, dataUrl) {
+                        const pending = pendingTiles.get(id);
+                        if (!pending) {
+                            return;
+                        }
+                        pendingTiles.delete(id);
+                        if (!dataUrl) {
+                            pending.done(new Error('Tile not available offline'), pending.tile);
+                            return;
+                        }
+                        pending.tile.onload = () => pending.done(null, pending.tile);
+                        pending.tile.onerror = () => pending.done(new Error('Invalid tile'), pending.tile);
+                        pending.tile.src = dataUrl;
+                    }
+
+                    function escapeHtml(text) {
+                        const div = document.createElement('div');
+                        div.textContent = text;
+                        return div.innerHTML;
+                    }
+
+                    // The whole trip is redrawn on every change; trips are small enough for that
+                    function showTrip(days, fit) {
+                        if (tripLayer) {
+                            map.removeLayer(tripLayer);
+                        }
+                        tripLayer = L.featureGroup().addTo(map);
+                        markers = new Map();
+                        days.forEach(day => {
+                            day.legs.forEach(leg => {
+                                L.polyline(leg.coordinates.map(([lng, lat]) => [lat, lng]), {
+                                    color: day.color,
+                                    weight: 5,
+                                    opacity: 0.8,
+                                    dashArray: leg.approximate ? '8 8' : null
+                                }).addTo(tripLayer);
+                            });
+                            day.stops.forEach(stop => {
+                                const marker = L.marker([stop.lat, stop.lng], {
+                                    icon: L.divIcon({
+                                        className: 'trip-marker',
+                                        html: \`<span style="background: \${day.color}">\${stop.number}</span>\`,
+                                        iconSize: [28, 28],
+                                        iconAnchor: [14, 14]
+                                    })
+                                })
+                                    .addTo(tripLayer)
+                                    .bindPopup(\`<h3>\${escapeHtml(stop.name)}</h3>Day \${day.day}, stop \${stop.number} • arrive \${stop.arrival}\`);
+                                markers.set(\`\${day.day - 1}:\${stop.number - 1}\`, marker);
+                            });
+                        });
+                        const bounds = tripLayer.getBounds();
+                        if (fit && bounds.isValid()) {
+                            map.fitBounds(bounds, { padding: [40, 40], maxZoom: 15 });
+                        }
+                    }
+
+                    // Inline handlers are blocked by the Content-Security-Policy
+                    document.addEventListener('click', (e) => {
+                        const target = e.target.closest('[data-action]');
+                        if (!target || target.disabled) {
+                            return;
+                        }
+                        if (target.dataset.action === 'focusStop') {
+                            const marker = markers.get(\`\${target.dataset.day}:\${target.dataset.index}\`);
+                            if (marker) {
+                                map.setView(marker.getLatLng(), Math.max(map.getZoom(), 14));
+                                marker.openPopup();
+                            }
+                            return;
+                        }
+                        map.closePopup();
+                        vscode.postMessage({ ...target.dataset, command: target.dataset.action });
+                    });
+
+                    // Fields name the setting they change in data-change
+                    document.addEventListener('change', (e) => {
+                        const target = e.target.closest('[data-change]');
+                        if (target) {
+                            vscode.postMessage({ ...target.dataset, command: target.dataset.change, value: target.value });
+                        }
+                    });
+
+                    window.addEventListener('message', event => {
+                        const message = event.data;
+                        switch (message.command) {
+                            case 'tileData':
+                                handleTileData(message.id, message.dataUrl);
+                                break;
+                            case 'update': {
+                                const list = document.getElementById('trip');
+                                const scrollTop = list.scrollTop;
+                                list.innerHTML = message.html;
+                                list.scrollTop = scrollTop;
+                                showTrip(message.map || [], message.fit);
+                                break;
+                            }
+                        }
+                    });
+
+                    vscode.postMessage({ command: 'ready' });
+                </script>
+            </body>
+            </html>
+        `;
+    }
+}
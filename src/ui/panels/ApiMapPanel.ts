@@ -1,11 +1,23 @@
 import * as vscode from 'vscode';
 import { MapApiManager, Place } from '../../map/mapApiManager';
+import { DatabaseManager } from '../../storage/database';
+import { ContentManager, GuideMatch } from '../../guide/contentManager';
+import { GUIDE_SECTION_TITLES, GuideSections } from '../../guide/guidePack';
+import { OverlayManager } from '../../overlays/overlayManager';
+import { ExportableRoute } from '../../overlays/tripExporter';
+import { LatLng } from '../../providers/types';
+import { getAssetRoots, getContentSecurityPolicy, getMapAssets, getNonce } from '../webviewAssets';
 
 export class ApiMapPanel {
     public static currentPanel: ApiMapPanel | undefined;
     private readonly _panel: vscode.WebviewPanel;
     private readonly _extensionUri: vscode.Uri;
     private _disposables: vscode.Disposable[] = [];
+    private _pendingRequests: Map<number, (result: any) => void> = new Map();
+    private _nextRequestId = 0;
+    // The active route on the map, kept so it can be exported; the others drawn with it are kept to switch to
+    private _currentRoute: ExportableRoute | undefined;
+    private _routeAlternatives: { start: LatLng; end: LatLng; routes: any[] } | undefined;
 
     public static sendMessageToWebview(message: any) {
         if (ApiMapPanel.currentPanel) {
@@ -13,11 +25,30 @@ export class ApiMapPanel {
         }
     }
 
+    // Asks the webview for something and waits for its 'response' message
+    public static requestFromWebview<T>(command: string, payload: object = {}): Promise<T | undefined> {
+        const panel = ApiMapPanel.currentPanel;
+        if (!panel) {
+            return Promise.resolve(undefined);
+        }
+
+        const requestId = ++panel._nextRequestId;
+        return new Promise<T | undefined>(resolve => {
+            panel._pendingRequests.set(requestId, resolve);
+            panel._panel.webview.postMessage({ command, requestId, ...payload });
+        });
+    }
+
+    public static getCurrentRoute(): ExportableRoute | undefined {
+        return ApiMapPanel.currentPanel?._currentRoute;
+    }
+
     public static createOrShow(
         context: vscode.ExtensionContext,
-        databaseManager: any,
-        contentManager: any,
-        apiManager: MapApiManager
+        databaseManager: DatabaseManager,
+        contentManager: ContentManager,
+        apiManager: MapApiManager,
+        overlayManager: OverlayManager
     ) {
         const column = vscode.window.activeTextEditor
             ? vscode.window.activeTextEditor.viewColumn
@@ -35,17 +66,19 @@ export class ApiMapPanel {
             {
                 enableScripts: true,
                 retainContextWhenHidden: true,
-                localResourceRoots: []
+                localResourceRoots: getAssetRoots(context.extensionUri)
             }
         );
 
-        ApiMapPanel.currentPanel = new ApiMapPanel(panel, context, apiManager);
+        ApiMapPanel.currentPanel = new ApiMapPanel(panel, context, contentManager, apiManager, overlayManager);
     }
 
     private constructor(
         panel: vscode.WebviewPanel,
         private context: vscode.ExtensionContext,
-        private apiManager: MapApiManager
+        private contentManager: ContentManager,
+        private apiManager: MapApiManager,
+        private overlayManager: OverlayManager
     ) {
         this._panel = panel;
         this._extensionUri = context.extensionUri;
@@ -54,55 +87,206 @@ export class ApiMapPanel {
 
         this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
 
+        vscode.workspace.onDidChangeConfiguration(e => {
+            if (e.affectsConfiguration('offlineMap.offlineMode')) {
+                this._panel.webview.postMessage({
+                    command: 'setOfflineMode',
+                    offline: this.apiManager.isOfflineMode()
+                });
+            }
+        }, null, this._disposables);
+
+        this.apiManager.onDidChangeProviders(() => {
+            this._panel.webview.postMessage({
+                command: 'setTileSource',
+                source: this.apiManager.getTileSourceInfo()
+            });
+        }, null, this._disposables);
+
+        this.overlayManager.onDidChange(() => this.postOverlays(), null, this._disposables);
+        this.apiManager.searchHistory.onDidChange(() => this.postSearchHistory(), null, this._disposables);
+
         this._panel.webview.onDidReceiveMessage(
-            async (message) => {
-                switch (message.command) {
-                    case 'searchLocation':
-                        const results = await this.apiManager.searchLocation(message.query);
-                        this._panel.webview.postMessage({
-                            command: 'searchResults',
-                            results: results
-                        });
-                        break;
-                    case 'getNearbyPlaces':
-                        const nearbyPlaces = await this.apiManager.getNearbyPlaces(
-                            message.lat, 
-                            message.lng, 
-                            message.category
-                        );
-                        this._panel.webview.postMessage({
-                            command: 'showNearbyPlaces',
-                            places: nearbyPlaces,
-                            category: message.category
-                        });
-                        break;
-                    case 'getDirections':
-                        const directions = await this.apiManager.getDirections(
-                            message.start, 
-                            message.destination, 
-                            message.mode
-                        );
-                        this._panel.webview.postMessage({
-                            command: 'showDirections',
-                            directions: directions
-                        });
-                        break;
-                    case 'getExactLocation':
-                        this.getExactLocation();
-                        break;
-                    case 'showInfo':
-                        vscode.window.showInformationMessage(message.text);
-                        break;
-                    case 'showError':
-                        vscode.window.showErrorMessage(message.text);
-                        break;
-                }
-            },
+            message => this.handleMessage(message).catch(error => {
+                vscode.window.showErrorMessage(`Map action failed: ${error instanceof Error ? error.message : error}`);
+            }),
             null,
             this._disposables
         );
     }
 
+    private async handleMessage(message: any): Promise<void> {
+        switch (message.command) {
+            case 'searchLocation':
+                const results = await this.apiManager.searchLocation(message.query);
+                this._panel.webview.postMessage({
+                    command: 'searchResults',
+                    results: results,
+                    query: message.query
+                });
+                break;
+            case 'getSearchHistory':
+                this.postSearchHistory();
+                break;
+            case 'recordSearch':
+                await this.apiManager.searchHistory.record(message.query, message.resultCount, message.place);
+                break;
+            case 'getNearbyPlaces':
+                const nearbyPlaces = await this.apiManager.getNearbyPlaces(
+                    message.lat, 
+                    message.lng, 
+                    message.category
+                );
+                this._panel.webview.postMessage({
+                    command: 'showNearbyPlaces',
+                    places: nearbyPlaces,
+                    category: message.category
+                });
+                break;
+            case 'getDirections':
+                const routes = await this.apiManager.getRouteAlternatives(
+                    message.start, 
+                    message.destination, 
+                    message.mode
+                );
+                this._routeAlternatives = { start: message.start, end: message.destination, routes };
+                this.setActiveRoute(0);
+                this._panel.webview.postMessage({
+                    command: 'showDirections',
+                    routes: routes
+                });
+                break;
+            case 'selectRoute':
+                this.setActiveRoute(message.index);
+                break;
+            case 'reverseGeocode':
+                const place = await this.apiManager.reverseGeocode(message.lat, message.lng);
+                this._panel.webview.postMessage({
+                    command: 'reverseGeocodeResult',
+                    requestId: message.requestId,
+                    place: place
+                });
+                break;
+            case 'getGuide':
+                const guideLookup = message.guideFocus
+                    ? this.contentManager.getFocusedGuide(message.guideFocus)
+                    : this.contentManager.findGuideFor(message.lat, message.lng);
+                const guide = await guideLookup.catch(error => {
+                    console.error('Guide lookup failed:', error);
+                    return undefined;
+                });
+                this._panel.webview.postMessage({
+                    command: 'guideResult',
+                    requestId: message.requestId,
+                    guide: guide ? this.toGuideSummary(guide) : null
+                });
+                break;
+            case 'openGuide':
+                vscode.commands.executeCommand('offlineMap.openGuide', message.id);
+                break;
+            case 'savePlace':
+                vscode.commands.executeCommand('offlineMap.savePlace', message.place);
+                break;
+            case 'getTile':
+                const tile = await this.apiManager.getTile(message.z, message.x, message.y);
+                this._panel.webview.postMessage({
+                    command: 'tileData',
+                    id: message.id,
+                    dataUrl: tile ? `data:${tile.mimeType};base64,${tile.data.toString('base64')}` : null
+                });
+                break;
+            case 'getExactLocation':
+                this.getExactLocation();
+                break;
+            case 'exportRoute':
+                vscode.commands.executeCommand('offlineMap.exportRoute');
+                break;
+            case 'getOverlays':
+                this.postOverlays();
+                break;
+            case 'importOverlays':
+                this.focusOverlay(await this.overlayManager.promptAndImport());
+                break;
+            case 'dropOverlayFiles': {
+                const uris = (message.uris as string[]).map(uri => vscode.Uri.parse(uri));
+                this.focusOverlay(await this.overlayManager.importUris(uris, message.files));
+                break;
+            }
+            case 'setOverlayVisible':
+                await this.overlayManager.setVisible(message.id, message.visible);
+                break;
+            case 'removeOverlay':
+                await this.overlayManager.promptAndRemove(message.id);
+                break;
+            case 'response':
+                const resolve = this._pendingRequests.get(message.requestId);
+                if (resolve) {
+                    this._pendingRequests.delete(message.requestId);
+                    resolve(message.result ?? undefined);
+                }
+                break;
+            case 'downloadRegion':
+                vscode.commands.executeCommand('offlineMap.downloadRegion', message.bounds);
+                break;
+            case 'showInfo':
+                vscode.window.showInformationMessage(message.text);
+                break;
+            case 'showError':
+                vscode.window.showErrorMessage(message.text);
+                break;
+        }
+    }
+
+    // Popups have room for a teaser only; the full guide opens in its own panel
+    private toGuideSummary(match: GuideMatch) {
+        const { pack, sight, section } = match;
+        const focusText = section && section !== 'sights' && section !== 'overview' ? pack.sections[section] : undefined;
+        return {
+            id: pack.id,
+            name: pack.name,
+            summary: firstParagraph(sight?.description || pack.sections.overview || '', 240),
+            bestSeason: firstParagraph(pack.sections.bestSeason || '', 120),
+            sight: sight ? { name: sight.name, entryFee: sight.entryFee, timings: sight.timings } : undefined,
+            // Set when the place was opened from a guide search; the popup shows this part expanded
+            expanded: !!section,
+            focus: section && focusText ? { title: GUIDE_SECTION_TITLES[section as keyof GuideSections], lines: textLines(focusText, 8) } : undefined
+        };
+    }
+
+    private async postOverlays() {
+        const overlays = await this.overlayManager.getOverlays().catch(error => {
+            console.error('Failed to load map overlays:', error);
+            return [];
+        });
+        this._panel.webview.postMessage({ command: 'setOverlays', overlays });
+    }
+
+    private setActiveRoute(index: number) {
+        const route = this._routeAlternatives?.routes[index];
+        this._currentRoute = route ? {
+            start: this._routeAlternatives!.start,
+            end: this._routeAlternatives!.end,
+            mode: route.mode,
+            distanceMeters: route.distanceMeters,
+            durationSeconds: route.durationSeconds,
+            geometry: route.geometry
+        } : undefined;
+    }
+
+    private async postSearchHistory() {
+        const entries = await this.apiManager.searchHistory.getEntries().catch(error => {
+            console.error('Failed to load search history:', error);
+            return [];
+        });
+        this._panel.webview.postMessage({ command: 'setSearchHistory', entries });
+    }
+
+    private focusOverlay(ids: number[]) {
+        if (ids.length > 0) {
+            this._panel.webview.postMessage({ command: 'focusOverlay', id: ids[0] });
+        }
+    }
+
     private async getExactLocation() {
         try {
             // Try to get exact location using browser geolocation
@@ -131,17 +315,20 @@ export class ApiMapPanel {
 
     private _getHtmlForWebview(webview: vscode.Webview): string {
         const categories = this.apiManager.getPlaceCategories();
+        const assets = getMapAssets(webview, this._extensionUri);
+        const nonce = getNonce();
         
         return `
             <!DOCTYPE html>
             <html>
             <head>
                 <meta charset="UTF-8">
+                <meta http-equiv="Content-Security-Policy" content="${getContentSecurityPolicy(webview, nonce)}">
                 <meta name="viewport" content="width=device-width, initial-scale=1.0">
                 <title>India Travel Guide</title>
-                <link rel="stylesheet" href="https://unpkg.com/leaflet@1.9.4/dist/leaflet.css" />
-                <script src="https://unpkg.com/leaflet@1.9.4/dist/leaflet.js"></script>
-                <link rel="stylesheet" href="https://cdnjs.cloudflare.com/ajax/libs/font-awesome/6.0.0/css/all.min.css">
+                <link rel="stylesheet" href="${assets.leafletCss}" />
+                <script nonce="${nonce}" src="${assets.leafletJs}"></script>
+                <link rel="stylesheet" href="${assets.fontAwesomeCss}">
                 <style>
                     * {
                         margin: 0;
@@ -236,6 +423,12 @@ export class ApiMapPanel {
                         color: #666;
                     }
                     
+                    .search-history-item .result-name i {
+                        color: #999;
+                        margin-right: 6px;
+                        font-size: 12px;
+                    }
+                    
                     /* Controls */
                     .controls {
                         position: absolute;
@@ -381,6 +574,11 @@ export class ApiMapPanel {
                         margin-bottom: 5px;
                     }
                     
+                    .place-distance {
+                        color: #999;
+                        font-size: 12px;
+                    }
+                    
                     .place-rating {
                         color: #ffc107;
                         font-size: 12px;
@@ -437,6 +635,77 @@ export class ApiMapPanel {
                         font-weight: 600;
                     }
                     
+                    .route-compare {
+                        width: 100%;
+                        border-collapse: collapse;
+                        margin-bottom: 10px;
+                        font-size: 12px;
+                    }
+                    
+                    .route-compare th {
+                        text-align: left;
+                        color: #666;
+                        font-weight: 600;
+                        padding: 4px;
+                    }
+                    
+                    .route-compare td {
+                        padding: 6px 4px;
+                        border-top: 1px solid #d6e6f5;
+                    }
+                    
+                    .route-option {
+                        cursor: pointer;
+                    }
+                    
+                    .route-option:hover, .route-option.active {
+                        background: #d2e7fb;
+                    }
+                    
+                    .route-option.active td {
+                        font-weight: 600;
+                    }
+                    
+                    .route-swatch {
+                        display: inline-block;
+                        width: 10px;
+                        height: 10px;
+                        border-radius: 50%;
+                        margin-right: 6px;
+                    }
+                    
+                    .route-steps {
+                        max-height: 35vh;
+                        overflow-y: auto;
+                        margin-bottom: 15px;
+                    }
+                    
+                    .route-step {
+                        display: flex;
+                        gap: 10px;
+                        padding: 8px;
+                        border-bottom: 1px solid #eee;
+                        cursor: pointer;
+                        font-size: 13px;
+                    }
+                    
+                    .route-step:hover, .route-step.active {
+                        background: #f0f7ff;
+                    }
+                    
+                    .route-step i {
+                        width: 16px;
+                        margin-top: 2px;
+                        color: #4285f4;
+                        text-align: center;
+                    }
+                    
+                    .step-distance {
+                        margin-left: auto;
+                        color: #999;
+                        white-space: nowrap;
+                    }
+                    
                     .travel-modes {
                         display: flex;
                         gap: 10px;
@@ -481,6 +750,55 @@ export class ApiMapPanel {
                         font-size: 14px;
                     }
                     
+                    .place-details {
+                        margin: 0 0 10px 0;
+                        font-size: 13px;
+                        color: #555;
+                    }
+                    
+                    .place-details td {
+                        padding: 2px 8px 2px 0;
+                        vertical-align: top;
+                    }
+                    
+                    .place-details td:first-child {
+                        color: #999;
+                    }
+                    
+                    .popup-guide {
+                        margin: 0 0 10px 0;
+                        padding: 8px 10px;
+                        background: #fff8e1;
+                        border-radius: 6px;
+                        font-size: 13px;
+                    }
+                    
+                    .popup-guide summary {
+                        cursor: pointer;
+                        font-weight: 600;
+                        color: #8d6e00;
+                    }
+                    
+                    .popup-guide p {
+                        margin: 8px 0;
+                        font-size: 13px;
+                    }
+                    
+                    .popup-guide-focus {
+                        max-height: 180px;
+                        overflow-y: auto;
+                    }
+                    
+                    .popup-guide-focus h4 {
+                        margin: 8px 0 4px 0;
+                    }
+                    
+                    .popup-guide .popup-btn {
+                        width: 100%;
+                        padding: 6px;
+                        font-size: 13px;
+                    }
+                    
                     .popup-actions {
                         display: flex;
                         gap: 10px;
@@ -507,6 +825,114 @@ export class ApiMapPanel {
                         color: #333;
                     }
                     
+                    .itinerary-marker span {
+                        display: flex;
+                        align-items: center;
+                        justify-content: center;
+                        width: 28px;
+                        height: 28px;
+                        border: 2px solid #fff;
+                        border-radius: 50%;
+                        box-sizing: border-box;
+                        color: #fff;
+                        font-weight: 700;
+                        font-size: 13px;
+                        box-shadow: 0 1px 4px rgba(0,0,0,0.4);
+                    }
+                    
+                    /* Overlays Panel */
+                    .overlays-panel {
+                        position: absolute;
+                        top: 20px;
+                        right: 80px;
+                        background: white;
+                        border-radius: 15px;
+                        box-shadow: 0 4px 20px rgba(0,0,0,0.15);
+                        padding: 15px;
+                        z-index: 1000;
+                        width: 320px;
+                        max-height: calc(100vh - 40px);
+                        overflow-y: auto;
+                        display: none;
+                    }
+                    
+                    .overlays-header {
+                        display: flex;
+                        justify-content: space-between;
+                        align-items: center;
+                        margin-bottom: 10px;
+                    }
+                    
+                    .overlay-item {
+                        display: flex;
+                        align-items: center;
+                        gap: 10px;
+                        padding: 8px 0;
+                        border-bottom: 1px solid #f0f0f0;
+                    }
+                    
+                    .overlay-item.hidden .overlay-info {
+                        opacity: 0.5;
+                    }
+                    
+                    .overlay-swatch {
+                        width: 12px;
+                        height: 12px;
+                        border-radius: 3px;
+                        flex-shrink: 0;
+                    }
+                    
+                    .overlay-info {
+                        flex: 1;
+                        min-width: 0;
+                        cursor: pointer;
+                    }
+                    
+                    .overlay-name {
+                        font-weight: 600;
+                        font-size: 14px;
+                        overflow: hidden;
+                        text-overflow: ellipsis;
+                        white-space: nowrap;
+                    }
+                    
+                    .overlay-meta, .overlay-empty {
+                        font-size: 12px;
+                        color: #666;
+                    }
+                    
+                    .overlay-btn {
+                        background: none;
+                        border: none;
+                        cursor: pointer;
+                        color: #666;
+                        padding: 4px;
+                    }
+                    
+                    .drop-hint {
+                        position: absolute;
+                        inset: 0;
+                        z-index: 2000;
+                        display: none;
+                        align-items: center;
+                        justify-content: center;
+                        background: rgba(26, 115, 232, 0.15);
+                        border: 3px dashed #1a73e8;
+                        font-size: 18px;
+                        font-weight: 600;
+                        color: #1a73e8;
+                        pointer-events: none;
+                    }
+                    
+                    .btn-link {
+                        display: block;
+                        width: 100%;
+                        margin-top: 8px;
+                        padding: 6px;
+                        background: none;
+                        color: #1a73e8;
+                    }
+                    
                     .popup-btn:hover {
                         transform: translateY(-1px);
                         box-shadow: 0 2px 5px rgba(0,0,0,0.2);
@@ -616,6 +1042,31 @@ export class ApiMapPanel {
                         display: none;
                     }
 
+                    /* Offline data indicators */
+                    .source-badge {
+                        display: inline-block;
+                        margin-left: 6px;
+                        padding: 1px 6px;
+                        border-radius: 8px;
+                        background: #fff3cd;
+                        color: #856404;
+                        font-size: 10px;
+                        font-weight: 600;
+                        vertical-align: middle;
+                    }
+
+                    .offline-banner {
+                        background: #fff3cd;
+                        color: #856404;
+                        border-radius: 25px;
+                        box-shadow: 0 2px 10px rgba(0,0,0,0.1);
+                        padding: 10px 16px;
+                        font-size: 13px;
+                        font-weight: 600;
+                        white-space: nowrap;
+                        display: none;
+                    }
+
                     .accuracy-high { color: #34a853; }
                     .accuracy-medium { color: #fbbc05; }
                     .accuracy-low { color: #ea4335; }
@@ -632,25 +1083,34 @@ export class ApiMapPanel {
                         <input type="text" class="search-input" id="searchInput" placeholder="Search any location in India...">
                         <div class="search-results" id="searchResults"></div>
                     </div>
+                    <div class="offline-banner" id="offlineBanner">
+                        <i class="fas fa-hard-drive"></i> Offline mode · local data only
+                    </div>
                 </div>
                 
                 <!-- Controls -->
                 <div class="controls">
-                    <button class="control-btn" onclick="toggleCategories()" title="Explore Categories">
+                    <button class="control-btn" data-action="toggleCategories" title="Explore Categories">
                         <i class="fas fa-layer-group"></i>
                     </button>
-                    <button class="control-btn" onclick="getExactLocation()" title="My Exact Location">
+                    <button class="control-btn" data-action="getExactLocation" title="My Exact Location">
                         <i class="fas fa-location-dot"></i>
                     </button>
-                    <button class="control-btn" onclick="locateMe()" title="Approximate Location">
+                    <button class="control-btn" data-action="locateMe" title="Approximate Location">
                         <i class="fas fa-location-crosshairs"></i>
                     </button>
-                    <button class="control-btn" onclick="zoomIn()" title="Zoom In">
+                    <button class="control-btn" data-action="zoomIn" title="Zoom In">
                         <i class="fas fa-plus"></i>
                     </button>
-                    <button class="control-btn" onclick="zoomOut()" title="Zoom Out">
+                    <button class="control-btn" data-action="zoomOut" title="Zoom Out">
                         <i class="fas fa-minus"></i>
                     </button>
+                    <button class="control-btn" data-action="toggleOverlays" title="Map Overlays (GPX, KML, GeoJSON)">
+                        <i class="fas fa-route"></i>
+                    </button>
+                    <button class="control-btn" data-action="downloadVisibleArea" title="Download Area for Offline Use">
+                        <i class="fas fa-download"></i>
+                    </button>
                 </div>
 
                 <!-- Location Accuracy Indicator -->
@@ -661,16 +1121,16 @@ export class ApiMapPanel {
 
                 <!-- Quick Actions - Indian Cities -->
                 <div class="quick-actions">
-                    <button class="quick-action-btn" onclick="searchPopularCity('Delhi')">
+                    <button class="quick-action-btn" data-action="searchPopularCity" data-city="Delhi">
                         <div class="india-flag"></div> Delhi
                     </button>
-                    <button class="quick-action-btn" onclick="searchPopularCity('Mumbai')">
+                    <button class="quick-action-btn" data-action="searchPopularCity" data-city="Mumbai">
                         <div class="india-flag"></div> Mumbai
                     </button>
-                    <button class="quick-action-btn" onclick="searchPopularCity('Bangalore')">
+                    <button class="quick-action-btn" data-action="searchPopularCity" data-city="Bangalore">
                         <div class="india-flag"></div> Bangalore
                     </button>
-                    <button class="quick-action-btn" onclick="searchPopularCity('Chennai')">
+                    <button class="quick-action-btn" data-action="searchPopularCity" data-city="Chennai">
                         <div class="india-flag"></div> Chennai
                     </button>
                 </div>
@@ -680,7 +1140,7 @@ export class ApiMapPanel {
                     <div class="categories-title">Explore Nearby Places</div>
                     <div class="category-list" id="categoryList">
                         ${categories.map(cat => `
-                            <button class="category-btn" onclick="findNearbyPlaces('${cat.id}')">
+                            <button class="category-btn" data-action="findNearbyPlaces" data-category="${cat.id}">
                                 <span class="category-icon">${cat.icon}</span>
                                 <span>${cat.name}</span>
                             </button>
@@ -689,10 +1149,20 @@ export class ApiMapPanel {
                 </div>
                 
                 <!-- Places Panel -->
+                <div class="overlays-panel" id="overlaysPanel">
+                    <div class="overlays-header">
+                        <div class="categories-title">Map Overlays</div>
+                        <button class="popup-btn" data-action="importOverlays"><i class="fas fa-file-import"></i> Import...</button>
+                    </div>
+                    <div id="overlayList"></div>
+                </div>
+                
+                <div class="drop-hint" id="dropHint">Drop GPX, KML or GeoJSON files to add them to the map</div>
+                
                 <div class="places-panel" id="placesPanel">
                     <div class="places-header">
                         <div class="places-title" id="placesTitle">Nearby Places</div>
-                        <button class="close-places" onclick="closePlacesPanel()">
+                        <button class="close-places" data-action="closePlacesPanel">
                             <i class="fas fa-times"></i>
                         </button>
                     </div>
@@ -703,16 +1173,17 @@ export class ApiMapPanel {
                 <div class="directions-panel" id="directionsPanel">
                     <div class="directions-header">
                         <div class="directions-title">Get Directions</div>
-                        <button class="close-directions" onclick="closeDirections()">
+                        <button class="close-directions" data-action="closeDirections">
                             <i class="fas fa-times"></i>
                         </button>
                     </div>
                     <div class="directions-content">
                         <div class="route-info" id="routeInfo"></div>
+                        <div class="route-steps" id="routeSteps"></div>
                         <div class="travel-modes">
-                            <button class="mode-btn active" onclick="setTravelMode('driving')">🚗 Drive</button>
-                            <button class="mode-btn" onclick="setTravelMode('walking')">🚶 Walk</button>
-                            <button class="mode-btn" onclick="setTravelMode('cycling')">🚴 Bike</button>
+                            <button class="mode-btn active" data-action="setTravelMode" data-mode="driving">🚗 Drive</button>
+                            <button class="mode-btn" data-action="setTravelMode" data-mode="walking">🚶 Walk</button>
+                            <button class="mode-btn" data-action="setTravelMode" data-mode="cycling">🚴 Bike</button>
                         </div>
                     </div>
                 </div>
@@ -722,43 +1193,142 @@ export class ApiMapPanel {
                     <i class="fas fa-spinner fa-spin"></i> Loading...
                 </div>
 
-                <script>
+                <script nonce="${nonce}">
+                    const vscode = acquireVsCodeApi();
+
                     // Global variables
                     let map;
+                    let tileLayer;
                     let markers = [];
                     let currentLocationMarker = null;
                     let accuracyCircle = null;
-                    let routeLine = null;
+                    // Every route of the last directions request; the active one shows its steps
+                    let directionRoutes = [];
+                    let routeLines = [];
+                    let activeRouteIndex = 0;
+                    let routeSteps = [];
+                    let stepHighlight = null;
                     let selectedLocation = null;
                     let currentTravelMode = 'driving';
                     let watchId = null;
+                    let offlineMode = ${this.apiManager.isOfflineMode()};
+                    const initialTileSource = ${JSON.stringify(this.apiManager.getTileSourceInfo())};
+                    let drawingRectangle = false;
+                    let reverseRequestId = 0;
+                    let reversePopup = null;
+                    let nextTileId = 0;
+                    let nextGuideRequestId = 0;
+                    const guideRequests = new Map();
+                    let overlays = [];
+                    // Pinned first, then recent and frequent; each entry may remember the place picked from it
+                    let searchHistory = [];
+                    let lastSearchQuery = '';
+                    const overlayLayers = new Map();
+                    let pendingOverlayFocus = null;
+                    const pendingTiles = new Map();
+                    
+                    // Tiles are loaded through the extension, which serves them from the
+                    // offline tile cache and only downloads the ones it has not seen yet
+                    const CachedTileLayer = L.TileLayer.extend({
+                        createTile: function(coords, done) {
+                            const tile = document.createElement('img');
+                            const id = ++nextTileId;
+                            tile.alt = '';
+                            tile.dataset.tileId = String(id);
+                            pendingTiles.set(id, { tile, done });
+                            vscode.postMessage({
+                                command: 'getTile',
+                                id: id,
+                                z: coords.z,
+                                x: coords.x,
+                                y: coords.y
+                            });
+                            return tile;
+                        }
+                    });
+                    
+                    function handleTileData(id, dataUrl) {
+                        const pending = pendingTiles.get(id);
+                        if (!pending) {
+                            return;
+                        }
+                        pendingTiles.delete(id);
+                        
+                        if (!dataUrl) {
+                            pending.done(new Error('Tile not available offline'), pending.tile);
+                            return;
+                        }
+                        pending.tile.onload = () => pending.done(null, pending.tile);
+                        pending.tile.onerror = () => pending.done(new Error('Invalid tile'), pending.tile);
+                        pending.tile.src = dataUrl;
+                    }
                     
                     // Initialize Map - Focused on India
                     function initMap() {
                         // Start with India view
                         map = L.map('map').setView([20.5937, 78.9629], 5);
                         
-                        // Add optimized tile layer for faster loading
-                        L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
-                            attribution: '© OpenStreetMap contributors',
-                            maxZoom: 18,
+                        // Add cached tile layer so viewed areas keep rendering offline
+                        tileLayer = new CachedTileLayer('', {
+                            attribution: initialTileSource.attribution,
+                            maxZoom: initialTileSource.maxZoom,
                             minZoom: 3
                         }).addTo(map);
+                        tileLayer.on('tileunload', (e) => {
+                            pendingTiles.delete(Number(e.tile.dataset.tileId));
+                        });
                         
                         // Add scale control
                         L.control.scale().addTo(map);
                         
+                        // Identify whatever lies under an empty spot on the map
+                        map.on('click', (e) => {
+                            if (!drawingRectangle) {
+                                identifyPlace(e.latlng.lat, e.latlng.lng);
+                            }
+                        });
+                        
                         // Setup search with faster debounce
                         setupSearch();
+                        vscode.postMessage({ command: 'getSearchHistory' });
+                        
+                        // Imported overlays are kept by the extension, so a reopened map draws them again
+                        setupOverlayDrop();
+                        vscode.postMessage({ command: 'getOverlays' });
                         
                         // Auto-detect approximate location on startup
                         setTimeout(() => {
                             locateMe();
                         }, 1000);
                         
+                        setOfflineMode(offlineMode);
+                        
                         showMessage('Welcome to India Travel Guide! Search any location or use quick buttons.');
                     }
                     
+                    function setOfflineMode(offline) {
+                        offlineMode = offline;
+                        document.getElementById('offlineBanner').style.display = offline ? 'block' : 'none';
+                    }
+                    
+                    // Re-adding the layer swaps the attribution, updates the zoom limit and reloads every tile
+                    function setTileSource(source) {
+                        map.removeLayer(tileLayer);
+                        L.setOptions(tileLayer, { attribution: source.attribution, maxZoom: source.maxZoom });
+                        tileLayer.addTo(map);
+                    }
+                    
+                    // Labels results that were answered from data stored on this machine
+                    function sourceBadge(source) {
+                        if (source === 'cache') {
+                            return '<span class="source-badge">Cached</span>';
+                        }
+                        if (source === 'local') {
+                            return '<span class="source-badge">Offline data</span>';
+                        }
+                        return '';
+                    }
+                    
                     // Get EXACT location using browser geolocation
                     function getExactLocation() {
                         showLoading('Getting your exact location...');
@@ -842,10 +1412,10 @@ export class ApiMapPanel {
                                 <p>Longitude: \${lng.toFixed(6)}</p>
                                 <p>Accuracy: \${Math.round(accuracy)} meters</p>
                                 <div class="popup-actions">
-                                    <button class="popup-btn btn-primary" onclick="findNearbyPlaces('restaurant')">
+                                    <button class="popup-btn btn-primary" data-action="findNearbyPlaces" data-category="restaurant">
                                         Find Restaurants
                                     </button>
-                                    <button class="popup-btn btn-secondary" onclick="toggleCategories()">
+                                    <button class="popup-btn btn-secondary" data-action="toggleCategories">
                                         Explore More
                                     </button>
                                 </div>
@@ -942,6 +1512,7 @@ export class ApiMapPanel {
                     function searchPopularCity(cityName) {
                         document.getElementById('searchInput').value = cityName;
                         document.getElementById('searchInput').focus();
+                        lastSearchQuery = cityName;
                         
                         showLoading('Loading ' + cityName + '...');
                         vscode.postMessage({
@@ -961,12 +1532,13 @@ export class ApiMapPanel {
                             const query = e.target.value.trim();
                             
                             if (query.length < 2) {
-                                searchResults.style.display = 'none';
                                 hideLoading();
+                                showSearchHistory();
                                 return;
                             }
                             
                             showLoading('Searching...');
+                            lastSearchQuery = query;
                             searchTimeout = setTimeout(() => {
                                 vscode.postMessage({
                                     command: 'searchLocation',
@@ -975,6 +1547,12 @@ export class ApiMapPanel {
                             }, 200); // Faster search - 200ms
                         });
                         
+                        searchInput.addEventListener('focus', function() {
+                            if (searchInput.value.trim().length < 2) {
+                                showSearchHistory();
+                            }
+                        });
+                        
                         // Hide results when clicking outside
                         document.addEventListener('click', function(e) {
                             if (!searchResults.contains(e.target) && e.target !== searchInput) {
@@ -983,23 +1561,79 @@ export class ApiMapPanel {
                         });
                     }
                     
-                    // Show search results
-                    function showSearchResults(results) {
+                    function historyMatches(query) {
+                        const text = query.trim().toLowerCase();
+                        return searchHistory.filter(entry =>
+                            !text ||
+                            entry.query.toLowerCase().includes(text) ||
+                            (entry.place && entry.place.name.toLowerCase().includes(text))
+                        );
+                    }
+                    
+                    function createHistoryItem(entry) {
+                        const item = document.createElement('div');
+                        item.className = 'search-result-item search-history-item';
+                        const detail = entry.place && entry.place.name.toLowerCase() !== entry.query.toLowerCase()
+                            ? entry.place.name
+                            : entry.resultCount + ' result(s)';
+                        item.innerHTML = \`
+                            <div class="result-name"><i class="fas \${entry.pinned ? 'fa-thumbtack' : 'fa-clock'}"></i>\${escapeHtml(entry.query)}</div>
+                            <div class="result-description">\${escapeHtml(detail)}</div>
+                        \`;
+                        item.onclick = () => {
+                            document.getElementById('searchResults').style.display = 'none';
+                            document.getElementById('searchInput').value = entry.query;
+                            if (entry.place) {
+                                vscode.postMessage({ command: 'recordSearch', query: entry.query, resultCount: entry.resultCount, place: entry.place });
+                                selectLocation(entry.place);
+                            } else {
+                                searchPopularCity(entry.query);
+                            }
+                        };
+                        return item;
+                    }
+                    
+                    // Shown while the search box is empty, before anything has been typed
+                    function showSearchHistory() {
+                        const searchResults = document.getElementById('searchResults');
+                        searchResults.innerHTML = '';
+                        if (searchHistory.length === 0) {
+                            searchResults.style.display = 'none';
+                            return;
+                        }
+                        searchHistory.forEach(entry => searchResults.appendChild(createHistoryItem(entry)));
+                        searchResults.style.display = 'block';
+                    }
+                    
+                    // Show search results, after any earlier searches that match
+                    function showSearchResults(results, query) {
                         hideLoading();
+                        const searchQuery = query || lastSearchQuery;
                         const searchResults = document.getElementById('searchResults');
                         searchResults.innerHTML = '';
                         
+                        const history = historyMatches(searchQuery)
+                            .filter(entry => entry.query.toLowerCase() !== searchQuery.trim().toLowerCase() || entry.place)
+                            .slice(0, 3);
+                        history.forEach(entry => searchResults.appendChild(createHistoryItem(entry)));
+                        
                         if (results.length === 0) {
-                            searchResults.innerHTML = '<div class="search-result-item">No results found in India</div>';
+                            const empty = document.createElement('div');
+                            empty.className = 'search-result-item';
+                            empty.textContent = 'No results found in India';
+                            searchResults.appendChild(empty);
                         } else {
                             results.forEach(result => {
                                 const item = document.createElement('div');
                                 item.className = 'search-result-item';
                                 item.innerHTML = \`
-                                    <div class="result-name">\${result.name}</div>
-                                    <div class="result-description">\${result.description || ''}</div>
+                                    <div class="result-name">\${escapeHtml(result.name)}\${sourceBadge(result.source)}</div>
+                                    <div class="result-description">\${escapeHtml(result.description || '')}</div>
                                 \`;
                                 item.onclick = () => {
+                                    if (searchQuery) {
+                                        vscode.postMessage({ command: 'recordSearch', query: searchQuery, resultCount: results.length, place: result });
+                                    }
                                     selectLocation(result);
                                     searchResults.style.display = 'none';
                                     document.getElementById('searchInput').value = result.name;
@@ -1012,7 +1646,7 @@ export class ApiMapPanel {
                     }
                     
                     // Select a location from search
-                    function selectLocation(location) {
+                    function selectLocation(location, guideFocus) {
                         selectedLocation = location;
                         clearMarkers();
                         
@@ -1022,6 +1656,9 @@ export class ApiMapPanel {
                             .bindPopup(createLocationPopup(location))
                             .openPopup();
                         markers.push(marker);
+                        requestGuide(location.lat, location.lng, guide => {
+                            marker.setPopupContent(createLocationPopup(location, guide));
+                        }, guideFocus);
                         
                         // Center and zoom into the location
                         map.setView([location.lat, location.lng], 12);
@@ -1035,23 +1672,146 @@ export class ApiMapPanel {
                     }
                     
                     // Create popup for location
-                    function createLocationPopup(location) {
+                    function createLocationPopup(location, guide) {
                         return \`
                             <div class="place-popup">
-                                <h3>\${location.name}</h3>
-                                <p>\${location.description || 'Location selected'}</p>
+                                <h3>\${escapeHtml(location.name)}</h3>
+                                <p>\${escapeHtml(location.description || 'Location selected')}</p>
+                                \${guideSection(guide)}
                                 <div class="popup-actions">
-                                    <button class="popup-btn btn-primary" onclick="showDirectionsToLocation(\${location.lat}, \${location.lng}, '\${location.name.replace(/'/g, "\\\\'")}')">
+                                    <button class="popup-btn btn-primary" data-action="showDirections" data-lat="\${location.lat}" data-lng="\${location.lng}" data-name="\${escapeHtml(location.name)}">
                                         Get Directions
                                     </button>
-                                    <button class="popup-btn btn-secondary" onclick="toggleCategories()">
+                                    <button class="popup-btn btn-secondary" data-action="toggleCategories">
                                         Explore Nearby
                                     </button>
                                 </div>
+                                \${savePlaceButton(location)}
                             </div>
                         \`;
                     }
                     
+                    function identifyPlace(lat, lng) {
+                        reverseRequestId++;
+                        reversePopup = L.popup()
+                            .setLatLng([lat, lng])
+                            .setContent('<div class="place-popup"><p><i class="fas fa-spinner fa-spin"></i> Identifying place...</p></div>')
+                            .openOn(map);
+                        vscode.postMessage({
+                            command: 'reverseGeocode',
+                            requestId: reverseRequestId,
+                            lat: lat,
+                            lng: lng
+                        });
+                    }
+                    
+                    function showReverseGeocodeResult(requestId, place) {
+                        // A newer click has already replaced this popup
+                        if (requestId !== reverseRequestId || !reversePopup || !map.hasLayer(reversePopup)) {
+                            return;
+                        }
+                        reversePopup.setContent(createReverseGeocodePopup(place));
+                        requestGuide(place.lat, place.lng, guide => {
+                            if (requestId === reverseRequestId && reversePopup && map.hasLayer(reversePopup)) {
+                                reversePopup.setContent(createReverseGeocodePopup(place, guide));
+                            }
+                        });
+                    }
+                    
+                    // Guides come from installed guide packs, so they answer offline as well
+                    // With a focus from a guide search, asks for that guide rather than the one covering the point
+                    function requestGuide(lat, lng, callback, guideFocus) {
+                        const requestId = ++nextGuideRequestId;
+                        guideRequests.set(requestId, callback);
+                        vscode.postMessage({
+                            command: 'getGuide',
+                            requestId: requestId,
+                            lat: lat,
+                            lng: lng,
+                            guideFocus: guideFocus
+                        });
+                    }
+                    
+                    function handleGuideResult(requestId, guide) {
+                        const callback = guideRequests.get(requestId);
+                        guideRequests.delete(requestId);
+                        if (callback && guide) {
+                            callback(guide);
+                        }
+                    }
+                    
+                    function guideSection(guide) {
+                        if (!guide) {
+                            return '';
+                        }
+                        const sight = guide.sight;
+                        const facts = [
+                            ['Entry fee', sight && sight.entryFee],
+                            ['Timings', sight && sight.timings],
+                            ['Best season', guide.bestSeason]
+                        ].filter(fact => fact[1]);
+                        
+                        return \`
+                            <details class="popup-guide"\${guide.expanded ? ' open' : ''}>
+                                <summary><i class="fas fa-book-open"></i> \${escapeHtml(sight ? sight.name + ' • ' + guide.name : guide.name)} guide</summary>
+                                \${guide.focus ? \`
+                                    <div class="popup-guide-focus">
+                                        <h4>\${escapeHtml(guide.focus.title)}</h4>
+                                        \${guide.focus.lines.map(line => \`<p>\${escapeHtml(line)}</p>\`).join('')}
+                                    </div>
+                                \` : guide.summary ? \`<p>\${escapeHtml(guide.summary)}</p>\` : ''}
+                                <table class="place-details">
+                                    \${facts.map(fact => \`<tr><td>\${fact[0]}</td><td>\${escapeHtml(fact[1])}</td></tr>\`).join('')}
+                                </table>
+                                <button class="popup-btn btn-secondary" data-action="openGuide" data-id="\${escapeHtml(guide.id)}">
+                                    Open Full Guide
+                                </button>
+                            </details>
+                        \`;
+                    }
+                    
+                    function createReverseGeocodePopup(place, guide) {
+                        const rows = [
+                            ['Locality', place.locality],
+                            ['District', place.district],
+                            ['State', place.state],
+                            ['PIN code', place.postcode]
+                        ].filter(row => row[1]);
+                        
+                        return \`
+                            <div class="place-popup">
+                                <h3>\${escapeHtml(place.name)}\${sourceBadge(place.source)}</h3>
+                                <table class="place-details">
+                                    \${rows.map(row => \`<tr><td>\${row[0]}</td><td>\${escapeHtml(row[1])}</td></tr>\`).join('')}
+                                </table>
+                                <p><small>\${place.lat.toFixed(5)}, \${place.lng.toFixed(5)}</small></p>
+                                \${guideSection(guide)}
+                                <div class="popup-actions">
+                                    <button class="popup-btn btn-primary" data-action="showDirections" data-lat="\${place.lat}" data-lng="\${place.lng}" data-name="\${escapeHtml(place.name)}">
+                                        Directions
+                                    </button>
+                                    <button class="popup-btn btn-secondary" data-action="exploreHere" data-lat="\${place.lat}" data-lng="\${place.lng}" data-name="\${escapeHtml(place.name)}">
+                                        Explore Nearby
+                                    </button>
+                                </div>
+                                \${savePlaceButton({
+                                    name: place.name,
+                                    lat: place.lat,
+                                    lng: place.lng,
+                                    type: 'location',
+                                    address: [place.locality, place.district, place.state, place.postcode].filter(Boolean).join(', ')
+                                })}
+                            </div>
+                        \`;
+                    }
+                    
+                    // Makes a clicked point the base for nearby searches
+                    function exploreHere(lat, lng, name) {
+                        selectedLocation = { lat: lat, lng: lng, name: name };
+                        map.closePopup();
+                        document.getElementById('categoriesPanel').style.display = 'block';
+                    }
+                    
                     // Find nearby places
                     function findNearbyPlaces(category) {
                         if (!selectedLocation) {
@@ -1087,13 +1847,20 @@ export class ApiMapPanel {
                         const placesList = document.getElementById('placesList');
                         
                         placesTitle.textContent = \`Nearby \${getCategoryName(category)} (\${places.length})\`;
-                        placesList.innerHTML = places.map(place => \`
-                            <div class="place-item" onclick="focusOnPlace(\${place.lat}, \${place.lng}, '\${place.name.replace(/'/g, "\\\\'")}')">
-                                <div class="place-name">\${place.name}</div>
-                                <div class="place-address">\${place.address}</div>
-                                <div class="place-rating">\${'★'.repeat(Math.floor(place.rating))} \${place.rating}</div>
-                            </div>
-                        \`).join('');
+                        if (places.length === 0 && offlineMode) {
+                            placesList.innerHTML = '<div class="place-item">No stored places here. Download this region while online to explore it offline.</div>';
+                        } else if (places.length === 0) {
+                            placesList.innerHTML = '<div class="place-item">Nothing of this kind is mapped nearby.</div>';
+                        } else {
+                            placesList.innerHTML = places.map(place => \`
+                                <div class="place-item" data-action="focusOnPlace" data-lat="\${place.lat}" data-lng="\${place.lng}" data-name="\${escapeHtml(place.name)}">
+                                    <div class="place-name">\${escapeHtml(place.name)}\${sourceBadge(place.source)}</div>
+                                    <div class="place-address">\${escapeHtml([place.description, place.address].filter(Boolean).join(' • '))}</div>
+                                    \${place.distanceKm !== undefined ? \`<div class="place-distance">\${formatDistance(place.distanceKm * 1000)} away</div>\` : ''}
+                                    \${place.rating ? \`<div class="place-rating">\${'★'.repeat(Math.floor(place.rating))} \${place.rating}</div>\` : ''}
+                                </div>
+                            \`).join('');
+                        }
                         
                         placesPanel.style.display = 'block';
                         closeCategories();
@@ -1103,19 +1870,264 @@ export class ApiMapPanel {
                     function createPlacePopup(place) {
                         return \`
                             <div class="place-popup">
-                                <h3>\${place.name}</h3>
-                                <p>\${place.description || ''}</p>
-                                <p><small>\${place.address}</small></p>
-                                <div class="place-rating">\${'★'.repeat(Math.floor(place.rating))} \${place.rating}</div>
+                                <h3>\${escapeHtml(place.name)}</h3>
+                                <p>\${escapeHtml(place.description || '')}</p>
+                                <p><small>\${escapeHtml(place.address || '')}</small></p>
+                                \${place.rating ? \`<div class="place-rating">\${'★'.repeat(Math.floor(place.rating))} \${place.rating}</div>\` : ''}
                                 <div class="popup-actions">
-                                    <button class="popup-btn btn-primary" onclick="showDirectionsToLocation(\${place.lat}, \${place.lng}, '\${place.name.replace(/'/g, "\\\\'")}')">
+                                    <button class="popup-btn btn-primary" data-action="showDirections" data-lat="\${place.lat}" data-lng="\${place.lng}" data-name="\${escapeHtml(place.name)}">
                                         Directions
                                     </button>
                                 </div>
+                                \${savePlaceButton(place)}
                             </div>
                         \`;
                     }
                     
+                    // Each day gets its own colour; stops are numbered within their day
+                    function showItinerary(itinerary) {
+                        clearMarkers();
+                        const bounds = L.latLngBounds([]);
+                        
+                        itinerary.days.forEach(day => {
+                            day.legs.forEach(leg => {
+                                if (!leg.geometry) {
+                                    return;
+                                }
+                                const line = L.geoJSON(leg.geometry, {
+                                    style: {
+                                        color: day.color,
+                                        weight: 5,
+                                        opacity: 0.8,
+                                        dashArray: leg.approximate ? '8 8' : null
+                                    }
+                                }).addTo(map);
+                                markers.push(line);
+                                bounds.extend(line.getBounds());
+                            });
+                            
+                            day.stops.forEach(stop => {
+                                const marker = L.marker([stop.lat, stop.lng], {
+                                    icon: L.divIcon({
+                                        className: 'itinerary-marker',
+                                        html: \`<span style="background: \${day.color}">\${stop.number}</span>\`,
+                                        iconSize: [28, 28],
+                                        iconAnchor: [14, 14]
+                                    })
+                                })
+                                    .addTo(map)
+                                    .bindPopup(\`
+                                        <div class="place-popup">
+                                            <h3>\${escapeHtml(stop.name)}</h3>
+                                            <p>Day \${day.day}, stop \${stop.number} • arrive \${stop.arrival} • \${escapeHtml(stop.visit)}</p>
+                                        </div>
+                                    \`);
+                                markers.push(marker);
+                                bounds.extend([stop.lat, stop.lng]);
+                            });
+                        });
+                        
+                        if (bounds.isValid()) {
+                            map.fitBounds(bounds, { padding: [40, 40], maxZoom: 15 });
+                        }
+                        showMessage(\`Showing itinerary: \${itinerary.name}\`);
+                    }
+                    
+                    // Overlays are drawn from the parsed features; layers are reused while the overlay exists
+                    function setOverlays(list) {
+                        overlays = list;
+                        const ids = new Set(list.map(overlay => overlay.id));
+                        overlayLayers.forEach((layer, id) => {
+                            if (!ids.has(id)) {
+                                map.removeLayer(layer);
+                                overlayLayers.delete(id);
+                            }
+                        });
+                        list.forEach(overlay => {
+                            let layer = overlayLayers.get(overlay.id);
+                            if (!layer) {
+                                layer = createOverlayLayer(overlay);
+                                overlayLayers.set(overlay.id, layer);
+                            }
+                            if (overlay.visible && !map.hasLayer(layer)) {
+                                layer.addTo(map);
+                            } else if (!overlay.visible && map.hasLayer(layer)) {
+                                map.removeLayer(layer);
+                            }
+                        });
+                        renderOverlayList();
+                        
+                        if (pendingOverlayFocus !== null && overlayLayers.has(pendingOverlayFocus)) {
+                            const id = pendingOverlayFocus;
+                            pendingOverlayFocus = null;
+                            zoomToOverlay(id);
+                        }
+                    }
+                    
+                    // Styles carried by the file (KML styles, simplestyle GeoJSON) win over the overlay colour
+                    function createOverlayLayer(overlay) {
+                        return L.geoJSON({ type: 'FeatureCollection', features: overlay.features }, {
+                            bubblingMouseEvents: false,
+                            style: (feature) => ({
+                                color: feature.properties.stroke || overlay.color,
+                                weight: feature.properties['stroke-width'] || 4,
+                                opacity: 0.9,
+                                fillColor: feature.properties.fill || feature.properties.stroke || overlay.color,
+                                fillOpacity: 0.15
+                            }),
+                            pointToLayer: (feature, latlng) => L.circleMarker(latlng, {
+                                bubblingMouseEvents: false,
+                                radius: 6,
+                                color: '#fff',
+                                weight: 2,
+                                fillColor: feature.properties.stroke || overlay.color,
+                                fillOpacity: 1
+                            }),
+                            onEachFeature: (feature, layer) => layer.bindPopup(overlayPopup(overlay, feature))
+                        });
+                    }
+                    
+                    function overlayPopup(overlay, feature) {
+                        const properties = feature.properties || {};
+                        const elevation = feature.geometry.type === 'Point' ? feature.geometry.coordinates[2] : undefined;
+                        return \`
+                            <div class="place-popup">
+                                <h3>\${escapeHtml(properties.name || overlay.name)}</h3>
+                                \${properties.description ? \`<p>\${escapeHtml(properties.description)}</p>\` : ''}
+                                \${elevation !== undefined ? \`<p>Elevation: \${Math.round(elevation)} m</p>\` : ''}
+                                <p><small>\${escapeHtml(overlay.name)} • \${overlay.format.toUpperCase()}</small></p>
+                            </div>
+                        \`;
+                    }
+                    
+                    function overlayMeta(overlay) {
+                        const parts = [overlay.format.toUpperCase()];
+                        if (overlay.lengthMeters > 0) {
+                            parts.push(\`\${(overlay.lengthMeters / 1000).toFixed(1)} km\`);
+                        }
+                        if (overlay.trackCount > 0) {
+                            parts.push(\`\${overlay.trackCount} track\${overlay.trackCount === 1 ? '' : 's'}\`);
+                        }
+                        parts.push(\`\${overlay.waypointCount} waypoint\${overlay.waypointCount === 1 ? '' : 's'}\`);
+                        return parts.join(' • ');
+                    }
+                    
+                    function renderOverlayList() {
+                        const list = document.getElementById('overlayList');
+                        if (overlays.length === 0) {
+                            list.innerHTML = '<div class="overlay-empty">Import a GPX, KML or GeoJSON file, or drop one on the map.</div>';
+                            return;
+                        }
+                        list.innerHTML = overlays.map(overlay => \`
+                            <div class="overlay-item\${overlay.visible ? '' : ' hidden'}">
+                                <span class="overlay-swatch" style="background: \${escapeHtml(overlay.color)}"></span>
+                                <div class="overlay-info" data-action="zoomToOverlay" data-id="\${overlay.id}" title="\${escapeHtml(overlay.fileName)}">
+                                    <div class="overlay-name">\${escapeHtml(overlay.name)}</div>
+                                    <div class="overlay-meta">\${escapeHtml(overlayMeta(overlay))}</div>
+                                </div>
+                                <button class="overlay-btn" data-action="toggleOverlay" data-id="\${overlay.id}" title="\${overlay.visible ? 'Hide' : 'Show'}">
+                                    <i class="fas \${overlay.visible ? 'fa-eye' : 'fa-eye-slash'}"></i>
+                                </button>
+                                <button class="overlay-btn" data-action="removeOverlay" data-id="\${overlay.id}" title="Remove">
+                                    <i class="fas fa-trash"></i>
+                                </button>
+                            </div>
+                        \`).join('');
+                    }
+                    
+                    function toggleOverlays() {
+                        const panel = document.getElementById('overlaysPanel');
+                        panel.style.display = panel.style.display === 'block' ? 'none' : 'block';
+                        renderOverlayList();
+                    }
+                    
+                    function setOverlayVisible(id, visible) {
+                        const overlay = overlays.find(item => item.id === id);
+                        if (!overlay) {
+                            return;
+                        }
+                        overlay.visible = visible;
+                        setOverlays(overlays);
+                        vscode.postMessage({ command: 'setOverlayVisible', id, visible });
+                    }
+                    
+                    function zoomToOverlay(id) {
+                        const overlay = overlays.find(item => item.id === id);
+                        const layer = overlayLayers.get(id);
+                        if (!overlay || !layer) {
+                            pendingOverlayFocus = id;
+                            return;
+                        }
+                        if (!overlay.visible) {
+                            setOverlayVisible(id, true);
+                        }
+                        const bounds = layer.getBounds();
+                        if (bounds.isValid()) {
+                            map.fitBounds(bounds, { padding: [40, 40], maxZoom: 15 });
+                        }
+                    }
+                    
+                    // Files dragged from the OS arrive as File objects; from the VS Code Explorer as a URI list
+                    function setupOverlayDrop() {
+                        const hint = document.getElementById('dropHint');
+                        const isFileDrag = (e) => Array.from(e.dataTransfer.types).some(type => type === 'Files' || type.includes('uri-list'));
+                        let dragDepth = 0;
+                        
+                        document.addEventListener('dragenter', (e) => {
+                            if (isFileDrag(e)) {
+                                dragDepth++;
+                                hint.style.display = 'flex';
+                            }
+                        });
+                        document.addEventListener('dragleave', () => {
+                            if (dragDepth > 0 && --dragDepth === 0) {
+                                hint.style.display = 'none';
+                            }
+                        });
+                        document.addEventListener('dragover', (e) => {
+                            if (isFileDrag(e)) {
+                                e.preventDefault();
+                                e.dataTransfer.dropEffect = 'copy';
+                            }
+                        });
+                        document.addEventListener('drop', async (e) => {
+                            if (!isFileDrag(e)) {
+                                return;
+                            }
+                            e.preventDefault();
+                            dragDepth = 0;
+                            hint.style.display = 'none';
+                            
+                            const uriList = e.dataTransfer.getData('application/vnd.code.uri-list') || e.dataTransfer.getData('text/uri-list');
+                            const uris = uriList.split(/\\r?\\n/).map(line => line.trim()).filter(line => line && !line.startsWith('#'));
+                            const files = uris.length > 0 ? [] : await Promise.all(
+                                Array.from(e.dataTransfer.files).map(async (file) => ({ fileName: file.name, text: await file.text() }))
+                            );
+                            if (uris.length > 0 || files.length > 0) {
+                                showLoading('Importing overlays...');
+                                vscode.postMessage({ command: 'dropOverlayFiles', uris, files });
+                            }
+                        });
+                    }
+                    
+                    // Saved places live in the database, so the button carries everything needed to store a copy
+                    function savePlaceButton(place) {
+                        const saved = {
+                            name: place.name,
+                            lat: place.lat,
+                            lng: place.lng,
+                            type: place.type || 'location',
+                            category: place.category,
+                            address: place.address,
+                            description: place.description
+                        };
+                        return \`
+                            <button class="popup-btn btn-link" data-action="savePlace" data-place="\${escapeHtml(JSON.stringify(saved))}">
+                                <i class="fas fa-bookmark"></i> Save Place
+                            </button>
+                        \`;
+                    }
+                    
                     // Enhanced location detection for India (approximate)
                     function locateMe() {
                         showLoading('Finding your approximate location in India...');
@@ -1193,7 +2205,8 @@ export class ApiMapPanel {
                         const directionsPanel = document.getElementById('directionsPanel');
                         const routeInfo = document.getElementById('routeInfo');
                         
-                        routeInfo.innerHTML = \`<div>Calculating route to <strong>\${name}</strong>...</div>\`;
+                        routeInfo.innerHTML = \`<div>Calculating route to <strong>\${escapeHtml(name)}</strong>...</div>\`;
+                        showRouteSteps([]);
                         directionsPanel.style.display = 'block';
                         
                         showLoading('Calculating route...');
@@ -1204,14 +2217,15 @@ export class ApiMapPanel {
                                 (position) => {
                                     const userLocation = {
                                         lat: position.coords.latitude,
-                                        lng: position.coords.longitude
+                                        lng: position.coords.longitude,
+                                        name: 'My location'
                                     };
-                                    calculateRoute(userLocation, { lat, lng });
+                                    calculateRoute(userLocation, { lat, lng, name });
                                 },
                                 () => {
                                     // Fallback to map center
                                     const center = map.getCenter();
-                                    calculateRoute({ lat: center.lat, lng: center.lng }, { lat, lng });
+                                    calculateRoute({ lat: center.lat, lng: center.lng, name: 'Map center' }, { lat, lng, name });
                                     showMessage('Using map center for directions');
                                 },
                                 {
@@ -1222,7 +2236,7 @@ export class ApiMapPanel {
                             );
                         } else {
                             const center = map.getCenter();
-                            calculateRoute({ lat: center.lat, lng: center.lng }, { lat, lng });
+                            calculateRoute({ lat: center.lat, lng: center.lng, name: 'Map center' }, { lat, lng, name });
                             showMessage('Geolocation not available, using map center');
                         }
                     }
@@ -1237,39 +2251,191 @@ export class ApiMapPanel {
                         });
                     }
                     
-                    // Show directions on map
-                    function showDirections(directions) {
+                    // Each alternative keeps its colour on the map and in the comparison table
+                    const ROUTE_COLORS = ['#4285f4', '#9c27b0', '#0f9d58', '#f4b400'];
+                    
+                    function routeStyle(route, index, active) {
+                        return {
+                            color: ROUTE_COLORS[index % ROUTE_COLORS.length],
+                            weight: active ? 7 : 5,
+                            opacity: active ? 0.9 : 0.45,
+                            dashArray: route.approximate ? '8 8' : null
+                        };
+                    }
+                    
+                    // Show directions on map; the first route is the best and starts out active
+                    function showDirections(routes) {
                         hideLoading();
+                        clearRouteLines();
+                        directionRoutes = routes || [];
                         
-                        if (!directions) {
+                        if (directionRoutes.length === 0) {
                             document.getElementById('routeInfo').innerHTML = 'Route calculation failed';
+                            showRouteSteps([]);
                             return;
                         }
                         
-                        // Clear previous route
-                        if (routeLine) {
-                            map.removeLayer(routeLine);
+                        const bounds = L.latLngBounds([]);
+                        routeLines = directionRoutes.map((route, index) => {
+                            if (!route.geometry) {
+                                return null;
+                            }
+                            const line = L.geoJSON(route.geometry, { style: routeStyle(route, index, false) }).addTo(map);
+                            // A click on a route picks it instead of identifying the spot underneath
+                            line.on('click', (e) => {
+                                L.DomEvent.stopPropagation(e);
+                                selectRoute(index);
+                            });
+                            bounds.extend(line.getBounds());
+                            return line;
+                        });
+                        selectRoute(0);
+                        
+                        // Fit map to show every route
+                        if (bounds.isValid()) {
+                            map.fitBounds(bounds);
+                        }
+                    }
+                    
+                    function selectRoute(index) {
+                        const route = directionRoutes[index];
+                        if (!route) {
+                            return;
+                        }
+                        
+                        activeRouteIndex = index;
+                        routeLines.forEach((line, i) => {
+                            if (line) {
+                                line.setStyle(routeStyle(directionRoutes[i], i, i === index));
+                            }
+                        });
+                        if (routeLines[index]) {
+                            routeLines[index].bringToFront();
+                        }
+                        
+                        clearStepHighlight();
+                        showRouteSteps(route.steps || []);
+                        showRouteInfo();
+                        // The extension exports whichever route is active
+                        vscode.postMessage({ command: 'selectRoute', index });
+                    }
+                    
+                    // Unknown for routes whose provider did not say which roads they take
+                    function highwayShare(route) {
+                        return route.roadUse && route.distanceMeters > 0
+                            ? Math.round(route.roadUse.highwayMeters / route.distanceMeters * 100) + '%'
+                            : '–';
+                    }
+                    
+                    function tollRoads(route) {
+                        if (!route.roadUse) {
+                            return '–';
                         }
+                        return route.roadUse.tollMeters > 0 ? formatDistance(route.roadUse.tollMeters) : 'None';
+                    }
+                    
+                    function showRouteInfo() {
+                        const route = directionRoutes[activeRouteIndex];
+                        const comparison = directionRoutes.length > 1 ? \`
+                            <table class="route-compare">
+                                <tr><th>Route</th><th>Distance</th><th>Time</th><th>Highway</th><th>Tolls</th></tr>
+                                \${directionRoutes.map((option, index) => \`
+                                    <tr class="route-option\${index === activeRouteIndex ? ' active' : ''}" data-action="selectRoute" data-index="\${index}">
+                                        <td><span class="route-swatch" style="background: \${ROUTE_COLORS[index % ROUTE_COLORS.length]}"></span>\${index === 0 ? 'Best' : 'Alt ' + index}</td>
+                                        <td>\${option.distance}</td>
+                                        <td>\${option.duration}</td>
+                                        <td>\${highwayShare(option)}</td>
+                                        <td>\${tollRoads(option)}</td>
+                                    </tr>
+                                \`).join('')}
+                            </table>
+                        \` : '';
                         
-                        // Display route info
                         document.getElementById('routeInfo').innerHTML = \`
-                            <div class="route-distance">Distance: \${directions.distance}</div>
-                            <div class="route-duration">Duration: \${directions.duration}</div>
-                            <div>Mode: \${directions.mode}</div>
+                            \${comparison}
+                            <div class="route-distance">Distance: \${route.distance}</div>
+                            <div class="route-duration">Duration: \${route.duration}</div>
+                            \${route.roadUse ? \`<div>Highway: \${highwayShare(route)} · Tolls: \${tollRoads(route)}</div>\` : ''}
+                            <div>Mode: \${route.mode}\${sourceBadge(route.source)}</div>
+                            \${route.approximate ? '<div class="result-description">Straight-line estimate. Import road data for offline routes.</div>' : ''}
+                            <button class="popup-btn btn-link" data-action="exportRoute"><i class="fas fa-file-export"></i> Export Route...</button>
                         \`;
+                    }
+                    
+                    function clearRouteLines() {
+                        routeLines.forEach(line => {
+                            if (line) {
+                                map.removeLayer(line);
+                            }
+                        });
+                        routeLines = [];
+                    }
+                    
+                    // Step icons are one arrow rotated to the direction of the turn
+                    const STEP_ROTATIONS = {
+                        'sharp left': -135, 'left': -90, 'slight left': -45, 'straight': 0,
+                        'slight right': 45, 'right': 90, 'sharp right': 135, 'uturn': 180
+                    };
+                    
+                    function stepIcon(step) {
+                        if (step.type === 'depart') {
+                            return '<i class="fas fa-location-arrow"></i>';
+                        }
+                        if (step.type === 'arrive') {
+                            return '<i class="fas fa-flag-checkered"></i>';
+                        }
+                        if (step.type === 'roundabout' || step.type === 'rotary') {
+                            return '<i class="fas fa-rotate-right"></i>';
+                        }
+                        const rotation = STEP_ROTATIONS[step.modifier] || 0;
+                        return \`<i class="fas fa-arrow-up" style="transform: rotate(\${rotation}deg)"></i>\`;
+                    }
+                    
+                    function formatDistance(meters) {
+                        return meters < 1000 ? Math.round(meters / 10) * 10 + ' m' : (meters / 1000).toFixed(1) + ' km';
+                    }
+                    
+                    function showRouteSteps(steps) {
+                        routeSteps = steps;
+                        document.getElementById('routeSteps').innerHTML = steps.map((step, index) => \`
+                            <div class="route-step" data-action="highlightStep" data-index="\${index}">
+                                \${stepIcon(step)}
+                                <span>\${escapeHtml(step.instruction)}</span>
+                                \${step.distanceMeters > 0 ? \`<span class="step-distance">\${formatDistance(step.distanceMeters)}</span>\` : ''}
+                            </div>
+                        \`).join('');
+                    }
+                    
+                    function highlightStep(index) {
+                        const step = routeSteps[index];
+                        if (!step) {
+                            return;
+                        }
                         
-                        // Draw route line
-                        if (directions.geometry) {
-                            routeLine = L.geoJSON(directions.geometry, {
-                                style: {
-                                    color: '#4285f4',
-                                    weight: 6,
-                                    opacity: 0.8
-                                }
-                            }).addTo(map);
-                            
-                            // Fit map to show entire route
-                            map.fitBounds(routeLine.getBounds());
+                        clearStepHighlight();
+                        document.querySelectorAll('.route-step').forEach((element, i) => {
+                            element.classList.toggle('active', i === index);
+                        });
+                        
+                        stepHighlight = L.geoJSON(step.geometry, {
+                            style: {
+                                color: '#ff6b35',
+                                weight: 8,
+                                opacity: 0.9
+                            }
+                        }).addTo(map);
+                        
+                        if (step.distanceMeters > 0) {
+                            map.fitBounds(stepHighlight.getBounds(), { maxZoom: 17 });
+                        } else {
+                            map.setView([step.location[1], step.location[0]], 17);
+                        }
+                    }
+                    
+                    function clearStepHighlight() {
+                        if (stepHighlight) {
+                            map.removeLayer(stepHighlight);
+                            stepHighlight = null;
                         }
                     }
                     
@@ -1289,16 +2455,17 @@ export class ApiMapPanel {
                     
                     function closeDirections() {
                         document.getElementById('directionsPanel').style.display = 'none';
-                        if (routeLine) {
-                            map.removeLayer(routeLine);
-                        }
+                        clearRouteLines();
+                        directionRoutes = [];
+                        clearStepHighlight();
+                        showRouteSteps([]);
                     }
                     
                     function setTravelMode(mode) {
                         currentTravelMode = mode;
                         // Update active button
                         document.querySelectorAll('.mode-btn').forEach(btn => {
-                            btn.classList.toggle('active', btn.textContent.includes(mode === 'driving' ? 'Drive' : mode === 'walking' ? 'Walk' : 'Bike'));
+                            btn.classList.toggle('active', btn.dataset.mode === mode);
                         });
                     }
                     
@@ -1310,12 +2477,135 @@ export class ApiMapPanel {
                         map.zoomOut();
                     }
                     
+                    function getMapBoundingBox(bounds) {
+                        return {
+                            south: bounds.getSouth(),
+                            west: bounds.getWest(),
+                            north: bounds.getNorth(),
+                            east: bounds.getEast()
+                        };
+                    }
+                    
+                    function downloadVisibleArea() {
+                        vscode.postMessage({
+                            command: 'downloadRegion',
+                            bounds: getMapBoundingBox(map.getBounds())
+                        });
+                    }
+                    
+                    // Let the user drag out a rectangle; the extension waits for the result
+                    function startRectangleDraw(requestId) {
+                        let startLatLng = null;
+                        let rectangle = null;
+                        
+                        const finish = (bounds) => {
+                            map.off('mousedown', onMouseDown);
+                            map.off('mousemove', onMouseMove);
+                            map.off('mouseup', onMouseUp);
+                            document.removeEventListener('keydown', onKeyDown);
+                            map.dragging.enable();
+                            map.getContainer().style.cursor = '';
+                            // The mouseup of the drag is followed by a click that must not identify a place
+                            setTimeout(() => { drawingRectangle = false; }, 0);
+                            if (rectangle) {
+                                map.removeLayer(rectangle);
+                            }
+                            respond(requestId, bounds ? getMapBoundingBox(bounds) : null);
+                        };
+                        const onMouseDown = (e) => {
+                            startLatLng = e.latlng;
+                            rectangle = L.rectangle([e.latlng, e.latlng], { color: '#ff9933', weight: 2 }).addTo(map);
+                        };
+                        const onMouseMove = (e) => {
+                            if (startLatLng) {
+                                rectangle.setBounds(L.latLngBounds(startLatLng, e.latlng));
+                            }
+                        };
+                        const onMouseUp = (e) => {
+                            if (startLatLng) {
+                                finish(L.latLngBounds(startLatLng, e.latlng));
+                            }
+                        };
+                        const onKeyDown = (e) => {
+                            if (e.key === 'Escape') {
+                                finish(null);
+                            }
+                        };
+                        
+                        drawingRectangle = true;
+                        map.dragging.disable();
+                        map.getContainer().style.cursor = 'crosshair';
+                        map.on('mousedown', onMouseDown);
+                        map.on('mousemove', onMouseMove);
+                        map.on('mouseup', onMouseUp);
+                        document.addEventListener('keydown', onKeyDown);
+                        showMessage('Drag on the map to draw the area to download. Press Escape to cancel.');
+                    }
+                    
+                    function respond(requestId, result) {
+                        vscode.postMessage({
+                            command: 'response',
+                            requestId: requestId,
+                            result: result
+                        });
+                    }
+                    
                     function focusOnPlace(lat, lng, name) {
                         map.setView([lat, lng], 15);
                         showMessage(\`Focused on: \${name}\`);
                     }
                     
+                    // Inline handlers are blocked by the Content-Security-Policy, so every
+                    // clickable element names its action in data-action instead
+                    const actions = {
+                        toggleCategories: () => toggleCategories(),
+                        toggleOverlays: () => toggleOverlays(),
+                        importOverlays: () => vscode.postMessage({ command: 'importOverlays' }),
+                        exportRoute: () => vscode.postMessage({ command: 'exportRoute' }),
+                        zoomToOverlay: (data) => zoomToOverlay(parseInt(data.id, 10)),
+                        toggleOverlay: (data) => {
+                            const overlay = overlays.find(item => item.id === parseInt(data.id, 10));
+                            if (overlay) {
+                                setOverlayVisible(overlay.id, !overlay.visible);
+                            }
+                        },
+                        removeOverlay: (data) => vscode.postMessage({ command: 'removeOverlay', id: parseInt(data.id, 10) }),
+                        getExactLocation: () => getExactLocation(),
+                        locateMe: () => locateMe(),
+                        zoomIn: () => zoomIn(),
+                        zoomOut: () => zoomOut(),
+                        downloadVisibleArea: () => downloadVisibleArea(),
+                        closePlacesPanel: () => closePlacesPanel(),
+                        closeDirections: () => closeDirections(),
+                        searchPopularCity: (data) => searchPopularCity(data.city),
+                        findNearbyPlaces: (data) => findNearbyPlaces(data.category),
+                        setTravelMode: (data) => setTravelMode(data.mode),
+                        showDirections: (data) => showDirectionsToLocation(parseFloat(data.lat), parseFloat(data.lng), data.name),
+                        focusOnPlace: (data) => focusOnPlace(parseFloat(data.lat), parseFloat(data.lng), data.name),
+                        exploreHere: (data) => exploreHere(parseFloat(data.lat), parseFloat(data.lng), data.name),
+                        highlightStep: (data) => highlightStep(parseInt(data.index, 10)),
+                        selectRoute: (data) => selectRoute(parseInt(data.index, 10)),
+                        openGuide: (data) => vscode.postMessage({ command: 'openGuide', id: data.id }),
+                        savePlace: (data) => vscode.postMessage({ command: 'savePlace', place: JSON.parse(data.place) })
+                    };
+                    
+                    document.addEventListener('click', (e) => {
+                        const target = e.target.closest('[data-action]');
+                        if (target && actions[target.dataset.action]) {
+                            actions[target.dataset.action](target.dataset);
+                        }
+                    });
+                    
                     // Utility functions
+                    function escapeHtml(text) {
+                        return String(text)
+                            .replace(/&/g, '&amp;')
+                            .replace(/</g, '&lt;')
+                            .replace(/>/g, '&gt;')
+                            .replace(/"/g, '&quot;')
+                            .replace(/'/g, '&#39;');
+                    }
+                    
                     function clearMarkers() {
                         markers.forEach(marker => map.removeLayer(marker));
                         markers = [];
@@ -1357,14 +2647,59 @@ export class ApiMapPanel {
                     window.addEventListener('message', event => {
                         const message = event.data;
                         switch (message.command) {
+                            case 'tileData':
+                                handleTileData(message.id, message.dataUrl);
+                                break;
+                            case 'guideResult':
+                                handleGuideResult(message.requestId, message.guide);
+                                break;
+                            case 'showPlace':
+                                selectLocation(message.place, message.guideFocus);
+                                break;
+                            case 'directionsTo':
+                                selectLocation(message.place);
+                                showDirectionsToLocation(message.place.lat, message.place.lng, message.place.name);
+                                break;
+                            case 'exploreNearby':
+                                selectLocation(message.place);
+                                findNearbyPlaces(message.category);
+                                break;
+                            case 'showItinerary':
+                                showItinerary(message.itinerary);
+                                break;
+                            case 'setOverlays':
+                                hideLoading();
+                                setOverlays(message.overlays);
+                                break;
+                            case 'focusOverlay':
+                                zoomToOverlay(message.id);
+                                break;
+                            case 'reverseGeocodeResult':
+                                showReverseGeocodeResult(message.requestId, message.place);
+                                break;
+                            case 'setOfflineMode':
+                                setOfflineMode(message.offline);
+                                break;
+                            case 'setTileSource':
+                                setTileSource(message.source);
+                                break;
+                            case 'getMapBounds':
+                                respond(message.requestId, getMapBoundingBox(map.getBounds()));
+                                break;
+                            case 'drawRectangle':
+                                startRectangleDraw(message.requestId);
+                                break;
                             case 'searchResults':
-                                showSearchResults(message.results);
+                                showSearchResults(message.results, message.query);
+                                break;
+                            case 'setSearchHistory':
+                                searchHistory = message.entries;
                                 break;
                             case 'showNearbyPlaces':
                                 showNearbyPlaces(message.places, message.category);
                                 break;
                             case 'showDirections':
-                                showDirections(message.directions);
+                                showDirections(message.routes);
                                 break;
                             case 'exactLocationResult':
                                 setCurrentLocation(
@@ -1395,6 +2730,8 @@ export class ApiMapPanel {
 
     public dispose() {
         ApiMapPanel.currentPanel = undefined;
+        this._pendingRequests.forEach(resolve => resolve(undefined));
+        this._pendingRequests.clear();
         this._panel.dispose();
         while (this._disposables.length) {
             const x = this._disposables.pop();
@@ -1403,4 +2740,29 @@ export class ApiMapPanel {
             }
         }
     }
-}
\ No newline at end of file
+}
+
+// Paragraphs and list items as separate lines, for popups that cannot fit a whole section
+function textLines(text: string, maxLines: number): string[] {
+    const lines = text.trim().split(/\n\s*\n/).flatMap(block => {
+        const blockLines = block.split('\n').map(line => line.trim()).filter(Boolean);
+        return blockLines.every(line => /^[-*]\s/.test(line))
+            ? blockLines.map(line => line.replace(/^[-*]\s+/, ''))
+            : [blockLines.join(' ')];
+    }).filter(Boolean);
+    return lines.slice(0, maxLines);
+}
+
+// First paragraph as plain text, cut at a word boundary
+function firstParagraph(text: string, maxLength: number): string {
+    const paragraph = text.trim().split(/\n\s*\n/)[0]
+        .split('\n')
+        .map(line => line.trim().replace(/^[-*]\s+/, ''))
+        .join(' ');
+    if (paragraph.length <= maxLength) {
+        return paragraph;
+    }
+    // Text without a space to break at (a long URL, CJK) is cut at the limit instead
+    const cut = paragraph.lastIndexOf(' ', maxLength);
+    return paragraph.slice(0, cut > 0 ? cut : maxLength) + '…';
+}
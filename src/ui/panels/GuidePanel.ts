@@ -0,0 +1,371 @@
+import * as vscode from 'vscode';
+import { ContentManager } from '../../guide/contentManager';
+import { GUIDE_SECTION_TITLES, GuideSections, GuideSight } from '../../guide/guidePack';
+import { GuidePackSource, StoredGuidePack } from '../../storage/repositories/guideRepository';
+import { escapeHtml, getContentSecurityPolicy, getNonce } from '../webviewAssets';
+
+// Reads guide packs from the database only, so it works the same with or without a network
+export class GuidePanel {
+    public static currentPanel: GuidePanel | undefined;
+    private readonly _panel: vscode.WebviewPanel;
+    private _disposables: vscode.Disposable[] = [];
+    private _selectedId: string | undefined;
+
+    public static createOrShow(contentManager: ContentManager, guideId?: string) {
+        if (GuidePanel.currentPanel) {
+            GuidePanel.currentPanel._panel.reveal();
+            if (guideId) {
+                GuidePanel.currentPanel.select(guideId);
+            }
+            return;
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            'offlineMapGuide',
+            'Travel Guide',
+            vscode.ViewColumn.Beside,
+            {
+                enableScripts: true,
+                localResourceRoots: []
+            }
+        );
+
+        GuidePanel.currentPanel = new GuidePanel(panel, contentManager, guideId);
+    }
+
+    private constructor(
+        panel: vscode.WebviewPanel,
+        private contentManager: ContentManager,
+        guideId: string | undefined
+    ) {
+        this._panel = panel;
+        this._selectedId = guideId;
+
+        this._update();
+
+        this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+
+        // Packs added or updated elsewhere show up without reopening the panel
+        this.contentManager.onDidChange(() => this._update(), null, this._disposables);
+
+        this._panel.webview.onDidReceiveMessage(
+            (message) => {
+                switch (message.command) {
+                    case 'selectGuide':
+                        this.select(message.id);
+                        break;
+                    case 'showOnMap':
+                        vscode.commands.executeCommand('offlineMap.showPlaceOnMap', {
+                            name: message.name,
+                            lat: parseFloat(message.lat),
+                            lng: parseFloat(message.lng),
+                            type: 'attraction',
+                            description: message.description
+                        });
+                        break;
+                    case 'addGuidePacks':
+                        vscode.commands.executeCommand('offlineMap.addGuidePacks');
+                        break;
+                    case 'saveNote':
+                        this.contentManager.saveNote(message.id, message.text || '').then(
+                            () => vscode.window.showInformationMessage('Notes saved.'),
+                            error => vscode.window.showErrorMessage(`Failed to save notes: ${error instanceof Error ? error.message : error}`)
+                        );
+                        break;
+                    case 'exportGuides':
+                        vscode.commands.executeCommand('offlineMap.exportGuides');
+                        break;
+                    case 'importGuides':
+                        vscode.commands.executeCommand('offlineMap.importGuides');
+                        break;
+                }
+            },
+            null,
+            this._disposables
+        );
+    }
+
+    private select(guideId: string) {
+        this._selectedId = guideId;
+        this._update();
+    }
+
+    private async _update() {
+        const guides = await this.contentManager.getGuides().catch(error => {
+            console.error('Failed to load guide packs:', error);
+            return [];
+        });
+        const selected = guides.find(guide => guide.id === this._selectedId) || guides[0];
+        const note = selected ? await this.contentManager.getNote(selected.id).catch(() => '') : '';
+        this._panel.title = selected ? `Guide: ${selected.name}` : 'Travel Guide';
+        this._panel.webview.html = this._getHtmlForWebview(this._panel.webview, guides, selected, note);
+    }
+
+    private _getHtmlForWebview(webview: vscode.Webview, guides: StoredGuidePack[], selected: StoredGuidePack | undefined, note: string): string {
+        const nonce = getNonce();
+
+        return `
+            <!DOCTYPE html>
+            <html>
+            <head>
+                <meta charset="UTF-8">
+                <meta http-equiv="Content-Security-Policy" content="${getContentSecurityPolicy(webview, nonce)}">
+                <meta name="viewport" content="width=device-width, initial-scale=1.0">
+                <title>Travel Guide</title>
+                <style>
+                    body {
+                        display: flex;
+                        margin: 0;
+                        padding: 0;
+                        font-family: var(--vscode-font-family);
+                        color: var(--vscode-foreground);
+                        background: var(--vscode-editor-background);
+                    }
+
+                    .guide-list {
+                        width: 220px;
+                        flex-shrink: 0;
+                        min-height: 100vh;
+                        padding: 12px 0;
+                        border-right: 1px solid var(--vscode-panel-border);
+                    }
+
+                    .guide-list-item {
+                        display: block;
+                        width: 100%;
+                        padding: 8px 16px;
+                        border: none;
+                        background: none;
+                        color: inherit;
+                        font: inherit;
+                        text-align: left;
+                        cursor: pointer;
+                    }
+
+                    .guide-list-item:hover {
+                        background: var(--vscode-list-hoverBackground);
+                    }
+
+                    .guide-list-item.selected {
+                        background: var(--vscode-list-activeSelectionBackground);
+                        color: var(--vscode-list-activeSelectionForeground);
+                    }
+
+                    .guide-list-item small {
+                        display: block;
+                        opacity: 0.75;
+                    }
+
+                    .guide-list-actions {
+                        display: flex;
+                        flex-direction: column;
+                        gap: 6px;
+                        padding: 12px 16px;
+                    }
+
+                    .guide-notes textarea {
+                        display: block;
+                        box-sizing: border-box;
+                        width: 100%;
+                        min-height: 96px;
+                        margin-bottom: 6px;
+                        padding: 6px 8px;
+                        font: inherit;
+                        color: var(--vscode-input-foreground);
+                        background: var(--vscode-input-background);
+                        border: 1px solid var(--vscode-input-border, var(--vscode-panel-border));
+                        resize: vertical;
+                    }
+
+                    .guide-content {
+                        flex: 1;
+                        max-width: 760px;
+                        padding: 16px 32px 48px;
+                        line-height: 1.55;
+                    }
+
+                    .guide-meta {
+                        opacity: 0.75;
+                        margin-top: -8px;
+                    }
+
+                    .sight {
+                        margin: 12px 0;
+                        padding: 12px 16px;
+                        border: 1px solid var(--vscode-panel-border);
+                        border-radius: 6px;
+                    }
+
+                    .sight h3 {
+                        margin: 0 0 6px;
+                    }
+
+                    .sight-facts {
+                        border-collapse: collapse;
+                        margin: 6px 0;
+                    }
+
+                    .sight-facts td {
+                        padding: 2px 12px 2px 0;
+                        vertical-align: top;
+                    }
+
+                    .sight-facts td:first-child {
+                        opacity: 0.75;
+                        white-space: nowrap;
+                    }
+
+                    button.action {
+                        padding: 4px 12px;
+                        border: none;
+                        border-radius: 2px;
+                        background: var(--vscode-button-background);
+                        color: var(--vscode-button-foreground);
+                        cursor: pointer;
+                    }
+
+                    button.action:hover {
+                        background: var(--vscode-button-hoverBackground);
+                    }
+
+                    button.secondary {
+                        background: var(--vscode-button-secondaryBackground);
+                        color: var(--vscode-button-secondaryForeground);
+                    }
+
+                    .empty {
+                        padding: 32px;
+                    }
+                </style>
+            </head>
+            <body>
+                ${guides.length === 0 ? `
+                    <div class="empty">
+                        <h2>No guide packs installed</h2>
+                        <p>Guide packs are JSON or Markdown files describing a destination's sights, history, food and etiquette.</p>
+                        <button class="action" data-action="addGuidePacks">Add Guide Packs...</button>
+                        <button class="action secondary" data-action="importGuides">Import Guide Archive...</button>
+                    </div>
+                ` : `
+                    <nav class="guide-list">
+                        ${guides.map(guide => `
+                            <button class="guide-list-item${guide === selected ? ' selected' : ''}" data-action="selectGuide" data-id="${escapeHtml(guide.id)}">
+                                ${escapeHtml(guide.name)}
+                                <small>${escapeHtml(guide.region || '')} • v${guide.version}</small>
+                            </button>
+                        `).join('')}
+                        <div class="guide-list-actions">
+                            <button class="action secondary" data-action="addGuidePacks">Add Guide Packs...</button>
+                            <button class="action secondary" data-action="exportGuides">Export Guides...</button>
+                            <button class="action secondary" data-action="importGuides">Import Guides...</button>
+                        </div>
+                    </nav>
+                    <main class="guide-content">
+                        ${selected ? this.renderGuide(selected, note) : ''}
+                    </main>
+                `}
+
+                <script nonce="${nonce}">
+                    const vscode = acquireVsCodeApi();
+
+                    // Inline handlers are blocked by the Content-Security-Policy
+                    document.addEventListener('click', (e) => {
+                        const target = e.target.closest('[data-action]');
+                        if (target) {
+                            const message = { ...target.dataset, command: target.dataset.action };
+                            // data-input names a field whose value goes with the action
+                            if (target.dataset.input) {
+                                message.text = document.getElementById(target.dataset.input).value;
+                            }
+                            vscode.postMessage(message);
+                        }
+                    });
+                </script>
+            </body>
+            </html>
+        `;
+    }
+
+    private renderGuide(guide: StoredGuidePack, note: string): string {
+        const sections = (Object.keys(GUIDE_SECTION_TITLES) as (keyof GuideSections)[])
+            .filter(key => guide.sections[key])
+            .map(key => `
+                <section>
+                    ${key === 'overview' ? '' : `<h2>${GUIDE_SECTION_TITLES[key]}</h2>`}
+                    ${renderText(guide.sections[key]!)}
+                </section>
+            `);
+
+        return `
+            <h1>${escapeHtml(guide.name)}</h1>
+            <p class="guide-meta">
+                ${escapeHtml([guide.region, `Version ${guide.version}`, SOURCE_LABELS[guide.source]].filter(Boolean).join(' • '))}
+            </p>
+            <button class="action" data-action="showOnMap" data-name="${escapeHtml(guide.name)}" data-lat="${guide.lat}" data-lng="${guide.lng}"
+                data-description="${escapeHtml(guide.region || '')}">Show on Map</button>
+            ${sections.join('')}
+            ${guide.sights.length > 0 ? `
+                <section>
+                    <h2>Sights</h2>
+                    ${guide.sights.map(sight => this.renderSight(sight, guide)).join('')}
+                </section>
+            ` : ''}
+            <section class="guide-notes">
+                <h2>My notes</h2>
+                <textarea id="guideNotes" placeholder="Your own tips for ${escapeHtml(guide.name)}; included when you export guides">${escapeHtml(note)}</textarea>
+                <button class="action secondary" data-action="saveNote" data-id="${escapeHtml(guide.id)}" data-input="guideNotes">Save Notes</button>
+            </section>
+        `;
+    }
+
+    private renderSight(sight: GuideSight, guide: StoredGuidePack): string {
+        const facts = [
+            ['Entry fee', sight.entryFee],
+            ['Timings', sight.timings]
+        ].filter(fact => fact[1]);
+
+        return `
+            <div class="sight">
+                <h3>${escapeHtml(sight.name)}</h3>
+                ${facts.length > 0 ? `
+                    <table class="sight-facts">
+                        ${facts.map(fact => `<tr><td>${fact[0]}</td><td>${escapeHtml(fact[1]!)}</td></tr>`).join('')}
+                    </table>
+                ` : ''}
+                ${sight.description ? renderText(sight.description) : ''}
+                ${sight.lat !== undefined && sight.lng !== undefined ? `
+                    <button class="action secondary" data-action="showOnMap" data-name="${escapeHtml(`${sight.name}, ${guide.name}`)}"
+                        data-lat="${sight.lat}" data-lng="${sight.lng}" data-description="${escapeHtml(`Sight • ${guide.name}`)}">Show on Map</button>
+                ` : ''}
+            </div>
+        `;
+    }
+
+    public dispose() {
+        GuidePanel.currentPanel = undefined;
+        this._panel.dispose();
+        while (this._disposables.length) {
+            const x = this._disposables.pop();
+            if (x) {
+                x.dispose();
+            }
+        }
+    }
+}
+
+const SOURCE_LABELS: { [source in GuidePackSource]: string } = {
+    bundled: 'Built-in guide',
+    file: 'Added guide',
+    archive: 'Imported guide'
+};
+
+// Paragraphs separated by blank lines; a paragraph made of "- " lines becomes a list
+function renderText(text: string): string {
+    return text.split(/\n\s*\n/).map(block => {
+        const lines = block.split('\n').map(line => line.trim()).filter(Boolean);
+        if (lines.length > 0 && lines.every(line => /^[-*]\s/.test(line))) {
+            return `<ul>${lines.map(line => `<li>${escapeHtml(line.replace(/^[-*]\s+/, ''))}</li>`).join('')}</ul>`;
+        }
+        return lines.length > 0 ? `<p>${escapeHtml(lines.join(' '))}</p>` : '';
+    }).join('');
+}
@@ -0,0 +1,563 @@
+import * as vscode from 'vscode';
+import { ItineraryPlanner, parseVisitMinutes } from '../../itinerary/itineraryPlanner';
+import { Itinerary, ScheduledDay, formatClock, formatDuration, parseClock } from '../../itinerary/itinerary';
+import { TRAVEL_MODES, TravelMode } from '../../routing/travelProfiles';
+import { escapeHtml, getContentSecurityPolicy, getNonce } from '../webviewAssets';
+
+const MODE_LABELS: { [mode in TravelMode]: string } = {
+    driving: '🚗 Drive',
+    walking: '🚶 Walk',
+    cycling: '🚴 Bike'
+};
+
+// One itinerary at a time; every edit is saved straight away, so there is nothing to lose on close
+export class ItineraryPanel {
+    public static currentPanel: ItineraryPanel | undefined;
+    private readonly _panel: vscode.WebviewPanel;
+    private _disposables: vscode.Disposable[] = [];
+    private _itineraryId: number;
+    // Days that were already overbooked, so the warning is shown once per day rather than on every edit
+    private _overbookedDays = new Set<number>();
+    private _renderGeneration = 0;
+
+    public static createOrShow(planner: ItineraryPlanner, itineraryId: number) {
+        if (ItineraryPanel.currentPanel) {
+            ItineraryPanel.currentPanel._panel.reveal();
+            ItineraryPanel.currentPanel.open(itineraryId);
+            return;
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            'offlineMapItinerary',
+            'Itinerary',
+            vscode.ViewColumn.Beside,
+            {
+                enableScripts: true,
+                localResourceRoots: []
+            }
+        );
+
+        ItineraryPanel.currentPanel = new ItineraryPanel(panel, planner, itineraryId);
+    }
+
+    private constructor(
+        panel: vscode.WebviewPanel,
+        private planner: ItineraryPlanner,
+        itineraryId: number
+    ) {
+        this._panel = panel;
+        this._itineraryId = itineraryId;
+
+        this._update();
+
+        this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+
+        this.planner.onDidChange(id => {
+            if (id === this._itineraryId) {
+                this._update();
+            }
+        }, null, this._disposables);
+
+        this._panel.webview.onDidReceiveMessage(
+            message => this.handleMessage(message).catch(error => {
+                vscode.window.showErrorMessage(`Itinerary update failed: ${error instanceof Error ? error.message : error}`);
+            }),
+            null,
+            this._disposables
+        );
+    }
+
+    private open(itineraryId: number) {
+        this._itineraryId = itineraryId;
+        this._overbookedDays.clear();
+        this._update();
+    }
+
+    private async handleMessage(message: any): Promise<void> {
+        const day = message.day !== undefined ? parseInt(message.day, 10) : -1;
+        const index = message.index !== undefined ? parseInt(message.index, 10) : -1;
+
+        switch (message.command) {
+            case 'addStop': {
+                const stop = await this.planner.promptForStop();
+                if (stop) {
+                    await this.edit(itinerary => {
+                        if (!itinerary.days[day]) {
+                            return false;
+                        }
+                        itinerary.days[day].stops.push(stop);
+                    });
+                }
+                break;
+            }
+            case 'removeStop':
+                await this.edit(itinerary => {
+                    const stops = itinerary.days[day]?.stops;
+                    if (!stops || !stops[index]) {
+                        return false;
+                    }
+                    stops.splice(index, 1);
+                });
+                break;
+            case 'moveStop':
+                await this.edit(itinerary => {
+                    const stops = itinerary.days[day]?.stops;
+                    const target = index + parseInt(message.delta, 10);
+                    if (!stops || !stops[index] || target < 0 || target >= stops.length) {
+                        return false;
+                    }
+                    [stops[index], stops[target]] = [stops[target], stops[index]];
+                });
+                break;
+            case 'moveStopToDay':
+                await this.edit(itinerary => {
+                    const stops = itinerary.days[day]?.stops;
+                    const targetDay = itinerary.days[parseInt(message.value, 10)];
+                    if (!stops || !stops[index] || !targetDay || targetDay === itinerary.days[day]) {
+                        return false;
+                    }
+                    targetDay.stops.push(...stops.splice(index, 1));
+                });
+                break;
+            case 'setVisitMinutes': {
+                const minutes = parseVisitMinutes(message.value);
+                const saved = minutes !== undefined && await this.edit(itinerary => {
+                    const stop = itinerary.days[day]?.stops[index];
+                    if (!stop) {
+                        return false;
+                    }
+                    stop.visitMinutes = minutes;
+                });
+                if (!saved) {
+                    this._update();
+                }
+                break;
+            }
+            case 'optimizeDay':
+                await this.planner.promptAndOptimizeDay(this._itineraryId, day);
+                break;
+            case 'addDay':
+                await this.edit(itinerary => {
+                    itinerary.days.push({ stops: [] });
+                });
+                break;
+            case 'removeDay': {
+                const stops = (await this.planner.getItinerary(this._itineraryId))?.days[day]?.stops;
+                if (stops && stops.length > 0) {
+                    const choice = await vscode.window.showWarningMessage(
+                        `Remove day ${day + 1} and its ${stops.length} stop(s)?`,
+                        { modal: true },
+                        'Remove'
+                    );
+                    if (choice !== 'Remove') {
+                        return;
+                    }
+                }
+                await this.edit(itinerary => {
+                    if (itinerary.days.length <= 1 || !itinerary.days[day]) {
+                        return false;
+                    }
+                    itinerary.days.splice(day, 1);
+                    this._overbookedDays.clear();
+                });
+                break;
+            }
+            case 'setMode':
+                if (TRAVEL_MODES.includes(message.value)) {
+                    await this.edit(itinerary => {
+                        itinerary.mode = message.value;
+                    });
+                }
+                break;
+            case 'setDayStart':
+                if (parseClock(message.value) !== undefined) {
+                    await this.edit(itinerary => {
+                        itinerary.dayStart = message.value;
+                    });
+                } else {
+                    this._update();
+                }
+                break;
+            case 'setDayHours': {
+                const hours = Number(message.value);
+                if (hours > 0 && hours <= 24) {
+                    await this.edit(itinerary => {
+                        itinerary.dayHours = hours;
+                    });
+                } else {
+                    this._update();
+                }
+                break;
+            }
+            case 'rename':
+                await this.planner.promptAndRename(this._itineraryId);
+                break;
+            default: {
+                const itinerary = await this.planner.getItinerary(this._itineraryId);
+                if (itinerary) {
+                    await this.handleItineraryCommand(message, itinerary);
+                }
+            }
+        }
+    }
+
+    // Commands that only read the itinerary
+    private async handleItineraryCommand(message: any, itinerary: Itinerary): Promise<void> {
+        switch (message.command) {
+            case 'showOnMap':
+                vscode.commands.executeCommand(
+                    'offlineMap.showItineraryOnMap',
+                    this.planner.toOverlay(itinerary, await this.planner.schedule(itinerary))
+                );
+                break;
+            case 'exportItinerary':
+                vscode.commands.executeCommand('offlineMap.exportItinerary', itinerary);
+                break;
+            case 'openItinerary': {
+                const id = await this.planner.promptAndOpen();
+                if (id !== undefined) {
+                    this.open(id);
+                }
+                break;
+            }
+            case 'deleteItinerary':
+                if (await this.planner.promptAndDelete(itinerary)) {
+                    this.dispose();
+                }
+                break;
+        }
+    }
+
+    // Prompts are not modal, so each change is applied to the itinerary as saved when it is made
+    private edit(mutate: (itinerary: Itinerary) => boolean | void): Promise<boolean> {
+        return this.planner.update(this._itineraryId, mutate);
+    }
+
+    private async _update() {
+        // Legs may take a while to look up; only the latest render is shown
+        const generation = ++this._renderGeneration;
+        const itinerary = await this.planner.getItinerary(this._itineraryId).catch(error => {
+            console.error('Failed to load itinerary:', error);
+            return undefined;
+        });
+        if (!itinerary) {
+            this._panel.title = 'Itinerary';
+            this._panel.webview.html = this._getHtmlForWebview(this._panel.webview, undefined, []);
+            return;
+        }
+
+        const schedule = await this.planner.schedule(itinerary);
+        if (generation !== this._renderGeneration) {
+            return;
+        }
+        this._panel.title = `Itinerary: ${itinerary.name}`;
+        this._panel.webview.html = this._getHtmlForWebview(this._panel.webview, itinerary, schedule);
+        this.warnOverbooked(schedule);
+    }
+
+    private warnOverbooked(schedule: ScheduledDay[]) {
+        const newlyOverbooked = schedule
+            .map((day, index) => ({ day, index }))
+            .filter(({ day, index }) => day.overbookedMinutes > 0 && !this._overbookedDays.has(index));
+        this._overbookedDays = new Set(schedule.map((day, index) => day.overbookedMinutes > 0 ? index : -1).filter(index => index >= 0));
+        if (newlyOverbooked.length > 0) {
+            vscode.window.showWarningMessage(
+                newlyOverbooked
+                    .map(({ day, index }) => `Day ${index + 1} is overbooked by ${formatDuration(day.overbookedMinutes)}.`)
+                    .join(' ') + ' Move a stop to another day or shorten a visit.'
+            );
+        }
+    }
+
+    private _getHtmlForWebview(webview: vscode.Webview, itinerary: Itinerary | undefined, schedule: ScheduledDay[]): string {
+        const nonce = getNonce();
+
+        return `
+            <!DOCTYPE html>
+            <html>
+            <head>
+                <meta charset="UTF-8">
+                <meta http-equiv="Content-Security-Policy" content="${getContentSecurityPolicy(webview, nonce)}">
+                <meta name="viewport" content="width=device-width, initial-scale=1.0">
+                <title>Itinerary</title>
+                <style>
+                    body {
+                        margin: 0;
+                        padding: 16px 24px 48px;
+                        font-family: var(--vscode-font-family);
+                        color: var(--vscode-foreground);
+                        background: var(--vscode-editor-background);
+                    }
+
+                    header {
+                        display: flex;
+                        flex-wrap: wrap;
+                        align-items: center;
+                        gap: 12px;
+                    }
+
+                    header h1 {
+                        flex: 1;
+                        margin: 0;
+                    }
+
+                    .settings {
+                        display: flex;
+                        flex-wrap: wrap;
+                        gap: 16px;
+                        margin: 12px 0 20px;
+                    }
+
+                    .settings label {
+                        display: flex;
+                        align-items: center;
+                        gap: 6px;
+                    }
+
+                    input, select {
+                        padding: 3px 6px;
+                        font: inherit;
+                        color: var(--vscode-input-foreground);
+                        background: var(--vscode-input-background);
+                        border: 1px solid var(--vscode-input-border, var(--vscode-panel-border));
+                    }
+
+                    input[type="number"] {
+                        width: 64px;
+                    }
+
+                    .day {
+                        margin-bottom: 20px;
+                        border: 1px solid var(--vscode-panel-border);
+                        border-left: 4px solid var(--day-color);
+                        border-radius: 6px;
+                    }
+
+                    .day-header {
+                        display: flex;
+                        align-items: center;
+                        gap: 12px;
+                        padding: 10px 14px;
+                    }
+
+                    .day-header h2 {
+                        margin: 0;
+                        font-size: 1.1em;
+                    }
+
+                    .day-totals {
+                        flex: 1;
+                        opacity: 0.8;
+                    }
+
+                    .overbooked {
+                        margin: 0 14px 10px;
+                        padding: 6px 10px;
+                        border-radius: 4px;
+                        color: var(--vscode-inputValidation-errorForeground, inherit);
+                        background: var(--vscode-inputValidation-errorBackground);
+                        border: 1px solid var(--vscode-inputValidation-errorBorder);
+                    }
+
+                    .leg {
+                        padding: 2px 14px 2px 52px;
+                        font-size: 0.9em;
+                        opacity: 0.75;
+                    }
+
+                    .stop {
+                        display: flex;
+                        align-items: center;
+                        gap: 10px;
+                        padding: 6px 14px;
+                    }
+
+                    .stop-number {
+                        display: inline-flex;
+                        align-items: center;
+                        justify-content: center;
+                        width: 26px;
+                        height: 26px;
+                        border-radius: 50%;
+                        color: #fff;
+                        background: var(--day-color);
+                        font-weight: 600;
+                        flex-shrink: 0;
+                    }
+
+                    .stop-name {
+                        flex: 1;
+                    }
+
+                    .stop-name small {
+                        display: block;
+                        opacity: 0.75;
+                    }
+
+                    .day-actions {
+                        padding: 8px 14px 12px;
+                    }
+
+                    button.action {
+                        padding: 4px 12px;
+                        border: none;
+                        border-radius: 2px;
+                        background: var(--vscode-button-background);
+                        color: var(--vscode-button-foreground);
+                        cursor: pointer;
+                    }
+
+                    button.action:hover {
+                        background: var(--vscode-button-hoverBackground);
+                    }
+
+                    button.secondary {
+                        background: var(--vscode-button-secondaryBackground);
+                        color: var(--vscode-button-secondaryForeground);
+                    }
+
+                    button.icon {
+                        padding: 2px 6px;
+                        border: none;
+                        background: none;
+                        color: inherit;
+                        cursor: pointer;
+                        opacity: 0.75;
+                    }
+
+                    button.icon:hover {
+                        opacity: 1;
+                    }
+
+                    button.icon:disabled {
+                        visibility: hidden;
+                    }
+
+                    .empty {
+                        padding: 8px 14px;
+                        opacity: 0.75;
+                    }
+                </style>
+            </head>
+            <body>
+                ${itinerary ? this.renderItinerary(itinerary, schedule) : `
+                    <h1>Itinerary not found</h1>
+                    <p>It may have been deleted.</p>
+                    <button class="action" data-action="openItinerary">Open Another Itinerary...</button>
+                `}
+
+                <script nonce="${nonce}">
+                    const vscode = acquireVsCodeApi();
+
+                    // Inline handlers are blocked by the Content-Security-Policy
+                    document.addEventListener('click', (e) => {
+                        const target = e.target.closest('[data-action]');
+                        if (target && !target.disabled) {
+                            vscode.postMessage({ ...target.dataset, command: target.dataset.action });
+                        }
+                    });
+
+                    // Fields name the setting they change in data-change
+                    document.addEventListener('change', (e) => {
+                        const target = e.target.closest('[data-change]');
+                        if (target) {
+                            vscode.postMessage({ ...target.dataset, command: target.dataset.change, value: target.value });
+                        }
+                    });
+                </script>
+            </body>
+            </html>
+        `;
+    }
+
+    private renderItinerary(itinerary: Itinerary, schedule: ScheduledDay[]): string {
+        const totalStops = itinerary.days.reduce((total, day) => total + day.stops.length, 0);
+
+        return `
+            <header>
+                <h1>${escapeHtml(itinerary.name)}</h1>
+                <button class="action" data-action="showOnMap"${totalStops === 0 ? ' disabled' : ''}>Show on Map</button>
+                <button class="action secondary" data-action="exportItinerary"${totalStops === 0 ? ' disabled' : ''}>Export...</button>
+                <button class="action secondary" data-action="rename">Rename</button>
+                <button class="action secondary" data-action="openItinerary">Open...</button>
+                <button class="action secondary" data-action="deleteItinerary">Delete</button>
+            </header>
+            <div class="settings">
+                <label>Travel
+                    <select data-change="setMode">
+                        ${TRAVEL_MODES.map(mode => `<option value="${mode}"${mode === itinerary.mode ? ' selected' : ''}>${MODE_LABELS[mode]}</option>`).join('')}
+                    </select>
+                </label>
+                <label>Days start at <input type="time" data-change="setDayStart" value="${escapeHtml(itinerary.dayStart)}"></label>
+                <label>Hours per day <input type="number" min="1" max="24" step="0.5" data-change="setDayHours" value="${itinerary.dayHours}"></label>
+            </div>
+            ${schedule.map((day, index) => this.renderDay(itinerary, day, index)).join('')}
+            <button class="action secondary" data-action="addDay">Add Day</button>
+        `;
+    }
+
+    private renderDay(itinerary: Itinerary, day: ScheduledDay, dayIndex: number): string {
+        const totals = day.stops.length === 0 ? 'No stops yet' : [
+            `${day.stops.length} stop(s)`,
+            `${formatDuration(day.travelMinutes + day.visitMinutes)} total`,
+            `${formatDuration(day.travelMinutes)} travel (${(day.distanceMeters / 1000).toFixed(1)} km)`,
+            `${formatDuration(day.visitMinutes)} visiting`
+        ].join(' • ');
+        const approximate = day.stops.some(stop => stop.leg?.approximate);
+
+        return `
+            <section class="day" style="--day-color: ${this.planner.dayColor(dayIndex)}">
+                <div class="day-header">
+                    <h2>Day ${dayIndex + 1}</h2>
+                    <span class="day-totals">${escapeHtml(totals)}</span>
+                    <button class="icon" data-action="removeDay" data-day="${dayIndex}" title="Remove day"${itinerary.days.length === 1 ? ' disabled' : ''}>✕</button>
+                </div>
+                ${day.overbookedMinutes > 0 ? `
+                    <div class="overbooked">
+                        Overbooked by ${formatDuration(day.overbookedMinutes)}: the plan ends at ${formatClock(day.stops[day.stops.length - 1].departure)},
+                        beyond the ${itinerary.dayHours} hours set per day.
+                    </div>
+                ` : ''}
+                ${day.stops.length === 0 ? '<div class="empty">Add places to visit on this day.</div>' : ''}
+                ${day.stops.map((scheduled, index) => `
+                    ${scheduled.leg ? `
+                        <div class="leg">↓ ${formatDuration(scheduled.leg.durationSeconds / 60)} • ${(scheduled.leg.distanceMeters / 1000).toFixed(1)} km${scheduled.leg.approximate ? ' (straight-line estimate)' : ''}</div>
+                    ` : index > 0 ? '<div class="leg">↓ No route found</div>' : ''}
+                    <div class="stop">
+                        <span class="stop-number">${index + 1}</span>
+                        <span class="stop-name">
+                            ${escapeHtml(scheduled.stop.name)}
+                            <small>${formatClock(scheduled.arrival)}–${formatClock(scheduled.departure)}</small>
+                        </span>
+                        <label><input type="number" min="0" max="1440" step="15" data-change="setVisitMinutes" data-day="${dayIndex}" data-index="${index}"
+                            value="${scheduled.stop.visitMinutes}" title="Minutes at this stop"> min</label>
+                        ${itinerary.days.length > 1 ? `
+                            <select data-change="moveStopToDay" data-day="${dayIndex}" data-index="${index}" title="Move to another day">
+                                ${itinerary.days.map((_, target) => `<option value="${target}"${target === dayIndex ? ' selected' : ''}>Day ${target + 1}</option>`).join('')}
+                            </select>
+                        ` : ''}
+                        <button class="icon" data-action="moveStop" data-day="${dayIndex}" data-index="${index}" data-delta="-1" title="Move up"${index === 0 ? ' disabled' : ''}>▲</button>
+                        <button class="icon" data-action="moveStop" data-day="${dayIndex}" data-index="${index}" data-delta="1" title="Move down"${index === day.stops.length - 1 ? ' disabled' : ''}>▼</button>
+                        <button class="icon" data-action="removeStop" data-day="${dayIndex}" data-index="${index}" title="Remove stop">✕</button>
+                    </div>
+                `).join('')}
+                ${approximate ? '<div class="empty">Some legs are straight-line estimates. Import road data for offline routes.</div>' : ''}
+                <div class="day-actions">
+                    <button class="action secondary" data-action="addStop" data-day="${dayIndex}">Add Stop...</button>
+                    ${day.stops.length >= 3 ? `<button class="action secondary" data-action="optimizeDay" data-day="${dayIndex}">Optimize Order...</button>` : ''}
+                </div>
+            </section>
+        `;
+    }
+
+    public dispose() {
+        ItineraryPanel.currentPanel = undefined;
+        this._panel.dispose();
+        while (this._disposables.length) {
+            const x = this._disposables.pop();
+            if (x) {
+                x.dispose();
+            }
+        }
+    }
+}
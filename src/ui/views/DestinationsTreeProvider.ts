@@ -0,0 +1,84 @@
+import * as vscode from 'vscode';
+import { Destination, DestinationCatalog, DestinationCity, DestinationState } from '../../places/destinationCatalog';
+
+export type DestinationsNode =
+    | { kind: 'state'; state: DestinationState }
+    | ({ kind: 'city' } & DestinationCity)
+    // Nearby cities list the same sights, so a destination's id includes the city it is listed under
+    | ({ kind: 'destination'; cityId: string } & Destination);
+
+// States, then cities, then what to see; cities and destinations carry a place, which the
+// Show on Map, Get Directions and Explore Nearby commands act on
+export class DestinationsTreeProvider implements vscode.TreeDataProvider<DestinationsNode>, vscode.Disposable {
+    private changeEmitter = new vscode.EventEmitter<DestinationsNode | undefined>();
+    private subscription: vscode.Disposable;
+
+    public readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    constructor(private catalog: DestinationCatalog) {
+        this.subscription = catalog.onDidChange(() => this.changeEmitter.fire(undefined));
+    }
+
+    public getTreeItem(node: DestinationsNode): vscode.TreeItem {
+        if (node.kind === 'state') {
+            const item = new vscode.TreeItem(node.state.name, vscode.TreeItemCollapsibleState.Collapsed);
+            item.id = `state:${node.state.name}`;
+            item.description = [
+                node.state.guideCount > 0 ? `${node.state.guideCount} guide(s)` : '',
+                node.state.cityCount > 0 ? `${node.state.cityCount} place(s)` : ''
+            ].filter(Boolean).join(' • ');
+            item.iconPath = new vscode.ThemeIcon('map');
+            item.contextValue = 'destinationState';
+            return item;
+        }
+
+        const place = node.place;
+        const item = new vscode.TreeItem(
+            place.name,
+            node.kind === 'city' ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None
+        );
+        if (node.kind === 'city') {
+            item.id = cityId(node);
+            item.iconPath = new vscode.ThemeIcon(node.guideId ? 'book' : 'location');
+            item.description = node.guideId ? 'Guide' : undefined;
+            item.contextValue = node.guideId ? 'destinationCityWithGuide' : 'destinationCity';
+        } else {
+            item.id = `${node.cityId}/destination:${place.name}:${place.lat},${place.lng}`;
+            item.iconPath = new vscode.ThemeIcon(node.guideId ? 'star-full' : 'star-empty');
+            item.description = place.category || (node.guideId ? undefined : place.type);
+            item.contextValue = node.guideId ? 'destinationWithGuide' : 'destination';
+        }
+        item.tooltip = new vscode.MarkdownString([
+            `**${place.name}**`,
+            place.address || place.description,
+            `${place.lat.toFixed(5)}, ${place.lng.toFixed(5)}`
+        ].filter(Boolean).join('\n\n'));
+        item.command = { command: 'offlineMap.revealDestination', title: 'Show on Map', arguments: [node] };
+        return item;
+    }
+
+    public async getChildren(node?: DestinationsNode): Promise<DestinationsNode[]> {
+        if (!node) {
+            const states = await this.catalog.getStates();
+            return states.map(state => ({ kind: 'state', state }));
+        }
+        if (node.kind === 'state') {
+            const cities = await this.catalog.getCities(node.state.name);
+            return cities.map(city => ({ kind: 'city', ...city }));
+        }
+        if (node.kind === 'city') {
+            const destinations = await this.catalog.getDestinations(node);
+            return destinations.map(destination => ({ kind: 'destination', cityId: cityId(node), ...destination }));
+        }
+        return [];
+    }
+
+    public dispose(): void {
+        this.subscription.dispose();
+        this.changeEmitter.dispose();
+    }
+}
+
+function cityId(city: DestinationCity): string {
+    return `city:${city.state}:${city.place.name}:${city.place.lat},${city.place.lng}`;
+}
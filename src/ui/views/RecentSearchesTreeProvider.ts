@@ -0,0 +1,49 @@
+import * as vscode from 'vscode';
+import { SearchHistory } from '../../map/searchHistory';
+import { SearchRecord } from '../../storage/repositories/searchRepository';
+
+const RECENT_SEARCH_LIMIT = 50;
+
+export type RecentSearchNode = { kind: 'search'; search: SearchRecord };
+
+// Pinned searches first, then the most used and recent; clicking one shows its place or searches again
+export class RecentSearchesTreeProvider implements vscode.TreeDataProvider<RecentSearchNode>, vscode.Disposable {
+    private changeEmitter = new vscode.EventEmitter<RecentSearchNode | undefined>();
+    private subscription: vscode.Disposable;
+
+    public readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    constructor(private searchHistory: SearchHistory) {
+        this.subscription = searchHistory.onDidChange(() => this.changeEmitter.fire(undefined));
+    }
+
+    public getTreeItem(node: RecentSearchNode): vscode.TreeItem {
+        const search = node.search;
+        const item = new vscode.TreeItem(search.query, vscode.TreeItemCollapsibleState.None);
+        item.id = `search:${search.id}`;
+        item.description = search.place && search.place.name.toLowerCase() !== search.query.toLowerCase()
+            ? search.place.name
+            : `${search.resultCount} result(s)`;
+        item.tooltip = [
+            search.place?.description,
+            `Searched ${search.useCount} time(s), last on ${new Date(search.searchedAt).toLocaleString()}`
+        ].filter(Boolean).join('\n');
+        item.iconPath = new vscode.ThemeIcon(search.pinned ? 'pinned' : 'history');
+        item.contextValue = search.pinned ? 'pinnedSearch' : 'recentSearch';
+        item.command = { command: 'offlineMap.searchAgain', title: 'Search Again', arguments: [node] };
+        return item;
+    }
+
+    public async getChildren(node?: RecentSearchNode): Promise<RecentSearchNode[]> {
+        if (node) {
+            return [];
+        }
+        const searches = await this.searchHistory.getEntries(RECENT_SEARCH_LIMIT).catch(() => []);
+        return searches.map(search => ({ kind: 'search', search }));
+    }
+
+    public dispose(): void {
+        this.subscription.dispose();
+        this.changeEmitter.dispose();
+    }
+}
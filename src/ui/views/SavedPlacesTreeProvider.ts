@@ -0,0 +1,62 @@
+import * as vscode from 'vscode';
+import { SavedPlacesManager } from '../../places/savedPlacesManager';
+import { SavedList, SavedPlace } from '../../storage/repositories/savedPlaceRepository';
+
+export type SavedPlacesNode =
+    | { kind: 'list'; list: SavedList }
+    | { kind: 'place'; place: SavedPlace };
+
+// Lists at the top level, their places beneath; the context values drive the menus in package.json
+export class SavedPlacesTreeProvider implements vscode.TreeDataProvider<SavedPlacesNode>, vscode.Disposable {
+    private changeEmitter = new vscode.EventEmitter<SavedPlacesNode | undefined>();
+    private subscription: vscode.Disposable;
+
+    public readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    constructor(private savedPlaces: SavedPlacesManager) {
+        this.subscription = savedPlaces.onDidChange(() => this.changeEmitter.fire(undefined));
+    }
+
+    public getTreeItem(node: SavedPlacesNode): vscode.TreeItem {
+        if (node.kind === 'list') {
+            const item = new vscode.TreeItem(node.list.name, vscode.TreeItemCollapsibleState.Expanded);
+            item.id = `list:${node.list.id}`;
+            item.description = `${node.list.placeCount}`;
+            item.iconPath = new vscode.ThemeIcon('list-unordered');
+            item.contextValue = 'savedList';
+            return item;
+        }
+
+        const place = node.place;
+        const item = new vscode.TreeItem(place.name, vscode.TreeItemCollapsibleState.None);
+        item.id = `place:${place.id}`;
+        item.description = place.tags.map(tag => `#${tag}`).join(' ') || place.description;
+        item.iconPath = new vscode.ThemeIcon(place.notes ? 'note' : 'location');
+        item.contextValue = 'savedPlace';
+        item.tooltip = new vscode.MarkdownString([
+            `**${place.name}**`,
+            place.address || place.description,
+            place.notes ? `*${place.notes}*` : undefined,
+            `${place.lat.toFixed(5)}, ${place.lng.toFixed(5)}`
+        ].filter(Boolean).join('\n\n'));
+        item.command = { command: 'offlineMap.revealSavedPlace', title: 'Show on Map', arguments: [node] };
+        return item;
+    }
+
+    public async getChildren(node?: SavedPlacesNode): Promise<SavedPlacesNode[]> {
+        if (!node) {
+            const lists = await this.savedPlaces.getLists();
+            return lists.map(list => ({ kind: 'list', list }));
+        }
+        if (node.kind === 'list') {
+            const places = await this.savedPlaces.getPlaces(node.list.id);
+            return places.map(place => ({ kind: 'place', place }));
+        }
+        return [];
+    }
+
+    public dispose(): void {
+        this.subscription.dispose();
+        this.changeEmitter.dispose();
+    }
+}
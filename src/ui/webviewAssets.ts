@@ -0,0 +1,52 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+
+// Leaflet and Font Awesome ship inside the extension so the map UI starts without any network
+const LEAFLET_ROOT = ['node_modules', 'leaflet', 'dist'];
+const FONT_AWESOME_ROOT = ['node_modules', '@fortawesome', 'fontawesome-free'];
+
+export interface MapAssets {
+    leafletCss: vscode.Uri;
+    leafletJs: vscode.Uri;
+    fontAwesomeCss: vscode.Uri;
+}
+
+export function getAssetRoots(extensionUri: vscode.Uri): vscode.Uri[] {
+    return [
+        vscode.Uri.joinPath(extensionUri, ...LEAFLET_ROOT),
+        vscode.Uri.joinPath(extensionUri, ...FONT_AWESOME_ROOT)
+    ];
+}
+
+export function getMapAssets(webview: vscode.Webview, extensionUri: vscode.Uri): MapAssets {
+    return {
+        leafletCss: webview.asWebviewUri(vscode.Uri.joinPath(extensionUri, ...LEAFLET_ROOT, 'leaflet.css')),
+        leafletJs: webview.asWebviewUri(vscode.Uri.joinPath(extensionUri, ...LEAFLET_ROOT, 'leaflet.js')),
+        fontAwesomeCss: webview.asWebviewUri(vscode.Uri.joinPath(extensionUri, ...FONT_AWESOME_ROOT, 'css', 'all.min.css'))
+    };
+}
+
+export function getNonce(): string {
+    return crypto.randomBytes(16).toString('base64');
+}
+
+// Only scripts carrying this load's nonce may run; tiles arrive as data: URIs from the extension
+export function getContentSecurityPolicy(webview: vscode.Webview, nonce: string): string {
+    return [
+        `default-src 'none'`,
+        `img-src ${webview.cspSource} data:`,
+        `style-src ${webview.cspSource} 'unsafe-inline'`,
+        `font-src ${webview.cspSource}`,
+        `script-src 'nonce-${nonce}'`
+    ].join('; ');
+}
+
+// For HTML built on the extension side; webview scripts keep their own copy
+export function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,9 @@
+// Optional fields are left out rather than written as null
+export function withoutUndefined<T extends object>(value: T): T {
+    return Object.fromEntries(Object.entries(value).filter(([, field]) => field !== undefined)) as T;
+}
+
+// As withoutUndefined, and empty strings go too
+export function withoutEmpty<T extends object>(value: T): T {
+    return Object.fromEntries(Object.entries(value).filter(([, field]) => field !== undefined && field !== '')) as T;
+}